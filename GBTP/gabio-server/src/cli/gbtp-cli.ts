@@ -0,0 +1,530 @@
+#!/usr/bin/env node
+/**
+ * Cliente de linha de comando do GBTP (gbtp), para atendimento e testes.
+ *
+ * Modos:
+ * - Comando único:  gbtp [opções] transfer 1001 1002 50
+ * - Roteiro:        gbtp [opções] --file roteiro.txt   ("-" lê da entrada)
+ * - Interativo:     gbtp [opções]                      (REPL)
+ *
+ * O roteiro tem um comando por linha, na mesma sintaxe do modo interativo;
+ * linhas vazias e iniciadas por "#" são ignoradas. A execução para no
+ * primeiro STATUS:ERROR, a menos que --continue seja informado.
+ *
+ * Opções:
+ *  --host <host>       Servidor (padrão: GBTP_HOST ou localhost)
+ *  --port <porta>      Porta (padrão: GBTP_PORT ou 8080)
+ *  --tls               Conecta com TLS (wss://)
+ *  --json              Usa a codificação JSON (subprotocolo gbtp-json)
+ *  --timeout <ms>      Prazo de cada requisição (padrão: 10000)
+ *  --login <conta>     Autentica antes dos comandos, com a senha de
+ *                      --password ou GBTP_PASSWORD
+ *  --password <senha>  Senha usada por --login
+ *  --file <arquivo>    Executa os comandos do arquivo
+ *  --continue          Não interrompe o roteiro em STATUS:ERROR
+ *  --help              Exibe a ajuda
+ *
+ * Códigos de saída: 0 (sucesso), 1 (alguma resposta STATUS:ERROR) e 2 (uso
+ * incorreto, requisição inválida ou falha de conexão).
+ */
+import * as fs from "fs";
+import * as readline from "readline";
+import { GBTPClient } from "../client/gbtp-client";
+import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { TEXT_CODEC } from "../protocol/gbtp-codec";
+import { JSON_CODEC } from "../protocol/json-codec";
+import { GBTPResponseError } from "../errors/client-error";
+
+/**
+ * Saída sem erros.
+ */
+const EXIT_OK = 0;
+
+/**
+ * Alguma resposta com STATUS:ERROR.
+ */
+const EXIT_ERROR_STATUS = 1;
+
+/**
+ * Uso incorreto, requisição inválida ou falha de conexão.
+ */
+const EXIT_FAILURE = 2;
+
+/**
+ * Erro de uso da linha de comando (opção, comando ou argumento inválido).
+ */
+class UsageError extends Error {}
+
+/**
+ * Opções da linha de comando.
+ */
+interface CliOptions {
+  host: string;
+  port: number;
+  tls: boolean;
+  json: boolean;
+  timeoutMs: number;
+  login?: string;
+  password?: string;
+  file?: string;
+  continueOnError: boolean;
+  help: boolean;
+  command: string[];
+}
+
+/**
+ * Comando do CLI: sintaxe (para a ajuda) e montagem da requisição.
+ */
+interface Command {
+  usage: string;
+  description: string;
+  build: (args: string[]) => GBTPRequest;
+}
+
+/**
+ * Comandos disponíveis nos três modos.
+ */
+const COMMANDS: Record<string, Command> = {
+  login: {
+    usage: "login <conta> <senha>",
+    description: "Autentica a sessão",
+    build: (args) => {
+      const [account, password] = expectArgs(args, 2, 2);
+      return new GBTPRequest("LOGIN", account, undefined, "0", { password });
+    },
+  },
+  logout: {
+    usage: "logout <conta>",
+    description: "Encerra a sessão",
+    build: (args) => simple("LOGOUT", args),
+  },
+  balance: {
+    usage: "balance <conta>",
+    description: "Consulta o saldo",
+    build: (args) => simple("BALANCE", args),
+  },
+  deposit: {
+    usage: "deposit <conta> <valor> [moeda]",
+    description: "Deposita na conta",
+    build: (args) => {
+      const [account, value, currency] = expectArgs(args, 2, 3);
+      return new GBTPRequest("DEPOSIT", account, undefined, value, {
+        currency,
+      });
+    },
+  },
+  withdraw: {
+    usage: "withdraw <conta> <valor> [moeda]",
+    description: "Saca da conta",
+    build: (args) => {
+      const [account, value, currency] = expectArgs(args, 2, 3);
+      return new GBTPRequest("WITHDRAW", account, undefined, value, {
+        currency,
+      });
+    },
+  },
+  transfer: {
+    usage: "transfer <origem> <destino> <valor> [moeda]",
+    description: "Transfere entre contas",
+    build: (args) => {
+      const [account, destination, value, currency] = expectArgs(args, 3, 4);
+      return new GBTPRequest("TRANSFER", account, destination, value, {
+        currency,
+      });
+    },
+  },
+  statement: {
+    usage: "statement <conta> [página] [tamanho]",
+    description: "Consulta o extrato",
+    build: (args) => {
+      const [account, page, pageSize] = expectArgs(args, 1, 3);
+      return new GBTPRequest("STATEMENT", account, undefined, "0", {
+        page,
+        pageSize,
+      });
+    },
+  },
+  limits: {
+    usage: "limits <conta>",
+    description: "Consulta os limites",
+    build: (args) => simple("LIMITS", args),
+  },
+  subscribe: {
+    usage: "subscribe <conta>",
+    description: "Recebe os eventos de saldo da conta",
+    build: (args) => simple("SUBSCRIBE", args),
+  },
+  unsubscribe: {
+    usage: "unsubscribe <conta>",
+    description: "Cancela os eventos de saldo da conta",
+    build: (args) => simple("UNSUBSCRIBE", args),
+  },
+  send: {
+    usage: "send CHAVE=valor ...",
+    description:
+      "Envia uma requisição qualquer (ex.: send OPERATION=LIST_SCHEDULED ACCOUNT_ID=1001)",
+    build: (args) => {
+      if (args.length === 0) {
+        throw new UsageError("Informe ao menos OPERATION=<operação>");
+      }
+      const fields = new Map([
+        ["TO_ACCOUNT_ID", ""],
+        ["VALUE", "0"],
+      ]);
+      for (const arg of args) {
+        const separator = arg.indexOf("=");
+        if (separator <= 0) {
+          throw new UsageError(`Campo inválido (use CHAVE=valor): ${arg}`);
+        }
+        fields.set(
+          arg.slice(0, separator).toUpperCase(),
+          arg.slice(separator + 1)
+        );
+      }
+      if (!fields.has("ACCOUNT_ID")) {
+        fields.set("ACCOUNT_ID", "");
+      }
+      return GBTPRequest.fromString(TEXT_CODEC.encode([...fields.entries()]));
+    },
+  },
+};
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    printHelp();
+    return EXIT_OK;
+  }
+
+  const scheme = options.tls ? "wss" : "ws";
+  const client = new GBTPClient(`${scheme}://${options.host}:${options.port}`, {
+    codec: options.json ? JSON_CODEC : TEXT_CODEC,
+    timeoutMs: options.timeoutMs,
+    reconnect: options.command.length === 0 && options.file === undefined,
+  });
+  client.onEvent((event) =>
+    console.log(
+      `[evento] ${event.event.eventType()} conta ${event.account.IDNumber()}: ${event.balance.quantity()}`
+    )
+  );
+  await client.connect();
+
+  try {
+    if (options.login !== undefined) {
+      const password = options.password ?? process.env.GBTP_PASSWORD;
+      if (password === undefined) {
+        throw new UsageError("--login exige --password ou GBTP_PASSWORD");
+      }
+      const ok = await execute(
+        client,
+        ["login", options.login, password],
+        true
+      );
+      if (!ok) {
+        return EXIT_ERROR_STATUS;
+      }
+    }
+    if (options.command.length > 0) {
+      return (await execute(client, options.command))
+        ? EXIT_OK
+        : EXIT_ERROR_STATUS;
+    }
+    if (options.file !== undefined) {
+      return await runScript(client, options);
+    }
+    await repl(client);
+    return EXIT_OK;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Executa um comando e exibe a resposta (com quiet, apenas se for de erro).
+ * @returns true se a resposta for STATUS:OK
+ * @throws UsageError ou erro de validação se o comando for inválido, ou
+ *         erro de conexão
+ */
+async function execute(
+  client: GBTPClient,
+  words: string[],
+  quiet = false
+): Promise<boolean> {
+  const [name, ...args] = words;
+  const key = name.toLowerCase();
+  const command = Object.prototype.hasOwnProperty.call(COMMANDS, key)
+    ? COMMANDS[key]
+    : undefined;
+  if (!command) {
+    throw new UsageError(`Comando desconhecido: ${name} (veja help)`);
+  }
+  const request = command.build(args);
+  try {
+    const response = await client.send(request);
+    if (!quiet) {
+      printResponse(response);
+    }
+    return true;
+  } catch (err) {
+    if (err instanceof GBTPResponseError) {
+      printResponse(err.response);
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Executa os comandos de um arquivo (ou da entrada, com "-").
+ * @returns código de saída
+ */
+async function runScript(
+  client: GBTPClient,
+  options: CliOptions
+): Promise<number> {
+  const text = fs.readFileSync(
+    options.file === "-" ? process.stdin.fd : (options.file as string),
+    "utf8"
+  );
+  let exitCode = EXIT_OK;
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const words = splitWords(lines[i]);
+    if (words.length === 0 || words[0].startsWith("#")) {
+      continue;
+    }
+    console.log(`> ${lines[i].trim()}`);
+    let ok: boolean;
+    try {
+      ok = await execute(client, words);
+    } catch (err: any) {
+      throw new Error(`Linha ${i + 1}: ${err.message}`);
+    }
+    if (!ok) {
+      exitCode = EXIT_ERROR_STATUS;
+      if (!options.continueOnError) {
+        break;
+      }
+    }
+    console.log();
+  }
+  return exitCode;
+}
+
+/**
+ * Modo interativo: lê comandos até "exit", "quit" ou o fim da entrada.
+ */
+async function repl(client: GBTPClient): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "gbtp> ",
+  });
+  console.log('Digite "help" para ver os comandos.');
+  rl.prompt();
+  for await (const line of rl) {
+    const words = splitWords(line);
+    const name = words[0]?.toLowerCase();
+    if (name === "exit" || name === "quit") {
+      break;
+    }
+    if (name === "help") {
+      printCommands();
+    } else if (name !== undefined) {
+      try {
+        await execute(client, words);
+      } catch (err: any) {
+        console.error(`Erro: ${err.message}`);
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
+
+/**
+ * Interpreta as opções e o comando da linha de comando.
+ * @throws UsageError se alguma opção for inválida
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    host: process.env.GBTP_HOST ?? "localhost",
+    port: Number(process.env.GBTP_PORT ?? 8080),
+    tls: false,
+    json: false,
+    timeoutMs: 10000,
+    continueOnError: false,
+    help: false,
+    command: [],
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      options.command = argv.slice(i);
+      break;
+    }
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined) {
+        throw new UsageError(`A opção ${flag} exige um valor`);
+      }
+      return next;
+    };
+    switch (flag) {
+      case "--host":
+        options.host = value();
+        break;
+      case "--port":
+        options.port = Number(value());
+        break;
+      case "--tls":
+        options.tls = true;
+        break;
+      case "--json":
+        options.json = true;
+        break;
+      case "--timeout":
+        options.timeoutMs = Number(value());
+        break;
+      case "--login":
+        options.login = value();
+        break;
+      case "--password":
+        options.password = value();
+        break;
+      case "--file":
+        options.file = value();
+        break;
+      case "--continue":
+        options.continueOnError = true;
+        break;
+      case "--help":
+        options.help = true;
+        break;
+      default:
+        throw new UsageError(`Opção desconhecida: ${flag}`);
+    }
+  }
+  if (!Number.isInteger(options.port) || options.port <= 0) {
+    throw new UsageError(`Porta inválida: ${options.port}`);
+  }
+  if (!Number.isInteger(options.timeoutMs) || options.timeoutMs <= 0) {
+    throw new UsageError(`Prazo inválido: ${options.timeoutMs}`);
+  }
+  if (options.file !== undefined && options.command.length > 0) {
+    throw new UsageError("Use --file ou um comando, não ambos");
+  }
+  return options;
+}
+
+/**
+ * Exibe os campos da resposta alinhados e, em seguida, o corpo.
+ */
+function printResponse(response: GBTPResponse): void {
+  const [header, ...body] = response.toString().split("\n\n");
+  const fields = header
+    .split("\n")
+    .map((line) => line.split(/:(.*)/s, 2))
+    .filter(([key]) => key !== "CORRELATION_ID");
+  const width = Math.max(...fields.map(([key]) => key.length));
+  for (const [key, value] of fields) {
+    console.log(`${key.padEnd(width)}  ${colorize(key, value)}`);
+  }
+  const lines = body.join("\n\n").split("\n").filter(Boolean);
+  for (const line of lines) {
+    console.log(`  ${line}`);
+  }
+}
+
+/**
+ * Destaca o STATUS em verde (OK) ou vermelho (ERROR) em terminais.
+ */
+function colorize(key: string, value: string): string {
+  if (key !== "STATUS" || !process.stdout.isTTY) {
+    return value;
+  }
+  return value === "OK" ? `\x1b[32m${value}\x1b[0m` : `\x1b[31m${value}\x1b[0m`;
+}
+
+/**
+ * Separa uma linha em palavras; trechos entre aspas formam uma palavra
+ * (p. ex. nomes com espaços em send OWNER_NAME="Maria Souza").
+ */
+function splitWords(line: string): string[] {
+  const words: string[] = [];
+  for (const match of line.matchAll(/(?:[^\s"]+|"[^"]*")+/g)) {
+    words.push(match[0].replace(/"/g, ""));
+  }
+  return words;
+}
+
+/**
+ * Confere a quantidade de argumentos de um comando.
+ * @throws UsageError se houver argumentos a menos ou a mais
+ */
+function expectArgs(args: string[], min: number, max: number): string[] {
+  if (args.length < min || args.length > max) {
+    throw new UsageError(
+      min === max
+        ? `Informe ${min} argumento(s)`
+        : `Informe de ${min} a ${max} argumentos`
+    );
+  }
+  return args;
+}
+
+/**
+ * Requisição de uma operação que só recebe a conta.
+ */
+function simple(operation: string, args: string[]): GBTPRequest {
+  const [account] = expectArgs(args, 1, 1);
+  return new GBTPRequest(operation, account, undefined, "0");
+}
+
+/**
+ * Exibe a lista de comandos.
+ */
+function printCommands(): void {
+  const width = Math.max(
+    ...Object.values(COMMANDS).map((command) => command.usage.length)
+  );
+  for (const command of Object.values(COMMANDS)) {
+    console.log(`  ${command.usage.padEnd(width)}  ${command.description}`);
+  }
+  console.log(`  ${"help".padEnd(width)}  Exibe os comandos`);
+  console.log(`  ${"exit".padEnd(width)}  Encerra o modo interativo`);
+}
+
+/**
+ * Exibe a ajuda completa.
+ */
+function printHelp(): void {
+  console.log(`Uso:
+  gbtp [opções] <comando> [argumentos]   Executa um comando
+  gbtp [opções] --file <arquivo>         Executa os comandos do arquivo ("-" para a entrada)
+  gbtp [opções]                          Modo interativo
+
+Opções:
+  --host <host>       Servidor (padrão: GBTP_HOST ou localhost)
+  --port <porta>      Porta (padrão: GBTP_PORT ou 8080)
+  --tls               Conecta com TLS (wss://)
+  --json              Usa a codificação JSON
+  --timeout <ms>      Prazo de cada requisição (padrão: 10000)
+  --login <conta>     Autentica antes dos comandos (senha em --password ou GBTP_PASSWORD)
+  --password <senha>  Senha usada por --login
+  --continue          Não interrompe o roteiro em STATUS:ERROR
+  --help              Exibe esta ajuda
+
+Comandos:`);
+  printCommands();
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(`Erro: ${err.message}`);
+    process.exitCode = EXIT_FAILURE;
+  });
@@ -0,0 +1,595 @@
+/**
+ * GBTPClient
+ *
+ * Cliente GBTP para Node.js sobre WebSocket (ws). Monta e interpreta as
+ * mensagens com GBTPRequest e GBTPResponse e expõe as operações como
+ * promessas:
+ *
+ *   const client = new GBTPClient("ws://localhost:8080");
+ *   await client.connect();
+ *   await client.login("1001", "1234");
+ *   const { balance } = await client.deposit("1001", "10.50");
+ *   await client.close();
+ *
+ * - Cada requisição recebe um CORRELATION_ID, de modo que várias podem estar
+ *   em andamento na mesma conexão (ver Pipelining no README).
+ * - Respostas com STATUS:ERROR rejeitam a promessa com GBTPResponseError
+ *   (com o CODE do servidor); a falta de resposta no prazo, com
+ *   RequestTimeoutError; a queda da conexão, com ConnectionClosedError.
+ * - Se a conexão cair depois de estabelecida, o cliente reconecta com espera
+ *   exponencial (reconnectDelayMs, 2x, 4x... até maxReconnectDelayMs) e
+ *   restaura a sessão: refaz o LOGIN com as últimas credenciais aceitas e as
+ *   inscrições (SUBSCRIBE) ativas. Requisições feitas durante a reconexão
+ *   aguardam a nova conexão (dentro do próprio prazo); as que já tinham sido
+ *   enviadas são rejeitadas com ConnectionClosedError, pois podem ter sido
+ *   executadas — informe requestId para repeti-las com segurança.
+ * - Eventos (BALANCE_CHANGED) das contas inscritas são entregues aos
+ *   ouvintes registrados em onEvent().
+ *
+ * Para testes, basta apontar o cliente para um WebSocketServer em processo
+ * (p. ex. na porta 0) que use o WebSocketHandler.
+ */
+import { WebSocket } from "ws";
+import { GBTPEvent, GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { CorrelationId } from "../protocol/entities/correlation-id";
+import { GBTPCodec, TEXT_CODEC } from "../protocol/gbtp-codec";
+import {
+  ConnectionClosedError,
+  GBTPResponseError,
+  RequestTimeoutError,
+} from "../errors/client-error";
+
+/**
+ * Configuração do cliente.
+ *
+ * - codec: codificação das mensagens, negociada como subprotocolo WebSocket
+ *   (padrão: TEXT_CODEC); mensagens do servidor acima do maxMessageSize do
+ *   codec são rejeitadas
+ * - timeoutMs: prazo de cada requisição, incluindo a espera por uma
+ *   reconexão (padrão: 10000)
+ * - reconnect: reconectar automaticamente após uma queda (padrão: true)
+ * - reconnectDelayMs / maxReconnectDelayMs: espera antes da primeira
+ *   tentativa de reconexão e espera máxima entre tentativas (padrão: 200 e
+ *   10000)
+ * - maxReconnectAttempts: tentativas seguidas antes de desistir (padrão:
+ *   sem limite)
+ */
+export interface GBTPClientOptions {
+  codec?: GBTPCodec;
+  timeoutMs?: number;
+  reconnect?: boolean;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  maxReconnectAttempts?: number;
+}
+
+/**
+ * Campos opcionais das operações com valor.
+ *
+ * - requestId: chave de idempotência (REQUEST_ID)
+ * - currency: moeda do valor (CURRENCY; deve ser a moeda da conta)
+ */
+export interface AmountOptions {
+  requestId?: string;
+  currency?: string;
+}
+
+/**
+ * Saldo da conta após a operação (valores em texto, p. ex. "510.50").
+ */
+export interface BalanceResult {
+  balance: string;
+  availableBalance?: string;
+  currency?: string;
+}
+
+/**
+ * Resultado de uma transferência. pendingId é informado se a transferência
+ * ficou pendente de aprovação; os campos de câmbio, se as moedas diferirem.
+ */
+export interface TransferResult extends BalanceResult {
+  pendingId?: string;
+  creditedAmount?: string;
+  creditedCurrency?: string;
+  exchangeRate?: string;
+}
+
+/**
+ * Ouvinte de eventos das contas inscritas.
+ */
+export type EventListener = (event: GBTPEvent) => void;
+
+/**
+ * Situação da conexão do cliente.
+ */
+type ClientState = "idle" | "connecting" | "restoring" | "open" | "closed";
+
+/**
+ * Requisição aguardando envio (durante a reconexão) ou resposta.
+ */
+interface PendingRequest {
+  request: GBTPRequest;
+  sent: boolean;
+  timer: NodeJS.Timeout;
+  resolve: (response: GBTPResponse) => void;
+  reject: (err: Error) => void;
+}
+
+export class GBTPClient {
+  private readonly codec: GBTPCodec;
+  private readonly timeoutMs: number;
+  private readonly reconnect: boolean;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private readonly maxReconnectAttempts: number;
+
+  private ws?: WebSocket;
+  private state: ClientState = "idle";
+  private attempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private nextCorrelation = 0;
+  private readonly pending = new Map<string, PendingRequest>();
+  private readonly listeners: EventListener[] = [];
+  // Sessão restaurada após uma reconexão.
+  private credentials?: { accountId: string; password: string };
+  private readonly subscriptions = new Set<string>();
+
+  /**
+   * Cria o cliente (ainda sem conectar).
+   * @param url     - Endereço do servidor (p. ex. "ws://localhost:8080")
+   * @param options - Configuração do cliente
+   * @throws Error se algum prazo ou espera não for positivo
+   */
+  constructor(
+    private readonly url: string,
+    options: GBTPClientOptions = {}
+  ) {
+    this.codec = options.codec ?? TEXT_CODEC;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.reconnect = options.reconnect ?? true;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 200;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 10000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? Infinity;
+    for (const [name, value] of Object.entries({
+      timeoutMs: this.timeoutMs,
+      reconnectDelayMs: this.reconnectDelayMs,
+      maxReconnectDelayMs: this.maxReconnectDelayMs,
+      maxReconnectAttempts: this.maxReconnectAttempts,
+    })) {
+      if (!(value > 0)) {
+        throw new Error(`Configuração inválida do cliente: ${name}=${value}`);
+      }
+    }
+  }
+
+  /**
+   * Abre a conexão com o servidor.
+   * @throws ConnectionClosedError se a conexão não puder ser aberta (a
+   *         primeira conexão não é repetida automaticamente)
+   */
+  public async connect(): Promise<void> {
+    if (this.state !== "idle") {
+      throw new Error("Cliente já conectado ou encerrado");
+    }
+    this.state = "connecting";
+    try {
+      await this.open();
+    } catch (err) {
+      this.state = "idle";
+      throw err;
+    }
+    this.state = "open";
+  }
+
+  /**
+   * Encerra a conexão, sem reconectar. Requisições em andamento são
+   * rejeitadas com ConnectionClosedError.
+   */
+  public async close(): Promise<void> {
+    if (this.state === "closed") {
+      return;
+    }
+    this.state = "closed";
+    clearTimeout(this.reconnectTimer);
+    this.failAll(new ConnectionClosedError("Cliente encerrado"));
+    const ws = this.ws;
+    this.ws = undefined;
+    if (ws && ws.readyState !== WebSocket.CLOSED) {
+      await new Promise<void>((resolve) => {
+        ws.once("close", () => resolve());
+        ws.close();
+      });
+    }
+  }
+
+  /**
+   * Registra um ouvinte dos eventos das contas inscritas.
+   */
+  public onEvent(listener: EventListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Autentica a sessão. As credenciais ficam em memória para restaurar a
+   * sessão após uma reconexão.
+   */
+  public async login(accountId: string, password: string): Promise<void> {
+    await this.send(
+      new GBTPRequest("LOGIN", accountId, undefined, "0", { password })
+    );
+  }
+
+  /**
+   * Encerra a sessão autenticada (a conexão continua aberta).
+   */
+  public async logout(accountId: string): Promise<void> {
+    await this.send(new GBTPRequest("LOGOUT", accountId, undefined, "0"));
+  }
+
+  /**
+   * Consulta o saldo da conta.
+   */
+  public async balance(accountId: string): Promise<BalanceResult> {
+    return balanceOf(
+      await this.send(new GBTPRequest("BALANCE", accountId, undefined, "0"))
+    );
+  }
+
+  /**
+   * Deposita o valor (em texto, p. ex. "10.50") na conta.
+   */
+  public async deposit(
+    accountId: string,
+    amount: string,
+    options: AmountOptions = {}
+  ): Promise<BalanceResult> {
+    return balanceOf(
+      await this.send(
+        new GBTPRequest("DEPOSIT", accountId, undefined, amount, options)
+      )
+    );
+  }
+
+  /**
+   * Saca o valor (em texto, p. ex. "10.50") da conta.
+   */
+  public async withdraw(
+    accountId: string,
+    amount: string,
+    options: AmountOptions = {}
+  ): Promise<BalanceResult> {
+    return balanceOf(
+      await this.send(
+        new GBTPRequest("WITHDRAW", accountId, undefined, amount, options)
+      )
+    );
+  }
+
+  /**
+   * Transfere o valor (em texto, p. ex. "10.50") da conta de origem para a de
+   * destino.
+   */
+  public async transfer(
+    accountId: string,
+    destId: string,
+    amount: string,
+    options: AmountOptions = {}
+  ): Promise<TransferResult> {
+    const response = await this.send(
+      new GBTPRequest("TRANSFER", accountId, destId, amount, options)
+    );
+    return {
+      ...balanceOf(response),
+      pendingId: response.pendingId?.pendingNumber(),
+      creditedAmount: response.creditedAmount?.quantity(),
+      creditedCurrency: response.creditedCurrency?.currencyCode(),
+      exchangeRate: response.exchangeRate?.quotation(),
+    };
+  }
+
+  /**
+   * Inscreve a conexão nos eventos da conta (mantida após reconexões).
+   */
+  public async subscribe(accountId: string): Promise<void> {
+    await this.send(new GBTPRequest("SUBSCRIBE", accountId, undefined, "0"));
+  }
+
+  /**
+   * Cancela a inscrição nos eventos da conta.
+   */
+  public async unsubscribe(accountId: string): Promise<void> {
+    await this.send(new GBTPRequest("UNSUBSCRIBE", accountId, undefined, "0"));
+  }
+
+  /**
+   * Envia uma requisição qualquer e aguarda a resposta. O CORRELATION_ID da
+   * requisição é definido pelo cliente. LOGIN, LOGOUT, CLOSE, SUBSCRIBE e
+   * UNSUBSCRIBE bem-sucedidos atualizam a sessão restaurada após uma
+   * reconexão.
+   *
+   * @param request - Requisição a enviar
+   * @returns resposta com STATUS:OK
+   * @throws GBTPResponseError, RequestTimeoutError ou ConnectionClosedError
+   */
+  public async send(request: GBTPRequest): Promise<GBTPResponse> {
+    const response = await this.enqueue(request, false);
+    this.track(request);
+    return response;
+  }
+
+  /**
+   * Atualiza as credenciais e as inscrições conforme a requisição concluída
+   * (as mesmas regras de inscrição do servidor).
+   */
+  private track(request: GBTPRequest): void {
+    const accountId = request.account.IDNumber();
+    switch (request.operation.operationType()) {
+      case "LOGIN":
+        this.credentials = {
+          accountId,
+          password: request.password?.secret() ?? "",
+        };
+        this.subscriptions.clear();
+        break;
+      case "LOGOUT":
+      case "CLOSE":
+        this.credentials = undefined;
+        this.subscriptions.clear();
+        break;
+      case "SUBSCRIBE":
+        this.subscriptions.add(accountId);
+        break;
+      case "UNSUBSCRIBE":
+        this.subscriptions.delete(accountId);
+        break;
+    }
+  }
+
+  /**
+   * Registra a requisição e a envia assim que a conexão estiver pronta (ou
+   * imediatamente, se immediate, durante a restauração da sessão).
+   */
+  private enqueue(
+    request: GBTPRequest,
+    immediate: boolean
+  ): Promise<GBTPResponse> {
+    if (this.state === "idle" || this.state === "closed") {
+      return Promise.reject(
+        new ConnectionClosedError(
+          this.state === "idle" ? "Cliente não conectado" : "Cliente encerrado"
+        )
+      );
+    }
+    const id = `c${++this.nextCorrelation}`;
+    request.correlationId = new CorrelationId(id);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new RequestTimeoutError(
+            `Sem resposta em ${this.timeoutMs} ms (${request.operation.operationType()})`
+          )
+        );
+      }, this.timeoutMs);
+      const entry = { request, sent: false, timer, resolve, reject };
+      this.pending.set(id, entry);
+      if (this.state === "open" || immediate) {
+        this.transmit(entry);
+      }
+    });
+  }
+
+  /**
+   * Envia a requisição pela conexão atual.
+   */
+  private transmit(entry: PendingRequest): void {
+    entry.sent = true;
+    this.ws?.send(entry.request.encode(this.codec));
+  }
+
+  /**
+   * Abre um WebSocket e resolve quando ele estiver conectado.
+   */
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url, this.codec.name);
+      this.ws = ws;
+      ws.on("message", (data) => this.receive(data.toString()));
+      ws.once("open", () => {
+        ws.off("error", fail);
+        ws.on("error", () => {
+          // A queda é tratada no evento "close".
+        });
+        ws.once("close", () => this.handleClose(ws));
+        resolve();
+      });
+      const fail = (err: Error) =>
+        reject(
+          new ConnectionClosedError(
+            `Falha ao conectar a ${this.url}: ${err.message}`
+          )
+        );
+      ws.once("error", fail);
+    });
+  }
+
+  /**
+   * Trata uma mensagem do servidor: resposta de uma requisição pendente ou
+   * evento de conta inscrita. Mensagens que não forem nenhum dos dois são
+   * ignoradas.
+   */
+  private receive(raw: string): void {
+    let response: GBTPResponse;
+    try {
+      response = GBTPResponse.fromString(raw, this.codec);
+    } catch {
+      this.dispatchEvent(raw);
+      return;
+    }
+    const id = response.correlationId?.identifier();
+    const entry = id === undefined ? undefined : this.pending.get(id);
+    if (!id || !entry) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    if (response.status.statusMessage() === "OK") {
+      entry.resolve(response);
+    } else {
+      entry.reject(new GBTPResponseError(response));
+    }
+  }
+
+  /**
+   * Entrega um evento aos ouvintes.
+   */
+  private dispatchEvent(raw: string): void {
+    let event: GBTPEvent;
+    try {
+      event = GBTPEvent.fromString(raw, this.codec);
+    } catch {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Conexão encerrada: rejeita as requisições já enviadas e, se permitido,
+   * agenda a reconexão.
+   */
+  private handleClose(ws: WebSocket): void {
+    if (ws !== this.ws || this.state === "closed") {
+      return;
+    }
+    for (const [id, entry] of this.pending) {
+      if (entry.sent) {
+        this.pending.delete(id);
+        clearTimeout(entry.timer);
+        entry.reject(
+          new ConnectionClosedError(
+            "Conexão encerrada antes da resposta; a requisição pode ter sido executada"
+          )
+        );
+      }
+    }
+    if (!this.reconnect) {
+      this.state = "closed";
+      this.failAll(new ConnectionClosedError("Conexão encerrada"));
+      return;
+    }
+    this.state = "connecting";
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Agenda a próxima tentativa de reconexão, com espera exponencial.
+   */
+  private scheduleReconnect(): void {
+    if (this.attempts >= this.maxReconnectAttempts) {
+      this.state = "closed";
+      this.failAll(
+        new ConnectionClosedError(
+          `Não foi possível reconectar após ${this.attempts} tentativas`
+        )
+      );
+      return;
+    }
+    const delay = Math.min(
+      this.maxReconnectDelayMs,
+      this.reconnectDelayMs * 2 ** this.attempts
+    );
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => void this.reconnectNow(), delay);
+  }
+
+  /**
+   * Tenta reconectar e restaurar a sessão; em caso de falha, agenda uma nova
+   * tentativa.
+   */
+  private async reconnectNow(): Promise<void> {
+    try {
+      await this.open();
+    } catch {
+      if (this.state !== "closed") {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+    if (this.state === "closed") {
+      this.ws?.close();
+      return;
+    }
+    this.attempts = 0;
+    this.state = "restoring";
+    await this.restoreSession();
+    if (this.state !== "restoring") {
+      return;
+    }
+    this.state = "open";
+    for (const entry of this.pending.values()) {
+      if (!entry.sent) {
+        this.transmit(entry);
+      }
+    }
+  }
+
+  /**
+   * Refaz o LOGIN e as inscrições na nova conexão. Se o LOGIN for recusado
+   * (p. ex. conta encerrada), as credenciais são descartadas e as requisições
+   * seguintes recebem o erro de autenticação do servidor.
+   */
+  private async restoreSession(): Promise<void> {
+    const credentials = this.credentials;
+    if (!credentials) {
+      return;
+    }
+    try {
+      await this.enqueue(
+        new GBTPRequest("LOGIN", credentials.accountId, undefined, "0", {
+          password: credentials.password,
+        }),
+        true
+      );
+    } catch (err) {
+      if (err instanceof GBTPResponseError) {
+        this.credentials = undefined;
+        this.subscriptions.clear();
+      }
+      return;
+    }
+    for (const accountId of this.subscriptions) {
+      await this.enqueue(
+        new GBTPRequest("SUBSCRIBE", accountId, undefined, "0"),
+        true
+      ).catch((err) => {
+        if (err instanceof GBTPResponseError) {
+          this.subscriptions.delete(accountId);
+        }
+      });
+    }
+  }
+
+  /**
+   * Rejeita todas as requisições pendentes com o erro informado.
+   */
+  private failAll(err: Error): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Saldo informado na resposta.
+ */
+function balanceOf(response: GBTPResponse): BalanceResult {
+  return {
+    balance: response.balance.quantity(),
+    availableBalance: response.availableBalance?.quantity(),
+    currency: response.currency?.currencyCode(),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Contas iniciais (seed) criadas pelo BankService quando o armazenamento
+ * estiver vazio.
+ *
+ * O arquivo de seed (seedFile na configuração; padrão: seed-accounts.json na
+ * raiz do gabio-server) é uma lista de objetos com os campos abaixo:
+ *
+ * - id: ID numérico da conta (obrigatório, único)
+ * - balance: saldo inicial, no formato monetário ("500.00"; obrigatório)
+ * - password: senha de acesso (obrigatório)
+ * - ownerName: nome do titular (opcional)
+ * - currency: moeda ISO 4217 (opcional; padrão: DEFAULT_CURRENCY)
+ *
+ * Se o arquivo padrão não existir, nenhuma conta é criada. O arquivo só é
+ * lido na inicialização; alterá-lo não afeta um armazenamento já populado.
+ */
+import * as fs from "fs";
+import { ConfigError } from "../errors/config-error";
+import { Money } from "../models/money";
+import { DEFAULT_CURRENCY } from "../models/account";
+import { ID } from "../protocol/entities/id";
+import { Password } from "../protocol/entities/password";
+import { OwnerName } from "../protocol/entities/owner-name";
+import { Currency } from "../protocol/entities/currency";
+
+/**
+ * Conta inicial lida do arquivo de seed.
+ */
+export interface SeedAccount {
+  id: string;
+  balance: Money;
+  password: string;
+  ownerName?: string;
+  currency: string;
+}
+
+/**
+ * Lê e valida as contas do arquivo de seed.
+ *
+ * @param seedFile - Caminho do arquivo
+ * @param required - Se true, a ausência do arquivo é um erro; se false,
+ *                   nenhuma conta é criada
+ * @returns contas iniciais, na ordem do arquivo
+ * @throws ConfigError com todos os problemas encontrados no arquivo
+ */
+export function loadSeedAccounts(
+  seedFile: string,
+  required: boolean
+): SeedAccount[] {
+  if (!fs.existsSync(seedFile)) {
+    if (required) {
+      throw new ConfigError([`Arquivo de seed inexistente: ${seedFile}`]);
+    }
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(seedFile, { encoding: "utf8" }));
+  } catch (err) {
+    throw new ConfigError([
+      `Arquivo de seed inválido (${seedFile}): ${(err as Error).message}`,
+    ]);
+  }
+  if (!Array.isArray(entries)) {
+    throw new ConfigError([
+      `Arquivo de seed deve ser uma lista de contas: ${seedFile}`,
+    ]);
+  }
+
+  const problems: string[] = [];
+  const accounts: SeedAccount[] = [];
+  const ids = new Set<string>();
+  entries.forEach((entry, index) => {
+    const where = `Conta ${index + 1} do arquivo de seed`;
+    try {
+      const account = parseSeedAccount(entry);
+      if (ids.has(account.id)) {
+        throw new Error(`ID duplicado: ${account.id}`);
+      }
+      ids.add(account.id);
+      accounts.push(account);
+    } catch (err) {
+      problems.push(`${where}: ${(err as Error).message}`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return accounts;
+}
+
+/**
+ * Converte e valida uma entrada do arquivo de seed.
+ * @throws Error com a descrição do primeiro campo inválido
+ */
+function parseSeedAccount(entry: unknown): SeedAccount {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    throw new Error("deve ser um objeto");
+  }
+  const { id, balance, password, ownerName, currency, ...unknown } =
+    entry as Record<string, unknown>;
+  const extra = Object.keys(unknown);
+  if (extra.length > 0) {
+    throw new Error(`campos desconhecidos: ${extra.join(", ")}`);
+  }
+
+  if (typeof id !== "string" || !new ID(id).validate()) {
+    throw new Error(`ID inválido: ${id}`);
+  }
+  if (
+    typeof balance !== "string" ||
+    !Money.isValid(balance) ||
+    Money.parse(balance).isNegative()
+  ) {
+    throw new Error(`saldo inválido: ${balance}`);
+  }
+  if (typeof password !== "string" || !new Password(password).validate()) {
+    throw new Error("senha ausente ou vazia");
+  }
+  if (ownerName !== undefined && typeof ownerName !== "string") {
+    throw new Error(`nome do titular inválido: ${ownerName}`);
+  }
+  if (ownerName !== undefined && !new OwnerName(ownerName).validate()) {
+    throw new Error(`nome do titular inválido: ${ownerName}`);
+  }
+  const code = new Currency(
+    typeof currency === "string" ? currency : DEFAULT_CURRENCY
+  );
+  if (
+    (currency !== undefined && typeof currency !== "string") ||
+    !code.validate()
+  ) {
+    throw new Error(`moeda inválida: ${currency}`);
+  }
+
+  return {
+    id,
+    balance: Money.parse(balance),
+    password,
+    ownerName: ownerName?.trim(),
+    currency: code.currencyCode(),
+  };
+}
@@ -0,0 +1,532 @@
+/**
+ * Configuração do servidor GBTP.
+ *
+ * Cada opção é definida, da menor para a maior precedência:
+ * 1. pelo valor padrão;
+ * 2. pelo arquivo de configuração JSON, indicado por --config ou GBTP_CONFIG
+ *    (padrão: gbtp.config.json na raiz do gabio-server, se existir), com as
+ *    opções pelo nome (ex.: { "port": 9000, "logLevel": "debug" });
+ * 3. pela variável de ambiente GBTP_ + nome da opção em maiúsculas, com as
+ *    palavras separadas por "_" (ex.: GBTP_BIND_ADDRESS para bindAddress);
+ * 4. pelo argumento de linha de comando -- + nome da opção com as palavras
+ *    separadas por "-" (ex.: --bind-address 127.0.0.1 ou
+ *    --bind-address=127.0.0.1).
+ *
+ * Opções com listas (origens, faixas de IP) são listas JSON no arquivo e
+ * textos separados por vírgula nas variáveis e argumentos.
+ *
+ * loadConfig valida todas as opções antes que qualquer serviço seja criado e
+ * lança um único ConfigError com todos os problemas encontrados (valores
+ * inválidos, opções desconhecidas, portas repetidas, TLS incompleto).
+ *
+ * Caminhos relativos do arquivo de configuração são resolvidos a partir do
+ * diretório do arquivo; os das variáveis de ambiente e da linha de comando, a
+ * partir do diretório atual.
+ *
+ * Opções sem valor padrão aqui (caminhos, intervalos) usam o padrão do serviço
+ * correspondente.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigError } from "../errors/config-error";
+import { Money } from "../models/money";
+import { AccountLimits } from "../models/account-limits";
+import { LOG_LEVELS, LogLevel } from "../services/logger";
+import { MAX_MESSAGE_SIZE } from "../protocol/gbtp-codec";
+import {
+  STORAGE_BACKENDS,
+  StorageBackend,
+} from "../repositories/repository-factory";
+import { normalizeOrigin, parseSubnet } from "../ws/access-policy";
+
+/**
+ * Raiz do gabio-server.
+ */
+const ROOT = path.resolve(__dirname, "../..");
+
+/**
+ * Arquivo de configuração lido, se existir, quando nem --config nem
+ * GBTP_CONFIG forem informados.
+ */
+export const DEFAULT_CONFIG_FILE = path.join(ROOT, "gbtp.config.json");
+
+/**
+ * Arquivo de seed usado quando seedFile não for informado.
+ */
+export const DEFAULT_SEED_FILE = path.join(ROOT, "seed-accounts.json");
+
+export interface ServerConfig {
+  /** Porta do servidor WebSocket (padrão: 8080). */
+  port: number;
+  /** Endereço de escuta dos servidores (padrão: todas as interfaces). */
+  bindAddress: string;
+  /** Certificado TLS (PEM); com tlsKey, o WebSocket usa wss://. */
+  tlsCert?: string;
+  /** Chave privada do certificado TLS (PEM). */
+  tlsKey?: string;
+  /** Intervalo entre verificações dos arquivos TLS, em segundos. */
+  tlsReloadInterval?: number;
+  /** Origens aceitas no upgrade do WebSocket (vazia: qualquer origem). */
+  allowedOrigins: string[];
+  /** Faixas CIDR aceitas no WebSocket (vazia: qualquer endereço). */
+  allowedIps: string[];
+  /** Faixas CIDR recusadas no WebSocket (prevalece sobre allowedIps). */
+  deniedIps: string[];
+  /** Tamanho máximo de uma mensagem, em bytes (padrão: 65536). */
+  maxMessageSize: number;
+  /** Mensagens por segundo de cada conexão (padrão: 20). */
+  messageRate: number;
+  /** Rajada máxima de mensagens de cada conexão (padrão: 40). */
+  messageBurst: number;
+  /**
+   * Requisições por segundo de cada conta autenticada, somando as conexões
+   * (padrão: 10).
+   */
+  accountRate: number;
+  /** Rajada máxima de requisições de cada conta (padrão: 20). */
+  accountBurst: number;
+  /**
+   * Requisições sem autenticação por segundo de cada IP, somando as conexões
+   * (padrão: 10).
+   */
+  addressRate: number;
+  /** Rajada máxima de requisições sem autenticação de cada IP (padrão: 20). */
+  addressBurst: number;
+  /** Conexões WebSocket simultâneas por IP (padrão: 20). */
+  maxConnectionsPerIp: number;
+  /** Intervalo entre pings do heartbeat, em segundos (padrão: 30). */
+  heartbeatInterval: number;
+  /** Tempo máximo sem mensagens do cliente, em segundos (padrão: 300). */
+  idleTimeout: number;
+  /** Porta da API administrativa (padrão: 8081). */
+  adminPort: number;
+  /** Token da API administrativa; sem token, a API não é iniciada. */
+  adminToken?: string;
+  /** Porta do servidor de monitoramento (padrão: 8082). */
+  monitoringPort: number;
+  /** Backend de armazenamento (padrão: json). */
+  storage: StorageBackend;
+  /** Arquivo de dados (padrão: accounts.json ou accounts.db). */
+  storagePath?: string;
+  /**
+   * Livro-razão do backend json (padrão: ledger.jsonl no diretório de
+   * storagePath); importado pelo sqlite.
+   */
+  ledgerPath?: string;
+  /** Contas criadas com o armazenamento vazio (ver seed-accounts). */
+  seedFile?: string;
+  /** Tabela de câmbio (padrão: exchange-rates.json). */
+  exchangeRates?: string;
+  /** Regras antifraude (padrão: fraud-rules.json). */
+  fraudRules?: string;
+  /** Registro de decisões antifraude (padrão: fraud-decisions.jsonl). */
+  fraudDecisions?: string;
+  /** Nível mínimo dos registros (padrão: info). */
+  logLevel: LogLevel;
+  /** Intervalo entre verificações de agendamentos, em segundos. */
+  schedulerInterval?: number;
+  /** Janela de retenção dos REQUEST_ID, em segundos. */
+  idempotencyTtl?: number;
+  /** Prazo de validade das transferências pendentes, em segundos. */
+  approvalTtl?: number;
+  /** Intervalo entre verificações de expiração, em segundos. */
+  approvalInterval?: number;
+  /** Cheque especial das contas novas (padrão: 0.00). */
+  overdraftLimit: Money;
+  /** Limite por saque das contas novas (padrão: sem limite). */
+  withdrawLimit?: Money;
+  /** Limite diário de saques das contas novas (padrão: sem limite). */
+  withdrawDailyLimit?: Money;
+  /** Limite por transferência das contas novas (padrão: sem limite). */
+  transferLimit?: Money;
+  /** Limite diário de transferências das contas novas (padrão: sem limite). */
+  transferDailyLimit?: Money;
+}
+
+/**
+ * Definição de uma opção: valor padrão e conversão do valor informado.
+ */
+interface Setting<T> {
+  fallback: T;
+  /**
+   * Converte e valida o valor lido do arquivo, do ambiente ou da linha de
+   * comando.
+   * @param value   - Valor informado (texto, ou qualquer tipo JSON no arquivo)
+   * @param baseDir - Diretório base dos caminhos relativos
+   * @throws Error com a descrição do problema
+   */
+  parse: (value: unknown, baseDir: string) => T;
+}
+
+const SETTINGS: { [K in keyof ServerConfig]-?: Setting<ServerConfig[K]> } = {
+  port: { fallback: 8080, parse: port },
+  bindAddress: { fallback: "0.0.0.0", parse: text },
+  tlsCert: { fallback: undefined, parse: filePath },
+  tlsKey: { fallback: undefined, parse: filePath },
+  tlsReloadInterval: { fallback: undefined, parse: seconds },
+  allowedOrigins: { fallback: [], parse: list(origin) },
+  allowedIps: { fallback: [], parse: list(subnet) },
+  deniedIps: { fallback: [], parse: list(subnet) },
+  maxMessageSize: { fallback: MAX_MESSAGE_SIZE, parse: count },
+  messageRate: { fallback: 20, parse: count },
+  messageBurst: { fallback: 40, parse: count },
+  accountRate: { fallback: 10, parse: count },
+  accountBurst: { fallback: 20, parse: count },
+  addressRate: { fallback: 10, parse: count },
+  addressBurst: { fallback: 20, parse: count },
+  maxConnectionsPerIp: { fallback: 20, parse: count },
+  heartbeatInterval: { fallback: 30, parse: seconds },
+  idleTimeout: { fallback: 300, parse: seconds },
+  adminPort: { fallback: 8081, parse: port },
+  adminToken: { fallback: undefined, parse: text },
+  monitoringPort: { fallback: 8082, parse: port },
+  storage: { fallback: "json", parse: oneOf(STORAGE_BACKENDS) },
+  storagePath: { fallback: undefined, parse: filePath },
+  ledgerPath: { fallback: undefined, parse: filePath },
+  seedFile: { fallback: undefined, parse: filePath },
+  exchangeRates: { fallback: undefined, parse: filePath },
+  fraudRules: { fallback: undefined, parse: filePath },
+  fraudDecisions: { fallback: undefined, parse: filePath },
+  logLevel: { fallback: "info", parse: oneOf(LOG_LEVELS) },
+  schedulerInterval: { fallback: undefined, parse: seconds },
+  idempotencyTtl: { fallback: undefined, parse: seconds },
+  approvalTtl: { fallback: undefined, parse: seconds },
+  approvalInterval: { fallback: undefined, parse: seconds },
+  overdraftLimit: { fallback: Money.ZERO, parse: money },
+  withdrawLimit: { fallback: undefined, parse: money },
+  withdrawDailyLimit: { fallback: undefined, parse: money },
+  transferLimit: { fallback: undefined, parse: money },
+  transferDailyLimit: { fallback: undefined, parse: money },
+};
+
+type SettingName = keyof ServerConfig;
+
+/**
+ * Valor informado para uma opção e sua origem.
+ */
+interface RawValue {
+  value: unknown;
+  // Descrição da origem, usada nas mensagens de erro.
+  source: string;
+  baseDir: string;
+}
+
+/**
+ * Carrega e valida a configuração do servidor.
+ *
+ * @param argv - Argumentos de linha de comando (padrão: os do processo)
+ * @param env  - Variáveis de ambiente (padrão: as do processo)
+ * @returns configuração validada
+ * @throws ConfigError com todos os problemas encontrados
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const problems: string[] = [];
+  const names = Object.keys(SETTINGS) as SettingName[];
+  const raw = new Map<SettingName, RawValue>();
+  const cwd = process.cwd();
+
+  const { configFile, flags } = parseArgs(argv, problems);
+  const file = configFile ?? nonEmpty(env.GBTP_CONFIG);
+  const fileValues = readConfigFile(file, problems);
+  if (fileValues) {
+    const { resolved, values } = fileValues;
+    for (const [key, value] of Object.entries(values)) {
+      if (names.includes(key as SettingName)) {
+        raw.set(key as SettingName, {
+          value,
+          source: `${key} em ${resolved}`,
+          baseDir: path.dirname(resolved),
+        });
+      } else {
+        problems.push(`Opção desconhecida em ${resolved}: ${key}`);
+      }
+    }
+  }
+
+  for (const name of names) {
+    const variable = envName(name);
+    const value = nonEmpty(env[variable]);
+    if (value !== undefined) {
+      raw.set(name, { value, source: variable, baseDir: cwd });
+    }
+  }
+
+  for (const [flag, value] of flags) {
+    const name = names.find((candidate) => flagName(candidate) === flag);
+    if (name) {
+      raw.set(name, { value, source: flag, baseDir: cwd });
+    } else {
+      problems.push(`Argumento desconhecido: ${flag}`);
+    }
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const name of names) {
+    const setting = SETTINGS[name] as Setting<unknown>;
+    const given = raw.get(name);
+    if (!given) {
+      config[name] = setting.fallback;
+      continue;
+    }
+    try {
+      config[name] = setting.parse(given.value, given.baseDir);
+    } catch (err) {
+      problems.push(`${given.source}: ${(err as Error).message}`);
+    }
+  }
+
+  if (problems.length === 0) {
+    problems.push(...consistencyProblems(config as unknown as ServerConfig));
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config as unknown as ServerConfig;
+}
+
+/**
+ * Política de limites aplicada às contas novas.
+ * @param config - Configuração do servidor
+ */
+export function defaultAccountLimits(config: ServerConfig): AccountLimits {
+  return new AccountLimits(
+    config.overdraftLimit,
+    config.withdrawLimit,
+    config.withdrawDailyLimit,
+    config.transferLimit,
+    config.transferDailyLimit
+  );
+}
+
+/**
+ * Nome da variável de ambiente de uma opção (bindAddress → GBTP_BIND_ADDRESS).
+ */
+function envName(name: string): string {
+  return "GBTP_" + name.replace(/[A-Z]/g, (c) => "_" + c).toUpperCase();
+}
+
+/**
+ * Argumento de linha de comando de uma opção (bindAddress → --bind-address).
+ */
+function flagName(name: string): string {
+  return "--" + name.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+}
+
+/**
+ * Variável de ambiente vazia é tratada como não definida.
+ */
+function nonEmpty(value: string | undefined): string | undefined {
+  return value === undefined || value === "" ? undefined : value;
+}
+
+/**
+ * Separa os argumentos "--opção valor" e "--opção=valor". --config indica o
+ * arquivo de configuração.
+ */
+function parseArgs(
+  argv: string[],
+  problems: string[]
+): { configFile?: string; flags: [string, string][] } {
+  let configFile: string | undefined;
+  const flags: [string, string][] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      problems.push(`Argumento inválido: ${arg}`);
+      continue;
+    }
+    const equals = arg.indexOf("=");
+    let flag = arg;
+    let value: string | undefined;
+    if (equals >= 0) {
+      flag = arg.slice(0, equals);
+      value = arg.slice(equals + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      value = argv[++i];
+    }
+    if (value === undefined || value === "") {
+      problems.push(`Valor ausente para ${flag}`);
+    } else if (flag === "--config") {
+      configFile = value;
+    } else {
+      flags.push([flag, value]);
+    }
+  }
+  return { configFile, flags };
+}
+
+/**
+ * Lê o arquivo de configuração. O arquivo padrão é opcional; um arquivo
+ * indicado explicitamente deve existir.
+ */
+function readConfigFile(
+  file: string | undefined,
+  problems: string[]
+): { resolved: string; values: Record<string, unknown> } | undefined {
+  const resolved = path.resolve(file ?? DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(resolved)) {
+    if (file !== undefined) {
+      problems.push(`Arquivo de configuração inexistente: ${resolved}`);
+    }
+    return undefined;
+  }
+  let values: unknown;
+  try {
+    values = JSON.parse(fs.readFileSync(resolved, { encoding: "utf8" }));
+  } catch (err) {
+    problems.push(
+      `Arquivo de configuração inválido (${resolved}): ${(err as Error).message}`
+    );
+    return undefined;
+  }
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    problems.push(`Arquivo de configuração deve conter um objeto: ${resolved}`);
+    return undefined;
+  }
+  return { resolved, values: values as Record<string, unknown> };
+}
+
+/**
+ * Combinações inválidas de opções: portas repetidas entre os servidores que
+ * serão iniciados e certificado TLS sem chave (ou vice-versa).
+ */
+function consistencyProblems(config: ServerConfig): string[] {
+  const problems: string[] = [];
+  if ((config.tlsCert === undefined) !== (config.tlsKey === undefined)) {
+    problems.push("tlsCert e tlsKey devem ser informados juntos");
+  }
+
+  const ports: [string, number][] = [
+    ["port", config.port],
+    ["monitoringPort", config.monitoringPort],
+  ];
+  if (config.adminToken) {
+    ports.push(["adminPort", config.adminPort]);
+  }
+  ports.forEach(([name, value], i) => {
+    const other = ports.slice(0, i).find(([, used]) => used === value);
+    if (other) {
+      problems.push(`${name} repete a porta de ${other[0]}: ${value}`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Converte um inteiro informado como número ou texto (NaN se inválido).
+ */
+function integer(value: unknown): number {
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? value : NaN;
+  }
+  return typeof value === "string" && /^\d+$/.test(value.trim())
+    ? Number(value.trim())
+    : NaN;
+}
+
+function port(value: unknown): number {
+  const result = integer(value);
+  if (!(result >= 1 && result <= 65535)) {
+    throw new Error(`porta inválida: ${value} (use 1 a 65535)`);
+  }
+  return result;
+}
+
+function seconds(value: unknown): number {
+  const result = integer(value);
+  if (!(result > 0)) {
+    throw new Error(`intervalo inválido: ${value} (use segundos, inteiro > 0)`);
+  }
+  return result;
+}
+
+function count(value: unknown): number {
+  const result = integer(value);
+  if (!(result > 0)) {
+    throw new Error(`valor inválido: ${value} (use um inteiro > 0)`);
+  }
+  return result;
+}
+
+function text(value: unknown): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`texto inválido: ${value}`);
+  }
+  return value.trim();
+}
+
+function filePath(value: unknown, baseDir: string): string {
+  return path.resolve(baseDir, text(value));
+}
+
+function money(value: unknown): Money {
+  const raw = typeof value === "number" ? String(value) : value;
+  if (typeof raw !== "string" || !Money.isValid(raw.trim())) {
+    throw new Error(`valor monetário inválido: ${value}`);
+  }
+  const result = Money.parse(raw.trim());
+  if (result.isNegative()) {
+    throw new Error(`valor monetário negativo: ${value}`);
+  }
+  return result;
+}
+
+function origin(value: unknown): string {
+  const result = normalizeOrigin(text(value));
+  let url: URL | undefined;
+  try {
+    url = new URL(result);
+  } catch {
+    url = undefined;
+  }
+  if (
+    !url ||
+    !["http:", "https:"].includes(url.protocol) ||
+    url.origin !== result
+  ) {
+    throw new Error(`origem inválida: ${value} (ex.: https://app.gabio.bank)`);
+  }
+  return result;
+}
+
+function subnet(value: unknown): string {
+  const result = text(value);
+  parseSubnet(result);
+  return result;
+}
+
+/**
+ * Conversão para uma opção com lista de valores: lista JSON no arquivo ou
+ * texto separado por vírgulas.
+ */
+function list<T>(item: (value: unknown) => T) {
+  return (value: unknown): T[] => {
+    const items =
+      typeof value === "string"
+        ? value.split(",").filter((part) => part.trim() !== "")
+        : value;
+    if (!Array.isArray(items)) {
+      throw new Error(`lista inválida: ${value}`);
+    }
+    return items.map(item);
+  };
+}
+
+/**
+ * Conversão para uma opção com valores fixos (sem diferenciar maiúsculas).
+ */
+function oneOf<T extends string>(values: readonly T[]) {
+  return (value: unknown): T => {
+    const found = values.find(
+      (candidate) =>
+        typeof value === "string" && candidate === value.trim().toLowerCase()
+    );
+    if (found === undefined) {
+      throw new Error(`valor inválido: ${value} (use ${values.join(", ")})`);
+    }
+    return found;
+  };
+}
@@ -0,0 +1,547 @@
+/**
+ * AdminController
+ *
+ * Responsável pelas operações da API administrativa (AdminServer): consulta e
+ * busca de contas, consulta do livro-razão, ajustes manuais de saldo,
+ * bloqueio/desbloqueio de contas, política de aprovação de transferências e
+ * análise das transações retidas pelas regras antifraude.
+ *
+ * Usa o mesmo BankService das conexões GBTP e valida as entradas com as mesmas
+ * regras do protocolo: cada chamada é convertida na GBTPRequest equivalente
+ * (p. ex. um crédito é validado como um DEPOSIT), de modo que IDs, valores,
+ * datas e paginação aceitos aqui são exatamente os aceitos via WebSocket.
+ *
+ * As respostas são objetos simples, serializados como JSON pelo AdminServer;
+ * as falhas são lançadas como GBTPError.
+ */
+import { GBTPRequest, GBTPRequestOptions } from "../protocol/gbtp";
+import { Value } from "../protocol/entities/value";
+import {
+  BankService,
+  BatchItemResult,
+  BatchMode,
+} from "../services/bank-service";
+import { FraudService } from "../services/fraud-service";
+import { ApprovalService } from "../services/approval-service";
+import { SchedulerService } from "../services/scheduler-service";
+import { logger } from "../services/logger";
+import { Account, AccountStatus } from "../models/account";
+import { ApprovalPolicy } from "../models/approval-policy";
+import { Transaction } from "../models/transaction";
+import { FraudDecision } from "../models/fraud-decision";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import {
+  ErrorCode,
+  GBTPError,
+  InvalidValueError,
+  MalformedRequestError,
+} from "../errors/gbtp-error";
+
+/**
+ * Tamanho de página padrão da consulta ao livro-razão.
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Tamanho máximo do motivo de um ajuste manual.
+ */
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * Situações aceitas no filtro da listagem de contas.
+ */
+const ACCOUNT_STATUSES: AccountStatus[] = ["ACTIVE", "FROZEN", "CLOSED"];
+
+/**
+ * Filtros da listagem de contas.
+ *
+ * - q: trecho do ID ou do nome do titular (sem diferenciar maiúsculas)
+ * - status: situação da conta (ACTIVE, FROZEN ou CLOSED)
+ */
+export interface AccountSearch {
+  q?: string;
+  status?: string;
+}
+
+/**
+ * Filtros da consulta ao livro-razão (mesmos formatos de FROM_DATE, TO_DATE,
+ * PAGE e PAGE_SIZE do protocolo).
+ */
+export interface LedgerQuery {
+  from?: string;
+  to?: string;
+  page?: string;
+  pageSize?: string;
+}
+
+/**
+ * Corpo de um ajuste manual: valor no formato monetário do protocolo (texto,
+ * ex.: "10.50") e motivo.
+ */
+export interface AdjustmentInput {
+  amount?: unknown;
+  reason?: unknown;
+}
+
+/**
+ * Corpo da política de aprovação: valor a partir do qual as transferências
+ * exigem aprovação (texto, ex.: "1000.00"; null remove a política) e contas
+ * aprovadoras.
+ */
+export interface ApprovalInput {
+  threshold?: unknown;
+  approvers?: unknown;
+}
+
+/**
+ * Corpo da análise de uma transação retida: motivo da decisão.
+ */
+export interface ReviewInput {
+  reason?: unknown;
+}
+
+export class AdminController {
+  /**
+   * Cria o controlador sobre as regras de negócio compartilhadas.
+   * @param service   - Regras de negócio das contas
+   * @param fraud     - Regras antifraude e fila de análise
+   * @param approvals - Transferências pendentes de aprovação
+   * @param scheduler - Transferências agendadas
+   */
+  constructor(
+    private service: BankService,
+    private fraud: FraudService,
+    private approvals: ApprovalService,
+    private scheduler: SchedulerService
+  ) {}
+
+  /**
+   * Lista as contas, opcionalmente filtradas por trecho do ID ou do nome do
+   * titular e por situação.
+   *
+   * @throws MalformedRequestError se a situação informada for inválida
+   */
+  public listAccounts(search: AccountSearch): object[] {
+    const status = search.status?.toUpperCase();
+    if (status && !ACCOUNT_STATUSES.includes(status as AccountStatus)) {
+      throw new MalformedRequestError("Situação inválida.");
+    }
+    const term = search.q?.trim().toLowerCase() ?? "";
+    return this.service
+      .listAccounts()
+      .filter(
+        (acc) =>
+          (!status || acc.status === status) &&
+          (acc.id.includes(term) ||
+            (acc.ownerName ?? "").toLowerCase().includes(term))
+      )
+      .map(summarize);
+  }
+
+  /**
+   * Retorna os dados completos de uma conta, incluindo os limites, o total
+   * movimentado no dia, a política de aprovação e as transferências
+   * pendentes.
+   *
+   * @throws GBTPError se o ID for inválido ou a conta não existir
+   */
+  public getAccount(accountId: string): object {
+    validated("BALANCE", accountId, "0");
+    const status = this.service.getLimits(accountId);
+    const { limits } = status;
+    const account = this.service.getAccount(accountId);
+    return {
+      ...summarize(account),
+      availableBalance: account.available().toString(),
+      limits: {
+        overdraft: limits.overdraft.toString(),
+        withdrawPerTransaction: limits.withdrawPerTransaction?.toString(),
+        withdrawDaily: limits.withdrawDaily?.toString(),
+        transferPerTransaction: limits.transferPerTransaction?.toString(),
+        transferDaily: limits.transferDaily?.toString(),
+      },
+      withdrawnToday: status.withdrawnToday.toString(),
+      transferredToday: status.transferredToday.toString(),
+      approval: account.approval && {
+        threshold: account.approval.threshold.toString(),
+        approvers: account.approval.approvers,
+      },
+      pendingTransfers: account.pendingTransfers.map((pending) => ({
+        id: pending.id,
+        destination: pending.destId,
+        amount: pending.amount.toString(),
+        createdAt: pending.createdAt,
+        expiresAt: pending.expiresAt,
+      })),
+    };
+  }
+
+  /**
+   * Retorna uma página do livro-razão da conta, com as mesmas regras de
+   * período e paginação de STATEMENT.
+   *
+   * @throws GBTPError se algum filtro for inválido ou a conta não existir
+   */
+  public getLedger(accountId: string, query: LedgerQuery): object {
+    const request = validated("STATEMENT", accountId, "0", {
+      fromDate: query.from,
+      toDate: query.to,
+      page: query.page,
+      pageSize: query.pageSize,
+    });
+    const statement = this.service.getStatement(accountId, {
+      from: request.fromDate?.day(),
+      to: request.toDate?.day(),
+      page: request.page ? Number(request.page.pageNumber()) : 1,
+      pageSize: request.pageSize
+        ? Number(request.pageSize.pageNumber())
+        : DEFAULT_PAGE_SIZE,
+    });
+    return {
+      page: statement.page,
+      totalPages: statement.totalPages,
+      totalEntries: statement.totalEntries,
+      entries: statement.entries.map(formatLedgerEntry),
+    };
+  }
+
+  /**
+   * Ajusta manualmente o saldo da conta. O valor segue as regras de DEPOSIT
+   * (crédito) ou WITHDRAW (débito), e o motivo é obrigatório.
+   *
+   * @throws GBTPError se o valor ou o motivo forem inválidos, ou se o ajuste
+   *         for recusado pelo BankService
+   */
+  public async adjust(
+    accountId: string,
+    direction: "CREDIT" | "DEBIT",
+    input: AdjustmentInput
+  ): Promise<object> {
+    if (typeof input.amount !== "string") {
+      throw new MalformedRequestError(
+        'Valor obrigatório, em texto (ex.: "10.50").'
+      );
+    }
+    const request = validated(
+      direction === "CREDIT" ? "DEPOSIT" : "WITHDRAW",
+      accountId,
+      input.amount
+    );
+    const reason = validReason(input.reason);
+    const balance = await this.service.adjustBalance(
+      accountId,
+      direction,
+      request.value.amount(),
+      reason
+    );
+    logger.info("Ajuste manual", {
+      direction,
+      accountId,
+      amount: input.amount,
+      reason,
+    });
+    return { id: accountId, balance: balance.toString() };
+  }
+
+  /**
+   * Bloqueia ou desbloqueia a conta, com as mesmas regras de FREEZE e
+   * UNFREEZE. O bloqueio fica registrado como feito pela administração (o
+   * titular não pode desfazê-lo), e o desbloqueio vale para qualquer bloqueio.
+   *
+   * @throws GBTPError se a conta não existir ou já estiver na situação pedida
+   */
+  public async setFrozen(accountId: string, frozen: boolean): Promise<object> {
+    validated(frozen ? "FREEZE" : "UNFREEZE", accountId, "0");
+    if (frozen) {
+      await this.service.freezeAccount(accountId, "ADMIN");
+    } else {
+      await this.service.unfreezeAccount(accountId, "ADMIN");
+    }
+    return summarize(this.service.getAccount(accountId));
+  }
+
+  /**
+   * Define ou remove (threshold null) a política de aprovação de
+   * transferências da conta. O valor segue o formato monetário do protocolo e
+   * as contas aprovadoras, as regras de ID.
+   *
+   * @throws GBTPError se o valor ou as contas forem inválidos, ou se a
+   *         política for recusada pelo BankService
+   */
+  public async setApproval(
+    accountId: string,
+    input: ApprovalInput
+  ): Promise<object> {
+    validated("BALANCE", accountId, "0");
+    let policy: ApprovalPolicy | undefined;
+    if (input.threshold !== null) {
+      if (typeof input.threshold !== "string") {
+        throw new MalformedRequestError(
+          'Valor obrigatório, em texto (ex.: "1000.00"), ou null para remover a política.'
+        );
+      }
+      if (
+        !Array.isArray(input.approvers) ||
+        !input.approvers.every((id) => typeof id === "string")
+      ) {
+        throw new MalformedRequestError(
+          "Contas aprovadoras obrigatórias, em uma lista de IDs."
+        );
+      }
+      const approvers = [...new Set(input.approvers as string[])];
+      for (const approver of approvers) {
+        validated("BALANCE", approver, "0");
+      }
+      const threshold = new Value(input.threshold);
+      if (!threshold.validate()) {
+        throw new InvalidValueError("Valor inválido.");
+      }
+      policy = new ApprovalPolicy(threshold.amount(), approvers);
+    }
+    await this.service.setApprovalPolicy(accountId, policy);
+    logger.info(
+      policy
+        ? "Política de aprovação definida"
+        : "Política de aprovação removida",
+      {
+        accountId,
+        threshold: policy?.threshold.toString(),
+        approvers: policy?.approvers,
+      }
+    );
+    return this.getAccount(accountId);
+  }
+
+  /**
+   * Lista as transações retidas pelas regras antifraude que aguardam
+   * análise, da mais antiga para a mais recente.
+   */
+  public listReviews(): object[] {
+    return this.fraud.pendingReviews().map(formatDecision);
+  }
+
+  /**
+   * Aprova uma transação retida, executando-a com as regras do BankService
+   * (saldo, limites, situação das contas), mas sem reavaliar as regras
+   * antifraude. Se a execução falhar, a transação continua retida.
+   *
+   * @throws GBTPError se o motivo for inválido, a transação não estiver
+   *         retida ou a execução falhar
+   */
+  public async approveReview(
+    reviewId: string,
+    input: ReviewInput
+  ): Promise<object> {
+    const reason = validReason(input.reason);
+    const decision = await this.fraud.approve(
+      reviewId,
+      reason,
+      (held, approval) => this.executeHeld(held, approval)
+    );
+    return formatDecision(decision);
+  }
+
+  /**
+   * Recusa uma transação retida; ela é descartada sem ser executada. A
+   * execução retida de um agendamento único passa a ser uma falha do
+   * agendamento.
+   *
+   * @throws GBTPError se o motivo for inválido ou a transação não estiver
+   *         retida
+   */
+  public declineReview(reviewId: string, input: ReviewInput): object {
+    const reason = validReason(input.reason);
+    const decision = this.fraud.decline(reviewId, reason);
+    if (decision.scheduleId) {
+      this.scheduler.declineHeld(decision.scheduleId);
+    }
+    return formatDecision(decision);
+  }
+
+  /**
+   * Executa uma transação retida. Uma transferência que exige aprovação pela
+   * política da conta fica pendente, um lote ATOMIC desfeito falha com o
+   * erro da operação que falhou e um agendamento é criado (suas execuções
+   * continuam sujeitas às regras antifraude). Um agendamento analisado depois
+   * da data da primeira execução é executado na próxima verificação do
+   * agendador. A execução retida de um agendamento é feita pelo agendador,
+   * que conclui o agendamento único junto com a transferência.
+   *
+   * O registro da aprovação é gravado na mesma operação que a execução.
+   */
+  private async executeHeld(
+    held: FraudDecision,
+    approval: () => IdempotencyRecord
+  ): Promise<void> {
+    switch (held.operation) {
+      case "WITHDRAW":
+        await this.service.withdraw(held.accountId, held.amount, approval);
+        break;
+      case "TRANSFER": {
+        if (held.scheduleId) {
+          await this.scheduler.runHeld(held.scheduleId, approval);
+          break;
+        }
+        const destination = heldField(held, "destination");
+        if (this.service.requiresApproval(held.accountId, held.amount)) {
+          await this.approvals.request(
+            held.accountId,
+            destination,
+            held.amount,
+            approval
+          );
+        } else {
+          await this.service.transfer(
+            held.accountId,
+            destination,
+            held.amount,
+            approval
+          );
+        }
+        break;
+      }
+      case "BATCH": {
+        const result = await this.service.executeBatch(
+          held.accountId,
+          held.items,
+          held.mode as BatchMode,
+          approval
+        );
+        const failed = result.items.find(isFailedItem);
+        if (!result.committed && failed) {
+          throw new GBTPError(failed.code, failed.message);
+        }
+        break;
+      }
+      case "SCHEDULE_TRANSFER":
+        // Com a data já vencida, o agendamento é executado na próxima
+        // verificação em vez de ser recusado
+        this.scheduler.schedule(
+          held.accountId,
+          heldField(held, "destination"),
+          held.amount,
+          heldField(held, "runDate"),
+          heldField(held, "recurrence"),
+          approval,
+          true
+        );
+        break;
+    }
+  }
+}
+
+/**
+ * Campo obrigatório da operação retida (destino em TRANSFER; destino, data e
+ * recorrência em SCHEDULE_TRANSFER).
+ * @throws Error se o campo estiver ausente no registro de decisões
+ */
+function heldField<K extends "destination" | "runDate" | "recurrence">(
+  held: FraudDecision,
+  field: K
+): NonNullable<FraudDecision[K]> {
+  const value = held[field];
+  if (value === undefined) {
+    throw new Error(`Transação retida ${held.id} sem ${field}`);
+  }
+  return value;
+}
+
+/**
+ * Indica se a operação do lote falhou (com o código e a mensagem do erro).
+ */
+function isFailedItem(
+  item: BatchItemResult
+): item is BatchItemResult & { code: ErrorCode; message: string } {
+  return (
+    item.status === "ERROR" &&
+    item.code !== undefined &&
+    item.message !== undefined
+  );
+}
+
+/**
+ * Valida os dados de uma chamada como a GBTPRequest equivalente.
+ * @throws MalformedRequestError ou InvalidValueError, como no protocolo
+ */
+function validated(
+  operation: string,
+  accountId: string,
+  value: string,
+  options: GBTPRequestOptions = {}
+): GBTPRequest {
+  return new GBTPRequest(operation, accountId, undefined, value, options);
+}
+
+/**
+ * Valida o motivo de um ajuste manual: texto de uma linha, com 1 a
+ * MAX_REASON_LENGTH caracteres.
+ * @throws MalformedRequestError se o motivo for inválido
+ */
+function validReason(reason: unknown): string {
+  const trimmed = typeof reason === "string" ? reason.trim() : "";
+  if (
+    trimmed.length === 0 ||
+    trimmed.length > MAX_REASON_LENGTH ||
+    /[\r\n]/.test(trimmed)
+  ) {
+    throw new MalformedRequestError(
+      `Motivo obrigatório, em uma linha e com até ${MAX_REASON_LENGTH} caracteres.`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Resumo de uma conta na listagem (sem as credenciais).
+ */
+function summarize(account: Account): object {
+  return {
+    id: account.id,
+    ownerName: account.ownerName,
+    status: account.status,
+    frozenBy: account.frozenBy,
+    currency: account.currency,
+    balance: account.balance.toString(),
+  };
+}
+
+/**
+ * Formata uma decisão antifraude para a resposta JSON, com as operações do
+ * lote no formato OPERACAO;DESTINO;VALOR.
+ */
+function formatDecision(decision: FraudDecision): object {
+  return {
+    id: decision.id,
+    timestamp: decision.timestamp,
+    verdict: decision.verdict,
+    accountId: decision.accountId,
+    operation: decision.operation,
+    destination: decision.destination,
+    amount: decision.amount.toString(),
+    mode: decision.mode,
+    runDate: decision.runDate,
+    recurrence: decision.recurrence,
+    scheduleId: decision.scheduleId,
+    items: decision.items.map((item) =>
+      [item.operation, item.destination ?? "", item.amount.toString()].join(";")
+    ),
+    rules: decision.rules,
+    reviewOf: decision.reviewOf,
+    reason: decision.reason,
+  };
+}
+
+/**
+ * Formata um lançamento do livro-razão para a resposta JSON.
+ */
+function formatLedgerEntry(entry: Transaction): object {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    type: entry.type,
+    amount: entry.amount.toString(),
+    counterparty: entry.counterparty,
+    balance: entry.balance.toString(),
+    reason: entry.reason,
+  };
+}
@@ -4,11 +4,113 @@
  * Responsável por orquestrar as operações bancárias usando BankService e gerar respostas
  * no formato do protocolo GBTP (GBTPResponse).
  */
-import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
-import { BankService } from "../services/bank-service";
+import {
+  GBTPRequest,
+  GBTPResponse,
+  GBTPResponseOptions,
+} from "../protocol/gbtp";
+import {
+  BankService,
+  BatchItem,
+  BatchItemResult,
+  BatchMode,
+  BatchResult,
+  IdempotencyHook,
+  LimitsStatus,
+  TransferReceipt,
+} from "../services/bank-service";
+import { AuthService } from "../services/auth-service";
+import { IdempotencyService } from "../services/idempotency-service";
+import { LockManager } from "../services/lock-manager";
+import { SchedulerService } from "../services/scheduler-service";
+import { FraudService, ScreenedTransaction } from "../services/fraud-service";
+import {
+  ApprovalService,
+  PendingTransferRequest,
+} from "../services/approval-service";
+import { Transaction } from "../models/transaction";
+import { Recurrence, ScheduledTransfer } from "../models/scheduled-transfer";
+import { PendingTransfer } from "../models/pending-transfer";
+import { FraudDecision } from "../models/fraud-decision";
+import { Money } from "../models/money";
+import { Session } from "../models/session";
+import {
+  AccountClosedError,
+  ForbiddenError,
+  InvalidValueError,
+  MalformedRequestError,
+  TransactionRejectedError,
+  UnauthorizedError,
+  errorCode,
+} from "../errors/gbtp-error";
+
+/**
+ * Tamanho de página padrão do extrato quando PAGE_SIZE não é informado.
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Operações que só podem ser executadas pela sessão dona da conta principal.
+ * DEPOSIT fica de fora: qualquer sessão autenticada pode depositar em qualquer conta.
+ * APPROVE, REJECT e LIST_PENDING também ficam de fora: são autorizadas pelo
+ * ApprovalService conforme as contas aprovadoras da conta de origem.
+ */
+const OWNER_ONLY_OPERATIONS = [
+  "BALANCE",
+  "WITHDRAW",
+  "TRANSFER",
+  "STATEMENT",
+  "LOGOUT",
+  "SUBSCRIBE",
+  "UNSUBSCRIBE",
+  "CLOSE",
+  "FREEZE",
+  "UNFREEZE",
+  "SCHEDULE_TRANSFER",
+  "LIST_SCHEDULED",
+  "CANCEL_SCHEDULED",
+  "LIMITS",
+  "BATCH",
+];
+
+/**
+ * Operações cujas respostas são memorizadas quando a requisição traz REQUEST_ID.
+ */
+const IDEMPOTENT_OPERATIONS = [
+  "DEPOSIT",
+  "WITHDRAW",
+  "TRANSFER",
+  "SCHEDULE_TRANSFER",
+  "BATCH",
+  "APPROVE",
+  "REJECT",
+];
 
 export class BankController {
-  private service = new BankService();
+  private auth: AuthService;
+  private requestLocks = new LockManager();
+
+  /**
+   * Cria o controlador sobre os serviços compartilhados do servidor.
+   *
+   * O controlador não guarda estado por conexão (este fica na Session), então
+   * uma única instância atende todas as conexões.
+   *
+   * @param service     - Regras de negócio das contas
+   * @param idempotency - Memória de respostas por REQUEST_ID
+   * @param scheduler   - Transferências agendadas
+   * @param fraud       - Regras antifraude das operações de saída
+   * @param approvals   - Transferências pendentes de aprovação
+   */
+  constructor(
+    private service: BankService,
+    private idempotency: IdempotencyService,
+    private scheduler: SchedulerService,
+    private fraud: FraudService,
+    private approvals: ApprovalService
+  ) {
+    this.auth = new AuthService(service);
+  }
 
   /**
    * Processa uma requisição GBTPRequest e retorna uma GBTPResponse apropriada.
@@ -18,81 +120,765 @@ export class BankController {
    * conforme o protocolo GBTP (STATUS, MESSAGE, BALANCE).
    *
    * @param request - Instância de GBTPRequest contendo:
-   *   • operation: tipo da operação ("BALANCE", "DEPOSIT", "WITHDRAW", "TRANSFER")
-   *   • account: ID da conta de origem
-   *   • destination: ID da conta de destino (apenas para "TRANSFER")
-   *   • value: valor da transação (string que representa número)
+   *   • operation: tipo da operação ("BALANCE", "DEPOSIT", "WITHDRAW", "TRANSFER", "STATEMENT",
+   *     "LOGIN", "LOGOUT", "SUBSCRIBE", "UNSUBSCRIBE", "OPEN", "CLOSE", "FREEZE", "UNFREEZE",
+   *     "SCHEDULE_TRANSFER", "LIST_SCHEDULED", "CANCEL_SCHEDULED", "LIMITS", "BATCH",
+   *     "APPROVE", "REJECT", "LIST_PENDING")
+   *   • account: ID da conta de origem (vazio em "OPEN"; conta das transferências
+   *     pendentes em "APPROVE", "REJECT" e "LIST_PENDING")
+   *   • destination: ID da conta de destino (apenas para "TRANSFER" e "SCHEDULE_TRANSFER")
+   *   • value: valor da transação (string no formato monetário de Money)
+   *   • fromDate / toDate / page / pageSize: filtros do extrato (apenas para "STATEMENT")
+   *   • password: senha da conta (apenas para "LOGIN" e "OPEN")
+   *   • requestId: chave de idempotência (opcional)
+   *   • ownerName: nome do titular (apenas para "OPEN")
+   *   • runDate / recurrence: data e recorrência (apenas para "SCHEDULE_TRANSFER")
+   *   • scheduleId: agendamento a cancelar (apenas para "CANCEL_SCHEDULED")
+   *   • currency: moeda da conta aberta ("OPEN") ou do valor ("DEPOSIT", "WITHDRAW",
+   *     "TRANSFER", "SCHEDULE_TRANSFER")
+   *   • mode / items: modo de execução e operações do lote (apenas para "BATCH")
+   *   • pendingId: transferência pendente (apenas para "APPROVE" e "REJECT")
+   * @param session - Sessão da conexão que enviou a requisição
    *
-   * @returns GBTPResponse
+   * @returns Promise com a GBTPResponse
    *   • STATUS: "OK" ou "ERROR", conforme sucesso ou falha na operação
    *   • MESSAGE: texto descritivo conforme regras do protocolo
+   *   • CODE: código estável do erro, apenas em "ERROR"
    *   • BALANCE: saldo atual da conta de origem (formatado com duas casas decimais)
+   *   • AVAILABLE_BALANCE: saldo disponível (descontadas as transferências
+   *     pendentes), apenas em "BALANCE"
+   *   • CURRENCY: moeda do saldo, quando o saldo é revelado
+   *   • CREDITED_AMOUNT / CREDITED_CURRENCY / EXCHANGE_RATE: valor creditado,
+   *     moeda do destino e taxa de câmbio, apenas em "TRANSFER" e "APPROVE"
+   *   • PENDING_ID: transferência pendente criada, apenas em "TRANSFER" que
+   *     exige aprovação
+   *   • ACCOUNT_ID: conta criada, apenas em "OPEN"
+   *   • SCHEDULE_ID: agendamento criado, apenas em "SCHEDULE_TRANSFER"
+   *   • REVIEW_ID: transação retida para análise, apenas com CODE
+   *     "TRANSACTION_HELD"
+   *   • PAGE / TOTAL_PAGES / TOTAL_ENTRIES e corpo: apenas em "STATEMENT"
+   *   • corpo com os agendamentos: apenas em "LIST_SCHEDULED"
+   *   • corpo com os limites: apenas em "LIMITS"
+   *   • corpo com as transferências pendentes: apenas em "LIST_PENDING"
+   *   • corpo com o resultado de cada operação: apenas em "BATCH" (também
+   *     quando um lote ATOMIC falha, com STATUS "ERROR" e o CODE da operação
+   *     que falhou)
    *
    * Fluxo:
-   * 1. Extrai opType, acctId, destId e valueNum de request.
-   * 2. Em bloco try/catch, tenta executar a operação via BankService:
-   *    - BALANCE: getBalance(acctId)
-   *    - DEPOSIT: deposit(acctId, valueNum)
-   *    - WITHDRAW: withdraw(acctId, valueNum)
-   *    - TRANSFER: transfer(acctId, destId, valueNum)
-   * 3. Se operação bem-sucedida, retorna GBTPResponse("OK", mensagem, saldo).
+   * 1. Extrai opType, acctId, destId e amount de request.
+   * 2. Em bloco try/catch, desvincula a sessão se a conta dela tiver sido
+   *    encerrada por outra conexão (endClosedSession), verifica a
+   *    autorização da sessão (authorize) e, se a requisição trouxer
+   *    CURRENCY, se ela é a moeda da conta. Se a
+   *    requisição trouxer REQUEST_ID já processado (IDEMPOTENT_OPERATIONS),
+   *    devolve a resposta original; caso contrário, executa a operação via
+   *    BankService. Requisições com o mesmo REQUEST_ID na mesma conta são
+   *    serializadas, para que reenvios simultâneos não executem a operação
+   *    duas vezes. WITHDRAW, TRANSFER, BATCH e SCHEDULE_TRANSFER passam antes
+   *    pelas regras antifraude (FraudService.screen): uma transação recusada gera o erro
+   *    "TRANSACTION_REJECTED", e uma retida para análise não é executada e
+   *    gera o erro "TRANSACTION_HELD" com REVIEW_ID (memorizado, se houver
+   *    REQUEST_ID, para que reenvios não criem novas retenções). Uma
+   *    transação liberada cuja operação falha é desfeita nas regras de
+   *    frequência (FraudService.revert):
+   *    - LOGIN: authenticate(acctId, senha) e vincula a sessão à conta (contas
+   *      encerradas são recusadas)
+   *    - LOGOUT: desvincula a sessão da conta
+   *    - OPEN: openAccount(titular, amount, senha, moeda); o saldo da conta
+   *      criada é revelado a quem a abriu
+   *    - CLOSE: closeAccount(acctId) e desvincula a sessão da conta
+   *    - FREEZE / UNFREEZE: freezeAccount(acctId) / unfreezeAccount(acctId)
+   *    - SUBSCRIBE / UNSUBSCRIBE: apenas confirma a autorização; o registro da
+   *      inscrição é feito pelo WebSocketHandler, dono da conexão
+   *    - BALANCE: getBalance(acctId) e o saldo disponível da conta
+   *    - DEPOSIT: deposit(acctId, amount)
+   *    - WITHDRAW: withdraw(acctId, amount)
+   *    - TRANSFER: transfer(acctId, destId, amount), com conversão de moeda,
+   *      ou approvals.request(acctId, destId, amount) se o valor exigir
+   *      aprovação pela política da conta (a transferência fica pendente)
+   *    - STATEMENT: getStatement(acctId, filtro) + getBalance(acctId)
+   *    - SCHEDULE_TRANSFER: scheduler.schedule(acctId, destId, amount, data,
+   *      recorrência)
+   *    - LIST_SCHEDULED: scheduler.list(acctId)
+   *    - CANCEL_SCHEDULED: scheduler.cancel(acctId, scheduleId)
+   *    - LIMITS: getLimits(acctId)
+   *    - APPROVE / REJECT: approvals.approve / approvals.reject(conta da
+   *      sessão, acctId, pendingId)
+   *    - LIST_PENDING: approvals.list(conta da sessão, acctId)
+   * 3. Se operação bem-sucedida, retorna GBTPResponse("OK", mensagem, saldo), com
+   *    saldo "0" quando a conta principal não pertence à sessão. Se houver
+   *    REQUEST_ID, a resposta é montada a partir do resultado da operação e
+   *    memorizada na mesma gravação que a operação (IdempotencyHook).
    * 4. Se ocorrer erro (conta inexistente, saldo insuficiente etc.), captura a exceção:
-   *    - Tenta obter saldo atual de acctId (se conta existir), caso contrário usa "0".
-   *    - Retorna GBTPResponse("ERROR", mensagem de erro, saldoStr).
+   *    - Tenta obter saldo atual de acctId (se conta existir e pertencer à sessão),
+   *      caso contrário usa "0".
+   *    - Retorna GBTPResponse("ERROR", mensagem de erro, saldoStr), com CODE
+   *      igual ao código do GBTPError lançado ou "INTERNAL_ERROR" para falhas
+   *      inesperadas.
    */
-  public process(request: GBTPRequest): GBTPResponse {
+  public process(
+    request: GBTPRequest,
+    session: Session
+  ): Promise<GBTPResponse> {
+    const opType = request.operation.operationType();
+    if (
+      request.requestId === undefined ||
+      !IDEMPOTENT_OPERATIONS.includes(opType)
+    ) {
+      return this.execute(request, session);
+    }
+    const key = `${session.account() ?? ""}:${request.requestId.key()}`;
+    return this.requestLocks.runExclusive([key], () =>
+      this.execute(request, session)
+    );
+  }
+
+  /**
+   * Executa uma requisição conforme o fluxo descrito em process.
+   */
+  private async execute(
+    request: GBTPRequest,
+    session: Session
+  ): Promise<GBTPResponse> {
     const opType = request.operation.operationType();
     const acctId = request.account.IDNumber();
     const destId = request.destination ? request.destination.IDNumber() : "";
-    const valueNum = Number(request.value.quantity());
+    const amount = request.value.amount();
+    // Liberação antifraude da operação, desfeita se ela não for executada
+    let allowed: FraudDecision | undefined;
 
     try {
-      let newBalance: number;
+      let newBalance: Money;
       let message: string;
+      let options: GBTPResponseOptions = {};
+      this.endClosedSession(session);
+      let revealBalance = session.owns(acctId);
+
+      this.authorize(opType, acctId, session);
+      if (request.currency && opType !== "OPEN") {
+        this.ensureCurrency(acctId, request.currency.currencyCode());
+      }
+
+      const idempotent =
+        request.requestId !== undefined &&
+        IDEMPOTENT_OPERATIONS.includes(opType);
+      if (idempotent) {
+        const replay = this.idempotency.lookup(session.account()!, request);
+        if (replay) {
+          return replay;
+        }
+      }
+      // Registro da resposta, gravado junto com a operação (só com REQUEST_ID)
+      const memo = <T>(
+        respond: (result: T) => GBTPResponse
+      ): IdempotencyHook<T> | undefined =>
+        idempotent
+          ? (result) =>
+              this.idempotency.record(
+                session.account()!,
+                request,
+                respond(result)
+              )
+          : undefined;
+
+      const screened = screenedTransaction(request, acctId, destId, amount);
+      if (screened) {
+        const decision = this.fraud.screen(screened);
+        if (decision.verdict === "REJECT") {
+          throw new TransactionRejectedError(
+            "Transação recusada pelas regras antifraude"
+          );
+        }
+        if (decision.verdict === "HOLD") {
+          const response = new GBTPResponse(
+            "ERROR",
+            "Transação retida para análise",
+            this.service.getBalance(acctId).toString(),
+            {
+              code: "TRANSACTION_HELD",
+              currency: this.service.getCurrency(acctId),
+              reviewId: decision.id,
+            }
+          );
+          if (idempotent) {
+            this.idempotency.remember(session.account()!, request, response);
+          }
+          return response;
+        }
+        allowed = decision;
+      }
 
       switch (opType) {
-        case "BALANCE":
-          // Consulta de saldo
+        case "LOGIN":
+          // Autenticação da sessão
+          this.auth.authenticate(acctId, request.password!.secret());
+          if (this.service.getStatus(acctId) === "CLOSED") {
+            throw new AccountClosedError("Conta encerrada");
+          }
+          session.login(acctId);
+          revealBalance = true;
           newBalance = this.service.getBalance(acctId);
+          message = "Login realizado com sucesso";
+          break;
+
+        case "LOGOUT":
+          // Encerramento da sessão
+          newBalance = Money.ZERO;
+          session.logout();
+          message = "Logout realizado com sucesso";
+          break;
+
+        case "OPEN": {
+          // Abertura de conta
+          const account = this.service.openAccount(
+            request.ownerName!.name(),
+            amount,
+            request.password!.secret(),
+            request.currency?.currencyCode()
+          );
+          newBalance = account.balance;
+          revealBalance = true;
+          message = "Conta aberta com sucesso";
+          options = { accountId: account.id, currency: account.currency };
+          break;
+        }
+
+        case "CLOSE":
+          // Encerramento de conta (a sessão deixa de estar vinculada a ela)
+          await this.service.closeAccount(acctId);
+          session.logout();
+          newBalance = Money.ZERO;
+          message = "Conta encerrada com sucesso";
+          break;
+
+        case "FREEZE":
+          // Bloqueio de conta
+          await this.service.freezeAccount(acctId);
+          newBalance = this.service.getBalance(acctId);
+          message = "Conta bloqueada com sucesso";
+          break;
+
+        case "UNFREEZE":
+          // Desbloqueio de conta
+          await this.service.unfreezeAccount(acctId);
+          newBalance = this.service.getBalance(acctId);
+          message = "Conta desbloqueada com sucesso";
+          break;
+
+        case "SUBSCRIBE":
+          // Inscrição em eventos de saldo
+          newBalance = this.service.getBalance(acctId);
+          message = "Inscrição em eventos realizada com sucesso";
+          break;
+
+        case "UNSUBSCRIBE":
+          // Cancelamento da inscrição em eventos de saldo
+          newBalance = this.service.getBalance(acctId);
+          message = "Inscrição em eventos cancelada";
+          break;
+
+        case "BALANCE": {
+          // Consulta de saldo (contábil e disponível)
+          const account = this.service.getAccount(acctId);
+          newBalance = account.balance;
           message = "Saldo consultado com sucesso";
+          options = { availableBalance: account.available().toString() };
           break;
+        }
 
-        case "DEPOSIT":
+        case "DEPOSIT": {
           // Depósito
-          newBalance = this.service.deposit(acctId, valueNum);
-          message = "Depósito realizado com sucesso";
-          break;
+          const respond = (balance: Money) =>
+            this.success(
+              acctId,
+              revealBalance,
+              balance,
+              "Depósito realizado com sucesso"
+            );
+          return respond(
+            await this.service.deposit(acctId, amount, memo(respond))
+          );
+        }
 
-        case "WITHDRAW":
+        case "WITHDRAW": {
           // Saque
-          newBalance = this.service.withdraw(acctId, valueNum);
-          message = "Saque efetuado";
+          const respond = (balance: Money) =>
+            this.success(acctId, revealBalance, balance, "Saque efetuado");
+          return respond(
+            await this.service.withdraw(acctId, amount, memo(respond))
+          );
+        }
+
+        case "TRANSFER": {
+          if (this.service.requiresApproval(acctId, amount)) {
+            // Transferência acima da política: fica pendente de aprovação
+            const respond = (pending: PendingTransferRequest) =>
+              this.success(
+                acctId,
+                revealBalance,
+                this.service.getBalance(acctId),
+                "Transferência pendente de aprovação",
+                { pendingId: pending.transfer.id }
+              );
+            return respond(
+              await this.approvals.request(
+                acctId,
+                destId,
+                amount,
+                memo(respond)
+              )
+            );
+          }
+          // Transferência (com conversão, se as moedas forem diferentes)
+          const respond = (receipt: TransferReceipt) =>
+            this.success(
+              acctId,
+              revealBalance,
+              receipt.balance,
+              "Transferência concluída",
+              receiptOptions(receipt)
+            );
+          return respond(
+            await this.service.transfer(acctId, destId, amount, memo(respond))
+          );
+        }
+
+        case "STATEMENT": {
+          // Extrato paginado
+          const statement = this.service.getStatement(acctId, {
+            from: request.fromDate?.day(),
+            to: request.toDate?.day(),
+            page: request.page ? Number(request.page.pageNumber()) : 1,
+            pageSize: request.pageSize
+              ? Number(request.pageSize.pageNumber())
+              : DEFAULT_PAGE_SIZE,
+          });
+          newBalance = this.service.getBalance(acctId);
+          message = "Extrato consultado com sucesso";
+          options = {
+            page: String(statement.page),
+            totalPages: String(statement.totalPages),
+            totalEntries: String(statement.totalEntries),
+            body: statement.entries.map(formatStatementEntry),
+          };
+          break;
+        }
+
+        case "SCHEDULE_TRANSFER": {
+          // Agendamento de transferência
+          const respond = (transfer: ScheduledTransfer) =>
+            this.success(
+              acctId,
+              revealBalance,
+              this.service.getBalance(acctId),
+              "Transferência agendada com sucesso",
+              { scheduleId: transfer.id }
+            );
+          return respond(
+            this.scheduler.schedule(
+              acctId,
+              destId,
+              amount,
+              request.runDate!.day(),
+              (request.recurrence?.recurrenceType() ?? "ONCE") as Recurrence,
+              memo(respond)
+            )
+          );
+        }
+
+        case "LIST_SCHEDULED":
+          // Consulta dos agendamentos da conta
+          newBalance = this.service.getBalance(acctId);
+          message = "Agendamentos consultados com sucesso";
+          options = {
+            body: this.scheduler.list(acctId).map(formatScheduledTransfer),
+          };
+          break;
+
+        case "CANCEL_SCHEDULED":
+          // Cancelamento de agendamento
+          this.scheduler.cancel(acctId, request.scheduleId!.scheduleNumber());
+          newBalance = this.service.getBalance(acctId);
+          message = "Agendamento cancelado com sucesso";
+          break;
+
+        case "BATCH": {
+          // Lote de operações (tudo ou nada ou melhor esforço)
+          const items = batchItems(request);
+          const body = (result: BatchResult) =>
+            result.items.map((itemResult, index) =>
+              formatBatchResult(index, items[index], itemResult)
+            );
+          const respond = (result: BatchResult) => {
+            const done = result.items.filter(
+              (itemResult) => itemResult.status === "OK"
+            ).length;
+            return this.success(
+              acctId,
+              revealBalance,
+              result.balance,
+              `Lote executado: ${done} de ${items.length} operações concluídas`,
+              { body: body(result) }
+            );
+          };
+          const result = await this.service.executeBatch(
+            acctId,
+            items,
+            (request.mode?.modeType() ?? "ATOMIC") as BatchMode,
+            memo(respond)
+          );
+          const notExecuted = items.filter(
+            (_, index) => result.items[index].status !== "OK"
+          );
+          if (allowed && notExecuted.length > 0) {
+            this.fraud.revert(allowed, notExecuted);
+          }
+          if (!result.committed) {
+            // Lote ATOMIC desfeito: responde com o erro da operação que falhou
+            const failed = result.items.findIndex(
+              (itemResult) => itemResult.status === "ERROR"
+            );
+            return new GBTPResponse(
+              "ERROR",
+              `Lote não executado: operação ${failed + 1}: ${result.items[failed].message}`,
+              result.balance.toString(),
+              {
+                code: result.items[failed].code,
+                currency: this.service.getCurrency(acctId),
+                body: body(result),
+              }
+            );
+          }
+          return respond(result);
+        }
+
+        case "LIMITS": {
+          // Consulta de limites
+          const status = this.service.getLimits(acctId);
+          newBalance = status.balance;
+          message = "Limites consultados com sucesso";
+          options = { body: formatLimits(status) };
           break;
+        }
 
-        case "TRANSFER":
-          // Transferência
-          newBalance = this.service.transfer(acctId, destId, valueNum);
-          message = "Transferência concluída";
+        case "APPROVE": {
+          // Aprovação (e liquidação) de transferência pendente
+          const respond = (receipt: TransferReceipt) =>
+            this.success(
+              acctId,
+              revealBalance,
+              receipt.balance,
+              "Transferência aprovada",
+              receiptOptions(receipt)
+            );
+          return respond(
+            await this.approvals.approve(
+              session.account()!,
+              acctId,
+              request.pendingId!.pendingNumber(),
+              memo(respond)
+            )
+          );
+        }
+
+        case "REJECT": {
+          // Rejeição de transferência pendente
+          const respond = () =>
+            this.success(
+              acctId,
+              revealBalance,
+              this.service.getBalance(acctId),
+              "Transferência rejeitada"
+            );
+          await this.approvals.reject(
+            session.account()!,
+            acctId,
+            request.pendingId!.pendingNumber(),
+            memo(respond)
+          );
+          return respond();
+        }
+
+        case "LIST_PENDING":
+          // Consulta das transferências pendentes (titular ou aprovadora)
+          newBalance = this.service.getBalance(acctId);
+          message = "Transferências pendentes consultadas com sucesso";
+          options = {
+            body: this.approvals
+              .list(session.account()!, acctId)
+              .map(formatPendingTransfer),
+          };
           break;
 
         default:
           // Caso o tipo de operação seja inválido
-          throw new Error("Operação desconhecida");
+          throw new MalformedRequestError("Operação desconhecida");
       }
 
-      // Monta resposta de sucesso com saldo formatado
-      return new GBTPResponse("OK", message, newBalance.toFixed(2));
-    } catch (err: any) {
+      return this.success(acctId, revealBalance, newBalance, message, options);
+    } catch (err: unknown) {
       // Em caso de erro (p. ex. conta inexistente, saldo insuficiente etc.)
+      if (allowed) {
+        this.fraud.revert(allowed);
+      }
       let balanceStr = "0";
       try {
-        // Se a conta de origem existir, captura o saldo atual
-        balanceStr = this.service.getBalance(acctId).toFixed(2);
+        // Se a conta de origem existir e pertencer à sessão, captura o saldo
+        // atual, desde que ele seja enviável (senão a própria resposta de
+        // erro seria recusada)
+        if (session.owns(acctId)) {
+          const balance = this.service.getBalance(acctId).toString();
+          balanceStr = Money.isValid(balance) ? balance : "0";
+        }
       } catch {
         // Se a conta não existir, mantemos "0"
       }
-      // Retorna resposta de erro com a mensagem da exceção e saldo (se disponível)
-      return new GBTPResponse("ERROR", err.message, balanceStr);
+      // Retorna resposta de erro com o código e a mensagem da exceção e saldo
+      // (se disponível)
+      const message =
+        err instanceof Error && err.message.trim()
+          ? err.message
+          : "Erro interno";
+      return new GBTPResponse("ERROR", message, balanceStr, {
+        code: errorCode(err),
+      });
     }
   }
+
+  /**
+   * Monta a resposta de sucesso com saldo formatado; o saldo só é revelado à
+   * sessão dona da conta (p. ex. depósito em conta de terceiro retorna "0"),
+   * acompanhado da moeda da conta.
+   */
+  private success(
+    acctId: string,
+    revealBalance: boolean,
+    balance: Money,
+    message: string,
+    options: GBTPResponseOptions = {}
+  ): GBTPResponse {
+    const balanceStr = revealBalance ? balance.toString() : "0";
+    if (revealBalance && this.service.hasAccount(acctId)) {
+      options = { ...options, currency: this.service.getCurrency(acctId) };
+    }
+    return new GBTPResponse("OK", message, balanceStr, options);
+  }
+
+  /**
+   * Verifica se a moeda informada em CURRENCY é a moeda da conta.
+   *
+   * @throws InvalidValueError "Moeda do valor difere da moeda da conta"
+   */
+  private ensureCurrency(acctId: string, currency: string): void {
+    if (this.service.getCurrency(acctId) !== currency) {
+      throw new InvalidValueError("Moeda do valor difere da moeda da conta");
+    }
+  }
+
+  /**
+   * Desvincula a sessão da conta se ela tiver sido encerrada (CLOSE) por outra
+   * conexão autenticada na mesma conta, como no LOGOUT: as requisições
+   * seguintes da sessão são tratadas como não autenticadas.
+   */
+  private endClosedSession(session: Session): void {
+    const account = session.account();
+    if (account && this.service.getStatus(account) === "CLOSED") {
+      session.logout();
+    }
+  }
+
+  /**
+   * Verifica se a sessão pode executar a operação sobre a conta informada.
+   *
+   * - LOGIN e OPEN são sempre permitidos.
+   * - As demais operações exigem sessão autenticada.
+   * - Operações em OWNER_ONLY_OPERATIONS exigem que a sessão seja dona da conta.
+   *
+   * @throws UnauthorizedError "Sessão não autenticada" ou ForbiddenError
+   *         "Acesso negado à conta"
+   */
+  private authorize(opType: string, acctId: string, session: Session): void {
+    if (opType === "LOGIN" || opType === "OPEN") {
+      return;
+    }
+    if (!session.isAuthenticated()) {
+      throw new UnauthorizedError("Sessão não autenticada");
+    }
+    if (OWNER_ONLY_OPERATIONS.includes(opType) && !session.owns(acctId)) {
+      throw new ForbiddenError("Acesso negado à conta");
+    }
+  }
+}
+
+/**
+ * Converte as operações de um BATCH para o formato do BankService.
+ */
+function batchItems(request: GBTPRequest): BatchItem[] {
+  return request.items.map((item) => ({
+    operation: item.operationType() as BatchItem["operation"],
+    destination: item.destinationId() || undefined,
+    amount: item.value().amount(),
+  }));
+}
+
+/**
+ * Transação submetida às regras antifraude, apenas nas operações de saída
+ * (WITHDRAW, TRANSFER, BATCH e SCHEDULE_TRANSFER).
+ */
+function screenedTransaction(
+  request: GBTPRequest,
+  acctId: string,
+  destId: string,
+  amount: Money
+): ScreenedTransaction | undefined {
+  switch (request.operation.operationType()) {
+    case "WITHDRAW":
+      return { accountId: acctId, operation: "WITHDRAW", amount };
+    case "TRANSFER":
+      return {
+        accountId: acctId,
+        operation: "TRANSFER",
+        destination: destId,
+        amount,
+      };
+    case "BATCH":
+      return {
+        accountId: acctId,
+        operation: "BATCH",
+        amount: Money.ZERO,
+        mode: request.mode?.modeType() ?? "ATOMIC",
+        items: batchItems(request),
+      };
+    case "SCHEDULE_TRANSFER":
+      return {
+        accountId: acctId,
+        operation: "SCHEDULE_TRANSFER",
+        destination: destId,
+        amount,
+        runDate: request.runDate!.day(),
+        recurrence: (request.recurrence?.recurrenceType() ??
+          "ONCE") as Recurrence,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Campos de câmbio da resposta de uma transferência (TRANSFER e APPROVE).
+ */
+function receiptOptions(receipt: TransferReceipt): GBTPResponseOptions {
+  return {
+    creditedAmount: receipt.credited.toString(),
+    creditedCurrency: receipt.currency,
+    exchangeRate: receipt.rate,
+  };
+}
+
+/**
+ * Formata um lançamento como linha do corpo de STATEMENT:
+ * ID;TIMESTAMP;TIPO;VALOR;CONTRAPARTIDA;SALDO
+ */
+function formatStatementEntry(entry: Transaction): string {
+  return [
+    entry.id,
+    entry.timestamp,
+    entry.type,
+    entry.amount.toString(),
+    entry.counterparty,
+    entry.balance.toString(),
+  ].join(";");
+}
+
+/**
+ * Formata um agendamento como linha do corpo de LIST_SCHEDULED:
+ * ID;PROXIMA_EXECUCAO;RECORRENCIA;DESTINO;VALOR;SITUACAO;ULTIMA_EXECUCAO;ULTIMO_ERRO
+ */
+function formatScheduledTransfer(transfer: ScheduledTransfer): string {
+  return [
+    transfer.id,
+    transfer.nextRun,
+    transfer.recurrence,
+    transfer.destId,
+    transfer.amount.toString(),
+    transfer.status,
+    transfer.lastRunAt ?? "",
+    transfer.lastError ?? "",
+  ].join(";");
+}
+
+/**
+ * Formata uma transferência pendente como linha do corpo de LIST_PENDING:
+ * ID;DESTINO;VALOR;CRIADA_EM;EXPIRA_EM
+ */
+function formatPendingTransfer(transfer: PendingTransfer): string {
+  return [
+    transfer.id,
+    transfer.destId,
+    transfer.amount.toString(),
+    transfer.createdAt,
+    transfer.expiresAt,
+  ].join(";");
+}
+
+/**
+ * Formata os limites da conta como linhas do corpo de LIMITS:
+ * LIMITE;VALOR;UTILIZADO;DISPONIVEL
+ *
+ * VALOR e DISPONIVEL ficam vazios quando o limite não está definido, e
+ * UTILIZADO fica vazio nos limites por operação.
+ */
+function formatLimits(status: LimitsStatus): string[] {
+  const { limits, balance } = status;
+  const overdraftUsed = balance.isNegative()
+    ? Money.ZERO.minus(balance)
+    : Money.ZERO;
+  return [
+    formatLimit("OVERDRAFT", limits.overdraft, overdraftUsed),
+    formatLimit("WITHDRAW_PER_TRANSACTION", limits.withdrawPerTransaction),
+    formatLimit("WITHDRAW_DAILY", limits.withdrawDaily, status.withdrawnToday),
+    formatLimit("TRANSFER_PER_TRANSACTION", limits.transferPerTransaction),
+    formatLimit(
+      "TRANSFER_DAILY",
+      limits.transferDaily,
+      status.transferredToday
+    ),
+  ];
+}
+
+/**
+ * Formata uma linha do corpo de LIMITS. O disponível nunca é negativo.
+ */
+function formatLimit(name: string, limit?: Money, used?: Money): string {
+  let available = "";
+  if (limit && used) {
+    available = used.greaterThan(limit) ? "0.00" : limit.minus(used).toString();
+  }
+  return [
+    name,
+    limit?.toString() ?? "",
+    used?.toString() ?? "",
+    available,
+  ].join(";");
+}
+
+/**
+ * Formata o resultado de uma operação como linha do corpo de BATCH:
+ * ITEM;OPERACAO;DESTINO;VALOR;SITUACAO;CODIGO;MENSAGEM;SALDO
+ */
+function formatBatchResult(
+  index: number,
+  item: BatchItem,
+  result: BatchItemResult
+): string {
+  return [
+    String(index + 1),
+    item.operation,
+    item.destination ?? "",
+    item.amount.toString(),
+    result.status,
+    result.code ?? "",
+    result.message ?? "",
+    result.balance?.toString() ?? "",
+  ].join(";");
 }
@@ -0,0 +1,54 @@
+/**
+ * Erros do cliente GBTP (GBTPClient).
+ *
+ * - GBTPResponseError: o servidor respondeu com STATUS:ERROR. Estende
+ *   GBTPError com o mesmo CODE da resposta, para que o tratamento seja igual
+ *   ao do servidor (err.code === "INSUFFICIENT_FUNDS" etc.).
+ * - RequestTimeoutError: a resposta não chegou dentro do prazo.
+ * - ConnectionClosedError: a conexão caiu com a requisição já enviada, ou o
+ *   cliente foi encerrado (ou desistiu de reconectar) antes de enviá-la. Uma
+ *   requisição enviada pode ter sido executada; repita-a com o mesmo
+ *   REQUEST_ID para não duplicá-la.
+ */
+import type { GBTPResponse } from "../protocol/gbtp";
+import { ERROR_CODES, ErrorCode, GBTPError } from "./gbtp-error";
+
+/**
+ * Resposta de erro do servidor.
+ */
+export class GBTPResponseError extends GBTPError {
+  /**
+   * @param response Resposta com STATUS:ERROR (com REVIEW_ID, saldo etc.).
+   */
+  constructor(public readonly response: GBTPResponse) {
+    super(responseCode(response), response.message.content());
+  }
+}
+
+/**
+ * Falha do cliente sem resposta do servidor.
+ */
+export class GBTPClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Resposta não recebida dentro do prazo da requisição.
+ */
+export class RequestTimeoutError extends GBTPClientError {}
+
+/**
+ * Conexão encerrada antes da resposta.
+ */
+export class ConnectionClosedError extends GBTPClientError {}
+
+/**
+ * CODE da resposta de erro ("INTERNAL_ERROR" se ausente ou desconhecido).
+ */
+function responseCode(response: GBTPResponse): ErrorCode {
+  const code = response.code?.errorCode();
+  return ERROR_CODES.find((known) => known === code) ?? "INTERNAL_ERROR";
+}
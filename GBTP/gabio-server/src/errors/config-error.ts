@@ -0,0 +1,16 @@
+/**
+ * Erro de configuração do servidor.
+ *
+ * Lançado na inicialização, antes que qualquer serviço seja criado, com todos
+ * os problemas encontrados (e não apenas o primeiro), para que o operador
+ * possa corrigi-los de uma só vez.
+ */
+export class ConfigError extends Error {
+  /**
+   * @param problems - Descrição de cada opção inválida
+   */
+  constructor(public readonly problems: string[]) {
+    super(`Configuração inválida:\n- ${problems.join("\n- ")}`);
+    this.name = "ConfigError";
+  }
+}
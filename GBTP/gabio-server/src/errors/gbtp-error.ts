@@ -0,0 +1,268 @@
+/**
+ * Hierarquia de erros do servidor GBTP.
+ *
+ * Cada erro carrega um código estável (campo CODE da resposta), para que os
+ * clientes possam identificar a falha sem depender do texto da mensagem, que
+ * continua sendo enviado em MESSAGE para leitura humana.
+ *
+ * Códigos:
+ * - "MALFORMED_REQUEST": requisição fora do formato do protocolo.
+ * - "INVALID_VALUE": valor monetário inválido para a operação.
+ * - "ACCOUNT_NOT_FOUND": conta de origem ou de destino inexistente.
+ * - "SCHEDULE_NOT_FOUND": transferência agendada inexistente.
+ * - "INSUFFICIENT_FUNDS": saldo insuficiente.
+ * - "LIMIT_EXCEEDED": valor acima do limite por operação ou do limite diário.
+ * - "UNSUPPORTED_CURRENCY": moeda fora da tabela de câmbio do servidor.
+ * - "UNAUTHORIZED": sessão não autenticada ou credenciais inválidas.
+ * - "FORBIDDEN": a sessão não tem acesso à conta.
+ * - "ACCOUNT_FROZEN": conta bloqueada.
+ * - "ACCOUNT_CLOSED": conta encerrada.
+ * - "OPERATION_NOT_ALLOWED": operação não permitida no estado atual da conta.
+ * - "DUPLICATE_REQUEST_ID": REQUEST_ID já utilizado em outra requisição.
+ * - "UNSUPPORTED_VERSION": versão do protocolo (VERSION) não suportada.
+ * - "TRANSACTION_REJECTED": transação recusada pelas regras antifraude.
+ * - "TRANSACTION_HELD": transação retida para análise manual.
+ * - "REVIEW_NOT_FOUND": transação retida inexistente ou já analisada.
+ * - "PENDING_TRANSFER_NOT_FOUND": transferência pendente de aprovação
+ *   inexistente, já aprovada, rejeitada ou expirada.
+ * - "RATE_LIMITED": limite de mensagens da conexão, de requisições da conta ou
+ *   de conexões simultâneas do endereço excedido (a conexão é encerrada).
+ * - "MESSAGE_TOO_LARGE": mensagem acima do tamanho máximo (a conexão é
+ *   encerrada).
+ * - "INTERNAL_ERROR": falha inesperada do servidor.
+ */
+export const ERROR_CODES = [
+  "MALFORMED_REQUEST",
+  "INVALID_VALUE",
+  "ACCOUNT_NOT_FOUND",
+  "SCHEDULE_NOT_FOUND",
+  "INSUFFICIENT_FUNDS",
+  "LIMIT_EXCEEDED",
+  "UNSUPPORTED_CURRENCY",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "ACCOUNT_FROZEN",
+  "ACCOUNT_CLOSED",
+  "OPERATION_NOT_ALLOWED",
+  "DUPLICATE_REQUEST_ID",
+  "UNSUPPORTED_VERSION",
+  "TRANSACTION_REJECTED",
+  "TRANSACTION_HELD",
+  "REVIEW_NOT_FOUND",
+  "PENDING_TRANSFER_NOT_FOUND",
+  "RATE_LIMITED",
+  "MESSAGE_TOO_LARGE",
+  "INTERNAL_ERROR",
+] as const;
+
+/**
+ * Código de erro do protocolo GBTP.
+ */
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * Erro base do servidor GBTP, associado a um código estável.
+ */
+export class GBTPError extends Error {
+  /**
+   * Cria um novo erro.
+   * @param code Código do erro.
+   * @param message Mensagem descritiva.
+   */
+  constructor(
+    public readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Requisição fora do formato do protocolo (campo ausente, inválido ou não
+ * permitido na operação).
+ */
+export class MalformedRequestError extends GBTPError {
+  constructor(message: string) {
+    super("MALFORMED_REQUEST", message);
+  }
+}
+
+/**
+ * Valor monetário inválido para a operação.
+ */
+export class InvalidValueError extends GBTPError {
+  constructor(message: string) {
+    super("INVALID_VALUE", message);
+  }
+}
+
+/**
+ * Conta de origem ou de destino inexistente.
+ */
+export class AccountNotFoundError extends GBTPError {
+  constructor(message: string) {
+    super("ACCOUNT_NOT_FOUND", message);
+  }
+}
+
+/**
+ * Transferência agendada inexistente (ou de outra conta).
+ */
+export class ScheduleNotFoundError extends GBTPError {
+  constructor(message: string) {
+    super("SCHEDULE_NOT_FOUND", message);
+  }
+}
+
+/**
+ * Saldo insuficiente para a operação.
+ */
+export class InsufficientFundsError extends GBTPError {
+  constructor(message: string) {
+    super("INSUFFICIENT_FUNDS", message);
+  }
+}
+
+/**
+ * Valor acima do limite por operação ou do limite diário da conta.
+ */
+export class LimitExceededError extends GBTPError {
+  constructor(message: string) {
+    super("LIMIT_EXCEEDED", message);
+  }
+}
+
+/**
+ * Moeda fora da tabela de câmbio do servidor.
+ */
+export class UnsupportedCurrencyError extends GBTPError {
+  constructor(message: string) {
+    super("UNSUPPORTED_CURRENCY", message);
+  }
+}
+
+/**
+ * Sessão não autenticada ou credenciais inválidas.
+ */
+export class UnauthorizedError extends GBTPError {
+  constructor(message: string) {
+    super("UNAUTHORIZED", message);
+  }
+}
+
+/**
+ * Sessão autenticada sem acesso à conta da requisição.
+ */
+export class ForbiddenError extends GBTPError {
+  constructor(message: string) {
+    super("FORBIDDEN", message);
+  }
+}
+
+/**
+ * Conta bloqueada.
+ */
+export class AccountFrozenError extends GBTPError {
+  constructor(message: string) {
+    super("ACCOUNT_FROZEN", message);
+  }
+}
+
+/**
+ * Conta encerrada.
+ */
+export class AccountClosedError extends GBTPError {
+  constructor(message: string) {
+    super("ACCOUNT_CLOSED", message);
+  }
+}
+
+/**
+ * Operação não permitida no estado atual da conta (p. ex. encerrar conta com
+ * saldo ou transferir para a própria conta).
+ */
+export class OperationNotAllowedError extends GBTPError {
+  constructor(message: string) {
+    super("OPERATION_NOT_ALLOWED", message);
+  }
+}
+
+/**
+ * REQUEST_ID já utilizado em uma requisição diferente.
+ */
+export class DuplicateRequestIdError extends GBTPError {
+  constructor(message: string) {
+    super("DUPLICATE_REQUEST_ID", message);
+  }
+}
+
+/**
+ * Versão do protocolo informada em VERSION não suportada pelo servidor.
+ */
+export class UnsupportedVersionError extends GBTPError {
+  constructor(message: string) {
+    super("UNSUPPORTED_VERSION", message);
+  }
+}
+
+/**
+ * Transação recusada por uma regra antifraude.
+ */
+export class TransactionRejectedError extends GBTPError {
+  constructor(message: string) {
+    super("TRANSACTION_REJECTED", message);
+  }
+}
+
+/**
+ * Transação retida inexistente ou já analisada.
+ */
+export class ReviewNotFoundError extends GBTPError {
+  constructor(message: string) {
+    super("REVIEW_NOT_FOUND", message);
+  }
+}
+
+/**
+ * Transferência pendente de aprovação inexistente (ou já aprovada, rejeitada
+ * ou expirada).
+ */
+export class PendingTransferNotFoundError extends GBTPError {
+  constructor(message: string) {
+    super("PENDING_TRANSFER_NOT_FOUND", message);
+  }
+}
+
+/**
+ * Limite de vazão ou de conexões simultâneas excedido.
+ */
+export class RateLimitedError extends GBTPError {
+  constructor(message: string) {
+    super("RATE_LIMITED", message);
+  }
+}
+
+/**
+ * Mensagem acima do tamanho máximo aceito pelo servidor.
+ */
+export class MessageTooLargeError extends GBTPError {
+  constructor(message: string) {
+    super("MESSAGE_TOO_LARGE", message);
+  }
+}
+
+/**
+ * Retorna o código de um erro capturado: o código do GBTPError ou o código
+ * padrão para qualquer outra exceção.
+ * @param err Erro capturado.
+ * @param fallback Código usado para exceções que não são GBTPError
+ *   (padrão: "INTERNAL_ERROR").
+ * @returns Código do erro.
+ */
+export function errorCode(
+  err: unknown,
+  fallback: ErrorCode = "INTERNAL_ERROR"
+): ErrorCode {
+  return err instanceof GBTPError ? err.code : fallback;
+}
@@ -0,0 +1,284 @@
+/**
+ * AdminServer
+ *
+ * Servidor HTTP da API administrativa, executado em uma porta separada do
+ * WebSocketServer. Recebe requisições REST com corpo JSON e delega as
+ * operações ao AdminController.
+ *
+ * Autenticação: todas as rotas exigem o cabeçalho
+ * "Authorization: Bearer <token>", com o token definido em GBTP_ADMIN_TOKEN.
+ *
+ * Rotas:
+ *  - GET  /accounts                 Lista/busca contas (?q=, ?status=)
+ *  - GET  /accounts/:id             Dados da conta e limites
+ *  - GET  /accounts/:id/ledger      Livro-razão (?from=, ?to=, ?page=, ?pageSize=)
+ *  - POST /accounts/:id/credit      Crédito manual ({"amount", "reason"})
+ *  - POST /accounts/:id/debit       Débito manual ({"amount", "reason"})
+ *  - POST /accounts/:id/freeze      Bloqueia a conta
+ *  - POST /accounts/:id/unfreeze    Desbloqueia a conta
+ *  - POST /accounts/:id/approval    Política de aprovação ({"threshold",
+ *                                   "approvers"}; threshold null remove)
+ *  - GET  /reviews                  Transações retidas aguardando análise
+ *  - POST /reviews/:id/approve      Aprova e executa a transação ({"reason"})
+ *  - POST /reviews/:id/reject       Recusa a transação ({"reason"})
+ *
+ * Erros são respondidos como {"code", "message"}, com os mesmos códigos do
+ * protocolo GBTP e o status HTTP correspondente.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { timingSafeEqual } from "crypto";
+import { AdminController } from "../controllers/admin-controller";
+import { logger } from "../services/logger";
+import {
+  ErrorCode,
+  errorCode,
+  MalformedRequestError,
+} from "../errors/gbtp-error";
+
+/**
+ * Tamanho máximo, em bytes, do corpo de uma requisição.
+ */
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Erro de rota inexistente ou método não suportado.
+ */
+class RouteNotFoundError extends Error {}
+
+export class AdminServer {
+  private readonly server: Server;
+
+  /**
+   * Cria o servidor HTTP (ainda sem escutar em nenhuma porta).
+   * @param controller - Operações administrativas
+   * @param token      - Token exigido no cabeçalho Authorization
+   * @throws Error se o token for vazio
+   */
+  constructor(
+    private readonly controller: AdminController,
+    private readonly token: string
+  ) {
+    if (token.length === 0) {
+      throw new Error("Token da API administrativa não pode ser vazio");
+    }
+    this.server = createServer((req, res) => void this.handle(req, res));
+  }
+
+  /**
+   * Começa a escutar na porta informada.
+   * @param port - Porta HTTP
+   * @param host - Endereço de escuta (padrão: todas as interfaces)
+   * @returns promessa resolvida quando o servidor estiver pronto
+   */
+  public listen(port: number, host?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Encerra o servidor.
+   */
+  public close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Trata uma requisição: autentica, roteia e responde em JSON.
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    try {
+      if (!this.isAuthorized(req.headers.authorization)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        send(res, 401, {
+          code: "UNAUTHORIZED",
+          message: "Token de administrador inválido",
+        });
+        return;
+      }
+      send(res, 200, await this.route(req));
+    } catch (err: any) {
+      if (err instanceof RouteNotFoundError) {
+        send(res, 404, { code: "NOT_FOUND", message: "Rota inexistente" });
+        return;
+      }
+      const code = errorCode(err);
+      if (code === "INTERNAL_ERROR") {
+        logger.error("Erro na API administrativa", {
+          method: req.method,
+          error: err,
+        });
+      }
+      send(res, httpStatus(code), {
+        code,
+        message: code === "INTERNAL_ERROR" ? "Erro interno" : err.message,
+      });
+    }
+  }
+
+  /**
+   * Encaminha a requisição para a operação do AdminController.
+   * @throws RouteNotFoundError se a rota não existir
+   */
+  private async route(req: IncomingMessage): Promise<object> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const query = Object.fromEntries(url.searchParams);
+    const [root, id, action, ...rest] = url.pathname
+      .split("/")
+      .filter((part) => part.length > 0);
+    if (rest.length > 0) {
+      throw new RouteNotFoundError();
+    }
+    if (root === "reviews") {
+      return this.routeReview(req, id, action);
+    }
+    if (root !== "accounts") {
+      throw new RouteNotFoundError();
+    }
+
+    if (req.method === "GET") {
+      if (id === undefined) {
+        return this.controller.listAccounts(query);
+      }
+      if (action === undefined) {
+        return this.controller.getAccount(id);
+      }
+      if (action === "ledger") {
+        return this.controller.getLedger(id, query);
+      }
+    }
+
+    if (req.method === "POST" && id !== undefined) {
+      switch (action) {
+        case "credit":
+          return this.controller.adjust(id, "CREDIT", await readJson(req));
+        case "debit":
+          return this.controller.adjust(id, "DEBIT", await readJson(req));
+        case "freeze":
+          return this.controller.setFrozen(id, true);
+        case "unfreeze":
+          return this.controller.setFrozen(id, false);
+        case "approval":
+          return this.controller.setApproval(id, await readJson(req));
+      }
+    }
+
+    throw new RouteNotFoundError();
+  }
+
+  /**
+   * Encaminha as rotas /reviews para a análise de transações retidas.
+   * @throws RouteNotFoundError se a rota não existir
+   */
+  private async routeReview(
+    req: IncomingMessage,
+    id: string | undefined,
+    action: string | undefined
+  ): Promise<object> {
+    if (req.method === "GET" && id === undefined) {
+      return this.controller.listReviews();
+    }
+    if (req.method === "POST" && id !== undefined) {
+      switch (action) {
+        case "approve":
+          return this.controller.approveReview(id, await readJson(req));
+        case "reject":
+          return this.controller.declineReview(id, await readJson(req));
+      }
+    }
+    throw new RouteNotFoundError();
+  }
+
+  /**
+   * Confere o cabeçalho Authorization em tempo constante.
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    const match = /^Bearer (.+)$/.exec(header ?? "");
+    if (!match) {
+      return false;
+    }
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(match[1]);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
+
+/**
+ * Status HTTP correspondente a cada código de erro do protocolo.
+ */
+function httpStatus(code: ErrorCode): number {
+  switch (code) {
+    case "MALFORMED_REQUEST":
+    case "INVALID_VALUE":
+    case "UNSUPPORTED_CURRENCY":
+      return 400;
+    case "UNAUTHORIZED":
+      return 401;
+    case "FORBIDDEN":
+      return 403;
+    case "ACCOUNT_NOT_FOUND":
+    case "REVIEW_NOT_FOUND":
+    case "PENDING_TRANSFER_NOT_FOUND":
+      return 404;
+    case "INSUFFICIENT_FUNDS":
+    case "LIMIT_EXCEEDED":
+    case "ACCOUNT_FROZEN":
+    case "ACCOUNT_CLOSED":
+    case "OPERATION_NOT_ALLOWED":
+      return 409;
+    case "MESSAGE_TOO_LARGE":
+      return 413;
+    case "RATE_LIMITED":
+      return 429;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Lê e interpreta o corpo JSON da requisição (objeto; corpo vazio equivale a
+ * "{}").
+ * @throws MalformedRequestError se o corpo exceder MAX_BODY_SIZE ou não for
+ *         um objeto JSON válido
+ */
+async function readJson(req: IncomingMessage): Promise<object> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new MalformedRequestError(
+        `Corpo excede o tamanho máximo de ${MAX_BODY_SIZE} bytes.`
+      );
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8").trim();
+  if (text.length === 0) {
+    return {};
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new MalformedRequestError("Corpo JSON inválido.");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new MalformedRequestError("Corpo deve ser um objeto JSON.");
+  }
+  return body;
+}
+
+/**
+ * Envia uma resposta JSON.
+ */
+function send(res: ServerResponse, status: number, body: object) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
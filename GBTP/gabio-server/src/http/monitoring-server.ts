@@ -0,0 +1,153 @@
+/**
+ * MonitoringServer
+ *
+ * Servidor HTTP de monitoramento, executado em uma porta separada do
+ * WebSocketServer e da API administrativa. Não exige autenticação e não
+ * expõe dados de contas, para que possa ser consultado por balanceadores de
+ * carga e pelo Prometheus.
+ *
+ * Rotas:
+ *  - GET /health   Situação do armazenamento e do WebSocketServer, em JSON
+ *                  (200 se tudo estiver disponível; 503 caso contrário)
+ *  - GET /metrics  Métricas no formato texto do Prometheus (MetricsService)
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AccountRepository } from "../repositories/account-repository";
+import { MetricsService } from "../services/metrics-service";
+import { logger } from "../services/logger";
+
+/**
+ * Situação de um componente verificado pelo /health.
+ */
+type ComponentStatus = "UP" | "DOWN";
+
+/**
+ * Corpo da resposta do /health.
+ */
+export interface HealthReport {
+  status: ComponentStatus;
+  uptimeSeconds: number;
+  storage: { status: ComponentStatus; error?: string };
+  connections: { status: ComponentStatus; active: number };
+}
+
+export class MonitoringServer {
+  private readonly server: Server;
+  private readonly startedAt = Date.now();
+
+  /**
+   * Cria o servidor HTTP (ainda sem escutar em nenhuma porta).
+   * @param metrics     - Métricas do servidor
+   * @param repository  - Armazenamento verificado pelo /health
+   * @param isListening - Indica se o WebSocketServer está aceitando conexões
+   */
+  constructor(
+    private readonly metrics: MetricsService,
+    private readonly repository: AccountRepository,
+    private readonly isListening: () => boolean
+  ) {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Começa a escutar na porta informada.
+   * @param port - Porta HTTP
+   * @param host - Endereço de escuta (padrão: todas as interfaces)
+   * @returns promessa resolvida quando o servidor estiver pronto
+   */
+  public listen(port: number, host?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Encerra o servidor.
+   */
+  public close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Situação do servidor: UP se o armazenamento estiver acessível e o
+   * WebSocketServer estiver aceitando conexões.
+   */
+  public health(): HealthReport {
+    let storage: HealthReport["storage"];
+    try {
+      this.repository.checkHealth();
+      storage = { status: "UP" };
+    } catch (err: any) {
+      logger.warn("Armazenamento indisponível", { error: err });
+      storage = { status: "DOWN", error: err.message };
+    }
+    const connections: HealthReport["connections"] = {
+      status: this.isListening() ? "UP" : "DOWN",
+      active: this.metrics.activeConnections(),
+    };
+    return {
+      status:
+        storage.status === "UP" && connections.status === "UP" ? "UP" : "DOWN",
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      storage,
+      connections,
+    };
+  }
+
+  /**
+   * Trata uma requisição de monitoramento.
+   */
+  private handle(req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (req.method !== "GET") {
+      send(res, 404, "application/json; charset=utf-8", notFound());
+      return;
+    }
+    switch (pathname) {
+      case "/health": {
+        const health = this.health();
+        send(
+          res,
+          health.status === "UP" ? 200 : 503,
+          "application/json; charset=utf-8",
+          JSON.stringify(health)
+        );
+        return;
+      }
+      case "/metrics":
+        send(
+          res,
+          200,
+          "text/plain; version=0.0.4; charset=utf-8",
+          this.metrics.render()
+        );
+        return;
+      default:
+        send(res, 404, "application/json; charset=utf-8", notFound());
+    }
+  }
+}
+
+/**
+ * Corpo da resposta de rota inexistente, no formato da API administrativa.
+ */
+function notFound(): string {
+  return JSON.stringify({ code: "NOT_FOUND", message: "Rota inexistente" });
+}
+
+/**
+ * Envia uma resposta com o tipo de conteúdo informado.
+ */
+function send(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  body: string
+) {
+  res.writeHead(status, { "Content-Type": contentType });
+  res.end(body);
+}
@@ -0,0 +1,66 @@
+import { Money } from "./money";
+
+/**
+ * Modelo que representa a política de limites de uma conta bancária.
+ *
+ * - overdraft: quanto o saldo pode ficar negativo (zero: sem cheque especial).
+ * - withdrawPerTransaction / transferPerTransaction: valor máximo de um único
+ *   saque / transferência.
+ * - withdrawDaily / transferDaily: soma máxima dos saques / transferências
+ *   enviadas em um mesmo dia (UTC).
+ *
+ * Limites não definidos (undefined) não restringem a operação.
+ */
+export class AccountLimits {
+  /**
+   * Política padrão: sem cheque especial e sem limites de movimentação.
+   */
+  public static readonly NONE = new AccountLimits();
+
+  /**
+   * Limite de cheque especial (saldo negativo permitido).
+   */
+  public overdraft: Money;
+
+  /**
+   * Valor máximo de um saque.
+   */
+  public withdrawPerTransaction?: Money;
+
+  /**
+   * Soma máxima dos saques em um dia.
+   */
+  public withdrawDaily?: Money;
+
+  /**
+   * Valor máximo de uma transferência.
+   */
+  public transferPerTransaction?: Money;
+
+  /**
+   * Soma máxima das transferências enviadas em um dia.
+   */
+  public transferDaily?: Money;
+
+  /**
+   * Cria uma nova instância de AccountLimits.
+   * @param overdraft Limite de cheque especial (padrão: zero)
+   * @param withdrawPerTransaction Limite por saque (opcional)
+   * @param withdrawDaily Limite diário de saques (opcional)
+   * @param transferPerTransaction Limite por transferência (opcional)
+   * @param transferDaily Limite diário de transferências (opcional)
+   */
+  constructor(
+    overdraft: Money = Money.ZERO,
+    withdrawPerTransaction?: Money,
+    withdrawDaily?: Money,
+    transferPerTransaction?: Money,
+    transferDaily?: Money
+  ) {
+    this.overdraft = overdraft;
+    this.withdrawPerTransaction = withdrawPerTransaction;
+    this.withdrawDaily = withdrawDaily;
+    this.transferPerTransaction = transferPerTransaction;
+    this.transferDaily = transferDaily;
+  }
+}
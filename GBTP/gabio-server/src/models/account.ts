@@ -1,7 +1,40 @@
+import { Money } from "./money";
+import { AccountLimits } from "./account-limits";
+import { ApprovalPolicy } from "./approval-policy";
+import { PendingTransfer } from "./pending-transfer";
+
+/**
+ * Situação de uma conta bancária.
+ *
+ * - "ACTIVE": conta ativa, aceita todas as operações.
+ * - "FROZEN": conta bloqueada, não movimenta saldo até ser desbloqueada.
+ * - "CLOSED": conta encerrada, definitivamente inativa.
+ */
+export type AccountStatus = "ACTIVE" | "FROZEN" | "CLOSED";
+
+/**
+ * Quem bloqueou a conta.
+ *
+ * - "OWNER": o titular (FREEZE); ele mesmo pode desbloqueá-la (UNFREEZE).
+ * - "ADMIN": a administração (API administrativa); só ela pode desbloqueá-la.
+ */
+export type FreezeOrigin = "OWNER" | "ADMIN";
+
+/**
+ * Moeda (ISO 4217) das contas abertas sem moeda informada e das contas
+ * gravadas antes da introdução de múltiplas moedas.
+ */
+export const DEFAULT_CURRENCY = "BRL";
+
 /**
  * Modelo que representa uma conta bancária.
  *
- * Cada conta possui um identificador único e um saldo.
+ * Cada conta possui um identificador único, um saldo, as credenciais de
+ * acesso (hash salgado da senha), a situação, o nome do titular, a política
+ * de limites (cheque especial e limites de saque e transferência), a moeda
+ * em que o saldo e os limites estão expressos, a política de aprovação de
+ * transferências (opcional) e as transferências pendentes de aprovação, cujo
+ * valor fica reservado do saldo disponível.
  */
 export class Account {
   /**
@@ -12,15 +45,220 @@ export class Account {
   /**
    * Saldo atual da conta.
    */
-  public balance: number;
+  public balance: Money;
+
+  /**
+   * Salt aleatório (hex) usado no hash da senha.
+   */
+  public salt?: string;
+
+  /**
+   * Hash scrypt (hex) da senha combinada com o salt.
+   */
+  public passwordHash?: string;
+
+  /**
+   * Situação da conta.
+   */
+  public status: AccountStatus;
+
+  /**
+   * Quem bloqueou a conta (apenas em "FROZEN").
+   */
+  public frozenBy?: FreezeOrigin;
+
+  /**
+   * Nome do titular da conta (opcional para contas antigas).
+   */
+  public ownerName?: string;
+
+  /**
+   * Limites de cheque especial, saque e transferência da conta.
+   */
+  public limits: AccountLimits;
+
+  /**
+   * Moeda da conta (código ISO 4217).
+   */
+  public currency: string;
+
+  /**
+   * Política de aprovação de transferências (undefined: nenhuma
+   * transferência exige aprovação).
+   */
+  public approval?: ApprovalPolicy;
+
+  /**
+   * Transferências enviadas pela conta que aguardam aprovação.
+   */
+  public pendingTransfers: PendingTransfer[];
 
   /**
    * Cria uma nova instância de Account.
    * @param id ID da conta
    * @param balance Saldo inicial da conta
+   * @param salt Salt da senha (opcional)
+   * @param passwordHash Hash da senha (opcional)
+   * @param status Situação da conta (padrão: "ACTIVE")
+   * @param ownerName Nome do titular (opcional)
+   * @param limits Limites da conta (padrão: sem cheque especial nem limites)
+   * @param currency Moeda da conta (padrão: DEFAULT_CURRENCY)
+   * @param approval Política de aprovação de transferências (opcional)
+   * @param pendingTransfers Transferências pendentes (padrão: nenhuma)
+   * @param frozenBy Quem bloqueou a conta (apenas em "FROZEN"; padrão:
+   *   "OWNER")
    */
-  constructor(id: string, balance: number) {
+  constructor(
+    id: string,
+    balance: Money,
+    salt?: string,
+    passwordHash?: string,
+    status: AccountStatus = "ACTIVE",
+    ownerName?: string,
+    limits: AccountLimits = AccountLimits.NONE,
+    currency: string = DEFAULT_CURRENCY,
+    approval?: ApprovalPolicy,
+    pendingTransfers: PendingTransfer[] = [],
+    frozenBy?: FreezeOrigin
+  ) {
     this.id = id;
     this.balance = balance;
+    this.salt = salt;
+    this.passwordHash = passwordHash;
+    this.status = status;
+    this.ownerName = ownerName;
+    this.limits = limits;
+    this.currency = currency;
+    this.approval = approval;
+    this.pendingTransfers = pendingTransfers;
+    this.frozenBy = status === "FROZEN" ? (frozenBy ?? "OWNER") : undefined;
+  }
+
+  /**
+   * Soma dos valores reservados pelas transferências pendentes.
+   * @returns Valor reservado (zero se não houver pendências)
+   */
+  public reserved(): Money {
+    return this.pendingTransfers.reduce(
+      (total, transfer) => total.plus(transfer.amount),
+      Money.ZERO
+    );
+  }
+
+  /**
+   * Saldo disponível: saldo contábil menos o valor reservado pelas
+   * transferências pendentes (sem contar o cheque especial).
+   * @returns Saldo disponível
+   */
+  public available(): Money {
+    return this.balance.minus(this.reserved());
+  }
+
+  /**
+   * Cria uma cópia da conta com outro saldo, preservando os demais campos.
+   * @param balance Novo saldo
+   * @returns Nova instância de Account
+   */
+  public withBalance(balance: Money): Account {
+    return new Account(
+      this.id,
+      balance,
+      this.salt,
+      this.passwordHash,
+      this.status,
+      this.ownerName,
+      this.limits,
+      this.currency,
+      this.approval,
+      this.pendingTransfers,
+      this.frozenBy
+    );
+  }
+
+  /**
+   * Cria uma cópia da conta com outra situação, preservando os demais campos.
+   * @param status Nova situação
+   * @param frozenBy Quem bloqueou a conta (apenas em "FROZEN")
+   * @returns Nova instância de Account
+   */
+  public withStatus(status: AccountStatus, frozenBy?: FreezeOrigin): Account {
+    return new Account(
+      this.id,
+      this.balance,
+      this.salt,
+      this.passwordHash,
+      status,
+      this.ownerName,
+      this.limits,
+      this.currency,
+      this.approval,
+      this.pendingTransfers,
+      frozenBy
+    );
+  }
+
+  /**
+   * Cria uma cópia da conta com outros limites, preservando os demais campos.
+   * @param limits Novos limites
+   * @returns Nova instância de Account
+   */
+  public withLimits(limits: AccountLimits): Account {
+    return new Account(
+      this.id,
+      this.balance,
+      this.salt,
+      this.passwordHash,
+      this.status,
+      this.ownerName,
+      limits,
+      this.currency,
+      this.approval,
+      this.pendingTransfers,
+      this.frozenBy
+    );
+  }
+
+  /**
+   * Cria uma cópia da conta com outra política de aprovação, preservando os
+   * demais campos.
+   * @param approval Nova política (undefined: sem aprovação)
+   * @returns Nova instância de Account
+   */
+  public withApproval(approval: ApprovalPolicy | undefined): Account {
+    return new Account(
+      this.id,
+      this.balance,
+      this.salt,
+      this.passwordHash,
+      this.status,
+      this.ownerName,
+      this.limits,
+      this.currency,
+      approval,
+      this.pendingTransfers,
+      this.frozenBy
+    );
+  }
+
+  /**
+   * Cria uma cópia da conta com outras transferências pendentes, preservando
+   * os demais campos.
+   * @param pendingTransfers Novas transferências pendentes
+   * @returns Nova instância de Account
+   */
+  public withPendingTransfers(pendingTransfers: PendingTransfer[]): Account {
+    return new Account(
+      this.id,
+      this.balance,
+      this.salt,
+      this.passwordHash,
+      this.status,
+      this.ownerName,
+      this.limits,
+      this.currency,
+      this.approval,
+      pendingTransfers,
+      this.frozenBy
+    );
   }
 }
@@ -0,0 +1,41 @@
+import { Money } from "./money";
+
+/**
+ * Modelo que representa a política de aprovação de transferências de uma
+ * conta (p. ex. contas empresariais em que pagamentos altos exigem uma
+ * segunda pessoa).
+ *
+ * - threshold: transferências com valor maior ou igual a este, na moeda da
+ *   conta, ficam pendentes até serem aprovadas.
+ * - approvers: contas cujas sessões podem aprovar ou rejeitar as
+ *   transferências pendentes (a própria conta não pode aprovar).
+ */
+export class ApprovalPolicy {
+  /**
+   * Valor a partir do qual a transferência exige aprovação.
+   */
+  public threshold: Money;
+
+  /**
+   * Contas aprovadoras.
+   */
+  public approvers: string[];
+
+  /**
+   * Cria uma nova instância de ApprovalPolicy.
+   * @param threshold Valor a partir do qual a transferência exige aprovação
+   * @param approvers Contas aprovadoras
+   */
+  constructor(threshold: Money, approvers: string[]) {
+    this.threshold = threshold;
+    this.approvers = approvers;
+  }
+
+  /**
+   * Indica se uma transferência do valor informado exige aprovação.
+   * @param amount Valor da transferência
+   */
+  public requires(amount: Money): boolean {
+    return amount.compare(this.threshold) >= 0;
+  }
+}
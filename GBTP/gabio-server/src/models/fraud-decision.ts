@@ -0,0 +1,200 @@
+import { Money } from "./money";
+import { Recurrence } from "./scheduled-transfer";
+
+/**
+ * Operações de saída avaliadas pelas regras antifraude.
+ */
+export const SCREENED_OPERATIONS = [
+  "WITHDRAW",
+  "TRANSFER",
+  "BATCH",
+  "SCHEDULE_TRANSFER",
+] as const;
+
+/**
+ * Operação de saída avaliada pelas regras antifraude.
+ */
+export type ScreenedOperation = (typeof SCREENED_OPERATIONS)[number];
+
+/**
+ * Resultado de uma avaliação ou de uma análise manual.
+ *
+ * - "ALLOW": a transação foi liberada pelas regras.
+ * - "REJECT": a transação foi recusada por uma regra.
+ * - "HOLD": a transação foi retida para análise manual.
+ * - "APPROVED": uma transação retida foi aprovada e executada.
+ * - "DECLINED": uma transação retida foi recusada na análise.
+ * - "REVERTED": a operação de uma transação liberada não foi executada (p.
+ *   ex. saldo insuficiente); ela deixa de contar nas regras de frequência.
+ */
+export const FRAUD_VERDICTS = [
+  "ALLOW",
+  "REJECT",
+  "HOLD",
+  "APPROVED",
+  "DECLINED",
+  "REVERTED",
+] as const;
+
+export type FraudVerdict = (typeof FRAUD_VERDICTS)[number];
+
+/**
+ * Operações aceitas em um lote avaliado.
+ */
+export const SCREENED_ITEM_OPERATIONS = [
+  "DEPOSIT",
+  "WITHDRAW",
+  "TRANSFER",
+] as const;
+
+/**
+ * Operação de um lote avaliado (mesmo formato de BatchItem).
+ */
+export interface ScreenedItem {
+  operation: (typeof SCREENED_ITEM_OPERATIONS)[number];
+  destination?: string;
+  amount: Money;
+}
+
+/**
+ * Modelo que representa uma decisão antifraude, gravada no registro de
+ * decisões (uma linha por decisão).
+ *
+ * As decisões de análise manual ("APPROVED" e "DECLINED") repetem os dados da
+ * transação retida e a referenciam em reviewOf; uma decisão "REVERTED" repete
+ * as operações não executadas da liberação e a referencia em reverts.
+ */
+export class FraudDecision {
+  /**
+   * Identificador único da decisão (também usado como REVIEW_ID das
+   * transações retidas).
+   */
+  public id: string;
+
+  /**
+   * Data e hora da decisão em ISO 8601 (UTC).
+   */
+  public timestamp: string;
+
+  /**
+   * Resultado da decisão.
+   */
+  public verdict: FraudVerdict;
+
+  /**
+   * Conta de origem da transação.
+   */
+  public accountId: string;
+
+  /**
+   * Operação avaliada.
+   */
+  public operation: ScreenedOperation;
+
+  /**
+   * Conta de destino (apenas em TRANSFER e SCHEDULE_TRANSFER).
+   */
+  public destination?: string;
+
+  /**
+   * Valor da transação (zero em BATCH).
+   */
+  public amount: Money;
+
+  /**
+   * Modo de execução do lote (apenas em BATCH).
+   */
+  public mode?: string;
+
+  /**
+   * Operações do lote (lista vazia fora de BATCH).
+   */
+  public items: ScreenedItem[];
+
+  /**
+   * Data da primeira execução (apenas em SCHEDULE_TRANSFER).
+   */
+  public runDate?: string;
+
+  /**
+   * Recorrência do agendamento (apenas em SCHEDULE_TRANSFER).
+   */
+  public recurrence?: Recurrence;
+
+  /**
+   * Agendamento cuja execução foi avaliada (apenas em execuções do
+   * SchedulerService, avaliadas como TRANSFER).
+   */
+  public scheduleId?: string;
+
+  /**
+   * Nomes das regras acionadas.
+   */
+  public rules: string[];
+
+  /**
+   * Decisão retida a que esta análise se refere (apenas em "APPROVED" e
+   * "DECLINED").
+   */
+  public reviewOf?: string;
+
+  /**
+   * Liberação desfeita por esta decisão (apenas em "REVERTED").
+   */
+  public reverts?: string;
+
+  /**
+   * Motivo informado na análise manual, se houver.
+   */
+  public reason?: string;
+
+  /**
+   * Cria uma nova instância de FraudDecision.
+   * @param id Identificador da decisão
+   * @param timestamp Data e hora da decisão em ISO 8601
+   * @param verdict Resultado da decisão
+   * @param accountId Conta de origem
+   * @param operation Operação avaliada
+   * @param amount Valor da transação
+   * @param options Conta de destino, modo e operações do lote, data e
+   *   recorrência do agendamento, agendamento executado, regras acionadas,
+   *   decisão analisada ou desfeita e motivo (opcionais)
+   */
+  constructor(
+    id: string,
+    timestamp: string,
+    verdict: FraudVerdict,
+    accountId: string,
+    operation: ScreenedOperation,
+    amount: Money,
+    options: {
+      destination?: string;
+      mode?: string;
+      items?: ScreenedItem[];
+      runDate?: string;
+      recurrence?: Recurrence;
+      scheduleId?: string;
+      rules?: string[];
+      reviewOf?: string;
+      reverts?: string;
+      reason?: string;
+    } = {}
+  ) {
+    this.id = id;
+    this.timestamp = timestamp;
+    this.verdict = verdict;
+    this.accountId = accountId;
+    this.operation = operation;
+    this.amount = amount;
+    this.destination = options.destination;
+    this.mode = options.mode;
+    this.items = options.items ?? [];
+    this.runDate = options.runDate;
+    this.recurrence = options.recurrence;
+    this.scheduleId = options.scheduleId;
+    this.rules = options.rules ?? [];
+    this.reviewOf = options.reviewOf;
+    this.reverts = options.reverts;
+    this.reason = options.reason;
+  }
+}
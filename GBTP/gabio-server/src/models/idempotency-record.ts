@@ -0,0 +1,47 @@
+/**
+ * Modelo que representa uma resposta memorizada por chave de idempotência.
+ *
+ * Quando um cliente reenvia uma requisição com o mesmo REQUEST_ID, a resposta
+ * original é devolvida em vez de executar a operação novamente.
+ */
+export class IdempotencyRecord {
+  /**
+   * Chave do registro: conta da sessão + REQUEST_ID informado pelo cliente.
+   */
+  public key: string;
+
+  /**
+   * Representação da requisição original (sem o REQUEST_ID), usada para
+   * detectar reutilização da mesma chave em requisições diferentes.
+   */
+  public fingerprint: string;
+
+  /**
+   * Resposta GBTP original serializada.
+   */
+  public response: string;
+
+  /**
+   * Data e hora de expiração do registro em formato ISO 8601 (UTC).
+   */
+  public expiresAt: string;
+
+  /**
+   * Cria uma nova instância de IdempotencyRecord.
+   * @param key Chave do registro
+   * @param fingerprint Representação da requisição original
+   * @param response Resposta original serializada
+   * @param expiresAt Data e hora de expiração em ISO 8601
+   */
+  constructor(
+    key: string,
+    fingerprint: string,
+    response: string,
+    expiresAt: string
+  ) {
+    this.key = key;
+    this.fingerprint = fingerprint;
+    this.response = response;
+    this.expiresAt = expiresAt;
+  }
+}
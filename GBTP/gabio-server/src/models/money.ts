@@ -0,0 +1,196 @@
+import { InvalidValueError } from "../errors/gbtp-error";
+
+/**
+ * Modelo que representa uma quantia monetária exata.
+ *
+ * O valor é armazenado em unidades mínimas (centavos) como bigint, evitando os
+ * erros de arredondamento de ponto flutuante (p. ex. 0.1 + 0.2).
+ *
+ * Formato textual aceito por parse():
+ * - Até 13 dígitos na parte inteira e até duas casas decimais, opcionalmente
+ *   precedidos de "-" (ex.: "10", "10.5", "10.50", "-3.20").
+ * - Não são aceitos expoentes ("1e3"), "Infinity", "NaN", sinal "+", espaços
+ *   ou mais de duas casas decimais.
+ *
+ * O limite de dígitos mantém cada valor recebido muito abaixo do maior inteiro
+ * gravável (64 bits no SQLite). Os saldos também não passam de Money.MAX: o
+ * BankService recusa créditos que os levariam acima dele, já que as respostas
+ * do protocolo usam o mesmo formato. Valores persistidos (fromJSON) não têm
+ * esse limite, por compatibilidade com arquivos antigos.
+ */
+export class Money {
+  /**
+   * Expressão regular do formato textual aceito.
+   */
+  private static readonly PATTERN = /^(-)?(\d{1,13})(?:\.(\d{1,2}))?$/;
+
+  /**
+   * Formato dos valores persistidos: o mesmo, sem limite de dígitos.
+   */
+  private static readonly STORED_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+  /**
+   * Quantia zero.
+   */
+  public static readonly ZERO = new Money(0n);
+
+  /**
+   * Maior quantia no formato aceito por parse (e, portanto, a maior que pode
+   * ser enviada no protocolo).
+   */
+  public static readonly MAX = new Money(10n ** 15n - 1n);
+
+  /**
+   * Quantia em centavos.
+   */
+  private readonly cents: bigint;
+
+  /**
+   * Cria uma nova instância de Money.
+   * @param cents Quantia em centavos
+   */
+  private constructor(cents: bigint) {
+    this.cents = cents;
+  }
+
+  /**
+   * Verifica se o texto está no formato monetário aceito.
+   * @param text Texto a ser verificado
+   * @returns true se válido, false caso contrário.
+   */
+  public static isValid(text: string): boolean {
+    return Money.PATTERN.test(text);
+  }
+
+  /**
+   * Converte um texto no formato monetário aceito em Money.
+   * @param text Texto a ser convertido (ex.: "10.50")
+   * @returns Quantia correspondente
+   * @throws InvalidValueError se o formato for inválido (mensagem: "Valor monetário inválido")
+   */
+  public static parse(text: string): Money {
+    return Money.match(Money.PATTERN, text);
+  }
+
+  /**
+   * Converte um texto no formato informado em Money.
+   * @throws InvalidValueError se o texto não corresponder ao formato
+   */
+  private static match(pattern: RegExp, text: string): Money {
+    const match = pattern.exec(text);
+    if (!match) {
+      throw new InvalidValueError("Valor monetário inválido");
+    }
+    const [, sign, units, decimals = ""] = match;
+    const cents = BigInt(units) * 100n + BigInt(decimals.padEnd(2, "0"));
+    return new Money(sign ? -cents : cents);
+  }
+
+  /**
+   * Cria uma quantia a partir de centavos.
+   * @param cents Quantia em centavos
+   * @returns Quantia correspondente
+   */
+  public static fromCents(cents: bigint): Money {
+    return new Money(cents);
+  }
+
+  /**
+   * Converte um valor persistido em Money.
+   *
+   * Aceita o formato textual atual, sem o limite de dígitos de parse, e, por
+   * compatibilidade com arquivos antigos, números JSON (arredondados para
+   * centavos).
+   *
+   * @param value Valor persistido
+   * @returns Quantia correspondente
+   */
+  public static fromJSON(value: string | number): Money {
+    if (typeof value === "number") {
+      return new Money(BigInt(Math.round(value * 100)));
+    }
+    return Money.match(Money.STORED_PATTERN, value);
+  }
+
+  /**
+   * Soma duas quantias.
+   * @param other Quantia a ser somada
+   * @returns Nova quantia com o resultado
+   */
+  public plus(other: Money): Money {
+    return new Money(this.cents + other.cents);
+  }
+
+  /**
+   * Subtrai uma quantia desta.
+   * @param other Quantia a ser subtraída
+   * @returns Nova quantia com o resultado
+   */
+  public minus(other: Money): Money {
+    return new Money(this.cents - other.cents);
+  }
+
+  /**
+   * Compara duas quantias.
+   * @param other Quantia a ser comparada
+   * @returns -1, 0 ou 1 se esta quantia for menor, igual ou maior que other.
+   */
+  public compare(other: Money): number {
+    if (this.cents < other.cents) {
+      return -1;
+    }
+    return this.cents > other.cents ? 1 : 0;
+  }
+
+  /**
+   * Indica se esta quantia é maior que other.
+   */
+  public greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /**
+   * Indica se a quantia é zero.
+   */
+  public isZero(): boolean {
+    return this.cents === 0n;
+  }
+
+  /**
+   * Indica se a quantia é estritamente positiva.
+   */
+  public isPositive(): boolean {
+    return this.cents > 0n;
+  }
+
+  /**
+   * Indica se a quantia é negativa.
+   */
+  public isNegative(): boolean {
+    return this.cents < 0n;
+  }
+
+  /**
+   * Retorna a quantia em centavos.
+   */
+  public toCents(): bigint {
+    return this.cents;
+  }
+
+  /**
+   * Serializa a quantia com duas casas decimais (ex.: "210.00", "-3.20").
+   */
+  public toString(): string {
+    const abs = this.cents < 0n ? -this.cents : this.cents;
+    const units = abs / 100n;
+    const decimals = (abs % 100n).toString().padStart(2, "0");
+    return `${this.cents < 0n ? "-" : ""}${units}.${decimals}`;
+  }
+
+  /**
+   * Serialização JSON no mesmo formato de toString().
+   */
+  public toJSON(): string {
+    return this.toString();
+  }
+}
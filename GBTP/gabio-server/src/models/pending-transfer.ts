@@ -0,0 +1,66 @@
+import { Money } from "./money";
+
+/**
+ * Modelo que representa uma transferência pendente de aprovação.
+ *
+ * Enquanto pendente, o valor fica reservado no saldo disponível da conta de
+ * origem (mas não sai do saldo contábil). A transferência é gravada junto com
+ * a conta de origem e deixa de existir quando é aprovada (e liquidada),
+ * rejeitada ou expira.
+ */
+export class PendingTransfer {
+  /**
+   * Identificador único da transferência pendente.
+   */
+  public id: string;
+
+  /**
+   * Conta de origem.
+   */
+  public sourceId: string;
+
+  /**
+   * Conta de destino.
+   */
+  public destId: string;
+
+  /**
+   * Valor reservado, na moeda da origem.
+   */
+  public amount: Money;
+
+  /**
+   * Data e hora do pedido em ISO 8601 (UTC).
+   */
+  public createdAt: string;
+
+  /**
+   * Data e hora de expiração em ISO 8601 (UTC).
+   */
+  public expiresAt: string;
+
+  /**
+   * Cria uma nova instância de PendingTransfer.
+   * @param id Identificador da transferência pendente
+   * @param sourceId Conta de origem
+   * @param destId Conta de destino
+   * @param amount Valor reservado
+   * @param createdAt Data e hora do pedido em ISO 8601
+   * @param expiresAt Data e hora de expiração em ISO 8601
+   */
+  constructor(
+    id: string,
+    sourceId: string,
+    destId: string,
+    amount: Money,
+    createdAt: string,
+    expiresAt: string
+  ) {
+    this.id = id;
+    this.sourceId = sourceId;
+    this.destId = destId;
+    this.amount = amount;
+    this.createdAt = createdAt;
+    this.expiresAt = expiresAt;
+  }
+}
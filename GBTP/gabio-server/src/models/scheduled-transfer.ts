@@ -0,0 +1,122 @@
+import { Money } from "./money";
+
+/**
+ * Regra de recorrência de uma transferência agendada.
+ *
+ * - "ONCE": executa uma única vez, na data agendada.
+ * - "DAILY": executa todos os dias.
+ * - "WEEKLY": executa a cada sete dias.
+ * - "MONTHLY": executa todo mês no mesmo dia da primeira execução (ou no
+ *   último dia do mês, se este for mais curto).
+ */
+export const RECURRENCES = ["ONCE", "DAILY", "WEEKLY", "MONTHLY"] as const;
+
+export type Recurrence = (typeof RECURRENCES)[number];
+
+/**
+ * Situação de uma transferência agendada.
+ *
+ * - "PENDING": aguardando a próxima execução.
+ * - "COMPLETED": transferência única executada com sucesso.
+ * - "FAILED": transferência única cuja execução falhou.
+ * - "HELD": transferência única retida pelas regras antifraude; ela só é
+ *   feita se a análise manual a aprovar.
+ * - "CANCELLED": cancelada pelo titular.
+ */
+export type ScheduledTransferStatus =
+  "PENDING" | "COMPLETED" | "FAILED" | "HELD" | "CANCELLED";
+
+/**
+ * Modelo que representa uma transferência agendada (única ou recorrente).
+ *
+ * As datas de execução são dias no formato YYYY-MM-DD; a transferência é
+ * executada pelo agendador a partir do início do dia (UTC).
+ */
+export class ScheduledTransfer {
+  /**
+   * Identificador único do agendamento.
+   */
+  public id: string;
+
+  /**
+   * Conta de origem (titular do agendamento).
+   */
+  public sourceId: string;
+
+  /**
+   * Conta de destino.
+   */
+  public destId: string;
+
+  /**
+   * Valor de cada transferência.
+   */
+  public amount: Money;
+
+  /**
+   * Regra de recorrência.
+   */
+  public recurrence: Recurrence;
+
+  /**
+   * Data da primeira execução (YYYY-MM-DD); define o dia do mês em MONTHLY.
+   */
+  public firstRun: string;
+
+  /**
+   * Data da próxima execução (YYYY-MM-DD).
+   */
+  public nextRun: string;
+
+  /**
+   * Situação do agendamento.
+   */
+  public status: ScheduledTransferStatus;
+
+  /**
+   * Data e hora da última execução em ISO 8601 (UTC), se houver.
+   */
+  public lastRunAt?: string;
+
+  /**
+   * Mensagem de erro da última execução, se ela tiver falhado.
+   */
+  public lastError?: string;
+
+  /**
+   * Cria uma nova instância de ScheduledTransfer.
+   * @param id Identificador do agendamento
+   * @param sourceId Conta de origem
+   * @param destId Conta de destino
+   * @param amount Valor de cada transferência
+   * @param recurrence Regra de recorrência
+   * @param firstRun Data da primeira execução (YYYY-MM-DD)
+   * @param nextRun Data da próxima execução (padrão: firstRun)
+   * @param status Situação do agendamento (padrão: "PENDING")
+   * @param lastRunAt Data e hora da última execução (opcional)
+   * @param lastError Erro da última execução (opcional)
+   */
+  constructor(
+    id: string,
+    sourceId: string,
+    destId: string,
+    amount: Money,
+    recurrence: Recurrence,
+    firstRun: string,
+    nextRun: string = firstRun,
+    status: ScheduledTransferStatus = "PENDING",
+    lastRunAt?: string,
+    lastError?: string
+  ) {
+    this.id = id;
+    this.sourceId = sourceId;
+    this.destId = destId;
+    this.amount = amount;
+    this.recurrence = recurrence;
+    this.firstRun = firstRun;
+    this.nextRun = nextRun;
+    this.status = status;
+    this.lastRunAt = lastRunAt;
+    this.lastError = lastError;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Modelo que representa a sessão de uma conexão com o servidor.
+ *
+ * Cada conexão WebSocket possui exatamente uma sessão, que começa sem
+ * autenticação e passa a pertencer a uma conta após um LOGIN bem-sucedido.
+ */
+export class Session {
+  /**
+   * Conta autenticada na sessão (undefined se não autenticada).
+   */
+  private accountId?: string;
+
+  /**
+   * Vincula a sessão à conta informada.
+   * @param accountId ID da conta autenticada
+   */
+  public login(accountId: string): void {
+    this.accountId = accountId;
+  }
+
+  /**
+   * Encerra a autenticação da sessão.
+   */
+  public logout(): void {
+    this.accountId = undefined;
+  }
+
+  /**
+   * Retorna a conta autenticada na sessão.
+   * @returns ID da conta, ou undefined se a sessão não estiver autenticada.
+   */
+  public account(): string | undefined {
+    return this.accountId;
+  }
+
+  /**
+   * Indica se a sessão está autenticada.
+   * @returns true se houver conta vinculada, false caso contrário.
+   */
+  public isAuthenticated(): boolean {
+    return this.accountId !== undefined;
+  }
+
+  /**
+   * Indica se a sessão pertence à conta informada.
+   * @param accountId ID da conta
+   * @returns true se a sessão estiver autenticada nessa conta.
+   */
+  public owns(accountId: string): boolean {
+    return this.accountId === accountId;
+  }
+}
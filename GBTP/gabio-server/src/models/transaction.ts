@@ -0,0 +1,98 @@
+import { Money } from "./money";
+
+/**
+ * Tipos de lançamento registrados no extrato de uma conta.
+ *
+ * - "DEPOSIT": depósito na conta.
+ * - "WITHDRAW": saque da conta.
+ * - "TRANSFER_OUT": transferência enviada para outra conta.
+ * - "TRANSFER_IN": transferência recebida de outra conta.
+ * - "ADJUSTMENT_CREDIT": crédito manual feito pela API administrativa.
+ * - "ADJUSTMENT_DEBIT": débito manual feito pela API administrativa.
+ */
+export type TransactionType =
+  | "DEPOSIT"
+  | "WITHDRAW"
+  | "TRANSFER_OUT"
+  | "TRANSFER_IN"
+  | "ADJUSTMENT_CREDIT"
+  | "ADJUSTMENT_DEBIT";
+
+/**
+ * Modelo que representa um lançamento do livro-razão (ledger).
+ *
+ * Cada alteração de saldo gera um lançamento imutável, permitindo reconstruir
+ * o histórico de uma conta.
+ */
+export class Transaction {
+  /**
+   * Identificador único do lançamento.
+   */
+  public id: string;
+
+  /**
+   * Conta à qual o lançamento pertence.
+   */
+  public accountId: string;
+
+  /**
+   * Data e hora do lançamento em formato ISO 8601 (UTC).
+   */
+  public timestamp: string;
+
+  /**
+   * Tipo do lançamento.
+   */
+  public type: TransactionType;
+
+  /**
+   * Valor movimentado (sempre positivo).
+   */
+  public amount: Money;
+
+  /**
+   * Conta de contrapartida (apenas para transferências, vazio nos demais casos).
+   */
+  public counterparty: string;
+
+  /**
+   * Saldo da conta imediatamente após o lançamento.
+   */
+  public balance: Money;
+
+  /**
+   * Motivo informado (apenas para ajustes manuais).
+   */
+  public reason?: string;
+
+  /**
+   * Cria uma nova instância de Transaction.
+   * @param id ID do lançamento
+   * @param accountId ID da conta
+   * @param timestamp Data e hora em ISO 8601
+   * @param type Tipo do lançamento
+   * @param amount Valor movimentado
+   * @param counterparty Conta de contrapartida
+   * @param balance Saldo resultante
+   * @param reason Motivo do ajuste manual (opcional)
+   */
+  constructor(
+    id: string,
+    accountId: string,
+    timestamp: string,
+    type: TransactionType,
+    amount: Money,
+    counterparty: string,
+    balance: Money,
+    reason?: string
+  ) {
+    this.id = id;
+    this.accountId = accountId;
+    this.timestamp = timestamp;
+    this.type = type;
+    this.amount = amount;
+    this.counterparty = counterparty;
+    this.balance = balance;
+    this.reason = reason;
+  }
+}
@@ -1,11 +1,14 @@
+import { Money } from "../../models/money";
+
 /**
  * Classe que representa o saldo de uma conta no protocolo GBTP.
  *
- * O campo BALANCE indica o saldo atual da conta principal.
+ * O campo BALANCE indica o saldo atual da conta principal, que pode ser
+ * negativo quando a conta usa o cheque especial.
  *
  * Validação:
- * - O saldo deve ser uma string representando um número não negativo.
- * - Não pode ser vazio ou negativo.
+ * - O saldo deve estar no formato monetário estrito de Money.
+ * - Não pode ser vazio.
  */
 export class Balance {
   private balance: string;
@@ -27,15 +30,10 @@ export class Balance {
   }
 
   /**
-   * Valida se o saldo não está vazio, é um número e não é negativo.
+   * Valida se o saldo é uma quantia monetária não vazia.
    * @returns true se válido, false caso contrário.
    */
   public validate(): boolean {
-    const trimmed = this.balance.trim();
-    if (trimmed === "") {
-      return false;
-    }
-    const value = Number(trimmed);
-    return !isNaN(value) && value >= 0;
+    return Money.isValid(this.balance.trim());
   }
 }
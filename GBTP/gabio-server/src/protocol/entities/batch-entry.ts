@@ -0,0 +1,87 @@
+import { ID } from "./id";
+import { Value } from "./value";
+
+/**
+ * Classe que representa uma operação de um lote (BATCH) no protocolo GBTP,
+ * enviada como uma linha do corpo da requisição.
+ *
+ * Formato: OPERACAO;DESTINO;VALOR (ex.: "TRANSFER;1002;150.00" ou
+ * "DEPOSIT;;10.00"). A conta de origem é a ACCOUNT_ID do lote.
+ *
+ * Operações permitidas: "DEPOSIT", "WITHDRAW" e "TRANSFER".
+ *
+ * Validação:
+ * - A linha deve ter exatamente três campos separados por ";".
+ * - A operação deve ser um dos valores permitidos.
+ * - DESTINO é obrigatório (e deve ser um ID válido) em TRANSFER e deve ser
+ *   vazio nas demais operações.
+ * - VALOR não é conferido aqui: a requisição o valida com Value e exige que
+ *   seja maior que zero.
+ */
+export class BatchEntry {
+  private fields: string[];
+
+  static ALLOWED_OPERATIONS = ["DEPOSIT", "WITHDRAW", "TRANSFER"];
+
+  /**
+   * Cria uma nova instância de BatchEntry.
+   * @param line Linha do corpo da requisição.
+   */
+  constructor(line: string) {
+    this.fields = line.split(";").map((field) => field.trim());
+  }
+
+  /**
+   * Retorna o tipo da operação.
+   * @returns Operação em formato string.
+   */
+  public operationType(): string {
+    return (this.fields[0] ?? "").toUpperCase();
+  }
+
+  /**
+   * Retorna a conta de destino (vazia fora de TRANSFER).
+   * @returns ID da conta de destino.
+   */
+  public destinationId(): string {
+    return this.fields[1] ?? "";
+  }
+
+  /**
+   * Retorna o valor da operação.
+   * @returns Valor como Value.
+   */
+  public value(): Value {
+    return new Value(this.fields[2] ?? "");
+  }
+
+  /**
+   * Retorna a linha no formato do protocolo.
+   * @returns Linha OPERACAO;DESTINO;VALOR.
+   */
+  public line(): string {
+    return [
+      this.operationType(),
+      this.destinationId(),
+      this.value().quantity(),
+    ].join(";");
+  }
+
+  /**
+   * Valida o formato da linha, a operação e a conta de destino.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    if (this.fields.length !== 3) {
+      return false;
+    }
+    const operation = this.operationType();
+    if (!BatchEntry.ALLOWED_OPERATIONS.includes(operation)) {
+      return false;
+    }
+    const destination = this.destinationId();
+    return operation === "TRANSFER"
+      ? new ID(destination).validate()
+      : destination.length === 0;
+  }
+}
@@ -0,0 +1,40 @@
+import { ERROR_CODES } from "../../errors/gbtp-error";
+
+/**
+ * Classe que representa o código de erro de uma resposta no protocolo GBTP.
+ *
+ * O campo CODE acompanha as respostas com STATUS:ERROR e identifica a falha de
+ * forma estável (ex.: "INSUFFICIENT_FUNDS"), independentemente de MESSAGE.
+ *
+ * Validação:
+ * - O código deve ser um dos valores de ERROR_CODES.
+ */
+export class Code {
+  private code: string;
+
+  static ALLOWED_CODES: readonly string[] = ERROR_CODES;
+
+  /**
+   * Cria uma nova instância de Code.
+   * @param code Código do erro.
+   */
+  constructor(code: string) {
+    this.code = code.toUpperCase();
+  }
+
+  /**
+   * Retorna o código do erro.
+   * @returns Código em formato string.
+   */
+  public errorCode(): string {
+    return this.code;
+  }
+
+  /**
+   * Valida se o código é permitido.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return Code.ALLOWED_CODES.includes(this.code);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Classe que representa o identificador de correlação de uma requisição no
+ * protocolo GBTP.
+ *
+ * O campo CORRELATION_ID é opcional e escolhido pelo cliente. O servidor o
+ * devolve na resposta correspondente, permitindo associar cada resposta à sua
+ * requisição quando várias são enviadas sem aguardar as anteriores.
+ *
+ * Validação:
+ * - Deve ter de 1 a 64 caracteres.
+ * - Só pode conter letras, dígitos, "-" e "_".
+ */
+export class CorrelationId {
+  private id: string;
+
+  /**
+   * Cria uma nova instância de CorrelationId.
+   * @param id Identificador de correlação.
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Retorna o identificador de correlação.
+   * @returns Identificador em formato string.
+   */
+  public identifier(): string {
+    return this.id;
+  }
+
+  /**
+   * Valida o tamanho e os caracteres do identificador.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(this.id);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Classe que representa a moeda de uma conta no protocolo GBTP.
+ *
+ * O campo CURRENCY indica, na requisição, a moeda da conta aberta em OPEN ou a
+ * moeda em que VALUE está expresso; na resposta, a moeda de BALANCE.
+ *
+ * Validação:
+ * - Deve ser um código ISO 4217: três letras maiúsculas (ex.: "BRL", "USD").
+ */
+export class Currency {
+  private currency: string;
+
+  /**
+   * Cria uma nova instância de Currency.
+   * @param currency Código da moeda (convertido para maiúsculas).
+   */
+  constructor(currency: string) {
+    this.currency = currency.trim().toUpperCase();
+  }
+
+  /**
+   * Retorna o código da moeda.
+   * @returns Código ISO 4217.
+   */
+  public currencyCode(): string {
+    return this.currency;
+  }
+
+  /**
+   * Valida se o código tem o formato ISO 4217.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Z]{3}$/.test(this.currency);
+  }
+}
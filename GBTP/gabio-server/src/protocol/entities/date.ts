@@ -0,0 +1,43 @@
+/**
+ * Classe que representa uma data de calendário no protocolo GBTP.
+ *
+ * Os campos FROM_DATE e TO_DATE delimitam o período consultado em STATEMENT.
+ *
+ * Validação:
+ * - A data deve estar no formato YYYY-MM-DD.
+ * - A data deve existir no calendário (ex.: 2024-02-30 é inválida).
+ */
+export class CalendarDate {
+  private date: string;
+
+  /**
+   * Cria uma nova instância de CalendarDate.
+   * @param date Data em formato string (YYYY-MM-DD).
+   */
+  constructor(date: string) {
+    this.date = date;
+  }
+
+  /**
+   * Retorna a data.
+   * @returns Data em formato string (YYYY-MM-DD).
+   */
+  public day(): string {
+    return this.date;
+  }
+
+  /**
+   * Valida se a data está no formato YYYY-MM-DD e existe no calendário.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(this.date)) {
+      return false;
+    }
+    const parsed = new Date(`${this.date}T00:00:00.000Z`);
+    return (
+      !isNaN(parsed.getTime()) &&
+      parsed.toISOString().slice(0, 10) === this.date
+    );
+  }
+}
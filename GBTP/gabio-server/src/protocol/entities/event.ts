@@ -0,0 +1,38 @@
+/**
+ * Classe que representa o tipo de um evento enviado pelo servidor no protocolo GBTP.
+ *
+ * Tipos permitidos:
+ * - "BALANCE_CHANGED": o saldo de uma conta inscrita foi alterado.
+ *
+ * Validação:
+ * - O tipo deve ser um dos valores permitidos.
+ */
+export class EventType {
+  private type: string;
+
+  static ALLOWED_TYPES = ["BALANCE_CHANGED"];
+
+  /**
+   * Cria uma nova instância de EventType.
+   * @param type Tipo do evento.
+   */
+  constructor(type: string) {
+    this.type = type.toUpperCase();
+  }
+
+  /**
+   * Retorna o tipo do evento.
+   * @returns Tipo do evento em formato string.
+   */
+  public eventType(): string {
+    return this.type;
+  }
+
+  /**
+   * Valida se o tipo do evento é permitido.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return EventType.ALLOWED_TYPES.includes(this.type);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Classe que representa a taxa de câmbio aplicada em uma transferência no
+ * protocolo GBTP.
+ *
+ * O campo EXCHANGE_RATE indica quantas unidades da moeda de destino foram
+ * creditadas por unidade da moeda de origem ("1.000000" entre contas na mesma
+ * moeda).
+ *
+ * Validação:
+ * - Deve ser um número positivo com seis casas decimais.
+ */
+export class ExchangeRate {
+  private rate: string;
+
+  /**
+   * Cria uma nova instância de ExchangeRate.
+   * @param rate Taxa em formato string.
+   */
+  constructor(rate: string) {
+    this.rate = rate;
+  }
+
+  /**
+   * Retorna a taxa de câmbio.
+   * @returns Taxa em formato string.
+   */
+  public quotation(): string {
+    return this.rate;
+  }
+
+  /**
+   * Valida o formato da taxa.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^\d+\.\d{6}$/.test(this.rate) && /[1-9]/.test(this.rate);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Classe que representa o modo de execução de um lote (BATCH) no protocolo
+ * GBTP.
+ *
+ * Modos permitidos:
+ * - "ATOMIC": tudo ou nada; se alguma operação falhar, nenhuma é gravada.
+ * - "BEST_EFFORT": as operações que falharem são ignoradas e as demais são
+ *   gravadas.
+ *
+ * Validação:
+ * - O modo deve ser um dos valores permitidos.
+ */
+export class ExecutionMode {
+  private mode: string;
+
+  static ALLOWED_MODES = ["ATOMIC", "BEST_EFFORT"];
+
+  /**
+   * Cria uma nova instância de ExecutionMode.
+   * @param mode Modo de execução.
+   */
+  constructor(mode: string) {
+    this.mode = mode.toUpperCase();
+  }
+
+  /**
+   * Retorna o modo de execução.
+   * @returns Modo em formato string.
+   */
+  public modeType(): string {
+    return this.mode;
+  }
+
+  /**
+   * Valida se o modo é permitido.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return ExecutionMode.ALLOWED_MODES.includes(this.mode);
+  }
+}
@@ -6,6 +6,28 @@
  * - "WITHDRAW": saque.
  * - "DEPOSIT": depósito.
  * - "BALANCE": consulta de saldo.
+ * - "STATEMENT": consulta de extrato (histórico de transações).
+ * - "LOGIN": autenticação da conexão em uma conta.
+ * - "LOGOUT": encerramento da autenticação da conexão.
+ * - "SUBSCRIBE": inscrição da conexão em eventos de saldo da conta.
+ * - "UNSUBSCRIBE": cancelamento da inscrição em eventos de saldo da conta.
+ * - "OPEN": abertura de conta.
+ * - "CLOSE": encerramento de conta.
+ * - "FREEZE": bloqueio de conta.
+ * - "UNFREEZE": desbloqueio de conta.
+ * - "SCHEDULE_TRANSFER": agendamento de transferência única ou recorrente.
+ * - "LIST_SCHEDULED": consulta das transferências agendadas da conta.
+ * - "CANCEL_SCHEDULED": cancelamento de uma transferência agendada.
+ * - "LIMITS": consulta do cheque especial e dos limites de saque e
+ *   transferência da conta.
+ * - "BATCH": lote de depósitos, saques e transferências da conta, executado
+ *   como tudo ou nada ou em melhor esforço.
+ * - "APPROVE": aprovação de uma transferência pendente por uma conta
+ *   aprovadora.
+ * - "REJECT": rejeição de uma transferência pendente por uma conta
+ *   aprovadora.
+ * - "LIST_PENDING": consulta das transferências pendentes de aprovação da
+ *   conta.
  *
  * Validação:
  * - O tipo deve ser um dos valores permitidos.
@@ -13,7 +35,29 @@
 export class Operation {
   private type: string;
 
-  static ALLOWED_TYPES = ["TRANSFER", "WITHDRAW", "DEPOSIT", "BALANCE"];
+  static ALLOWED_TYPES = [
+    "TRANSFER",
+    "WITHDRAW",
+    "DEPOSIT",
+    "BALANCE",
+    "STATEMENT",
+    "LOGIN",
+    "LOGOUT",
+    "SUBSCRIBE",
+    "UNSUBSCRIBE",
+    "OPEN",
+    "CLOSE",
+    "FREEZE",
+    "UNFREEZE",
+    "SCHEDULE_TRANSFER",
+    "LIST_SCHEDULED",
+    "CANCEL_SCHEDULED",
+    "LIMITS",
+    "BATCH",
+    "APPROVE",
+    "REJECT",
+    "LIST_PENDING",
+  ];
 
   /**
    * Cria uma nova instância de Operation.
@@ -0,0 +1,37 @@
+/**
+ * Classe que representa o nome do titular de uma conta no protocolo GBTP.
+ *
+ * O campo OWNER_NAME é utilizado apenas na operação OPEN.
+ *
+ * Validação:
+ * - O nome não pode ser vazio ou composto apenas por espaços em branco.
+ * - O nome deve ter no máximo 100 caracteres.
+ */
+export class OwnerName {
+  private owner: string;
+
+  /**
+   * Cria uma nova instância de OwnerName.
+   * @param owner Nome do titular.
+   */
+  constructor(owner: string) {
+    this.owner = owner;
+  }
+
+  /**
+   * Retorna o nome do titular.
+   * @returns Nome em formato string.
+   */
+  public name(): string {
+    return this.owner;
+  }
+
+  /**
+   * Valida se o nome não está vazio e respeita o tamanho máximo.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    const trimmed = this.owner.trim();
+    return trimmed.length > 0 && trimmed.length <= 100;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Classe que representa um parâmetro de paginação no protocolo GBTP.
+ *
+ * Os campos PAGE e PAGE_SIZE indicam, respectivamente, a página desejada
+ * (começando em 1) e a quantidade de itens por página.
+ *
+ * Validação:
+ * - O valor deve ser um número inteiro positivo, sem sinal ou casas decimais.
+ */
+export class Page {
+  private page: string;
+
+  /**
+   * Cria uma nova instância de Page.
+   * @param page Valor de paginação em formato string.
+   */
+  constructor(page: string) {
+    this.page = page;
+  }
+
+  /**
+   * Retorna o valor de paginação.
+   * @returns Valor em formato string.
+   */
+  public pageNumber(): string {
+    return this.page;
+  }
+
+  /**
+   * Valida se o valor é um inteiro positivo.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^\d+$/.test(this.page) && Number(this.page) > 0;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Classe que representa a senha de uma conta no protocolo GBTP.
+ *
+ * O campo PASSWORD é utilizado apenas nas operações LOGIN e OPEN.
+ *
+ * Validação:
+ * - A senha não pode ser vazia ou composta apenas por espaços em branco.
+ */
+export class Password {
+  private password: string;
+
+  /**
+   * Cria uma nova instância de Password.
+   * @param password Senha em texto puro.
+   */
+  constructor(password: string) {
+    this.password = password;
+  }
+
+  /**
+   * Retorna a senha.
+   * @returns Senha em formato string.
+   */
+  public secret(): string {
+    return this.password;
+  }
+
+  /**
+   * Valida se a senha não está vazia.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return this.password.trim().length > 0;
+  }
+}
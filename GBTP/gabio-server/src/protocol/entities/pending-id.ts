@@ -0,0 +1,38 @@
+/**
+ * Classe que representa o identificador de uma transferência pendente de
+ * aprovação no protocolo GBTP.
+ *
+ * O campo PENDING_ID é devolvido por TRANSFER quando a transferência exige
+ * aprovação e informado em APPROVE e REJECT.
+ *
+ * Validação:
+ * - Deve ter de 1 a 64 caracteres.
+ * - Só pode conter letras, dígitos e "-".
+ */
+export class PendingId {
+  private id: string;
+
+  /**
+   * Cria uma nova instância de PendingId.
+   * @param id Identificador da transferência pendente.
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Retorna o identificador da transferência pendente.
+   * @returns Identificador em formato string.
+   */
+  public pendingNumber(): string {
+    return this.id;
+  }
+
+  /**
+   * Valida o tamanho e os caracteres do identificador.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Za-z0-9-]{1,64}$/.test(this.id);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Classe que representa a regra de recorrência de uma transferência agendada
+ * no protocolo GBTP.
+ *
+ * Regras permitidas:
+ * - "ONCE": uma única vez, na data informada em RUN_DATE.
+ * - "DAILY": todos os dias a partir de RUN_DATE.
+ * - "WEEKLY": a cada sete dias a partir de RUN_DATE.
+ * - "MONTHLY": todo mês, no dia do mês de RUN_DATE.
+ *
+ * Validação:
+ * - A regra deve ser um dos valores permitidos.
+ */
+export class RecurrenceRule {
+  private rule: string;
+
+  static ALLOWED_RULES = ["ONCE", "DAILY", "WEEKLY", "MONTHLY"];
+
+  /**
+   * Cria uma nova instância de RecurrenceRule.
+   * @param rule Regra de recorrência.
+   */
+  constructor(rule: string) {
+    this.rule = rule.toUpperCase();
+  }
+
+  /**
+   * Retorna a regra de recorrência.
+   * @returns Regra em formato string.
+   */
+  public recurrenceType(): string {
+    return this.rule;
+  }
+
+  /**
+   * Valida se a regra é permitida.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return RecurrenceRule.ALLOWED_RULES.includes(this.rule);
+  }
+}
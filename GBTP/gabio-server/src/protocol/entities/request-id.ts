@@ -0,0 +1,37 @@
+/**
+ * Classe que representa a chave de idempotência de uma requisição no protocolo GBTP.
+ *
+ * O campo REQUEST_ID é opcional e escolhido pelo cliente. Requisições repetidas
+ * com o mesmo REQUEST_ID recebem a resposta original, sem nova execução.
+ *
+ * Validação:
+ * - Deve ter de 1 a 64 caracteres.
+ * - Só pode conter letras, dígitos, "-" e "_".
+ */
+export class RequestId {
+  private id: string;
+
+  /**
+   * Cria uma nova instância de RequestId.
+   * @param id Chave de idempotência.
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Retorna a chave de idempotência.
+   * @returns Chave em formato string.
+   */
+  public key(): string {
+    return this.id;
+  }
+
+  /**
+   * Valida o tamanho e os caracteres da chave.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(this.id);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Classe que representa o identificador de uma transação retida para análise no
+ * protocolo GBTP.
+ *
+ * O campo REVIEW_ID é devolvido nas respostas com CODE TRANSACTION_HELD e
+ * identifica a transação na API administrativa.
+ *
+ * Validação:
+ * - Deve ter de 1 a 64 caracteres.
+ * - Só pode conter letras, dígitos e "-".
+ */
+export class ReviewId {
+  private id: string;
+
+  /**
+   * Cria uma nova instância de ReviewId.
+   * @param id Identificador da análise.
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Retorna o identificador da análise.
+   * @returns Identificador em formato string.
+   */
+  public reviewNumber(): string {
+    return this.id;
+  }
+
+  /**
+   * Valida o tamanho e os caracteres do identificador.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Za-z0-9-]{1,64}$/.test(this.id);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Classe que representa o identificador de uma transferência agendada no
+ * protocolo GBTP.
+ *
+ * O campo SCHEDULE_ID é devolvido por SCHEDULE_TRANSFER e informado em
+ * CANCEL_SCHEDULED.
+ *
+ * Validação:
+ * - Deve ter de 1 a 64 caracteres.
+ * - Só pode conter letras, dígitos e "-".
+ */
+export class ScheduleId {
+  private id: string;
+
+  /**
+   * Cria uma nova instância de ScheduleId.
+   * @param id Identificador do agendamento.
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Retorna o identificador do agendamento.
+   * @returns Identificador em formato string.
+   */
+  public scheduleNumber(): string {
+    return this.id;
+  }
+
+  /**
+   * Valida o tamanho e os caracteres do identificador.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return /^[A-Za-z0-9-]{1,64}$/.test(this.id);
+  }
+}
@@ -1,3 +1,5 @@
+import { Money } from "../../models/money";
+
 /**
  * Classe que representa o valor numérico de uma transação no protocolo GBTP.
  *
@@ -6,7 +8,8 @@
  * - Para DEPOSIT, WITHDRAW e TRANSFER, o valor deve ser maior que 0.
  *
  * Validação:
- * - O valor deve ser uma string representando um número não negativo.
+ * - O valor deve estar no formato monetário estrito de Money (dígitos com até
+ *   duas casas decimais, sem expoente, sinal ou valores como "Infinity").
  * - Não pode ser vazio ou negativo.
  */
 export class Value {
@@ -29,14 +32,19 @@ export class Value {
   }
 
   /**
-   * Valida se o valor é um número não negativo e não vazio.
+   * Retorna o valor da transação como quantia monetária exata.
+   * @returns Valor convertido em Money.
+   * @throws Se o valor não estiver no formato monetário aceito.
+   */
+  public amount(): Money {
+    return Money.parse(this.value);
+  }
+
+  /**
+   * Valida se o valor é uma quantia monetária não negativa e não vazia.
    * @returns true se válido, false caso contrário.
    */
   public validate(): boolean {
-    if (this.value.trim() === "") {
-      return false;
-    }
-    const value = Number(this.value);
-    return !isNaN(value) && value >= 0;
+    return Money.isValid(this.value) && !Money.parse(this.value).isNegative();
   }
 }
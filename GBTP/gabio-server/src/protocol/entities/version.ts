@@ -0,0 +1,53 @@
+/**
+ * Classe que representa a versão do protocolo GBTP usada em uma mensagem.
+ *
+ * O campo VERSION é opcional: requisições sem VERSION são tratadas como
+ * DEFAULT_VERSION (clientes anteriores ao campo). Quando a requisição informa
+ * VERSION, o servidor responde na mesma versão.
+ *
+ * Versões suportadas:
+ * - "1.0": formato atual do protocolo.
+ *
+ * Validação:
+ * - A versão deve ser uma das versões suportadas.
+ */
+export class Version {
+  private version: string;
+
+  static SUPPORTED_VERSIONS = ["1.0"];
+
+  /**
+   * Versão assumida quando a mensagem não informa VERSION.
+   */
+  static DEFAULT_VERSION = "1.0";
+
+  /**
+   * Versão mais recente suportada pelo servidor.
+   */
+  static LATEST_VERSION =
+    Version.SUPPORTED_VERSIONS[Version.SUPPORTED_VERSIONS.length - 1];
+
+  /**
+   * Cria uma nova instância de Version.
+   * @param version Versão do protocolo (ex.: "1.0").
+   */
+  constructor(version: string) {
+    this.version = version;
+  }
+
+  /**
+   * Retorna a versão do protocolo.
+   * @returns Versão em formato string.
+   */
+  public number(): string {
+    return this.version;
+  }
+
+  /**
+   * Valida se a versão é suportada.
+   * @returns true se válido, false caso contrário.
+   */
+  public validate(): boolean {
+    return Version.SUPPORTED_VERSIONS.includes(this.version);
+  }
+}
@@ -0,0 +1,230 @@
+import { MalformedRequestError } from "../errors/gbtp-error";
+
+/**
+ * Tamanho máximo padrão, em bytes (UTF-8), de uma mensagem GBTP.
+ */
+export const MAX_MESSAGE_SIZE = 64 * 1024;
+
+/**
+ * Formato de um tipo de mensagem GBTP aceito pelo codec.
+ *
+ * - context: complemento usado nas mensagens de erro (ex.: "na requisição")
+ * - keys: chaves permitidas no cabeçalho; qualquer outra é rejeitada
+ * - body: indica se a mensagem pode ter corpo (linhas após a linha em branco,
+ *   no codec de texto)
+ */
+export interface GBTPFrameSchema {
+  context: string;
+  keys: readonly string[];
+  body: boolean;
+}
+
+/**
+ * Expressão regular de uma chave válida: letras maiúsculas e "_".
+ */
+const KEY_PATTERN = /^[A-Z][A-Z_]*$/;
+
+/**
+ * Codificação de mensagens GBTP na conexão (texto CHAVE:VALOR ou JSON).
+ *
+ * Cada codec só traduz a representação: os campos decodificados passam pela
+ * mesma validação de GBTPFrame (chaves do esquema, repetição, corpo) e depois
+ * pelas mesmas entidades de GBTPRequest/GBTPResponse/GBTPEvent, de modo que as
+ * regras do protocolo não dependem da codificação.
+ *
+ * - name: nome do codec, usado também como subprotocolo WebSocket
+ * - maxMessageSize: tamanho máximo, em bytes, de uma mensagem decodificada
+ * - withMaxMessageSize: o mesmo codec com outro tamanho máximo
+ * - decode: converte o texto recebido em uma mensagem decodificada
+ * - encode: converte os campos e o corpo de uma mensagem em texto
+ */
+export interface GBTPCodec {
+  readonly name: string;
+  readonly maxMessageSize: number;
+  withMaxMessageSize(maxMessageSize: number): GBTPCodec;
+  decode(raw: string, schema: GBTPFrameSchema): GBTPFrame;
+  encode(fields: Array<[string, string]>, body?: string[]): string;
+}
+
+/**
+ * Classe que representa uma mensagem GBTP decodificada (cabeçalho + corpo),
+ * independente do codec usado na conexão.
+ *
+ * Validação (comum a todos os codecs):
+ * - Toda chave deve ser válida e conhecida pelo esquema.
+ * - Chaves repetidas são rejeitadas.
+ * - Corpo só é aceito se o esquema permitir.
+ */
+export class GBTPFrame {
+  /**
+   * Cria uma nova instância de GBTPFrame.
+   * @param schema Esquema da mensagem.
+   * @param fields Campos do cabeçalho.
+   * @param body Linhas do corpo.
+   */
+  private constructor(
+    private readonly schema: GBTPFrameSchema,
+    private readonly fields: Map<string, string>,
+    public readonly body: string[]
+  ) {}
+
+  /**
+   * Monta uma mensagem decodificada a partir dos campos lidos por um codec.
+   * @param schema Esquema da mensagem.
+   * @param entries Pares [chave, valor] na ordem em que foram lidos.
+   * @param body Linhas do corpo.
+   * @returns Mensagem decodificada.
+   * @throws MalformedRequestError se os campos não respeitarem o esquema.
+   */
+  static create(
+    schema: GBTPFrameSchema,
+    entries: Array<[string, string]>,
+    body: string[]
+  ): GBTPFrame {
+    if (body.length > 0 && !schema.body) {
+      throw new MalformedRequestError(`Corpo não permitido ${schema.context}.`);
+    }
+    const fields = new Map<string, string>();
+    for (const [key, value] of entries) {
+      if (!KEY_PATTERN.test(key) || !schema.keys.includes(key)) {
+        throw new MalformedRequestError(
+          `Chave desconhecida ${schema.context}: ${key}`
+        );
+      }
+      if (fields.has(key)) {
+        throw new MalformedRequestError(
+          `Chave ${key} repetida ${schema.context}.`
+        );
+      }
+      fields.set(key, value.trim());
+    }
+    return new GBTPFrame(schema, fields, body);
+  }
+
+  /**
+   * Retorna o valor de um campo obrigatório (pode ser vazio).
+   * @param key Chave do campo.
+   * @returns Valor do campo.
+   * @throws MalformedRequestError se a chave não estiver presente.
+   */
+  public required(key: string): string {
+    const value = this.fields.get(key);
+    if (value === undefined) {
+      throw new MalformedRequestError(
+        `Chave ${key} não encontrada ${this.schema.context}.`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Retorna o valor de um campo opcional.
+   * @param key Chave do campo.
+   * @returns Valor do campo ou undefined se ausente ou vazio.
+   */
+  public optional(key: string): string | undefined {
+    const value = this.fields.get(key);
+    return value !== undefined && value.length > 0 ? value : undefined;
+  }
+}
+
+/**
+ * Codec de texto do GBTP (subprotocolo "gbtp-text"; padrão).
+ *
+ * Formato da mensagem:
+ * - Linhas terminadas por "\n" ou "\r\n".
+ * - Cabeçalho: uma linha CHAVE:VALOR por campo. A chave vai até o primeiro
+ *   ":"; o valor é o restante da linha (pode conter ":"), sem espaços nas
+ *   extremidades.
+ * - Corpo (opcional): após a primeira linha em branco, um item por linha.
+ *
+ * Validação (decode):
+ * - A mensagem deve ter no máximo maxMessageSize bytes.
+ * - Toda linha do cabeçalho deve conter ":".
+ * - As demais regras são as de GBTPFrame.create.
+ */
+export class TextCodec implements GBTPCodec {
+  readonly name = "gbtp-text";
+
+  /**
+   * Cria um codec de texto.
+   * @param maxMessageSize Tamanho máximo, em bytes, de uma mensagem
+   *                       decodificada (padrão: MAX_MESSAGE_SIZE).
+   */
+  constructor(readonly maxMessageSize: number = MAX_MESSAGE_SIZE) {}
+
+  /**
+   * Retorna um codec de texto com outro tamanho máximo de mensagem.
+   * @param maxMessageSize Tamanho máximo, em bytes.
+   * @returns Este codec, se o tamanho for o mesmo, ou um novo.
+   */
+  withMaxMessageSize(maxMessageSize: number): TextCodec {
+    return maxMessageSize === this.maxMessageSize
+      ? this
+      : new TextCodec(maxMessageSize);
+  }
+
+  /**
+   * Decodifica uma mensagem de texto conforme o esquema informado.
+   * @param raw Texto da mensagem.
+   * @param schema Esquema da mensagem.
+   * @returns Mensagem decodificada.
+   * @throws MalformedRequestError se a mensagem não respeitar o formato.
+   */
+  decode(raw: string, schema: GBTPFrameSchema): GBTPFrame {
+    ensureMessageSize(raw, this.maxMessageSize);
+
+    const lines = raw.split(/\r?\n/);
+    const separator = lines.findIndex((line) => line.trim().length === 0);
+    const header = separator >= 0 ? lines.slice(0, separator) : lines;
+    const body =
+      separator >= 0
+        ? lines.slice(separator + 1).filter((line) => line.trim().length > 0)
+        : [];
+
+    const entries: Array<[string, string]> = header.map((line) => {
+      const colon = line.indexOf(":");
+      if (colon < 0) {
+        throw new MalformedRequestError(
+          `Linha sem separador ":" ${schema.context}: ${line}`
+        );
+      }
+      return [line.slice(0, colon), line.slice(colon + 1)];
+    });
+    return GBTPFrame.create(schema, entries, body);
+  }
+
+  /**
+   * Codifica uma mensagem: campos do cabeçalho na ordem informada e, se houver,
+   * o corpo após uma linha em branco.
+   * @param fields Pares [chave, valor] do cabeçalho.
+   * @param body Linhas do corpo (opcional).
+   * @returns Texto da mensagem, com linhas terminadas por "\n".
+   */
+  encode(fields: Array<[string, string]>, body: string[] = []): string {
+    const lines = fields.map(([key, value]) => `${key}:${value}`);
+    if (body.length > 0) {
+      lines.push("", ...body);
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Codec de texto compartilhado (sem estado), com o tamanho máximo padrão.
+ */
+export const TEXT_CODEC = new TextCodec();
+
+/**
+ * Garante que a mensagem não exceda o tamanho máximo do codec.
+ * @param raw Texto da mensagem.
+ * @param maxMessageSize Tamanho máximo, em bytes (UTF-8).
+ * @throws MalformedRequestError se a mensagem for grande demais.
+ */
+export function ensureMessageSize(raw: string, maxMessageSize: number): void {
+  if (Buffer.byteLength(raw, "utf8") > maxMessageSize) {
+    throw new MalformedRequestError(
+      `Mensagem excede o tamanho máximo de ${maxMessageSize} bytes.`
+    );
+  }
+}
@@ -5,28 +5,238 @@ import { Value } from "./entities/value";
 import { Status } from "./entities/status";
 import { Message } from "./entities/message";
 import { Balance } from "./entities/balance";
+import { CalendarDate } from "./entities/date";
+import { Page } from "./entities/page";
+import { Password } from "./entities/password";
+import { RequestId } from "./entities/request-id";
+import { CorrelationId } from "./entities/correlation-id";
+import { EventType } from "./entities/event";
+import { OwnerName } from "./entities/owner-name";
+import { Code } from "./entities/code";
+import { Version } from "./entities/version";
+import { RecurrenceRule } from "./entities/recurrence";
+import { ScheduleId } from "./entities/schedule-id";
+import { ReviewId } from "./entities/review-id";
+import { PendingId } from "./entities/pending-id";
+import { Currency } from "./entities/currency";
+import { ExchangeRate } from "./entities/exchange-rate";
+import { ExecutionMode } from "./entities/execution-mode";
+import { BatchEntry } from "./entities/batch-entry";
+import { GBTPCodec, GBTPFrameSchema, TEXT_CODEC } from "./gbtp-codec";
+import {
+  InvalidValueError,
+  MalformedRequestError,
+  UnsupportedVersionError,
+} from "../errors/gbtp-error";
+
+/**
+ * Tamanho máximo de página aceito em STATEMENT.
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Quantidade máxima de operações em um BATCH.
+ */
+export const MAX_BATCH_ITEMS = 100;
+
+/**
+ * Operações em que CURRENCY pode ser informada na requisição.
+ */
+const CURRENCY_OPERATIONS = [
+  "OPEN",
+  "DEPOSIT",
+  "WITHDRAW",
+  "TRANSFER",
+  "SCHEDULE_TRANSFER",
+];
+
+/**
+ * Campos opcionais de uma requisição GBTP.
+ *
+ * - fromDate / toDate: período do extrato (FROM_DATE / TO_DATE, YYYY-MM-DD)
+ * - page / pageSize: paginação do extrato (PAGE / PAGE_SIZE)
+ * - password: senha da conta (PASSWORD, apenas para LOGIN e OPEN)
+ * - requestId: chave de idempotência (REQUEST_ID)
+ * - correlationId: identificador ecoado na resposta (CORRELATION_ID)
+ * - ownerName: nome do titular (OWNER_NAME, apenas para OPEN)
+ * - runDate / recurrence: data e recorrência do agendamento (RUN_DATE /
+ *   RECURRENCE, apenas para SCHEDULE_TRANSFER)
+ * - scheduleId: agendamento a cancelar (SCHEDULE_ID, apenas para
+ *   CANCEL_SCHEDULED)
+ * - pendingId: transferência pendente a aprovar ou rejeitar (PENDING_ID,
+ *   apenas para APPROVE e REJECT)
+ * - currency: moeda da conta aberta ou do valor (CURRENCY)
+ * - mode: modo de execução do lote (MODE, apenas para BATCH)
+ * - items: linhas do corpo com as operações do lote (apenas para BATCH)
+ * - version: versão do protocolo (VERSION)
+ */
+export interface GBTPRequestOptions {
+  fromDate?: string;
+  toDate?: string;
+  page?: string;
+  pageSize?: string;
+  password?: string;
+  requestId?: string;
+  correlationId?: string;
+  ownerName?: string;
+  runDate?: string;
+  recurrence?: string;
+  scheduleId?: string;
+  pendingId?: string;
+  currency?: string;
+  mode?: string;
+  items?: string[];
+  version?: string;
+}
+
+/**
+ * Campos opcionais de uma resposta GBTP.
+ *
+ * - version: versão do protocolo (VERSION)
+ * - correlationId: identificador da requisição respondida (CORRELATION_ID)
+ * - code: código estável do erro (CODE, obrigatório em respostas ERROR)
+ * - currency: moeda do saldo (CURRENCY)
+ * - creditedAmount / creditedCurrency / exchangeRate: valor creditado no
+ *   destino, moeda do destino e taxa de câmbio aplicada (CREDITED_AMOUNT /
+ *   CREDITED_CURRENCY / EXCHANGE_RATE, apenas em TRANSFER)
+ * - accountId: conta criada (ACCOUNT_ID, apenas em OPEN)
+ * - scheduleId: agendamento criado (SCHEDULE_ID, apenas em SCHEDULE_TRANSFER)
+ * - reviewId: transação retida para análise (REVIEW_ID, apenas com CODE
+ *   TRANSACTION_HELD)
+ * - pendingId: transferência pendente de aprovação criada (PENDING_ID, apenas
+ *   em TRANSFER)
+ * - availableBalance: saldo disponível, descontadas as transferências
+ *   pendentes (AVAILABLE_BALANCE, apenas em BALANCE)
+ * - page / totalPages / totalEntries: paginação do extrato
+ * - body: linhas do corpo da resposta (lançamentos do extrato ou agendamentos)
+ */
+export interface GBTPResponseOptions {
+  version?: string;
+  correlationId?: string;
+  code?: string;
+  currency?: string;
+  creditedAmount?: string;
+  creditedCurrency?: string;
+  exchangeRate?: string;
+  accountId?: string;
+  scheduleId?: string;
+  reviewId?: string;
+  pendingId?: string;
+  availableBalance?: string;
+  page?: string;
+  totalPages?: string;
+  totalEntries?: string;
+  body?: string[];
+}
 
 /**
  * Classe que representa uma requisição do protocolo GBTP.
  *
  * Campos:
- * - operation: tipo da operação (BALANCE, DEPOSIT, WITHDRAW, TRANSFER)
- * - account: identificador da conta principal
- * - destination: identificador da conta de destino (apenas para TRANSFER)
+ * - operation: tipo da operação (BALANCE, DEPOSIT, WITHDRAW, TRANSFER, STATEMENT,
+ *   LOGIN, LOGOUT, SUBSCRIBE, UNSUBSCRIBE, OPEN, CLOSE, FREEZE, UNFREEZE,
+ *   SCHEDULE_TRANSFER, LIST_SCHEDULED, CANCEL_SCHEDULED, LIMITS, BATCH,
+ *   APPROVE, REJECT, LIST_PENDING)
+ * - account: identificador da conta principal (vazio em OPEN; conta de origem
+ *   das transferências pendentes em APPROVE, REJECT e LIST_PENDING)
+ * - destination: identificador da conta de destino (apenas para TRANSFER e
+ *   SCHEDULE_TRANSFER)
  * - value: valor numérico da transação
+ * - fromDate / toDate: período do extrato (opcionais, apenas para STATEMENT)
+ * - page / pageSize: paginação do extrato (opcionais, apenas para STATEMENT)
+ * - password: senha da conta (apenas para LOGIN e OPEN)
+ * - requestId: chave de idempotência (opcional, qualquer operação)
+ * - correlationId: identificador ecoado na resposta (opcional, qualquer
+ *   operação)
+ * - ownerName: nome do titular (apenas para OPEN)
+ * - runDate / recurrence: data da primeira execução e recorrência (apenas para
+ *   SCHEDULE_TRANSFER; recurrence é opcional, padrão ONCE)
+ * - scheduleId: agendamento a cancelar (apenas para CANCEL_SCHEDULED)
+ * - pendingId: transferência pendente a aprovar ou rejeitar (apenas para
+ *   APPROVE e REJECT)
+ * - currency: moeda da conta aberta (OPEN, padrão BRL) ou moeda em que o valor
+ *   está expresso (DEPOSIT, WITHDRAW, TRANSFER, SCHEDULE_TRANSFER; deve ser a
+ *   moeda da conta)
+ * - mode: modo de execução do lote (opcional, apenas para BATCH; padrão
+ *   ATOMIC)
+ * - items: operações do lote, uma por linha do corpo no formato
+ *   OPERACAO;DESTINO;VALOR (apenas para BATCH)
+ * - version: versão do protocolo (opcional, qualquer operação)
  *
  * Validações:
  * - Todos os campos são validados via seus métodos validate().
- * - Para TRANSFER, destination é obrigatório e value > 0.
+ * - Para TRANSFER e SCHEDULE_TRANSFER, destination é obrigatório e value > 0.
+ * - runDate é obrigatório em SCHEDULE_TRANSFER e scheduleId em
+ *   CANCEL_SCHEDULED; ambos são proibidos nas demais operações.
+ * - pendingId é obrigatório em APPROVE e REJECT e proibido nas demais
+ *   operações; APPROVE, REJECT e LIST_PENDING exigem value 0.
  * - Para DEPOSIT e WITHDRAW, value > 0.
- * - Para BALANCE, value deve ser 0.
- * - destination só pode ser informado em TRANSFER.
+ * - Para BALANCE, STATEMENT, LOGIN, LOGOUT, SUBSCRIBE, UNSUBSCRIBE, CLOSE,
+ *   FREEZE e UNFREEZE, value deve ser 0.
+ * - Para OPEN, account deve ser vazio (o ID é gerado pelo servidor), ownerName
+ *   é obrigatório e value (depósito inicial) pode ser 0.
+ * - password é obrigatório em LOGIN e OPEN e proibido nas demais operações.
+ * - ownerName só pode ser informado em OPEN.
+ * - currency, se informada, deve ser um código ISO 4217 e só pode ser
+ *   informada em OPEN, DEPOSIT, WITHDRAW, TRANSFER e SCHEDULE_TRANSFER.
+ * - version, se informada, deve ser suportada pelo servidor.
+ * - destination só pode ser informado em TRANSFER e SCHEDULE_TRANSFER.
+ * - Período e paginação só podem ser informados em STATEMENT, com
+ *   fromDate <= toDate e pageSize <= MAX_PAGE_SIZE.
+ * - Para BATCH, value deve ser 0 e o corpo deve ter de 1 a MAX_BATCH_ITEMS
+ *   operações válidas, cada uma com valor > 0; mode e corpo são proibidos nas
+ *   demais operações.
  */
 export class GBTPRequest implements IMessage {
+  /**
+   * Formato da requisição no codec GBTP.
+   */
+  static SCHEMA: GBTPFrameSchema = {
+    context: "na requisição",
+    keys: [
+      "VERSION",
+      "OPERATION",
+      "ACCOUNT_ID",
+      "TO_ACCOUNT_ID",
+      "VALUE",
+      "FROM_DATE",
+      "TO_DATE",
+      "PAGE",
+      "PAGE_SIZE",
+      "PASSWORD",
+      "REQUEST_ID",
+      "CORRELATION_ID",
+      "OWNER_NAME",
+      "RUN_DATE",
+      "RECURRENCE",
+      "SCHEDULE_ID",
+      "PENDING_ID",
+      "CURRENCY",
+      "MODE",
+    ],
+    body: true,
+  };
+
   operation: Operation;
   account: ID;
   destination?: ID;
   value: Value;
+  fromDate?: CalendarDate;
+  toDate?: CalendarDate;
+  page?: Page;
+  pageSize?: Page;
+  password?: Password;
+  requestId?: RequestId;
+  correlationId?: CorrelationId;
+  ownerName?: OwnerName;
+  runDate?: CalendarDate;
+  recurrence?: RecurrenceRule;
+  scheduleId?: ScheduleId;
+  pendingId?: PendingId;
+  currency?: Currency;
+  mode?: ExecutionMode;
+  items: BatchEntry[];
+  version?: Version;
 
   /**
    * Cria uma nova requisição GBTP.
@@ -34,53 +244,120 @@ export class GBTPRequest implements IMessage {
    * @param account Conta principal.
    * @param destination Conta de destino (opcional).
    * @param value Valor da transação.
+   * @param options Campos opcionais (período e paginação do extrato, senha,
+   *   chave de idempotência, identificador de correlação, nome do titular,
+   *   agendamento, transferência pendente, moeda, lote, versão do
+   *   protocolo).
    */
   constructor(
     operation: string,
     account: string,
     destination: string | undefined,
-    value: string
+    value: string,
+    options: GBTPRequestOptions = {}
   ) {
     this.operation = new Operation(operation);
     this.account = new ID(account);
     this.destination = destination ? new ID(destination) : undefined;
     this.value = new Value(value);
+    this.fromDate = options.fromDate
+      ? new CalendarDate(options.fromDate)
+      : undefined;
+    this.toDate = options.toDate ? new CalendarDate(options.toDate) : undefined;
+    this.page = options.page ? new Page(options.page) : undefined;
+    this.pageSize = options.pageSize ? new Page(options.pageSize) : undefined;
+    this.password = options.password
+      ? new Password(options.password)
+      : undefined;
+    this.requestId = options.requestId
+      ? new RequestId(options.requestId)
+      : undefined;
+    this.correlationId = options.correlationId
+      ? new CorrelationId(options.correlationId)
+      : undefined;
+    this.ownerName = options.ownerName
+      ? new OwnerName(options.ownerName)
+      : undefined;
+    this.runDate = options.runDate
+      ? new CalendarDate(options.runDate)
+      : undefined;
+    this.recurrence = options.recurrence
+      ? new RecurrenceRule(options.recurrence)
+      : undefined;
+    this.scheduleId = options.scheduleId
+      ? new ScheduleId(options.scheduleId)
+      : undefined;
+    this.pendingId = options.pendingId
+      ? new PendingId(options.pendingId)
+      : undefined;
+    this.currency = options.currency
+      ? new Currency(options.currency)
+      : undefined;
+    this.mode = options.mode ? new ExecutionMode(options.mode) : undefined;
+    this.items = (options.items ?? []).map((line) => new BatchEntry(line));
+    this.version = options.version ? new Version(options.version) : undefined;
     this.validate();
   }
 
   /**
    * Cria uma instância de GBTPRequest a partir de uma string formatada.
    * @param request String da requisição.
+   * @param codec Codec da mensagem (padrão: texto).
    * @returns Instância de GBTPRequest.
+   * @throws Se a requisição não respeitar o formato do codec ou alguma chave
+   *   obrigatória estiver ausente.
    */
-  static fromString(request: string): GBTPRequest {
-    const lines: Array<string> = request.split("\n");
-    const operation: string = GBTPRequest.extractValue(
-      lines,
-      "OPERATION"
-    ).toUpperCase();
-    const account: string = GBTPRequest.extractValue(lines, "ACCOUNT_ID");
-    const destination: string = GBTPRequest.extractValue(
-      lines,
-      "TO_ACCOUNT_ID"
+  static fromString(
+    request: string,
+    codec: GBTPCodec = TEXT_CODEC
+  ): GBTPRequest {
+    const frame = codec.decode(request, GBTPRequest.SCHEMA);
+    return new GBTPRequest(
+      frame.required("OPERATION").toUpperCase(),
+      frame.required("ACCOUNT_ID"),
+      frame.required("TO_ACCOUNT_ID"),
+      frame.required("VALUE"),
+      {
+        fromDate: frame.optional("FROM_DATE"),
+        toDate: frame.optional("TO_DATE"),
+        page: frame.optional("PAGE"),
+        pageSize: frame.optional("PAGE_SIZE"),
+        password: frame.optional("PASSWORD"),
+        requestId: frame.optional("REQUEST_ID"),
+        correlationId: frame.optional("CORRELATION_ID"),
+        ownerName: frame.optional("OWNER_NAME"),
+        runDate: frame.optional("RUN_DATE"),
+        recurrence: frame.optional("RECURRENCE"),
+        scheduleId: frame.optional("SCHEDULE_ID"),
+        pendingId: frame.optional("PENDING_ID"),
+        currency: frame.optional("CURRENCY"),
+        mode: frame.optional("MODE"),
+        items: frame.body,
+        version: frame.optional("VERSION"),
+      }
     );
-    const value: string = GBTPRequest.extractValue(lines, "VALUE");
-    return new GBTPRequest(operation, account, destination, value);
   }
 
   /**
-   * Extrai o valor de um campo a partir das linhas da requisição.
-   * @param lines Linhas da requisição.
-   * @param key Chave do campo.
-   * @returns Valor do campo.
-   * @throws Se a chave não for encontrada.
+   * Extrai o CORRELATION_ID de uma requisição que pode ser inválida, para que
+   * a resposta de erro ainda possa ser associada a ela.
+   * @param request String da requisição.
+   * @param codec Codec da mensagem (padrão: texto).
+   * @returns CORRELATION_ID válido, ou undefined se ausente, inválido ou se a
+   *   mensagem não puder ser decodificada.
    */
-  static extractValue(lines: Array<string>, key: string): string {
-    const line: string | undefined = lines.find((line) => line.startsWith(key));
-    if (line) {
-      return line.split(":")[1].trim();
+  static correlationIdOf(
+    request: string,
+    codec: GBTPCodec = TEXT_CODEC
+  ): string | undefined {
+    try {
+      const value = codec
+        .decode(request, GBTPRequest.SCHEMA)
+        .optional("CORRELATION_ID");
+      return value && new CorrelationId(value).validate() ? value : undefined;
+    } catch {
+      return undefined;
     }
-    throw new Error(`Chave ${key} não encontrada na requisição.`);
   }
 
   /**
@@ -88,57 +365,375 @@ export class GBTPRequest implements IMessage {
    * @throws Se algum campo for inválido.
    */
   validate(): void {
+    if (this.version && !this.version.validate()) {
+      throw new UnsupportedVersionError(
+        `Versão do protocolo não suportada: ${this.version.number()} ` +
+          `(suportadas: ${Version.SUPPORTED_VERSIONS.join(", ")}).`
+      );
+    }
     if (!this.operation.validate()) {
-      throw new Error("Operação inválida.");
+      throw new MalformedRequestError("Operação inválida.");
     }
-    if (!this.account.validate()) {
-      throw new Error("Conta principal inválida.");
+    const op = this.operation.operationType();
+    if (op === "OPEN") {
+      if (this.account.IDNumber().trim().length > 0) {
+        throw new MalformedRequestError(
+          "Conta principal não deve ser informada na abertura."
+        );
+      }
+    } else if (!this.account.validate()) {
+      throw new MalformedRequestError("Conta principal inválida.");
     }
     if (!this.value.validate()) {
-      throw new Error("Valor inválido.");
+      throw new InvalidValueError("Valor inválido.");
+    }
+    if (this.requestId && !this.requestId.validate()) {
+      throw new MalformedRequestError("REQUEST_ID inválido.");
+    }
+    if (this.correlationId && !this.correlationId.validate()) {
+      throw new MalformedRequestError("CORRELATION_ID inválido.");
     }
 
-    const op = this.operation.operationType();
-    const valueNum = Number(this.value.quantity());
+    const amount = this.value.amount();
+
+    this.validateStatementFields(op);
+    this.validateScheduleFields(op);
+    this.validatePendingFields(op);
+    this.validateBatchFields(op);
+
+    if (op === "LOGIN" || op === "OPEN") {
+      if (!this.password || !this.password.validate()) {
+        throw new MalformedRequestError(
+          "Senha obrigatória para login ou abertura de conta."
+        );
+      }
+    } else if (this.password) {
+      throw new MalformedRequestError(
+        "Senha só deve ser informada em login ou abertura de conta."
+      );
+    }
+
+    if (op === "OPEN") {
+      if (!this.ownerName || !this.ownerName.validate()) {
+        throw new MalformedRequestError(
+          "Nome do titular obrigatório para abertura de conta."
+        );
+      }
+    } else if (this.ownerName) {
+      throw new MalformedRequestError(
+        "Nome do titular só deve ser informado em abertura de conta."
+      );
+    }
+
+    if (this.currency) {
+      if (!CURRENCY_OPERATIONS.includes(op)) {
+        throw new MalformedRequestError(
+          "Moeda só deve ser informada em abertura de conta, depósito, saque ou transferência."
+        );
+      }
+      if (!this.currency.validate()) {
+        throw new MalformedRequestError("Moeda inválida.");
+      }
+    }
 
-    if (op === "TRANSFER") {
+    if (op === "TRANSFER" || op === "SCHEDULE_TRANSFER") {
       if (!this.destination || !this.destination.validate()) {
-        throw new Error(
+        throw new MalformedRequestError(
           "Conta de destino obrigatória e inválida para transferência."
         );
       }
-      if (valueNum <= 0) {
-        throw new Error("Valor da transferência deve ser maior que zero.");
+      if (!amount.isPositive()) {
+        throw new InvalidValueError(
+          "Valor da transferência deve ser maior que zero."
+        );
       }
       return;
     }
 
     if (this.destination && this.destination.IDNumber().trim().length > 0) {
-      throw new Error(
+      throw new MalformedRequestError(
         "Conta de destino só deve ser informada em transferência."
       );
     }
 
-    if ((op === "DEPOSIT" || op === "WITHDRAW") && valueNum <= 0) {
-      throw new Error("Valor deve ser maior que zero para depósito ou saque.");
+    if ((op === "DEPOSIT" || op === "WITHDRAW") && !amount.isPositive()) {
+      throw new InvalidValueError(
+        "Valor deve ser maior que zero para depósito ou saque."
+      );
+    }
+
+    if (op === "BALANCE" && !amount.isZero()) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para consulta de saldo."
+      );
+    }
+
+    if (op === "BATCH" && !amount.isZero()) {
+      throw new InvalidValueError("Valor deve ser zero para lote.");
+    }
+
+    if (op === "LIMITS" && !amount.isZero()) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para consulta de limites."
+      );
+    }
+
+    if (op === "STATEMENT" && !amount.isZero()) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para consulta de extrato."
+      );
     }
 
-    if (op === "BALANCE" && valueNum !== 0) {
-      throw new Error("Valor deve ser zero para consulta de saldo.");
+    if ((op === "LOGIN" || op === "LOGOUT") && !amount.isZero()) {
+      throw new InvalidValueError("Valor deve ser zero para login ou logout.");
+    }
+
+    if ((op === "SUBSCRIBE" || op === "UNSUBSCRIBE") && !amount.isZero()) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para inscrição em eventos."
+      );
+    }
+
+    if (
+      (op === "CLOSE" || op === "FREEZE" || op === "UNFREEZE") &&
+      !amount.isZero()
+    ) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para encerramento, bloqueio ou desbloqueio."
+      );
+    }
+
+    if (
+      (op === "LIST_SCHEDULED" || op === "CANCEL_SCHEDULED") &&
+      !amount.isZero()
+    ) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para consulta ou cancelamento de agendamentos."
+      );
+    }
+
+    if (
+      (op === "APPROVE" || op === "REJECT" || op === "LIST_PENDING") &&
+      !amount.isZero()
+    ) {
+      throw new InvalidValueError(
+        "Valor deve ser zero para consulta, aprovação ou rejeição de transferências pendentes."
+      );
+    }
+  }
+
+  /**
+   * Valida o campo de transferência pendente (PENDING_ID).
+   * @param op Tipo da operação.
+   * @throws Se o campo for inválido, ausente ou informado em outra operação.
+   */
+  private validatePendingFields(op: string): void {
+    if (op === "APPROVE" || op === "REJECT") {
+      if (!this.pendingId || !this.pendingId.validate()) {
+        throw new MalformedRequestError(
+          "Transferência pendente obrigatória e inválida para aprovação ou rejeição."
+        );
+      }
+    } else if (this.pendingId) {
+      throw new MalformedRequestError(
+        "Transferência pendente só deve ser informada em aprovação ou rejeição."
+      );
+    }
+  }
+
+  /**
+   * Valida os campos de agendamento (RUN_DATE, RECURRENCE, SCHEDULE_ID).
+   * @param op Tipo da operação.
+   * @throws Se algum campo for inválido, ausente ou informado em outra
+   *   operação.
+   */
+  private validateScheduleFields(op: string): void {
+    if (op === "SCHEDULE_TRANSFER") {
+      if (!this.runDate || !this.runDate.validate()) {
+        throw new MalformedRequestError(
+          "Data de execução obrigatória e inválida para agendamento."
+        );
+      }
+      if (this.recurrence && !this.recurrence.validate()) {
+        throw new MalformedRequestError("Recorrência inválida.");
+      }
+    } else if (this.runDate || this.recurrence) {
+      throw new MalformedRequestError(
+        "Data de execução e recorrência só devem ser informadas em agendamento."
+      );
+    }
+
+    if (op === "CANCEL_SCHEDULED") {
+      if (!this.scheduleId || !this.scheduleId.validate()) {
+        throw new MalformedRequestError(
+          "Agendamento obrigatório e inválido para cancelamento."
+        );
+      }
+    } else if (this.scheduleId) {
+      throw new MalformedRequestError(
+        "Agendamento só deve ser informado em cancelamento de agendamento."
+      );
+    }
+  }
+
+  /**
+   * Valida os campos do lote (MODE e operações do corpo).
+   * @param op Tipo da operação.
+   * @throws Se o lote for vazio, grande demais ou tiver alguma operação
+   *   inválida, ou se os campos forem informados em outra operação.
+   */
+  private validateBatchFields(op: string): void {
+    if (op !== "BATCH") {
+      if (this.mode || this.items.length > 0) {
+        throw new MalformedRequestError(
+          "Modo e operações só devem ser informados em lote."
+        );
+      }
+      return;
+    }
+
+    if (this.mode && !this.mode.validate()) {
+      throw new MalformedRequestError("Modo de execução inválido.");
+    }
+    if (this.items.length === 0) {
+      throw new MalformedRequestError("Lote deve ter ao menos uma operação.");
+    }
+    if (this.items.length > MAX_BATCH_ITEMS) {
+      throw new MalformedRequestError(
+        `Lote deve ter no máximo ${MAX_BATCH_ITEMS} operações.`
+      );
+    }
+    this.items.forEach((item, index) => {
+      if (!item.validate()) {
+        throw new MalformedRequestError(
+          `Operação ${index + 1} do lote inválida.`
+        );
+      }
+      const value = item.value();
+      if (!value.validate() || !value.amount().isPositive()) {
+        throw new InvalidValueError(
+          `Valor da operação ${index + 1} do lote deve ser maior que zero.`
+        );
+      }
+    });
+  }
+
+  /**
+   * Valida os campos de período e paginação do extrato.
+   * @param op Tipo da operação.
+   * @throws Se algum campo for inválido ou informado fora de STATEMENT.
+   */
+  private validateStatementFields(op: string): void {
+    const informed = [this.fromDate, this.toDate, this.page, this.pageSize];
+    if (op !== "STATEMENT") {
+      if (informed.some((field) => field !== undefined)) {
+        throw new MalformedRequestError(
+          "Período e paginação só devem ser informados em consulta de extrato."
+        );
+      }
+      return;
+    }
+
+    if (this.fromDate && !this.fromDate.validate()) {
+      throw new MalformedRequestError("Data inicial inválida.");
+    }
+    if (this.toDate && !this.toDate.validate()) {
+      throw new MalformedRequestError("Data final inválida.");
+    }
+    if (
+      this.fromDate &&
+      this.toDate &&
+      this.fromDate.day() > this.toDate.day()
+    ) {
+      throw new MalformedRequestError(
+        "Data inicial deve ser anterior ou igual à data final."
+      );
+    }
+    if (this.page && !this.page.validate()) {
+      throw new MalformedRequestError("Página inválida.");
+    }
+    if (this.pageSize) {
+      if (!this.pageSize.validate()) {
+        throw new MalformedRequestError("Tamanho de página inválido.");
+      }
+      if (Number(this.pageSize.pageNumber()) > MAX_PAGE_SIZE) {
+        throw new MalformedRequestError(
+          `Tamanho de página deve ser no máximo ${MAX_PAGE_SIZE}.`
+        );
+      }
     }
   }
 
   /**
-   * Serializa a requisição para string no formato do protocolo.
+   * Serializa a requisição para string no formato de texto do protocolo.
    * @returns String formatada da requisição.
    */
   toString(): string {
-    return [
-      `OPERATION:${this.operation.operationType()}`,
-      `ACCOUNT_ID:${this.account.IDNumber()}`,
-      `TO_ACCOUNT_ID:${this.destination ? this.destination.IDNumber() : ""}`,
-      `VALUE:${this.value.quantity()}`,
-    ].join("\n");
+    return this.encode(TEXT_CODEC);
+  }
+
+  /**
+   * Serializa a requisição com o codec informado.
+   * @param codec Codec da mensagem.
+   * @returns String formatada da requisição.
+   */
+  encode(codec: GBTPCodec): string {
+    const fields: Array<[string, string]> = [];
+    if (this.version) {
+      fields.push(["VERSION", this.version.number()]);
+    }
+    fields.push(
+      ["OPERATION", this.operation.operationType()],
+      ["ACCOUNT_ID", this.account.IDNumber()],
+      ["TO_ACCOUNT_ID", this.destination ? this.destination.IDNumber() : ""],
+      ["VALUE", this.value.quantity()]
+    );
+    if (this.fromDate) {
+      fields.push(["FROM_DATE", this.fromDate.day()]);
+    }
+    if (this.toDate) {
+      fields.push(["TO_DATE", this.toDate.day()]);
+    }
+    if (this.page) {
+      fields.push(["PAGE", this.page.pageNumber()]);
+    }
+    if (this.pageSize) {
+      fields.push(["PAGE_SIZE", this.pageSize.pageNumber()]);
+    }
+    if (this.password) {
+      fields.push(["PASSWORD", this.password.secret()]);
+    }
+    if (this.requestId) {
+      fields.push(["REQUEST_ID", this.requestId.key()]);
+    }
+    if (this.correlationId) {
+      fields.push(["CORRELATION_ID", this.correlationId.identifier()]);
+    }
+    if (this.ownerName) {
+      fields.push(["OWNER_NAME", this.ownerName.name()]);
+    }
+    if (this.runDate) {
+      fields.push(["RUN_DATE", this.runDate.day()]);
+    }
+    if (this.recurrence) {
+      fields.push(["RECURRENCE", this.recurrence.recurrenceType()]);
+    }
+    if (this.scheduleId) {
+      fields.push(["SCHEDULE_ID", this.scheduleId.scheduleNumber()]);
+    }
+    if (this.pendingId) {
+      fields.push(["PENDING_ID", this.pendingId.pendingNumber()]);
+    }
+    if (this.currency) {
+      fields.push(["CURRENCY", this.currency.currencyCode()]);
+    }
+    if (this.mode) {
+      fields.push(["MODE", this.mode.modeType()]);
+    }
+    return codec.encode(
+      fields,
+      this.items.map((item) => item.line())
+    );
   }
 }
 
@@ -146,60 +741,177 @@ export class GBTPRequest implements IMessage {
  * Classe que representa uma resposta do protocolo GBTP.
  *
  * Campos:
+ * - version: versão do protocolo (opcional; ecoa a VERSION da requisição)
+ * - correlationId: identificador de correlação (opcional; ecoa o
+ *   CORRELATION_ID da requisição)
  * - status: resultado da operação (OK ou ERROR)
  * - message: mensagem descritiva sobre o processamento
- * - balance: saldo atual da conta principal
+ * - balance: saldo atual (contábil) da conta principal
+ * - availableBalance: saldo disponível, descontadas as transferências
+ *   pendentes de aprovação (opcional, usado em BALANCE)
+ * - currency: moeda do saldo (opcional)
+ * - code: código do erro (obrigatório em ERROR, proibido em OK)
+ * - accountId: conta criada (opcional, usado em OPEN)
+ * - scheduleId: agendamento criado (opcional, usado em SCHEDULE_TRANSFER)
+ * - reviewId: transação retida para análise (opcional, usado com CODE
+ *   TRANSACTION_HELD)
+ * - pendingId: transferência pendente de aprovação criada (opcional, usado em
+ *   TRANSFER)
+ * - creditedAmount / creditedCurrency / exchangeRate: valor creditado, moeda
+ *   do destino e taxa de câmbio (opcionais, usados em TRANSFER)
+ * - page / totalPages / totalEntries: paginação (opcionais, usados em STATEMENT)
+ * - body: linhas do corpo da resposta (opcional, usado em STATEMENT,
+ *   LIST_SCHEDULED, LIMITS, BATCH e LIST_PENDING)
+ *
+ * Formato (ver GBTPCodec):
+ * - Texto: os campos são serializados como linhas CHAVE:VALOR e, se houver
+ *   corpo, ele vem após uma linha em branco, um item por linha.
+ * - JSON: um objeto com as mesmas chaves e o corpo na chave BODY.
  *
  * Validações:
  * - Todos os campos são validados via seus métodos validate().
  */
 export class GBTPResponse implements IMessage {
+  /**
+   * Formato da resposta no codec GBTP.
+   */
+  static SCHEMA: GBTPFrameSchema = {
+    context: "na resposta",
+    keys: [
+      "VERSION",
+      "CORRELATION_ID",
+      "STATUS",
+      "MESSAGE",
+      "BALANCE",
+      "AVAILABLE_BALANCE",
+      "CURRENCY",
+      "CODE",
+      "ACCOUNT_ID",
+      "SCHEDULE_ID",
+      "REVIEW_ID",
+      "PENDING_ID",
+      "CREDITED_AMOUNT",
+      "CREDITED_CURRENCY",
+      "EXCHANGE_RATE",
+      "PAGE",
+      "TOTAL_PAGES",
+      "TOTAL_ENTRIES",
+    ],
+    body: true,
+  };
+
+  version?: Version;
+  correlationId?: CorrelationId;
   status: Status;
   message: Message;
   balance: Balance;
+  availableBalance?: Balance;
+  currency?: Currency;
+  code?: Code;
+  accountId?: ID;
+  scheduleId?: ScheduleId;
+  reviewId?: ReviewId;
+  pendingId?: PendingId;
+  creditedAmount?: Value;
+  creditedCurrency?: Currency;
+  exchangeRate?: ExchangeRate;
+  page?: Page;
+  totalPages?: Page;
+  totalEntries?: string;
+  body: string[];
 
   /**
    * Cria uma nova resposta GBTP.
    * @param status Status da operação.
    * @param message Mensagem descritiva.
    * @param balance Saldo da conta principal.
+   * @param options Campos opcionais (versão do protocolo, identificador de
+   *   correlação, saldo disponível, código do erro, moeda, conta criada,
+   *   agendamento criado, transação retida, transferência pendente, câmbio,
+   *   paginação e corpo).
    */
-  constructor(status: string, message: string, balance: string) {
+  constructor(
+    status: string,
+    message: string,
+    balance: string,
+    options: GBTPResponseOptions = {}
+  ) {
+    this.version = options.version ? new Version(options.version) : undefined;
+    this.correlationId = options.correlationId
+      ? new CorrelationId(options.correlationId)
+      : undefined;
     this.status = new Status(status);
     this.message = new Message(message);
     this.balance = new Balance(balance);
+    this.availableBalance = options.availableBalance
+      ? new Balance(options.availableBalance)
+      : undefined;
+    this.currency = options.currency
+      ? new Currency(options.currency)
+      : undefined;
+    this.code = options.code ? new Code(options.code) : undefined;
+    this.accountId = options.accountId ? new ID(options.accountId) : undefined;
+    this.scheduleId = options.scheduleId
+      ? new ScheduleId(options.scheduleId)
+      : undefined;
+    this.reviewId = options.reviewId
+      ? new ReviewId(options.reviewId)
+      : undefined;
+    this.pendingId = options.pendingId
+      ? new PendingId(options.pendingId)
+      : undefined;
+    this.creditedAmount = options.creditedAmount
+      ? new Value(options.creditedAmount)
+      : undefined;
+    this.creditedCurrency = options.creditedCurrency
+      ? new Currency(options.creditedCurrency)
+      : undefined;
+    this.exchangeRate = options.exchangeRate
+      ? new ExchangeRate(options.exchangeRate)
+      : undefined;
+    this.page = options.page ? new Page(options.page) : undefined;
+    this.totalPages = options.totalPages
+      ? new Page(options.totalPages)
+      : undefined;
+    this.totalEntries = options.totalEntries;
+    this.body = options.body ?? [];
     this.validate();
   }
 
   /**
    * Cria uma instância de GBTPResponse a partir de uma string formatada.
    * @param response String da resposta.
+   * @param codec Codec da mensagem (padrão: texto).
    * @returns Instância de GBTPResponse.
    */
-  static fromString(response: string): GBTPResponse {
-    const lines: Array<string> = response.split("\n");
-    const status: string = GBTPResponse.extractValue(
-      lines,
-      "STATUS"
-    ).toUpperCase();
-    const message: string = GBTPResponse.extractValue(lines, "MESSAGE");
-    const balance: string = GBTPResponse.extractValue(lines, "BALANCE");
-    return new GBTPResponse(status, message, balance);
-  }
-
-  /**
-   * Extrai o valor de um campo a partir das linhas da resposta.
-   * @param lines Linhas da resposta.
-   * @param key Chave do campo.
-   * @returns Valor do campo.
-   * @throws Se a chave não for encontrada.
-   */
-  static extractValue(lines: Array<string>, key: string): string {
-    const line: string | undefined = lines.find((line) => line.startsWith(key));
-    if (line) {
-      return line.split(":")[1].trim();
-    }
-    throw new Error(`Chave ${key} não encontrada na resposta.`);
+  static fromString(
+    response: string,
+    codec: GBTPCodec = TEXT_CODEC
+  ): GBTPResponse {
+    const frame = codec.decode(response, GBTPResponse.SCHEMA);
+    return new GBTPResponse(
+      frame.required("STATUS").toUpperCase(),
+      frame.required("MESSAGE"),
+      frame.required("BALANCE"),
+      {
+        version: frame.optional("VERSION"),
+        correlationId: frame.optional("CORRELATION_ID"),
+        availableBalance: frame.optional("AVAILABLE_BALANCE"),
+        currency: frame.optional("CURRENCY"),
+        code: frame.optional("CODE"),
+        accountId: frame.optional("ACCOUNT_ID"),
+        scheduleId: frame.optional("SCHEDULE_ID"),
+        reviewId: frame.optional("REVIEW_ID"),
+        pendingId: frame.optional("PENDING_ID"),
+        creditedAmount: frame.optional("CREDITED_AMOUNT"),
+        creditedCurrency: frame.optional("CREDITED_CURRENCY"),
+        exchangeRate: frame.optional("EXCHANGE_RATE"),
+        page: frame.optional("PAGE"),
+        totalPages: frame.optional("TOTAL_PAGES"),
+        totalEntries: frame.optional("TOTAL_ENTRIES"),
+        body: frame.body,
+      }
+    );
   }
 
   /**
@@ -207,6 +919,12 @@ export class GBTPResponse implements IMessage {
    * @throws Se algum campo for inválido.
    */
   validate(): void {
+    if (this.version && !this.version.validate()) {
+      throw new Error("Versão do protocolo inválida.");
+    }
+    if (this.correlationId && !this.correlationId.validate()) {
+      throw new Error("CORRELATION_ID inválido.");
+    }
     if (!this.status.validate()) {
       throw new Error("Status inválido.");
     }
@@ -216,17 +934,212 @@ export class GBTPResponse implements IMessage {
     if (!this.balance.validate()) {
       throw new Error("Saldo inválido.");
     }
+    if (this.availableBalance && !this.availableBalance.validate()) {
+      throw new Error("Saldo disponível inválido.");
+    }
+    if (this.currency && !this.currency.validate()) {
+      throw new Error("Moeda inválida.");
+    }
+    if (this.code && !this.code.validate()) {
+      throw new Error("Código de erro inválido.");
+    }
+    if (this.status.statusMessage() === "ERROR" && !this.code) {
+      throw new Error("Código de erro obrigatório em respostas de erro.");
+    }
+    if (this.status.statusMessage() === "OK" && this.code) {
+      throw new Error(
+        "Código de erro só deve ser informado em respostas de erro."
+      );
+    }
+    if (this.accountId && !this.accountId.validate()) {
+      throw new Error("Conta inválida.");
+    }
+    if (this.scheduleId && !this.scheduleId.validate()) {
+      throw new Error("Agendamento inválido.");
+    }
+    if (this.reviewId && !this.reviewId.validate()) {
+      throw new Error("Análise inválida.");
+    }
+    if (this.pendingId && !this.pendingId.validate()) {
+      throw new Error("Transferência pendente inválida.");
+    }
+    if (this.creditedAmount && !this.creditedAmount.validate()) {
+      throw new Error("Valor creditado inválido.");
+    }
+    if (this.creditedCurrency && !this.creditedCurrency.validate()) {
+      throw new Error("Moeda do destino inválida.");
+    }
+    if (this.exchangeRate && !this.exchangeRate.validate()) {
+      throw new Error("Taxa de câmbio inválida.");
+    }
+    if (this.page && !this.page.validate()) {
+      throw new Error("Página inválida.");
+    }
+    if (this.totalPages && !this.totalPages.validate()) {
+      throw new Error("Total de páginas inválido.");
+    }
+    if (this.totalEntries !== undefined && !/^\d+$/.test(this.totalEntries)) {
+      throw new Error("Total de lançamentos inválido.");
+    }
   }
 
   /**
-   * Serializa a resposta para string no formato do protocolo.
+   * Serializa a resposta para string no formato de texto do protocolo.
    * @returns String formatada da resposta.
    */
   toString(): string {
-    return [
-      `STATUS:${this.status.statusMessage()}`,
-      `MESSAGE:${this.message.content()}`,
-      `BALANCE:${this.balance.quantity()}`,
-    ].join("\n");
+    return this.encode(TEXT_CODEC);
+  }
+
+  /**
+   * Serializa a resposta com o codec informado.
+   * @param codec Codec da mensagem.
+   * @returns String formatada da resposta.
+   */
+  encode(codec: GBTPCodec): string {
+    const fields: Array<[string, string]> = [];
+    if (this.version) {
+      fields.push(["VERSION", this.version.number()]);
+    }
+    if (this.correlationId) {
+      fields.push(["CORRELATION_ID", this.correlationId.identifier()]);
+    }
+    fields.push(
+      ["STATUS", this.status.statusMessage()],
+      ["MESSAGE", this.message.content()],
+      ["BALANCE", this.balance.quantity()]
+    );
+    if (this.availableBalance) {
+      fields.push(["AVAILABLE_BALANCE", this.availableBalance.quantity()]);
+    }
+    if (this.currency) {
+      fields.push(["CURRENCY", this.currency.currencyCode()]);
+    }
+    if (this.code) {
+      fields.push(["CODE", this.code.errorCode()]);
+    }
+    if (this.accountId) {
+      fields.push(["ACCOUNT_ID", this.accountId.IDNumber()]);
+    }
+    if (this.scheduleId) {
+      fields.push(["SCHEDULE_ID", this.scheduleId.scheduleNumber()]);
+    }
+    if (this.reviewId) {
+      fields.push(["REVIEW_ID", this.reviewId.reviewNumber()]);
+    }
+    if (this.pendingId) {
+      fields.push(["PENDING_ID", this.pendingId.pendingNumber()]);
+    }
+    if (this.creditedAmount) {
+      fields.push(["CREDITED_AMOUNT", this.creditedAmount.quantity()]);
+    }
+    if (this.creditedCurrency) {
+      fields.push(["CREDITED_CURRENCY", this.creditedCurrency.currencyCode()]);
+    }
+    if (this.exchangeRate) {
+      fields.push(["EXCHANGE_RATE", this.exchangeRate.quotation()]);
+    }
+    if (this.page) {
+      fields.push(["PAGE", this.page.pageNumber()]);
+    }
+    if (this.totalPages) {
+      fields.push(["TOTAL_PAGES", this.totalPages.pageNumber()]);
+    }
+    if (this.totalEntries !== undefined) {
+      fields.push(["TOTAL_ENTRIES", this.totalEntries]);
+    }
+    return codec.encode(fields, this.body);
+  }
+}
+
+/**
+ * Classe que representa um evento enviado espontaneamente pelo servidor no
+ * protocolo GBTP (sem requisição correspondente).
+ *
+ * Campos:
+ * - event: tipo do evento (BALANCE_CHANGED)
+ * - account: identificador da conta afetada
+ * - balance: saldo atual da conta afetada
+ *
+ * Validações:
+ * - Todos os campos são validados via seus métodos validate().
+ */
+export class GBTPEvent implements IMessage {
+  /**
+   * Formato do evento no codec GBTP.
+   */
+  static SCHEMA: GBTPFrameSchema = {
+    context: "no evento",
+    keys: ["EVENT", "ACCOUNT_ID", "BALANCE"],
+    body: false,
+  };
+
+  event: EventType;
+  account: ID;
+  balance: Balance;
+
+  /**
+   * Cria um novo evento GBTP.
+   * @param event Tipo do evento.
+   * @param account Conta afetada.
+   * @param balance Saldo atual da conta afetada.
+   */
+  constructor(event: string, account: string, balance: string) {
+    this.event = new EventType(event);
+    this.account = new ID(account);
+    this.balance = new Balance(balance);
+    this.validate();
+  }
+
+  /**
+   * Cria uma instância de GBTPEvent a partir de uma string formatada.
+   * @param event String do evento.
+   * @param codec Codec da mensagem (padrão: texto).
+   * @returns Instância de GBTPEvent.
+   */
+  static fromString(event: string, codec: GBTPCodec = TEXT_CODEC): GBTPEvent {
+    const frame = codec.decode(event, GBTPEvent.SCHEMA);
+    return new GBTPEvent(
+      frame.required("EVENT").toUpperCase(),
+      frame.required("ACCOUNT_ID"),
+      frame.required("BALANCE")
+    );
+  }
+
+  /**
+   * Valida o evento conforme as regras do protocolo.
+   * @throws Se algum campo for inválido.
+   */
+  validate(): void {
+    if (!this.event.validate()) {
+      throw new Error("Evento inválido.");
+    }
+    if (!this.account.validate()) {
+      throw new Error("Conta inválida.");
+    }
+    if (!this.balance.validate()) {
+      throw new Error("Saldo inválido.");
+    }
+  }
+
+  /**
+   * Serializa o evento para string no formato de texto do protocolo.
+   * @returns String formatada do evento.
+   */
+  toString(): string {
+    return this.encode(TEXT_CODEC);
+  }
+
+  /**
+   * Serializa o evento com o codec informado.
+   * @param codec Codec da mensagem.
+   * @returns String formatada do evento.
+   */
+  encode(codec: GBTPCodec): string {
+    return codec.encode([
+      ["EVENT", this.event.eventType()],
+      ["ACCOUNT_ID", this.account.IDNumber()],
+      ["BALANCE", this.balance.quantity()],
+    ]);
   }
 }
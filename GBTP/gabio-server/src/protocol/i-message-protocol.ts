@@ -1,9 +1,12 @@
+import { GBTPCodec } from "./gbtp-codec";
+
 /**
  * Interface que representa uma mensagem genérica no protocolo.
  *
  * Implementações desta interface devem fornecer lógica para:
  * - Validar o conteúdo da mensagem.
- * - Serializar a mensagem para uma representação em string.
+ * - Serializar a mensagem para uma representação em string, no formato de
+ *   texto ou com um codec específico (ver GBTPCodec).
  */
 export interface IMessage {
   /**
@@ -19,4 +22,11 @@ export interface IMessage {
    * @returns {string} Representação da mensagem em formato de string.
    */
   toString(): string;
+
+  /**
+   * Serializa a mensagem com o codec informado.
+   * @param {GBTPCodec} codec Codec usado na conexão.
+   * @returns {string} Representação da mensagem no formato do codec.
+   */
+  encode(codec: GBTPCodec): string;
 }
@@ -0,0 +1,225 @@
+import { MalformedRequestError } from "../errors/gbtp-error";
+import {
+  ensureMessageSize,
+  GBTPCodec,
+  GBTPFrame,
+  GBTPFrameSchema,
+  MAX_MESSAGE_SIZE,
+  TEXT_CODEC,
+} from "./gbtp-codec";
+
+/**
+ * Chave do objeto JSON que contém as linhas do corpo da mensagem.
+ */
+const BODY_KEY = "BODY";
+
+/**
+ * Codec JSON do GBTP (subprotocolo "gbtp-json").
+ *
+ * Formato da mensagem:
+ * - Um objeto JSON com as mesmas chaves do codec de texto, cada uma com um
+ *   valor em texto (ex.: {"OPERATION": "DEPOSIT", "VALUE": "10.00"}).
+ * - Corpo (opcional): array de textos na chave "BODY", um item por posição,
+ *   no mesmo formato das linhas do codec de texto.
+ *
+ * Validação (decode):
+ * - A mensagem deve ter no máximo maxMessageSize bytes.
+ * - A mensagem deve ser um objeto JSON; os valores devem ser textos e BODY um
+ *   array de textos.
+ * - Chaves repetidas são rejeitadas, como no codec de texto (JSON.parse
+ *   manteria apenas o último valor).
+ * - As demais regras são as de GBTPFrame.create (as mesmas do codec de texto).
+ */
+export class JsonCodec implements GBTPCodec {
+  readonly name = "gbtp-json";
+
+  /**
+   * Cria um codec JSON.
+   * @param maxMessageSize Tamanho máximo, em bytes, de uma mensagem
+   *                       decodificada (padrão: MAX_MESSAGE_SIZE).
+   */
+  constructor(readonly maxMessageSize: number = MAX_MESSAGE_SIZE) {}
+
+  /**
+   * Retorna um codec JSON com outro tamanho máximo de mensagem.
+   * @param maxMessageSize Tamanho máximo, em bytes.
+   * @returns Este codec, se o tamanho for o mesmo, ou um novo.
+   */
+  withMaxMessageSize(maxMessageSize: number): JsonCodec {
+    return maxMessageSize === this.maxMessageSize
+      ? this
+      : new JsonCodec(maxMessageSize);
+  }
+
+  /**
+   * Decodifica uma mensagem JSON conforme o esquema informado.
+   * @param raw Texto da mensagem.
+   * @param schema Esquema da mensagem.
+   * @returns Mensagem decodificada.
+   * @throws MalformedRequestError se a mensagem não respeitar o formato.
+   */
+  decode(raw: string, schema: GBTPFrameSchema): GBTPFrame {
+    ensureMessageSize(raw, this.maxMessageSize);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new MalformedRequestError(`JSON inválido ${schema.context}.`);
+    }
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new MalformedRequestError(
+        `Mensagem deve ser um objeto JSON ${schema.context}.`
+      );
+    }
+
+    const values = new Map<string, unknown>(Object.entries(parsed));
+    const entries: Array<[string, string]> = [];
+    let body: string[] | undefined;
+    for (const key of topLevelKeys(raw)) {
+      const value = values.get(key);
+      if (key === BODY_KEY) {
+        if (body !== undefined) {
+          throw new MalformedRequestError(
+            `Chave ${BODY_KEY} repetida ${schema.context}.`
+          );
+        }
+        if (
+          !Array.isArray(value) ||
+          value.some((line) => typeof line !== "string")
+        ) {
+          throw new MalformedRequestError(
+            `Chave ${BODY_KEY} deve ser uma lista de textos ${schema.context}.`
+          );
+        }
+        body = value.filter((line: string) => line.trim().length > 0);
+        continue;
+      }
+      if (typeof value !== "string") {
+        throw new MalformedRequestError(
+          `Valor da chave ${key} deve ser texto ${schema.context}.`
+        );
+      }
+      entries.push([key, value]);
+    }
+    return GBTPFrame.create(schema, entries, body ?? []);
+  }
+
+  /**
+   * Codifica uma mensagem como objeto JSON, com os campos na ordem informada
+   * e, se houver, o corpo na chave BODY.
+   * @param fields Pares [chave, valor] do cabeçalho.
+   * @param body Linhas do corpo (opcional).
+   * @returns Texto JSON da mensagem.
+   */
+  encode(fields: Array<[string, string]>, body: string[] = []): string {
+    const message: Record<string, string | string[]> =
+      Object.fromEntries(fields);
+    if (body.length > 0) {
+      message[BODY_KEY] = body;
+    }
+    return JSON.stringify(message);
+  }
+}
+
+/**
+ * Lista as chaves do objeto JSON de primeiro nível na ordem do texto,
+ * incluindo as repetidas. O texto já deve ter sido validado por JSON.parse.
+ * @param raw Texto do objeto JSON.
+ * @returns Chaves decodificadas (com os escapes resolvidos).
+ */
+function topLevelKeys(raw: string): string[] {
+  const keys: string[] = [];
+  let depth = 0;
+  let expectingKey = false;
+  for (let index = 0; index < raw.length; index++) {
+    const char = raw[index];
+    if (char === '"') {
+      const end = stringEnd(raw, index);
+      if (depth === 1 && expectingKey) {
+        keys.push(JSON.parse(raw.slice(index, end + 1)));
+        expectingKey = false;
+      }
+      index = end;
+    } else if (char === "{" || char === "[") {
+      depth++;
+      expectingKey = depth === 1;
+    } else if (char === "}" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 1) {
+      expectingKey = true;
+    }
+  }
+  return keys;
+}
+
+/**
+ * Retorna a posição das aspas que fecham o texto JSON iniciado em start.
+ */
+function stringEnd(raw: string, start: number): number {
+  let index = start + 1;
+  while (raw[index] !== '"') {
+    index += raw[index] === "\\" ? 2 : 1;
+  }
+  return index;
+}
+
+/**
+ * Codec JSON compartilhado (sem estado), com o tamanho máximo padrão.
+ */
+export const JSON_CODEC = new JsonCodec();
+
+/**
+ * Codecs suportados pelo servidor, na ordem de preferência.
+ */
+export const CODECS: readonly GBTPCodec[] = [TEXT_CODEC, JSON_CODEC];
+
+/**
+ * Retorna o codec de um subprotocolo WebSocket.
+ * @param name Nome do subprotocolo (ex.: "gbtp-json").
+ * @param maxMessageSize Tamanho máximo, em bytes, das mensagens decodificadas
+ *                       (padrão: MAX_MESSAGE_SIZE).
+ * @returns Codec correspondente ou undefined se não for suportado.
+ */
+export function codecByName(
+  name: string,
+  maxMessageSize: number = MAX_MESSAGE_SIZE
+): GBTPCodec | undefined {
+  return CODECS.find((codec) => codec.name === name)?.withMaxMessageSize(
+    maxMessageSize
+  );
+}
+
+/**
+ * Escolhe o subprotocolo WebSocket da conexão (handleProtocols do
+ * WebSocketServer): o primeiro oferecido pelo cliente que tenha codec.
+ * @param protocols Subprotocolos oferecidos, na ordem de preferência do
+ *                  cliente.
+ * @returns Nome do subprotocolo escolhido ou false se nenhum for suportado
+ *          (a conexão segue sem subprotocolo e o codec é detectado).
+ */
+export function selectSubprotocol(protocols: Iterable<string>): string | false {
+  return (
+    [...protocols].find((name) => codecByName(name) !== undefined) ?? false
+  );
+}
+
+/**
+ * Detecta o codec de uma mensagem recebida sem subprotocolo negociado: JSON se
+ * o primeiro caractere não branco for "{", texto caso contrário.
+ * @param raw Texto da mensagem.
+ * @param maxMessageSize Tamanho máximo, em bytes, das mensagens decodificadas
+ *                       (padrão: MAX_MESSAGE_SIZE).
+ * @returns Codec da mensagem.
+ */
+export function detectCodec(
+  raw: string,
+  maxMessageSize: number = MAX_MESSAGE_SIZE
+): GBTPCodec {
+  const codec = raw.trimStart().startsWith("{") ? JSON_CODEC : TEXT_CODEC;
+  return codec.withMaxMessageSize(maxMessageSize);
+}
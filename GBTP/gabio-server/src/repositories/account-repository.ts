@@ -0,0 +1,141 @@
+/**
+ * Interface de persistência de contas utilizada pelo BankService.
+ *
+ * Também armazena o livro-razão (lançamentos de cada alteração de saldo), os
+ * registros de idempotência (IdempotencyService) e as transferências agendadas
+ * (SchedulerService), para que sobrevivam a reinícios do servidor junto com as
+ * contas.
+ *
+ * Implementações desta interface devem garantir que:
+ * - loadAll() retorne o último estado gravado com sucesso.
+ * - save() seja atômico: ou todas as contas informadas e seus registros
+ *   relacionados (lançamentos, registro de idempotência e agendamentos) são
+ *   gravados, ou nada é gravado (essencial para TRANSFER, que altera duas
+ *   contas, para que o extrato sempre explique o saldo e para que uma
+ *   operação com REQUEST_ID nunca seja gravada sem sua resposta).
+ * - As transferências pendentes de aprovação e a política de aprovação sejam
+ *   gravadas junto com a conta (Account.pendingTransfers e Account.approval).
+ * - As consultas ao livro-razão (loadTransactions, dailyTotal,
+ *   hasCounterparty) usem índices por conta, sem percorrer todos os
+ *   lançamentos.
+ */
+import { Account } from "../models/account";
+import { Money } from "../models/money";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { ScheduledTransfer } from "../models/scheduled-transfer";
+import { Transaction, TransactionType } from "../models/transaction";
+
+/**
+ * Registros gravados por save() na mesma operação atômica que as contas.
+ *
+ * - transactions: lançamentos do livro-razão das alterações de saldo.
+ * - idempotency: resposta memorizada da requisição que originou a gravação.
+ * - schedules: transferências agendadas novas ou alteradas.
+ */
+export interface RelatedRecords {
+  transactions?: Transaction[];
+  idempotency?: IdempotencyRecord;
+  schedules?: ScheduledTransfer[];
+}
+
+/**
+ * Consulta de lançamentos de uma conta, em ordem cronológica.
+ *
+ * - from / to: limites do período (inclusivos), em ISO 8601 (UTC).
+ * - offset / limit: intervalo de lançamentos retornados.
+ */
+export interface TransactionQuery {
+  from?: string;
+  to?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Resultado de loadTransactions: lançamentos do intervalo pedido e total de
+ * lançamentos do período.
+ */
+export interface TransactionPage {
+  entries: Transaction[];
+  total: number;
+}
+
+export interface AccountRepository {
+  /**
+   * Carrega todas as contas persistidas.
+   * @returns {Account[]} Contas gravadas (lista vazia se o armazenamento for novo).
+   */
+  loadAll(): Account[];
+
+  /**
+   * Grava atomicamente as contas informadas, inserindo ou substituindo-as, e
+   * os registros relacionados.
+   * @param {Account[]} accounts Contas novas ou alteradas.
+   * @param {RelatedRecords} related Registros gravados junto com as contas.
+   * @throws {Error} Se a gravação falhar (nada é alterado).
+   */
+  save(accounts: Account[], related?: RelatedRecords): void;
+
+  /**
+   * Consulta os lançamentos de uma conta.
+   * @param {string} accountId Conta dos lançamentos.
+   * @param {TransactionQuery} query Período e intervalo desejados.
+   * @returns {TransactionPage} Lançamentos do intervalo e total do período.
+   */
+  loadTransactions(accountId: string, query: TransactionQuery): TransactionPage;
+
+  /**
+   * Soma os valores dos lançamentos de um tipo registrados na conta em um dia.
+   * @param {string} accountId Conta dos lançamentos.
+   * @param {TransactionType} type Tipo do lançamento.
+   * @param {string} day Dia de referência (YYYY-MM-DD, em UTC).
+   * @returns {Money} Soma dos valores (zero se não houver lançamentos).
+   */
+  dailyTotal(accountId: string, type: TransactionType, day: string): Money;
+
+  /**
+   * Indica se a conta tem algum lançamento do tipo informado com a
+   * contrapartida informada.
+   * @param {string} accountId Conta dos lançamentos.
+   * @param {TransactionType} type Tipo do lançamento.
+   * @param {string} counterparty Conta de contrapartida.
+   * @returns {boolean} true se houver ao menos um lançamento.
+   */
+  hasCounterparty(
+    accountId: string,
+    type: TransactionType,
+    counterparty: string
+  ): boolean;
+
+  /**
+   * Busca um registro de idempotência gravado (os registros são gravados por
+   * save(), junto com a operação que os originou).
+   * @param {string} key Chave do registro.
+   * @returns {IdempotencyRecord | undefined} Registro gravado (mesmo expirado).
+   */
+  findIdempotencyRecord(key: string): IdempotencyRecord | undefined;
+
+  /**
+   * Remove os registros de idempotência expirados até o instante informado.
+   * @param {string} now Instante de referência em ISO 8601 (UTC).
+   */
+  deleteExpiredIdempotencyRecords(now: string): void;
+
+  /**
+   * Carrega todas as transferências agendadas persistidas.
+   * @returns {ScheduledTransfer[]} Agendamentos gravados (em qualquer situação).
+   */
+  loadScheduledTransfers(): ScheduledTransfer[];
+
+  /**
+   * Grava (ou substitui) uma transferência agendada.
+   * @param {ScheduledTransfer} transfer Agendamento a ser gravado.
+   */
+  saveScheduledTransfer(transfer: ScheduledTransfer): void;
+
+  /**
+   * Verifica se o armazenamento está acessível (usado pelo endpoint /health).
+   * @throws {Error} Se o armazenamento não puder ser lido ou gravado.
+   */
+  checkHealth(): void;
+}
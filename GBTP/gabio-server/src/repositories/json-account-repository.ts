@@ -0,0 +1,784 @@
+/**
+ * JsonAccountRepository
+ *
+ * Persistência de contas em um arquivo JSON (accounts.json), resistente a
+ * quedas do processo durante a gravação:
+ *
+ * - Write-ahead journal: antes de alterar os arquivos, as contas alteradas e
+ *   seus registros relacionados (lançamentos, registro de idempotência e
+ *   agendamentos) são acrescentados (com fsync) a "<arquivo>.journal", uma
+ *   gravação por linha.
+ * - Livro-razão: os lançamentos são acrescentados (com fsync) ao arquivo do
+ *   livro-razão (um JSON por linha, nunca reescrito; padrão: "ledger.jsonl" no
+ *   diretório do arquivo de contas) antes da reescrita das contas, e mantidos
+ *   em memória indexados por conta e por dia.
+ * - Gravação atômica: o conteúdo completo é escrito em "<arquivo>.tmp", que é
+ *   sincronizado com o disco e renomeado sobre o arquivo original. A renomeação
+ *   é atômica, então o arquivo nunca fica parcialmente escrito.
+ * - Recuperação: ao iniciar, descarta um "<arquivo>.tmp" incompleto e uma
+ *   linha final incompleta do livro-razão, e reaplica as gravações completas
+ *   encontradas no journal (lançamentos já presentes no livro-razão não são
+ *   repetidos).
+ *
+ * Os registros de idempotência e as transferências agendadas ficam em arquivos
+ * separados ("<nome>.idempotency.json" e "<nome>.schedules.json"), também
+ * gravados de forma atômica e, quando fazem parte de um save(), protegidos pelo
+ * mesmo journal das contas.
+ *
+ * Diferente do livro-razão, esses arquivos são reescritos por inteiro a cada
+ * gravação que os altera: cada um é sempre um retrato completo e legível do
+ * estado, e o journal guarda apenas a gravação em andamento (é removido ao
+ * final de cada save()). Assim, a recuperação reaplica no máximo uma gravação,
+ * e as gravações feitas fora do journal (saveScheduledTransfer e a remoção de
+ * registros expirados) nunca são sobrepostas por entradas antigas. O custo,
+ * proporcional ao número de contas, registros e agendamentos, é o do backend
+ * json, voltado a volumes pequenos; o backend sqlite grava apenas as linhas
+ * alteradas.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Account,
+  AccountStatus,
+  DEFAULT_CURRENCY,
+  FreezeOrigin,
+} from "../models/account";
+import { Money } from "../models/money";
+import { AccountLimits } from "../models/account-limits";
+import { ApprovalPolicy } from "../models/approval-policy";
+import { PendingTransfer } from "../models/pending-transfer";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { Transaction, TransactionType } from "../models/transaction";
+import {
+  Recurrence,
+  ScheduledTransfer,
+  ScheduledTransferStatus,
+} from "../models/scheduled-transfer";
+import {
+  AccountRepository,
+  RelatedRecords,
+  TransactionPage,
+  TransactionQuery,
+} from "./account-repository";
+
+/**
+ * Caminho padrão do livro-razão em arquivo: ledger.jsonl no diretório do
+ * arquivo de dados. Usado pelo backend json e, para a importação única, pelo
+ * sqlite.
+ * @param dataPath Caminho do arquivo de dados (contas ou banco SQLite)
+ * @returns Caminho do livro-razão
+ */
+export function defaultLedgerPath(dataPath: string): string {
+  return path.join(path.dirname(dataPath), "ledger.jsonl");
+}
+
+/**
+ * Formato de uma conta no arquivo JSON. O saldo é gravado como texto com duas
+ * casas decimais; números são aceitos por compatibilidade com arquivos antigos.
+ * Contas sem situação gravada são consideradas ativas e contas sem limites
+ * gravados não têm cheque especial nem limites de movimentação. Contas sem
+ * moeda gravada usam a moeda padrão (DEFAULT_CURRENCY). As transferências
+ * pendentes de aprovação são gravadas junto com a conta de origem. Contas
+ * bloqueadas sem frozenBy gravado são consideradas bloqueadas pelo titular.
+ */
+interface StoredAccount {
+  id: string;
+  balance: string | number;
+  salt?: string;
+  passwordHash?: string;
+  status?: AccountStatus;
+  ownerName?: string;
+  limits?: StoredLimits;
+  currency?: string;
+  approval?: StoredApprovalPolicy;
+  pendingTransfers?: StoredPendingTransfer[];
+  frozenBy?: FreezeOrigin;
+}
+
+/**
+ * Formato da política de aprovação de uma conta no arquivo JSON.
+ */
+interface StoredApprovalPolicy {
+  threshold: string;
+  approvers: string[];
+}
+
+/**
+ * Formato de uma transferência pendente no arquivo JSON.
+ */
+interface StoredPendingTransfer {
+  id: string;
+  destId: string;
+  amount: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Formato dos limites de uma conta no arquivo JSON (valores com duas casas
+ * decimais; limites ausentes não restringem a operação).
+ */
+interface StoredLimits {
+  overdraft?: string;
+  withdrawPerTransaction?: string;
+  withdrawDaily?: string;
+  transferPerTransaction?: string;
+  transferDaily?: string;
+}
+
+/**
+ * Formato de uma transferência agendada no arquivo JSON.
+ */
+interface StoredScheduledTransfer {
+  id: string;
+  sourceId: string;
+  destId: string;
+  amount: string;
+  recurrence: Recurrence;
+  firstRun: string;
+  nextRun: string;
+  status: ScheduledTransferStatus;
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Formato de um lançamento no livro-razão (o mesmo de Transaction em JSON).
+ */
+interface StoredTransaction {
+  id: string;
+  accountId: string;
+  timestamp: string;
+  type: TransactionType;
+  amount: string | number;
+  counterparty: string;
+  balance: string | number;
+  reason?: string;
+}
+
+/**
+ * Linha do journal: uma gravação completa. Journals antigos trazem apenas a
+ * lista de contas.
+ */
+interface JournalEntry {
+  accounts: StoredAccount[];
+  transactions: StoredTransaction[];
+  idempotency?: IdempotencyRecord;
+  schedules?: StoredScheduledTransfer[];
+}
+
+export class JsonAccountRepository implements AccountRepository {
+  private accounts: Map<string, StoredAccount> = new Map();
+  private transactions: Map<string, Transaction[]> = new Map();
+  private transactionIds: Set<string> = new Set();
+  private dailyTotals: Map<string, Money> = new Map();
+  private counterparties: Set<string> = new Set();
+  private idempotency: Map<string, IdempotencyRecord> = new Map();
+  private schedules: Map<string, StoredScheduledTransfer> = new Map();
+  private readonly tempPath: string;
+  private readonly journalPath: string;
+  private readonly idempotencyPath: string;
+  private readonly schedulesPath: string;
+
+  /**
+   * Construtor:
+   * - Define os caminhos do arquivo temporário, do journal, do livro-razão,
+   *   dos registros de idempotência e das transferências agendadas.
+   * - Carrega os arquivos (se existirem) e executa a recuperação de gravações
+   *   interrompidas.
+   *
+   * @param filePath   Caminho do arquivo JSON de contas
+   * @param ledgerPath Caminho do livro-razão (padrão: defaultLedgerPath)
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly ledgerPath: string = defaultLedgerPath(filePath)
+  ) {
+    this.tempPath = `${filePath}.tmp`;
+    this.journalPath = `${filePath}.journal`;
+    const baseName = filePath.replace(/\.json$/, "");
+    this.idempotencyPath = `${baseName}.idempotency.json`;
+    this.schedulesPath = `${baseName}.schedules.json`;
+    this.loadLedgerFile();
+    this.loadIdempotencyFile();
+    this.loadSchedulesFile();
+    this.recover();
+  }
+
+  /**
+   * Carrega todas as contas do arquivo em memória.
+   * @returns Contas gravadas
+   */
+  public loadAll(): Account[] {
+    return [...this.accounts.values()].map(
+      (stored) =>
+        new Account(
+          stored.id,
+          Money.fromJSON(stored.balance),
+          stored.salt,
+          stored.passwordHash,
+          stored.status ?? "ACTIVE",
+          stored.ownerName,
+          fromStoredLimits(stored.limits),
+          stored.currency ?? DEFAULT_CURRENCY,
+          stored.approval &&
+            new ApprovalPolicy(
+              Money.fromJSON(stored.approval.threshold),
+              stored.approval.approvers
+            ),
+          (stored.pendingTransfers ?? []).map(
+            (pending) =>
+              new PendingTransfer(
+                pending.id,
+                stored.id,
+                pending.destId,
+                Money.fromJSON(pending.amount),
+                pending.createdAt,
+                pending.expiresAt
+              )
+          ),
+          stored.frozenBy
+        )
+    );
+  }
+
+  /**
+   * Grava as contas informadas e seus registros relacionados: registra no
+   * journal, acrescenta os lançamentos ao livro-razão, reescreve de forma
+   * atômica os arquivos alterados (contas, idempotência e agendamentos; apenas
+   * os que a gravação alterou, mas cada um por inteiro, como descrito no
+   * cabeçalho) e, por fim, limpa o journal.
+   *
+   * Se alguma etapa falhar, o estado em memória, o livro-razão e o journal são
+   * restaurados, para que a gravação rejeitada não seja reaplicada na próxima
+   * recuperação.
+   *
+   * @param accounts Contas novas ou alteradas
+   * @param related  Registros gravados junto com as contas
+   */
+  public save(accounts: Account[], related: RelatedRecords = {}): void {
+    const transactions = related.transactions ?? [];
+    const entry: JournalEntry = {
+      accounts: accounts.map(toStored),
+      transactions: transactions.map(toStoredTransaction),
+      idempotency: related.idempotency,
+      schedules: related.schedules?.map(toStoredSchedule),
+    };
+    const previousAccounts = new Map(this.accounts);
+    const previousIdempotency = new Map(this.idempotency);
+    const previousSchedules = new Map(this.schedules);
+    const journalSize = fileSize(this.journalPath);
+    const ledgerSize = fileSize(this.ledgerPath);
+
+    this.appendJournal(entry);
+    try {
+      appendLines(this.ledgerPath, entry.transactions);
+      this.apply(entry);
+      this.writeFiles(entry);
+    } catch (err) {
+      this.accounts = previousAccounts;
+      this.idempotency = previousIdempotency;
+      this.schedules = previousSchedules;
+      truncateFile(this.ledgerPath, ledgerSize);
+      try {
+        // Desfaz os arquivos que chegaram a ser reescritos
+        this.writeFiles(entry);
+      } catch {
+        // Mesma falha da gravação: os arquivos não foram alterados
+      }
+      fs.truncateSync(this.journalPath, journalSize);
+      throw err;
+    }
+    for (const transaction of transactions) {
+      this.index(transaction);
+    }
+    fs.rmSync(this.journalPath, { force: true });
+  }
+
+  /**
+   * Consulta os lançamentos da conta no índice em memória.
+   * @param accountId Conta dos lançamentos
+   * @param query     Período e intervalo desejados
+   * @returns Lançamentos do intervalo e total do período
+   */
+  public loadTransactions(
+    accountId: string,
+    query: TransactionQuery
+  ): TransactionPage {
+    // Timestamps ISO em UTC podem ser comparados lexicograficamente
+    const matching = (this.transactions.get(accountId) ?? []).filter(
+      (entry) =>
+        (!query.from || entry.timestamp >= query.from) &&
+        (!query.to || entry.timestamp <= query.to)
+    );
+    return {
+      entries: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+    };
+  }
+
+  /**
+   * Retorna o total diário do índice em memória.
+   * @param accountId Conta dos lançamentos
+   * @param type      Tipo do lançamento
+   * @param day       Dia de referência (YYYY-MM-DD, em UTC)
+   * @returns Soma dos valores
+   */
+  public dailyTotal(
+    accountId: string,
+    type: TransactionType,
+    day: string
+  ): Money {
+    return this.dailyTotals.get(`${accountId}:${type}:${day}`) ?? Money.ZERO;
+  }
+
+  /**
+   * Consulta o índice de contrapartidas em memória.
+   * @param accountId    Conta dos lançamentos
+   * @param type         Tipo do lançamento
+   * @param counterparty Conta de contrapartida
+   * @returns true se houver ao menos um lançamento
+   */
+  public hasCounterparty(
+    accountId: string,
+    type: TransactionType,
+    counterparty: string
+  ): boolean {
+    return this.counterparties.has(`${accountId}:${type}:${counterparty}`);
+  }
+
+  /**
+   * Busca um registro de idempotência carregado.
+   * @param key Chave do registro
+   * @returns Registro gravado, se existir
+   */
+  public findIdempotencyRecord(key: string): IdempotencyRecord | undefined {
+    return this.idempotency.get(key);
+  }
+
+  /**
+   * Remove os registros expirados e reescreve o arquivo de registros (apenas
+   * se algum tiver sido removido).
+   * @param now Instante de referência em ISO 8601
+   */
+  public deleteExpiredIdempotencyRecords(now: string): void {
+    // Datas ISO em UTC podem ser comparadas lexicograficamente
+    const expired = [...this.idempotency.values()].filter(
+      (record) => record.expiresAt <= now
+    );
+    if (expired.length === 0) {
+      return;
+    }
+    for (const record of expired) {
+      this.idempotency.delete(record.key);
+    }
+    this.writeIdempotencyFile();
+  }
+
+  /**
+   * Retorna as transferências agendadas carregadas.
+   * @returns Agendamentos gravados
+   */
+  public loadScheduledTransfers(): ScheduledTransfer[] {
+    return [...this.schedules.values()].map(
+      (stored) =>
+        new ScheduledTransfer(
+          stored.id,
+          stored.sourceId,
+          stored.destId,
+          Money.fromJSON(stored.amount),
+          stored.recurrence,
+          stored.firstRun,
+          stored.nextRun,
+          stored.status,
+          stored.lastRunAt,
+          stored.lastError
+        )
+    );
+  }
+
+  /**
+   * Grava uma transferência agendada e reescreve o arquivo de agendamentos.
+   * @param transfer Agendamento a ser gravado
+   */
+  public saveScheduledTransfer(transfer: ScheduledTransfer): void {
+    this.schedules.set(transfer.id, toStoredSchedule(transfer));
+    this.writeSchedulesFile();
+  }
+
+  /**
+   * Verifica se o diretório de dados permite gravação e se o arquivo de
+   * contas (quando existir) pode ser lido e gravado.
+   * @throws Error se o acesso for negado
+   */
+  public checkHealth(): void {
+    fs.accessSync(path.dirname(this.filePath), fs.constants.W_OK);
+    if (fs.existsSync(this.filePath)) {
+      fs.accessSync(this.filePath, fs.constants.R_OK | fs.constants.W_OK);
+    }
+  }
+
+  /**
+   * Recupera o estado após uma possível queda:
+   * 1. Remove um arquivo temporário órfão (gravação não concluída).
+   * 2. Carrega o arquivo principal, se existir.
+   * 3. Reaplica as entradas completas do journal: acrescenta ao livro-razão
+   *    os lançamentos ainda ausentes e regrava os arquivos de contas,
+   *    idempotência e agendamentos (carregados antes da recuperação).
+   */
+  private recover() {
+    fs.rmSync(this.tempPath, { force: true });
+
+    if (fs.existsSync(this.filePath)) {
+      const raw = fs.readFileSync(this.filePath, { encoding: "utf8" });
+      const obj = JSON.parse(raw) as Record<string, StoredAccount>;
+      for (const key of Object.keys(obj)) {
+        this.accounts.set(key, obj[key]);
+      }
+    }
+
+    if (!fs.existsSync(this.journalPath)) {
+      return;
+    }
+    const lines = fs
+      .readFileSync(this.journalPath, { encoding: "utf8" })
+      .split("\n");
+    let replayed = 0;
+    for (const line of lines) {
+      let entry: JournalEntry;
+      try {
+        const parsed = JSON.parse(line) as JournalEntry | StoredAccount[];
+        entry = Array.isArray(parsed)
+          ? { accounts: parsed, transactions: [] }
+          : parsed;
+      } catch {
+        // Linha vazia ou interrompida no meio da escrita: ignorada
+        continue;
+      }
+      const missing = entry.transactions.filter(
+        (stored) => !this.transactionIds.has(stored.id)
+      );
+      appendLines(this.ledgerPath, missing);
+      for (const stored of missing) {
+        this.index(fromStoredTransaction(stored));
+      }
+      this.apply(entry);
+      replayed++;
+    }
+    if (replayed > 0) {
+      this.writeAtomically();
+      this.writeIdempotencyFile();
+      this.writeSchedulesFile();
+    }
+    fs.rmSync(this.journalPath, { force: true });
+  }
+
+  /**
+   * Carrega o livro-razão, se existir, descartando uma última linha
+   * incompleta (escrita interrompida por uma queda).
+   */
+  private loadLedgerFile() {
+    if (!fs.existsSync(this.ledgerPath)) {
+      return;
+    }
+    let raw = fs.readFileSync(this.ledgerPath, { encoding: "utf8" });
+    if (raw.length > 0 && !raw.endsWith("\n")) {
+      raw = raw.slice(0, raw.lastIndexOf("\n") + 1);
+      fs.truncateSync(this.ledgerPath, Buffer.byteLength(raw));
+    }
+    for (const line of raw.split("\n")) {
+      if (line.trim().length > 0) {
+        this.index(fromStoredTransaction(JSON.parse(line)));
+      }
+    }
+  }
+
+  /**
+   * Acrescenta um lançamento gravado aos índices em memória (por conta, por
+   * dia e por contrapartida).
+   */
+  private index(transaction: Transaction) {
+    const { accountId, type } = transaction;
+    const entries = this.transactions.get(accountId) ?? [];
+    entries.push(transaction);
+    this.transactions.set(accountId, entries);
+    this.transactionIds.add(transaction.id);
+    const day = `${accountId}:${type}:${transaction.timestamp.slice(0, 10)}`;
+    this.dailyTotals.set(
+      day,
+      (this.dailyTotals.get(day) ?? Money.ZERO).plus(transaction.amount)
+    );
+    this.counterparties.add(`${accountId}:${type}:${transaction.counterparty}`);
+  }
+
+  /**
+   * Carrega o arquivo de registros de idempotência, se existir.
+   */
+  private loadIdempotencyFile() {
+    fs.rmSync(`${this.idempotencyPath}.tmp`, { force: true });
+    if (!fs.existsSync(this.idempotencyPath)) {
+      return;
+    }
+    const raw = fs.readFileSync(this.idempotencyPath, { encoding: "utf8" });
+    for (const record of JSON.parse(raw) as IdempotencyRecord[]) {
+      this.idempotency.set(record.key, record);
+    }
+  }
+
+  /**
+   * Carrega o arquivo de transferências agendadas, se existir.
+   */
+  private loadSchedulesFile() {
+    fs.rmSync(`${this.schedulesPath}.tmp`, { force: true });
+    if (!fs.existsSync(this.schedulesPath)) {
+      return;
+    }
+    const raw = fs.readFileSync(this.schedulesPath, { encoding: "utf8" });
+    for (const stored of JSON.parse(raw) as StoredScheduledTransfer[]) {
+      this.schedules.set(stored.id, stored);
+    }
+  }
+
+  /**
+   * Aplica em memória as contas, o registro de idempotência e os agendamentos
+   * de uma gravação.
+   */
+  private apply(entry: JournalEntry) {
+    for (const record of entry.accounts) {
+      this.accounts.set(record.id, record);
+    }
+    if (entry.idempotency) {
+      this.idempotency.set(entry.idempotency.key, entry.idempotency);
+    }
+    for (const stored of entry.schedules ?? []) {
+      this.schedules.set(stored.id, stored);
+    }
+  }
+
+  /**
+   * Reescreve atomicamente os arquivos alterados por uma gravação.
+   */
+  private writeFiles(entry: JournalEntry) {
+    if (entry.accounts.length > 0) {
+      this.writeAtomically();
+    }
+    if (entry.idempotency) {
+      this.writeIdempotencyFile();
+    }
+    if (entry.schedules && entry.schedules.length > 0) {
+      this.writeSchedulesFile();
+    }
+  }
+
+  /**
+   * Reescreve atomicamente o arquivo de transferências agendadas.
+   */
+  private writeSchedulesFile() {
+    writeFileAtomically(
+      this.schedulesPath,
+      JSON.stringify([...this.schedules.values()], null, 2)
+    );
+  }
+
+  /**
+   * Reescreve atomicamente o arquivo de registros de idempotência.
+   */
+  private writeIdempotencyFile() {
+    writeFileAtomically(
+      this.idempotencyPath,
+      JSON.stringify([...this.idempotency.values()], null, 2)
+    );
+  }
+
+  /**
+   * Acrescenta uma gravação ao journal e força sua escrita em disco.
+   * @param entry Contas e lançamentos da gravação
+   */
+  private appendJournal(entry: JournalEntry) {
+    appendLines(this.journalPath, [entry]);
+  }
+
+  /**
+   * Reescreve atomicamente o arquivo principal com todas as contas.
+   */
+  private writeAtomically() {
+    const obj: Record<string, StoredAccount> = {};
+    for (const [key, account] of this.accounts.entries()) {
+      obj[key] = account;
+    }
+    writeFileAtomically(this.filePath, JSON.stringify(obj, null, 2));
+  }
+}
+
+/**
+ * Escreve o conteúdo em "<arquivo>.tmp", sincroniza com o disco e o renomeia
+ * sobre o arquivo de destino.
+ */
+function writeFileAtomically(filePath: string, content: string) {
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, "w");
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+  syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Acrescenta um JSON por linha ao arquivo e força sua escrita em disco (nada
+ * é feito se não houver linhas).
+ */
+function appendLines(filePath: string, items: object[]) {
+  if (items.length === 0) {
+    return;
+  }
+  const fd = fs.openSync(filePath, "a");
+  try {
+    fs.writeSync(fd, items.map((item) => JSON.stringify(item) + "\n").join(""));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Tamanho atual do arquivo (zero se não existir).
+ */
+function fileSize(filePath: string): number {
+  return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+}
+
+/**
+ * Restaura o tamanho anterior do arquivo, descartando o que foi acrescentado
+ * (nada é feito se o arquivo não existir).
+ */
+function truncateFile(filePath: string, size: number) {
+  if (fs.existsSync(filePath)) {
+    fs.truncateSync(filePath, size);
+  }
+}
+
+/**
+ * Converte uma conta para o formato gravado no arquivo JSON.
+ */
+function toStored(account: Account): StoredAccount {
+  return {
+    id: account.id,
+    balance: account.balance.toString(),
+    salt: account.salt,
+    passwordHash: account.passwordHash,
+    status: account.status,
+    ownerName: account.ownerName,
+    limits: {
+      overdraft: account.limits.overdraft.toString(),
+      withdrawPerTransaction: account.limits.withdrawPerTransaction?.toString(),
+      withdrawDaily: account.limits.withdrawDaily?.toString(),
+      transferPerTransaction: account.limits.transferPerTransaction?.toString(),
+      transferDaily: account.limits.transferDaily?.toString(),
+    },
+    currency: account.currency,
+    approval: account.approval && {
+      threshold: account.approval.threshold.toString(),
+      approvers: account.approval.approvers,
+    },
+    pendingTransfers: account.pendingTransfers.map((pending) => ({
+      id: pending.id,
+      destId: pending.destId,
+      amount: pending.amount.toString(),
+      createdAt: pending.createdAt,
+      expiresAt: pending.expiresAt,
+    })),
+    frozenBy: account.frozenBy,
+  };
+}
+
+/**
+ * Converte uma transferência agendada para o formato gravado no arquivo JSON.
+ */
+function toStoredSchedule(
+  transfer: ScheduledTransfer
+): StoredScheduledTransfer {
+  return {
+    id: transfer.id,
+    sourceId: transfer.sourceId,
+    destId: transfer.destId,
+    amount: transfer.amount.toString(),
+    recurrence: transfer.recurrence,
+    firstRun: transfer.firstRun,
+    nextRun: transfer.nextRun,
+    status: transfer.status,
+    lastRunAt: transfer.lastRunAt,
+    lastError: transfer.lastError,
+  };
+}
+
+/**
+ * Converte um lançamento para o formato gravado no livro-razão.
+ */
+function toStoredTransaction(transaction: Transaction): StoredTransaction {
+  return {
+    id: transaction.id,
+    accountId: transaction.accountId,
+    timestamp: transaction.timestamp,
+    type: transaction.type,
+    amount: transaction.amount.toString(),
+    counterparty: transaction.counterparty,
+    balance: transaction.balance.toString(),
+    reason: transaction.reason,
+  };
+}
+
+/**
+ * Converte um lançamento gravado no livro-razão em Transaction.
+ */
+function fromStoredTransaction(stored: StoredTransaction): Transaction {
+  return new Transaction(
+    stored.id,
+    stored.accountId,
+    stored.timestamp,
+    stored.type,
+    Money.fromJSON(stored.amount),
+    stored.counterparty,
+    Money.fromJSON(stored.balance),
+    stored.reason
+  );
+}
+
+/**
+ * Converte os limites gravados no arquivo JSON em AccountLimits.
+ */
+function fromStoredLimits(stored: StoredLimits | undefined): AccountLimits {
+  if (!stored) {
+    return AccountLimits.NONE;
+  }
+  const parse = (value?: string) =>
+    value === undefined ? undefined : Money.fromJSON(value);
+  return new AccountLimits(
+    parse(stored.overdraft),
+    parse(stored.withdrawPerTransaction),
+    parse(stored.withdrawDaily),
+    parse(stored.transferPerTransaction),
+    parse(stored.transferDaily)
+  );
+}
+
+/**
+ * Sincroniza o diretório com o disco para tornar a renomeação durável.
+ * Em plataformas que não permitem abrir diretórios (p. ex. Windows), ignora.
+ */
+function syncDirectory(dir: string) {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(dir, "r");
+    fs.fsyncSync(fd);
+  } catch {
+    // Sincronização de diretório não suportada nesta plataforma
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+}
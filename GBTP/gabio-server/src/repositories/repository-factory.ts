@@ -0,0 +1,56 @@
+/**
+ * Criação do AccountRepository a partir da configuração do servidor.
+ *
+ * - backend: "json" (padrão) ou "sqlite".
+ * - filePath: caminho do arquivo de dados. Padrão: accounts.json (json) ou
+ *   accounts.db (sqlite) na raiz do gabio-server.
+ * - ledgerPath: livro-razão em arquivo. Padrão: ledger.jsonl no diretório do
+ *   arquivo de dados (defaultLedgerPath). No backend sqlite os lançamentos
+ *   ficam no banco e o arquivo só é importado uma vez, se existir.
+ */
+import * as path from "path";
+import { AccountRepository } from "./account-repository";
+import {
+  defaultLedgerPath,
+  JsonAccountRepository,
+} from "./json-account-repository";
+import { SqliteAccountRepository } from "./sqlite-account-repository";
+
+/**
+ * Backends de armazenamento suportados.
+ */
+export const STORAGE_BACKENDS = ["json", "sqlite"] as const;
+
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+/**
+ * Cria o repositório de contas do backend informado.
+ * @param backend  - Backend de armazenamento
+ * @param filePath - Caminho do arquivo de dados (opcional)
+ * @param ledgerPath - Caminho do livro-razão em arquivo (opcional)
+ * @returns Instância de AccountRepository
+ */
+export function createAccountRepository(
+  backend: StorageBackend = "json",
+  filePath?: string,
+  ledgerPath?: string
+): AccountRepository {
+  const root = path.resolve(__dirname, "../..");
+
+  switch (backend) {
+    case "json": {
+      const dataPath = filePath ?? path.join(root, "accounts.json");
+      return new JsonAccountRepository(
+        dataPath,
+        ledgerPath ?? defaultLedgerPath(dataPath)
+      );
+    }
+    case "sqlite": {
+      const dataPath = filePath ?? path.join(root, "accounts.db");
+      return new SqliteAccountRepository(
+        dataPath,
+        ledgerPath ?? defaultLedgerPath(dataPath)
+      );
+    }
+  }
+}
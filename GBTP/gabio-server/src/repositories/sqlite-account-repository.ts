@@ -0,0 +1,662 @@
+/**
+ * SqliteAccountRepository
+ *
+ * Persistência de contas em um banco SQLite embarcado (better-sqlite3).
+ *
+ * - Saldos são gravados em centavos (INTEGER) e lidos como bigint, sem perda
+ *   de precisão.
+ * - Cada save() é executado em uma única transação SQL, que também insere os
+ *   lançamentos do livro-razão (tabela ledger_entries, indexada por conta e
+ *   data e por conta e contrapartida).
+ * - O banco usa journal WAL com synchronous=FULL, garantindo que transações
+ *   confirmadas sobrevivam a quedas do processo ou do sistema.
+ * - Registros de idempotência ficam na tabela idempotency_keys e as
+ *   transferências agendadas, na tabela scheduled_transfers; quando fazem
+ *   parte de um save(), são gravados na mesma transação das contas.
+ * - Transferências pendentes de aprovação ficam na tabela pending_transfers e
+ *   são regravadas na mesma transação que a conta de origem.
+ */
+import * as fs from "fs";
+import Database from "better-sqlite3";
+import { Account, AccountStatus, FreezeOrigin } from "../models/account";
+import { Money } from "../models/money";
+import { AccountLimits } from "../models/account-limits";
+import { ApprovalPolicy } from "../models/approval-policy";
+import { PendingTransfer } from "../models/pending-transfer";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { Transaction, TransactionType } from "../models/transaction";
+import {
+  Recurrence,
+  ScheduledTransfer,
+  ScheduledTransferStatus,
+} from "../models/scheduled-transfer";
+import {
+  AccountRepository,
+  RelatedRecords,
+  TransactionPage,
+  TransactionQuery,
+} from "./account-repository";
+
+/**
+ * Linha da tabela accounts.
+ */
+interface AccountRow {
+  id: string;
+  balance_cents: bigint;
+  salt: string | null;
+  password_hash: string | null;
+  status: AccountStatus;
+  frozen_by: FreezeOrigin | null;
+  owner_name: string | null;
+  overdraft_cents: bigint;
+  withdraw_limit_cents: bigint | null;
+  withdraw_daily_limit_cents: bigint | null;
+  transfer_limit_cents: bigint | null;
+  transfer_daily_limit_cents: bigint | null;
+  currency: string;
+  approval_threshold_cents: bigint | null;
+  approvers: string | null;
+}
+
+/**
+ * Linha da tabela pending_transfers.
+ */
+interface PendingTransferRow {
+  id: string;
+  source_id: string;
+  dest_id: string;
+  amount_cents: bigint;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Linha da tabela ledger_entries.
+ */
+interface LedgerEntryRow {
+  id: string;
+  account_id: string;
+  timestamp: string;
+  type: TransactionType;
+  amount_cents: bigint;
+  counterparty: string;
+  balance_cents: bigint;
+  reason: string | null;
+}
+
+/**
+ * Linha da tabela idempotency_keys.
+ */
+interface IdempotencyRow {
+  key: string;
+  fingerprint: string;
+  response: string;
+  expires_at: string;
+}
+
+/**
+ * Linha da tabela scheduled_transfers.
+ */
+interface ScheduledTransferRow {
+  id: string;
+  source_id: string;
+  dest_id: string;
+  amount_cents: bigint;
+  recurrence: Recurrence;
+  first_run: string;
+  next_run: string;
+  status: ScheduledTransferStatus;
+  last_run_at: string | null;
+  last_error: string | null;
+}
+
+export class SqliteAccountRepository implements AccountRepository {
+  private db: Database.Database;
+
+  /**
+   * Construtor:
+   * - Abre (ou cria) o banco no caminho informado.
+   * - Configura WAL/synchronous e cria as tabelas accounts, ledger_entries,
+   *   idempotency_keys, scheduled_transfers e pending_transfers se necessário.
+   * - Com a tabela ledger_entries vazia, importa o livro-razão em arquivo
+   *   (ledger.jsonl) de versões anteriores, se existir.
+   *
+   * @param filePath         Caminho do arquivo do banco SQLite
+   * @param legacyLedgerPath Caminho do livro-razão em arquivo a importar (opcional)
+   */
+  constructor(filePath: string, legacyLedgerPath?: string) {
+    this.db = new Database(filePath);
+    this.db.defaultSafeIntegers(true);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("synchronous = FULL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        balance_cents INTEGER NOT NULL,
+        salt TEXT,
+        password_hash TEXT,
+        status TEXT NOT NULL DEFAULT 'ACTIVE',
+        frozen_by TEXT,
+        owner_name TEXT,
+        overdraft_cents INTEGER NOT NULL DEFAULT 0,
+        withdraw_limit_cents INTEGER,
+        withdraw_daily_limit_cents INTEGER,
+        transfer_limit_cents INTEGER,
+        transfer_daily_limit_cents INTEGER,
+        currency TEXT NOT NULL DEFAULT 'BRL',
+        approval_threshold_cents INTEGER,
+        approvers TEXT
+      );
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        id TEXT PRIMARY KEY,
+        account_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        type TEXT NOT NULL,
+        amount_cents INTEGER NOT NULL,
+        counterparty TEXT NOT NULL,
+        balance_cents INTEGER NOT NULL,
+        reason TEXT
+      );
+      CREATE INDEX IF NOT EXISTS ledger_entries_account_time
+        ON ledger_entries (account_id, timestamp);
+      CREATE INDEX IF NOT EXISTS ledger_entries_account_counterparty
+        ON ledger_entries (account_id, counterparty);
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        response TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at
+        ON idempotency_keys (expires_at);
+      CREATE TABLE IF NOT EXISTS scheduled_transfers (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL,
+        dest_id TEXT NOT NULL,
+        amount_cents INTEGER NOT NULL,
+        recurrence TEXT NOT NULL,
+        first_run TEXT NOT NULL,
+        next_run TEXT NOT NULL,
+        status TEXT NOT NULL,
+        last_run_at TEXT,
+        last_error TEXT
+      );
+      CREATE TABLE IF NOT EXISTS pending_transfers (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL,
+        dest_id TEXT NOT NULL,
+        amount_cents INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+    `);
+    this.migrate();
+    if (legacyLedgerPath) {
+      this.importLedger(legacyLedgerPath);
+    }
+  }
+
+  /**
+   * Importa, em uma única transação, os lançamentos de um livro-razão em
+   * arquivo (um JSON por linha). Só é feito enquanto a tabela ledger_entries
+   * estiver vazia, ou seja, uma única vez.
+   * @param ledgerPath Caminho do livro-razão em arquivo
+   */
+  private importLedger(ledgerPath: string) {
+    const existing = this.db
+      .prepare("SELECT 1 FROM ledger_entries LIMIT 1")
+      .get();
+    if (existing || !fs.existsSync(ledgerPath)) {
+      return;
+    }
+    const transactions = fs
+      .readFileSync(ledgerPath, { encoding: "utf8" })
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const stored = JSON.parse(line);
+        return new Transaction(
+          stored.id,
+          stored.accountId,
+          stored.timestamp,
+          stored.type,
+          Money.fromJSON(stored.amount),
+          stored.counterparty,
+          Money.fromJSON(stored.balance),
+          stored.reason
+        );
+      });
+    this.save([], { transactions });
+  }
+
+  /**
+   * Acrescenta à tabela accounts as colunas criadas depois da primeira versão
+   * do banco (status, owner_name, colunas de limites, currency, colunas da
+   * política de aprovação e frozen_by), preservando
+   * os dados existentes.
+   */
+  private migrate() {
+    const columns = (
+      this.db.prepare("PRAGMA table_info(accounts)").all() as Array<{
+        name: string;
+      }>
+    ).map((column) => column.name);
+    if (!columns.includes("status")) {
+      this.db.exec(
+        "ALTER TABLE accounts ADD COLUMN status TEXT NOT NULL DEFAULT 'ACTIVE'"
+      );
+    }
+    if (!columns.includes("owner_name")) {
+      this.db.exec("ALTER TABLE accounts ADD COLUMN owner_name TEXT");
+    }
+    if (!columns.includes("overdraft_cents")) {
+      this.db.exec(`
+        ALTER TABLE accounts ADD COLUMN overdraft_cents INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE accounts ADD COLUMN withdraw_limit_cents INTEGER;
+        ALTER TABLE accounts ADD COLUMN withdraw_daily_limit_cents INTEGER;
+        ALTER TABLE accounts ADD COLUMN transfer_limit_cents INTEGER;
+        ALTER TABLE accounts ADD COLUMN transfer_daily_limit_cents INTEGER;
+      `);
+    }
+    if (!columns.includes("currency")) {
+      this.db.exec(
+        "ALTER TABLE accounts ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL'"
+      );
+    }
+    if (!columns.includes("approval_threshold_cents")) {
+      this.db.exec(`
+        ALTER TABLE accounts ADD COLUMN approval_threshold_cents INTEGER;
+        ALTER TABLE accounts ADD COLUMN approvers TEXT;
+      `);
+    }
+    if (!columns.includes("frozen_by")) {
+      this.db.exec("ALTER TABLE accounts ADD COLUMN frozen_by TEXT");
+    }
+  }
+
+  /**
+   * Carrega todas as contas da tabela accounts, com suas transferências
+   * pendentes.
+   * @returns Contas gravadas
+   */
+  public loadAll(): Account[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, balance_cents, salt, password_hash, status, frozen_by,
+          owner_name, overdraft_cents, withdraw_limit_cents, withdraw_daily_limit_cents,
+          transfer_limit_cents, transfer_daily_limit_cents, currency,
+          approval_threshold_cents, approvers
+        FROM accounts`
+      )
+      .all() as AccountRow[];
+    const pendingRows = this.db
+      .prepare(
+        `SELECT id, source_id, dest_id, amount_cents, created_at, expires_at
+         FROM pending_transfers ORDER BY created_at, id`
+      )
+      .all() as PendingTransferRow[];
+    const pendingBySource = new Map<string, PendingTransfer[]>();
+    for (const row of pendingRows) {
+      const list = pendingBySource.get(row.source_id) ?? [];
+      list.push(
+        new PendingTransfer(
+          row.id,
+          row.source_id,
+          row.dest_id,
+          Money.fromCents(row.amount_cents),
+          row.created_at,
+          row.expires_at
+        )
+      );
+      pendingBySource.set(row.source_id, list);
+    }
+    return rows.map(
+      (row) =>
+        new Account(
+          row.id,
+          Money.fromCents(row.balance_cents),
+          row.salt ?? undefined,
+          row.password_hash ?? undefined,
+          row.status,
+          row.owner_name ?? undefined,
+          new AccountLimits(
+            Money.fromCents(row.overdraft_cents),
+            fromCents(row.withdraw_limit_cents),
+            fromCents(row.withdraw_daily_limit_cents),
+            fromCents(row.transfer_limit_cents),
+            fromCents(row.transfer_daily_limit_cents)
+          ),
+          row.currency,
+          row.approval_threshold_cents === null
+            ? undefined
+            : new ApprovalPolicy(
+                Money.fromCents(row.approval_threshold_cents),
+                row.approvers ? row.approvers.split(",") : []
+              ),
+          pendingBySource.get(row.id) ?? [],
+          row.frozen_by ?? undefined
+        )
+    );
+  }
+
+  /**
+   * Insere ou substitui as contas informadas (e regrava suas transferências
+   * pendentes), insere seus lançamentos e grava o registro de idempotência e
+   * os agendamentos em uma única transação.
+   * @param accounts Contas novas ou alteradas
+   * @param related  Registros gravados junto com as contas
+   */
+  public save(accounts: Account[], related: RelatedRecords = {}): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO accounts
+        (id, balance_cents, salt, password_hash, status, frozen_by, owner_name,
+         overdraft_cents, withdraw_limit_cents, withdraw_daily_limit_cents,
+         transfer_limit_cents, transfer_daily_limit_cents, currency,
+         approval_threshold_cents, approvers)
+      VALUES
+        (@id, @balance_cents, @salt, @password_hash, @status, @frozen_by,
+         @owner_name, @overdraft_cents, @withdraw_limit_cents,
+         @withdraw_daily_limit_cents,
+         @transfer_limit_cents, @transfer_daily_limit_cents, @currency,
+         @approval_threshold_cents, @approvers)
+      ON CONFLICT(id) DO UPDATE SET
+        balance_cents = excluded.balance_cents,
+        salt = excluded.salt,
+        password_hash = excluded.password_hash,
+        status = excluded.status,
+        frozen_by = excluded.frozen_by,
+        owner_name = excluded.owner_name,
+        overdraft_cents = excluded.overdraft_cents,
+        withdraw_limit_cents = excluded.withdraw_limit_cents,
+        withdraw_daily_limit_cents = excluded.withdraw_daily_limit_cents,
+        transfer_limit_cents = excluded.transfer_limit_cents,
+        transfer_daily_limit_cents = excluded.transfer_daily_limit_cents,
+        currency = excluded.currency,
+        approval_threshold_cents = excluded.approval_threshold_cents,
+        approvers = excluded.approvers
+    `);
+    const clearPending = this.db.prepare(
+      "DELETE FROM pending_transfers WHERE source_id = ?"
+    );
+    const insertPending = this.db.prepare(
+      `INSERT INTO pending_transfers
+         (id, source_id, dest_id, amount_cents, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    const insertEntry = this.db.prepare(
+      `INSERT INTO ledger_entries
+         (id, account_id, timestamp, type, amount_cents, counterparty,
+          balance_cents, reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const saveAll = this.db.transaction((items: Account[]) => {
+      for (const account of items) {
+        upsert.run({
+          id: account.id,
+          balance_cents: account.balance.toCents(),
+          salt: account.salt ?? null,
+          password_hash: account.passwordHash ?? null,
+          status: account.status,
+          frozen_by: account.frozenBy ?? null,
+          owner_name: account.ownerName ?? null,
+          overdraft_cents: account.limits.overdraft.toCents(),
+          withdraw_limit_cents: toCents(account.limits.withdrawPerTransaction),
+          withdraw_daily_limit_cents: toCents(account.limits.withdrawDaily),
+          transfer_limit_cents: toCents(account.limits.transferPerTransaction),
+          transfer_daily_limit_cents: toCents(account.limits.transferDaily),
+          currency: account.currency,
+          approval_threshold_cents: toCents(account.approval?.threshold),
+          approvers: account.approval?.approvers.join(",") ?? null,
+        });
+        clearPending.run(account.id);
+        for (const pending of account.pendingTransfers) {
+          insertPending.run(
+            pending.id,
+            account.id,
+            pending.destId,
+            pending.amount.toCents(),
+            pending.createdAt,
+            pending.expiresAt
+          );
+        }
+      }
+      for (const entry of related.transactions ?? []) {
+        insertEntry.run(
+          entry.id,
+          entry.accountId,
+          entry.timestamp,
+          entry.type,
+          entry.amount.toCents(),
+          entry.counterparty,
+          entry.balance.toCents(),
+          entry.reason ?? null
+        );
+      }
+      if (related.idempotency) {
+        this.saveIdempotencyRecord(related.idempotency);
+      }
+      for (const transfer of related.schedules ?? []) {
+        this.saveScheduledTransfer(transfer);
+      }
+    });
+    saveAll(accounts);
+  }
+
+  /**
+   * Consulta os lançamentos da conta pelo índice (account_id, timestamp).
+   * @param accountId Conta dos lançamentos
+   * @param query     Período e intervalo desejados
+   * @returns Lançamentos do intervalo e total do período
+   */
+  public loadTransactions(
+    accountId: string,
+    query: TransactionQuery
+  ): TransactionPage {
+    const where = `WHERE account_id = @accountId
+        AND (@from IS NULL OR timestamp >= @from)
+        AND (@to IS NULL OR timestamp <= @to)`;
+    const params = {
+      accountId,
+      from: query.from ?? null,
+      to: query.to ?? null,
+    };
+    const rows = this.db
+      .prepare(
+        `SELECT id, account_id, timestamp, type, amount_cents, counterparty,
+                balance_cents, reason
+         FROM ledger_entries ${where}
+         ORDER BY timestamp, rowid LIMIT @limit OFFSET @offset`
+      )
+      .all({
+        ...params,
+        limit: query.limit,
+        offset: query.offset,
+      }) as LedgerEntryRow[];
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ledger_entries ${where}`)
+      .get(params) as { total: bigint };
+    return {
+      entries: rows.map(
+        (row) =>
+          new Transaction(
+            row.id,
+            row.account_id,
+            row.timestamp,
+            row.type,
+            Money.fromCents(row.amount_cents),
+            row.counterparty,
+            Money.fromCents(row.balance_cents),
+            row.reason ?? undefined
+          )
+      ),
+      total: Number(total),
+    };
+  }
+
+  /**
+   * Soma os lançamentos do dia pelo índice (account_id, timestamp).
+   * @param accountId Conta dos lançamentos
+   * @param type      Tipo do lançamento
+   * @param day       Dia de referência (YYYY-MM-DD, em UTC)
+   * @returns Soma dos valores
+   */
+  public dailyTotal(
+    accountId: string,
+    type: TransactionType,
+    day: string
+  ): Money {
+    const { total } = this.db
+      .prepare(
+        `SELECT COALESCE(SUM(amount_cents), 0) AS total FROM ledger_entries
+         WHERE account_id = ? AND timestamp BETWEEN ? AND ? AND type = ?`
+      )
+      .get(accountId, `${day}T00:00:00.000Z`, `${day}T23:59:59.999Z`, type) as {
+      total: bigint;
+    };
+    return Money.fromCents(total);
+  }
+
+  /**
+   * Consulta o índice (account_id, counterparty).
+   * @param accountId    Conta dos lançamentos
+   * @param type         Tipo do lançamento
+   * @param counterparty Conta de contrapartida
+   * @returns true se houver ao menos um lançamento
+   */
+  public hasCounterparty(
+    accountId: string,
+    type: TransactionType,
+    counterparty: string
+  ): boolean {
+    const row = this.db
+      .prepare(
+        `SELECT 1 FROM ledger_entries
+         WHERE account_id = ? AND counterparty = ? AND type = ? LIMIT 1`
+      )
+      .get(accountId, counterparty, type);
+    return row !== undefined;
+  }
+
+  /**
+   * Busca um registro da tabela idempotency_keys pela chave.
+   * @param key Chave do registro
+   * @returns Registro gravado, se existir
+   */
+  public findIdempotencyRecord(key: string): IdempotencyRecord | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT key, fingerprint, response, expires_at FROM idempotency_keys
+         WHERE key = ?`
+      )
+      .get(key) as IdempotencyRow | undefined;
+    return (
+      row &&
+      new IdempotencyRecord(
+        row.key,
+        row.fingerprint,
+        row.response,
+        row.expires_at
+      )
+    );
+  }
+
+  /**
+   * Remove os registros expirados da tabela idempotency_keys.
+   * @param now Instante de referência em ISO 8601
+   */
+  public deleteExpiredIdempotencyRecords(now: string): void {
+    this.db
+      .prepare("DELETE FROM idempotency_keys WHERE expires_at <= ?")
+      .run(now);
+  }
+
+  /**
+   * Insere ou substitui um registro de idempotência.
+   * @param record Registro a ser gravado
+   */
+  private saveIdempotencyRecord(record: IdempotencyRecord): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO idempotency_keys (key, fingerprint, response, expires_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(record.key, record.fingerprint, record.response, record.expiresAt);
+  }
+
+  /**
+   * Carrega todas as linhas da tabela scheduled_transfers.
+   * @returns Agendamentos gravados
+   */
+  public loadScheduledTransfers(): ScheduledTransfer[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, source_id, dest_id, amount_cents, recurrence, first_run,
+                next_run, status, last_run_at, last_error
+         FROM scheduled_transfers`
+      )
+      .all() as ScheduledTransferRow[];
+    return rows.map(
+      (row) =>
+        new ScheduledTransfer(
+          row.id,
+          row.source_id,
+          row.dest_id,
+          Money.fromCents(row.amount_cents),
+          row.recurrence,
+          row.first_run,
+          row.next_run,
+          row.status,
+          row.last_run_at ?? undefined,
+          row.last_error ?? undefined
+        )
+    );
+  }
+
+  /**
+   * Insere ou substitui uma transferência agendada.
+   * @param transfer Agendamento a ser gravado
+   */
+  public saveScheduledTransfer(transfer: ScheduledTransfer): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO scheduled_transfers
+           (id, source_id, dest_id, amount_cents, recurrence, first_run,
+            next_run, status, last_run_at, last_error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        transfer.id,
+        transfer.sourceId,
+        transfer.destId,
+        transfer.amount.toCents(),
+        transfer.recurrence,
+        transfer.firstRun,
+        transfer.nextRun,
+        transfer.status,
+        transfer.lastRunAt ?? null,
+        transfer.lastError ?? null
+      );
+  }
+
+  /**
+   * Executa uma consulta trivial para verificar se o banco está acessível.
+   * @throws Error se o banco estiver fechado ou inacessível
+   */
+  public checkHealth(): void {
+    this.db.prepare("SELECT 1").get();
+  }
+}
+
+/**
+ * Converte um limite opcional em centavos (NULL quando não definido).
+ */
+function toCents(limit: Money | undefined): bigint | null {
+  return limit === undefined ? null : limit.toCents();
+}
+
+/**
+ * Converte uma coluna de limite opcional em Money.
+ */
+function fromCents(cents: bigint | null): Money | undefined {
+  return cents === null ? undefined : Money.fromCents(cents);
+}
@@ -0,0 +1,246 @@
+/**
+ * Teste de estresse de transferências concorrentes.
+ *
+ * Dispara centenas de transferências em paralelo, em sentidos aleatórios, sobre
+ * uma única instância de BankService (como no servidor, compartilhada por todas
+ * as conexões) e verifica que:
+ * - o total de dinheiro entre as contas é conservado;
+ * - nenhuma conta termina com saldo negativo;
+ * - o armazenamento, relido do zero, contém os mesmos saldos da memória;
+ * - cada transferência concluída gerou exatamente dois lançamentos no ledger;
+ * - um depósito que levaria o saldo acima de Money.MAX é recusado com
+ *   InvalidValueError, sem alterar o saldo.
+ *
+ * Os dados são gravados em um diretório temporário, removido ao final. O
+ * backend de armazenamento segue a configuração do servidor (storage, p. ex.
+ * GBTP_STORAGE=sqlite).
+ *
+ * O processo termina com código 1 se alguma verificação falhar ou se o teste
+ * não terminar dentro do tempo limite, para que possa ser usado como
+ * verificação automática (npm run stress:check).
+ *
+ * Uso: npm run stress [-- <transferências> [<contas> [<tempo limite>]]]
+ * (padrão: 500 transferências entre 10 contas, em até 60 segundos)
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BankService } from "../services/bank-service";
+import { createAccountRepository } from "../repositories/repository-factory";
+import { loadConfig } from "../config/server-config";
+import {
+  InsufficientFundsError,
+  InvalidValueError,
+} from "../errors/gbtp-error";
+import { Money } from "../models/money";
+
+/**
+ * Saldo inicial de cada conta aberta pelo teste.
+ */
+const INITIAL_BALANCE = Money.parse("1000.00");
+
+/**
+ * Valor máximo de cada transferência, em centavos.
+ */
+const MAX_TRANSFER_CENTS = 30000;
+
+/**
+ * Tempo limite padrão do teste, em segundos.
+ */
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+/**
+ * Executa o teste.
+ * @returns true se todas as verificações passaram
+ */
+async function main(): Promise<boolean> {
+  const transfers = Number(process.argv[2] ?? 500);
+  const accountCount = Number(process.argv[3] ?? 10);
+  const timeoutSeconds = Number(process.argv[4] ?? DEFAULT_TIMEOUT_SECONDS);
+  if (!Number.isInteger(transfers) || transfers <= 0) {
+    throw new Error(`Quantidade de transferências inválida: ${transfers}`);
+  }
+  if (!Number.isInteger(accountCount) || accountCount < 2) {
+    throw new Error(`Quantidade de contas inválida: ${accountCount}`);
+  }
+  if (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0) {
+    throw new Error(`Tempo limite inválido: ${timeoutSeconds}`);
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbtp-stress-"));
+  // Uma transferência travada (p. ex. deadlock) nunca conclui o teste: ao fim
+  // do prazo, o processo é encerrado com falha. Um teste apenas lento é
+  // conferido pelo tempo decorrido ao final.
+  const deadline = setTimeout(() => {
+    console.error(
+      `FALHA: teste não concluído em ${timeoutSeconds} s (transferências travadas?)`
+    );
+    fs.rmSync(dir, { recursive: true, force: true });
+    process.exit(1);
+  }, timeoutSeconds * 1000);
+  // Apenas o backend vem da configuração; os arquivos ficam em dir.
+  const backend = loadConfig([]).storage;
+  const storagePath = path.join(
+    dir,
+    backend === "sqlite" ? "accounts.db" : "accounts.json"
+  );
+
+  try {
+    const service = new BankService(
+      createAccountRepository(
+        backend,
+        storagePath,
+        path.join(dir, "ledger.jsonl")
+      )
+    );
+
+    const ids: string[] = [];
+    while (ids.length < accountCount) {
+      ids.push(service.openAccount("Estresse", INITIAL_BALANCE, "1234").id);
+    }
+    const totalBefore = sum(ids.map((id) => service.getBalance(id)));
+    const entriesBefore = countEntries(service, ids);
+
+    let completed = 0;
+    let rejected = 0;
+    const started = Date.now();
+    await Promise.all(
+      Array.from({ length: transfers }, async () => {
+        const [src, dst] = pickPair(ids);
+        const amount = Money.fromCents(
+          BigInt(1 + Math.floor(Math.random() * MAX_TRANSFER_CENTS))
+        );
+        try {
+          await service.transfer(src, dst, amount);
+          completed++;
+        } catch (err) {
+          if (!(err instanceof InsufficientFundsError)) {
+            throw err;
+          }
+          rejected++;
+        }
+      })
+    );
+    const elapsed = Date.now() - started;
+
+    const balances = ids.map((id) => service.getBalance(id));
+    const totalAfter = sum(balances);
+    const stored = new Map(
+      createAccountRepository(
+        backend,
+        storagePath,
+        path.join(dir, "ledger.jsonl")
+      )
+        .loadAll()
+        .map((account) => [account.id, account.balance])
+    );
+
+    const failures: string[] = [];
+    if (totalAfter.compare(totalBefore) !== 0) {
+      failures.push(
+        `total alterado: ${totalBefore.toString()} -> ${totalAfter.toString()}`
+      );
+    }
+    ids.forEach((id, i) => {
+      if (balances[i].isNegative()) {
+        failures.push(`conta ${id} com saldo negativo: ${balances[i]}`);
+      }
+      const persisted = stored.get(id);
+      if (!persisted || persisted.compare(balances[i]) !== 0) {
+        failures.push(
+          `conta ${id}: memória ${balances[i]}, armazenamento ${persisted}`
+        );
+      }
+    });
+    if (elapsed > timeoutSeconds * 1000) {
+      failures.push(`teste concluído em ${elapsed} ms, acima do tempo limite`);
+    }
+    const newEntries = countEntries(service, ids) - entriesBefore;
+    if (newEntries !== completed * 2) {
+      failures.push(
+        `${newEntries} lançamentos para ${completed} transferências concluídas`
+      );
+    }
+    const overflow = await overflowFailure(service, ids[0]);
+    if (overflow) {
+      failures.push(overflow);
+    }
+
+    console.log(
+      `Backend: ${backend} | contas: ${ids.length} | transferências: ${transfers}` +
+        ` (${completed} concluídas, ${rejected} recusadas por saldo) | ${elapsed} ms`
+    );
+    console.log(`Total antes: ${totalBefore} | total depois: ${totalAfter}`);
+    if (failures.length > 0) {
+      console.error("FALHA:\n- " + failures.join("\n- "));
+      return false;
+    }
+    console.log("OK: dinheiro conservado e saldos consistentes.");
+    return true;
+  } finally {
+    clearTimeout(deadline);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Tenta um depósito que levaria o saldo da conta acima de Money.MAX.
+ * @returns descrição da falha, ou undefined se o depósito foi recusado com
+ *          InvalidValueError e o saldo não mudou
+ */
+async function overflowFailure(
+  service: BankService,
+  id: string
+): Promise<string | undefined> {
+  const before = service.getBalance(id);
+  try {
+    await service.deposit(id, Money.MAX);
+    return `depósito acima de Money.MAX aceito na conta ${id}`;
+  } catch (err) {
+    if (!(err instanceof InvalidValueError)) {
+      throw err;
+    }
+  }
+  const after = service.getBalance(id);
+  return after.compare(before) === 0
+    ? undefined
+    : `depósito recusado alterou o saldo da conta ${id}: ${before} -> ${after}`;
+}
+
+/**
+ * Sorteia duas contas distintas (origem e destino).
+ */
+function pickPair(ids: string[]): [string, string] {
+  const src = Math.floor(Math.random() * ids.length);
+  let dst = Math.floor(Math.random() * (ids.length - 1));
+  if (dst >= src) {
+    dst++;
+  }
+  return [ids[src], ids[dst]];
+}
+
+/**
+ * Soma uma lista de quantias.
+ */
+function sum(values: Money[]): Money {
+  return values.reduce((total, value) => total.plus(value), Money.ZERO);
+}
+
+/**
+ * Conta os lançamentos do ledger de todas as contas informadas.
+ */
+function countEntries(service: BankService, ids: string[]): number {
+  return ids.reduce(
+    (total, id) =>
+      total + service.getStatement(id, { page: 1, pageSize: 1 }).totalEntries,
+    0
+  );
+}
+
+main().then(
+  (ok) => process.exit(ok ? 0 : 1),
+  (err) => {
+    console.error("Erro no teste de estresse:", err);
+    process.exit(1);
+  }
+);
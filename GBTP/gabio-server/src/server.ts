@@ -1,31 +1,278 @@
 /**
  * Ponto de entrada do servidor GBTP.
  *
- * Inicializa um WebSocketServer na porta definida, aceita conexões de clientes
- * e delega o tratamento de cada conexão para o WebSocketHandler.
+ * Carrega a configuração (loadConfig: arquivo, variáveis de ambiente e
+ * argumentos de linha de comando) e encerra o processo com código 1, listando
+ * os problemas, se alguma opção ou o arquivo de seed forem inválidos.
+ *
+ * Inicializa os serviços compartilhados (armazenamento, regras de negócio,
+ * idempotência, agendador de transferências, regras antifraude e inscrições
+ * em eventos), um WebSocketServer no endereço e na porta configurados, aceita
+ * conexões de clientes e delega o tratamento de cada conexão para o
+ * WebSocketHandler. O agendador começa a executar as transferências vencidas
+ * quando o servidor fica pronto.
+ *
+ * Com tlsCert e tlsKey configurados, o WebSocket é servido sobre TLS (wss://)
+ * e o certificado é recarregado quando os arquivos mudam. Conexões de IPs fora
+ * das faixas permitidas (ou em faixas negadas) são encerradas antes do
+ * handshake; upgrades de origens fora da lista permitida recebem 403
+ * (AccessPolicy).
+ *
+ * Cada conexão tem limites de tamanho de mensagem, vazão, inatividade e
+ * heartbeat (ConnectionLimits, aplicados pelo WebSocketHandler); a vazão por
+ * conta, a vazão sem autenticação por IP e o número de conexões simultâneas
+ * por IP são compartilhados por todas as conexões. Conexões acima do limite
+ * por IP recebem RATE_LIMITED e são encerradas.
+ *
+ * Se adminToken estiver configurado, também inicia a API administrativa
+ * (AdminServer) em adminPort, sobre o mesmo BankService.
+ *
+ * Também inicia o servidor de monitoramento (MonitoringServer, com /health e
+ * /metrics) em monitoringPort. Os registros do servidor são emitidos pelo
+ * logger estruturado (JSON, nível em logLevel).
  *
  * Eventos:
- *  - "connection": Novo cliente conectado, instancia um handler para processar mensagens.
+ *  - "connection": Novo cliente conectado, instancia um handler para
+ *    processar mensagens.
  *  - "listening": Servidor pronto para receber conexões.
- *  - "error": Exibe erros do servidor WebSocket.
+ *  - "error": Registra erros do servidor WebSocket.
  */
 
+import * as http from "http";
+import * as https from "https";
 import { WebSocketServer } from "ws";
-import { WebSocketHandler } from "./ws/websocket-handler";
+import {
+  ConnectionLimits,
+  WebSocketHandler,
+  refuseConnection,
+} from "./ws/websocket-handler";
+import { SubscriptionRegistry } from "./ws/subscription-registry";
+import { BankController } from "./controllers/bank-controller";
+import { BankService } from "./services/bank-service";
+import { IdempotencyService } from "./services/idempotency-service";
+import { SchedulerService } from "./services/scheduler-service";
+import { FraudService } from "./services/fraud-service";
+import { ApprovalService } from "./services/approval-service";
+import { createAccountRepository } from "./repositories/repository-factory";
+import { GBTPEvent } from "./protocol/gbtp";
+import { selectSubprotocol } from "./protocol/json-codec";
+import { AdminController } from "./controllers/admin-controller";
+import { AdminServer } from "./http/admin-server";
+import { MonitoringServer } from "./http/monitoring-server";
+import { MetricsService } from "./services/metrics-service";
+import { logger } from "./services/logger";
+import { LedgerService } from "./services/ledger-service";
+import { ExchangeRateService } from "./services/exchange-rate-service";
+import {
+  DEFAULT_SEED_FILE,
+  defaultAccountLimits,
+  loadConfig,
+  ServerConfig,
+} from "./config/server-config";
+import { loadSeedAccounts, SeedAccount } from "./config/seed-accounts";
+import { ConfigError } from "./errors/config-error";
+import { AccessPolicy } from "./ws/access-policy";
+import { ConnectionLimiter, RateLimiter } from "./services/rate-limiter";
+import { RateLimitedError } from "./errors/gbtp-error";
+import {
+  CertificateReloader,
+  readCertificates,
+  TlsCredentials,
+} from "./ws/tls-certificates";
+
+// Configuração validada antes da criação de qualquer serviço.
+let config: ServerConfig;
+let seed: SeedAccount[];
+let credentials: TlsCredentials | undefined;
+try {
+  config = loadConfig();
+  seed = loadSeedAccounts(
+    config.seedFile ?? DEFAULT_SEED_FILE,
+    config.seedFile !== undefined
+  );
+  if (config.tlsCert && config.tlsKey) {
+    credentials = readCertificates(config.tlsCert, config.tlsKey);
+  }
+} catch (err) {
+  if (!(err instanceof ConfigError)) {
+    throw err;
+  }
+  logger.error("Configuração inválida", { problems: err.problems });
+  process.exit(1);
+}
+logger.setLevel(config.logLevel);
+
+// Serviços compartilhados por todas as conexões.
+const repository = createAccountRepository(
+  config.storage,
+  config.storagePath,
+  config.ledgerPath
+);
+const service = new BankService(
+  repository,
+  new LedgerService(repository),
+  new ExchangeRateService(config.exchangeRates),
+  seed,
+  defaultAccountLimits(config)
+);
+const fraud = new FraudService(
+  service,
+  repository,
+  config.fraudRules,
+  config.fraudDecisions
+);
+const scheduler = new SchedulerService(
+  service,
+  repository,
+  fraud,
+  config.schedulerInterval
+);
+const approvals = new ApprovalService(
+  service,
+  config.approvalTtl,
+  config.approvalInterval
+);
+const controller = new BankController(
+  service,
+  new IdempotencyService(repository, config.idempotencyTtl),
+  scheduler,
+  fraud,
+  approvals
+);
+const subscriptions = new SubscriptionRegistry();
+const metrics = new MetricsService();
+const limits: ConnectionLimits = {
+  maxMessageSize: config.maxMessageSize,
+  messageRate: config.messageRate,
+  messageBurst: config.messageBurst,
+  accounts: new RateLimiter(config.accountRate, config.accountBurst),
+  addresses: new RateLimiter(config.addressRate, config.addressBurst),
+  heartbeatIntervalMs: config.heartbeatInterval * 1000,
+  idleTimeoutMs: config.idleTimeout * 1000,
+};
+const connections = new ConnectionLimiter(config.maxConnectionsPerIp);
+
+// Toda alteração de saldo é publicada para as conexões inscritas na conta.
+service.onBalanceChange((accountId, balance) => {
+  subscriptions.publish(
+    accountId,
+    new GBTPEvent("BALANCE_CHANGED", accountId, balance.toString())
+  );
+});
 
-const PORT = 8080;
+// Servidor HTTP(S) do WebSocket: requisições HTTP comuns recebem 426.
+const upgradeRequired: http.RequestListener = (_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end(http.STATUS_CODES[426]);
+};
+const server = credentials
+  ? https.createServer(credentials, upgradeRequired)
+  : http.createServer(upgradeRequired);
+if (server instanceof https.Server) {
+  new CertificateReloader(
+    server,
+    config.tlsCert!,
+    config.tlsKey!,
+    config.tlsReloadInterval
+  ).start();
+}
 
-const wss = new WebSocketServer({ port: PORT });
+// IPs não permitidos são desconectados antes do handshake (TLS e WebSocket).
+const access = new AccessPolicy(
+  config.allowedOrigins,
+  config.allowedIps,
+  config.deniedIps
+);
+server.on("connection", (socket) => {
+  if (!access.isAddressAllowed(socket.remoteAddress)) {
+    logger.warn("Conexão recusada: IP não permitido", {
+      address: socket.remoteAddress,
+    });
+    socket.destroy();
+  }
+});
 
-wss.on("connection", (ws) => {
-  console.log("Novo cliente conectado.");
-  new WebSocketHandler(ws);
+// O cliente pode escolher a codificação pelo subprotocolo WebSocket
+// ("gbtp-text" ou "gbtp-json"); sem subprotocolo, ela é detectada na primeira
+// mensagem.
+const wss = new WebSocketServer({
+  server,
+  // Mensagens muito acima do limite são descartadas sem ser lidas (1009); as
+  // demais acima de maxMessageSize recebem MESSAGE_TOO_LARGE.
+  maxPayload: config.maxMessageSize * 2,
+  handleProtocols: selectSubprotocol,
+  verifyClient: ({ origin }, done) => {
+    if (access.isOriginAllowed(origin)) {
+      done(true);
+      return;
+    }
+    logger.warn("Conexão recusada: origem não permitida", { origin });
+    done(false, 403, "Origem não permitida");
+  },
+});
+
+// Indica se o WebSocketServer está aceitando conexões (usado pelo /health).
+let listening = false;
+
+wss.on("connection", (ws, req) => {
+  const address = req.socket.remoteAddress ?? "";
+  if (!connections.acquire(address)) {
+    logger.warn("Conexão recusada: limite de conexões do IP", { address });
+    refuseConnection(
+      ws,
+      new RateLimitedError("Limite de conexões simultâneas excedido")
+    );
+    return;
+  }
+  ws.once("close", () => connections.release(address));
+  new WebSocketHandler(ws, controller, subscriptions, metrics, limits, address);
 });
 
 wss.on("listening", () => {
-  console.log(`Servidor GBTP escutando na porta ${PORT}`);
+  listening = true;
+  logger.info("Servidor GBTP escutando", {
+    host: config.bindAddress,
+    port: config.port,
+    tls: credentials !== undefined,
+  });
+  scheduler.start();
+  approvals.start();
+});
+
+wss.on("close", () => {
+  listening = false;
 });
 
 wss.on("error", (err) => {
-  console.error("Erro no WebSocketServer:", err);
+  logger.error("Erro no WebSocketServer", { error: err });
 });
+
+server.listen(config.port, config.bindAddress);
+
+// Monitoramento: /health e /metrics, sem autenticação.
+new MonitoringServer(metrics, repository, () => listening)
+  .listen(config.monitoringPort, config.bindAddress)
+  .then(() =>
+    logger.info("Servidor de monitoramento escutando", {
+      port: config.monitoringPort,
+    })
+  )
+  .catch((err) =>
+    logger.error("Erro no servidor de monitoramento", { error: err })
+  );
+
+// API administrativa (opcional): só é iniciada com um token configurado.
+if (config.adminToken) {
+  const admin = new AdminServer(
+    new AdminController(service, fraud, approvals, scheduler),
+    config.adminToken
+  );
+  admin
+    .listen(config.adminPort, config.bindAddress)
+    .then(() =>
+      logger.info("API administrativa escutando", { port: config.adminPort })
+    )
+    .catch((err) => logger.error("Erro na API administrativa", { error: err }));
+} else {
+  logger.info("API administrativa desativada (adminToken não configurado)");
+}
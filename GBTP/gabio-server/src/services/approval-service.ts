@@ -0,0 +1,283 @@
+/**
+ * ApprovalService
+ *
+ * Responsável pelas transferências pendentes de aprovação (TRANSFER acima da
+ * política da conta, APPROVE, REJECT e LIST_PENDING):
+ * - Reserva da transferência como pendente, com prazo de validade
+ * - Aprovação (liquidação via BankService) ou rejeição por uma conta
+ *   aprovadora da política da origem
+ * - Expiração periódica das transferências não analisadas no prazo
+ *
+ * As transferências pendentes são gravadas junto com a conta de origem
+ * (AccountRepository) e sobrevivem a reinícios; as que expirarem com o
+ * servidor parado são descartadas na primeira verificação.
+ *
+ * O prazo de validade (padrão: 86400 segundos) e o intervalo entre
+ * verificações de expiração (padrão: 60 segundos) vêm da configuração do
+ * servidor (approvalTtl e approvalInterval).
+ */
+import { randomUUID } from "crypto";
+import { BankService, IdempotencyHook, TransferReceipt } from "./bank-service";
+import { PendingTransfer } from "../models/pending-transfer";
+import { Money } from "../models/money";
+import { logger } from "./logger";
+import { ForbiddenError, GBTPError } from "../errors/gbtp-error";
+
+/**
+ * Transferência reservada por request e saldo disponível da origem após a
+ * reserva.
+ */
+export interface PendingTransferRequest {
+  transfer: PendingTransfer;
+  available: Money;
+}
+
+/**
+ * Prazo padrão de validade de uma transferência pendente, em segundos.
+ */
+const DEFAULT_TTL_SECONDS = 86400;
+
+/**
+ * Intervalo padrão entre verificações de expiração, em segundos.
+ */
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+export class ApprovalService {
+  private readonly ttlMs: number;
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * Construtor:
+   * - Define o prazo de validade e o intervalo entre verificações de
+   *   expiração.
+   *
+   * As transferências vencidas só são descartadas após start() (ou em
+   * chamadas a expireDue).
+   *
+   * @param service         - Regras de negócio das contas
+   * @param ttlSeconds      - Prazo de validade em segundos (opcional)
+   * @param intervalSeconds - Intervalo entre verificações em segundos (opcional)
+   * @throws Error se o prazo ou o intervalo não forem inteiros positivos
+   */
+  constructor(
+    private readonly service: BankService,
+    ttlSeconds: number = DEFAULT_TTL_SECONDS,
+    intervalSeconds: number = DEFAULT_INTERVAL_SECONDS
+  ) {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new Error(`Prazo de aprovação inválido: ${ttlSeconds}`);
+    }
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds <= 0) {
+      throw new Error(`Intervalo de expiração inválido: ${intervalSeconds}`);
+    }
+    this.ttlMs = ttlSeconds * 1000;
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  /**
+   * request
+   *
+   * Reserva uma transferência como pendente de aprovação, válida até o fim
+   * do prazo configurado.
+   *
+   * @param sourceId    - Conta de origem
+   * @param destId      - Conta de destino
+   * @param amount      - Valor, na moeda da origem
+   * @param idempotency - Registro de idempotência, gravado com a reserva
+   *                      (opcional)
+   * @returns transferência pendente e saldo disponível da origem
+   * @throws Error conforme BankService.transfer (conta inexistente, saldo
+   *         insuficiente, limites etc.)
+   */
+  public async request(
+    sourceId: string,
+    destId: string,
+    amount: Money,
+    idempotency?: IdempotencyHook<PendingTransferRequest>
+  ): Promise<PendingTransferRequest> {
+    const now = new Date();
+    const transfer = new PendingTransfer(
+      randomUUID(),
+      sourceId,
+      destId,
+      amount,
+      now.toISOString(),
+      new Date(now.getTime() + this.ttlMs).toISOString()
+    );
+    const available = await this.service.reservePendingTransfer(
+      transfer,
+      idempotency &&
+        ((reserved) => idempotency({ transfer, available: reserved }))
+    );
+    return { transfer, available };
+  }
+
+  /**
+   * list
+   *
+   * Retorna as transferências pendentes da conta de origem, da mais antiga
+   * para a mais recente. Apenas a própria conta e suas aprovadoras podem
+   * consultá-las.
+   *
+   * @param sessionAccount - Conta autenticada na sessão
+   * @param sourceId       - Conta de origem
+   * @returns transferências pendentes
+   * @throws ForbiddenError "Acesso negado à conta"
+   */
+  public list(sessionAccount: string, sourceId: string): PendingTransfer[] {
+    if (sessionAccount !== sourceId) {
+      this.ensureApprover(sessionAccount, sourceId);
+    }
+    return [...this.service.getAccount(sourceId).pendingTransfers].sort(
+      (a, b) =>
+        a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * approve
+   *
+   * Aprova e liquida uma transferência pendente. Se a liquidação falhar (p.
+   * ex. destino bloqueado), a transferência continua pendente. O prazo e a
+   * aprovadora (política e situação) são conferidos de novo na liquidação,
+   * com as contas bloqueadas (BankService.settlePendingTransfer).
+   *
+   * @param approverId  - Conta aprovadora (autenticada na sessão)
+   * @param sourceId    - Conta de origem
+   * @param pendingId   - ID da transferência pendente
+   * @param idempotency - Registro de idempotência, gravado com a liquidação
+   *                      (opcional)
+   * @returns saldo da origem, valor creditado e taxa aplicada
+   * @throws ForbiddenError se a conta não for aprovadora da origem,
+   *         PendingTransferNotFoundError se a transferência não existir ou
+   *         tiver expirado, AccountFrozenError ou AccountClosedError se a
+   *         aprovadora não estiver ativa, ou o erro da liquidação
+   */
+  public async approve(
+    approverId: string,
+    sourceId: string,
+    pendingId: string,
+    idempotency?: IdempotencyHook<TransferReceipt>
+  ): Promise<TransferReceipt> {
+    this.ensureApprover(approverId, sourceId);
+    const receipt = await this.service.settlePendingTransfer(
+      sourceId,
+      pendingId,
+      approverId,
+      idempotency
+    );
+    logger.info("Transferência pendente aprovada", {
+      pendingId,
+      sourceId,
+      approverId,
+    });
+    return receipt;
+  }
+
+  /**
+   * reject
+   *
+   * Rejeita uma transferência pendente, devolvendo o valor reservado ao saldo
+   * disponível da origem.
+   *
+   * @param approverId  - Conta aprovadora (autenticada na sessão)
+   * @param sourceId    - Conta de origem
+   * @param pendingId   - ID da transferência pendente
+   * @param idempotency - Registro de idempotência, gravado com a rejeição
+   *                      (opcional)
+   * @returns transferência rejeitada
+   * @throws ForbiddenError se a conta não for aprovadora da origem ou
+   *         PendingTransferNotFoundError se a transferência não existir
+   */
+  public async reject(
+    approverId: string,
+    sourceId: string,
+    pendingId: string,
+    idempotency?: IdempotencyHook<PendingTransfer>
+  ): Promise<PendingTransfer> {
+    this.ensureApprover(approverId, sourceId);
+    const transfer = await this.service.releasePendingTransfer(
+      sourceId,
+      pendingId,
+      idempotency
+    );
+    logger.info("Transferência pendente rejeitada", {
+      pendingId,
+      sourceId,
+      approverId,
+    });
+    return transfer;
+  }
+
+  /**
+   * Inicia a verificação periódica das transferências vencidas (a primeira
+   * verificação é imediata).
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.expireDue(), this.intervalMs);
+    this.timer.unref();
+    void this.expireDue();
+  }
+
+  /**
+   * Interrompe a verificação periódica.
+   */
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * expireDue
+   *
+   * Descarta as transferências pendentes cujo prazo terminou até o instante
+   * informado, devolvendo os valores reservados.
+   *
+   * @param now - Instante de referência (padrão: agora)
+   * @returns quantidade de transferências expiradas
+   */
+  public async expireDue(now: Date = new Date()): Promise<number> {
+    const due = this.service
+      .listAccounts()
+      .flatMap((account) => account.pendingTransfers)
+      .filter((transfer) => new Date(transfer.expiresAt) <= now);
+    let expired = 0;
+    for (const transfer of due) {
+      try {
+        await this.service.releasePendingTransfer(
+          transfer.sourceId,
+          transfer.id
+        );
+        expired++;
+        logger.info("Transferência pendente expirada", {
+          pendingId: transfer.id,
+          sourceId: transfer.sourceId,
+        });
+      } catch (err) {
+        // Aprovada ou rejeitada durante a verificação: nada a descartar
+        if (!(err instanceof GBTPError)) {
+          logger.error("Falha ao expirar a transferência pendente", {
+            pendingId: transfer.id,
+            error: err,
+          });
+        }
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Garante que a conta seja aprovadora da política da conta de origem.
+   * @throws ForbiddenError "Acesso negado à conta"
+   */
+  private ensureApprover(approverId: string, sourceId: string): void {
+    const policy = this.service.getAccount(sourceId).approval;
+    if (!policy || !policy.approvers.includes(approverId)) {
+      throw new ForbiddenError("Acesso negado à conta");
+    }
+  }
+}
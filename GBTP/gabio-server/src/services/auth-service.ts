@@ -0,0 +1,97 @@
+/**
+ * AuthService
+ *
+ * Responsável pela autenticação de contas:
+ * - Geração de hash salgado de senhas (scrypt)
+ * - Verificação de credenciais no LOGIN
+ *
+ * As credenciais ficam armazenadas junto às contas (salt + passwordHash),
+ * nunca em texto puro.
+ */
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { BankService } from "./bank-service";
+import { UnauthorizedError } from "../errors/gbtp-error";
+
+/**
+ * Tamanho, em bytes, do hash gerado pelo scrypt.
+ */
+const HASH_LENGTH = 64;
+
+/**
+ * Credenciais armazenadas de uma conta.
+ */
+export interface Credentials {
+  salt: string;
+  passwordHash: string;
+}
+
+export class AuthService {
+  /**
+   * Cria uma nova instância de AuthService.
+   * @param service BankService que detém as contas e suas credenciais
+   */
+  constructor(private service: BankService) {}
+
+  /**
+   * hashPassword
+   *
+   * Gera o hash scrypt de uma senha com o salt informado (ou um salt aleatório).
+   *
+   * @param password - Senha em texto puro
+   * @param salt     - Salt em hex (opcional; gerado se omitido)
+   * @returns salt e hash em hex
+   */
+  public static hashPassword(
+    password: string,
+    salt: string = randomBytes(16).toString("hex")
+  ): Credentials {
+    const passwordHash = scryptSync(password, salt, HASH_LENGTH).toString(
+      "hex"
+    );
+    return { salt, passwordHash };
+  }
+
+  /**
+   * authenticate
+   *
+   * Verifica se a senha informada corresponde às credenciais da conta.
+   * Se a conta não existir ou não possuir credenciais, a senha é conferida
+   * mesmo assim contra credenciais fictícias, para que o tempo de resposta
+   * não revele quais contas existem.
+   *
+   * @param accountId - ID da conta
+   * @param password  - Senha em texto puro
+   * @throws UnauthorizedError se a conta não existir, não possuir credenciais
+   *         ou a senha não conferir (mensagem única: "Credenciais inválidas",
+   *         para não revelar quais contas existem)
+   */
+  public authenticate(accountId: string, password: string): void {
+    const credentials = this.service.getCredentials(accountId);
+    const { salt, passwordHash } = credentials ?? dummyCredentials();
+    const expected = Buffer.from(passwordHash, "hex");
+    const actual = Buffer.from(
+      AuthService.hashPassword(password, salt).passwordHash,
+      "hex"
+    );
+    if (
+      !credentials ||
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new UnauthorizedError("Credenciais inválidas");
+    }
+  }
+}
+
+/**
+ * Credenciais fictícias usadas quando a conta não tem credenciais.
+ */
+let dummy: Credentials | undefined;
+
+/**
+ * Credenciais fictícias (senha aleatória), calculadas uma única vez.
+ */
+function dummyCredentials(): Credentials {
+  dummy ??= AuthService.hashPassword(randomBytes(16).toString("hex"));
+  return dummy;
+}
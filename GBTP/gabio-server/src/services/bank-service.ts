@@ -6,128 +6,340 @@
  * - Depósito
  * - Saque
  * - Transferência
+ * - Lotes de operações (tudo ou nada ou melhor esforço)
+ * - Extrato
+ * - Abertura, encerramento, bloqueio e desbloqueio de contas
+ * - Limites de cheque especial, saque e transferência por conta
+ * - Contas em moedas diferentes, com conversão nas transferências
+ * - Consulta de contas e ajustes manuais de saldo (API administrativa)
+ * - Transferências pendentes de aprovação (reserva, liquidação e liberação)
  *
- * Mantém um Map<string, Account> com contas pré-cadastradas.
+ * Mantém um Map<string, Account> com contas pré-cadastradas, registra cada
+ * alteração de saldo no livro-razão (LedgerService), gravando os lançamentos
+ * na mesma operação atômica do repositório que os saldos, e notifica os
+ * ouvintes registrados em onBalanceChange. As operações chamadas com
+ * REQUEST_ID recebem um IdempotencyHook, e o registro da resposta também é
+ * gravado nessa mesma operação.
+ *
+ * Uma única instância é compartilhada por todas as conexões. As operações que
+ * alteram contas são serializadas por conta (LockManager): duas operações sobre
+ * a mesma conta nunca se intercalam, e TRANSFER bloqueia origem e destino
+ * sempre na mesma ordem, evitando deadlock. Por isso essas operações retornam
+ * Promise.
+ *
+ * Saques e transferências respeitam a política de limites da conta
+ * (AccountLimits): o saldo pode ficar negativo até o cheque especial, e cada
+ * operação é conferida contra o limite por operação e o limite diário (soma dos
+ * lançamentos do dia, em UTC, no livro-razão).
+ *
+ * Cada conta tem uma moeda (ISO 4217); saldos, limites e lançamentos são
+ * expressos na moeda da conta. Transferências entre moedas diferentes são
+ * convertidas pela tabela de câmbio local (ExchangeRateService).
+ *
+ * Contas com política de aprovação (ApprovalPolicy) não fazem transferências
+ * diretas a partir do valor da política: a transferência é reservada como
+ * pendente (o valor sai do saldo disponível, mas não do saldo contábil) e só é
+ * liquidada quando aprovada. Saques, transferências e ajustes de débito são
+ * conferidos contra o saldo disponível.
+ *
+ * As falhas são lançadas como subclasses de GBTPError (AccountNotFoundError,
+ * InvalidValueError, InsufficientFundsError, LimitExceededError,
+ * UnsupportedCurrencyError, AccountFrozenError, AccountClosedError,
+ * OperationNotAllowedError), cada uma com seu código.
+ */
+import {
+  Account,
+  AccountStatus,
+  DEFAULT_CURRENCY,
+  FreezeOrigin,
+} from "../models/account";
+import { Money } from "../models/money";
+import { AccountLimits } from "../models/account-limits";
+import { ApprovalPolicy } from "../models/approval-policy";
+import { PendingTransfer } from "../models/pending-transfer";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import {
+  LedgerService,
+  StatementFilter,
+  StatementPage,
+} from "./ledger-service";
+import { AuthService, Credentials } from "./auth-service";
+import {
+  AccountRepository,
+  RelatedRecords,
+} from "../repositories/account-repository";
+import { createAccountRepository } from "../repositories/repository-factory";
+import { SeedAccount } from "../config/seed-accounts";
+import { LockManager } from "./lock-manager";
+import { TransactionType } from "../models/transaction";
+import { ExchangeRateService } from "./exchange-rate-service";
+import { logger } from "./logger";
+import {
+  AccountClosedError,
+  AccountFrozenError,
+  AccountNotFoundError,
+  ErrorCode,
+  ForbiddenError,
+  GBTPError,
+  InsufficientFundsError,
+  InvalidValueError,
+  LimitExceededError,
+  OperationNotAllowedError,
+  PendingTransferNotFoundError,
+  UnsupportedCurrencyError,
+} from "../errors/gbtp-error";
+
+/**
+ * Função chamada sempre que o saldo de uma conta é alterado.
+ */
+export type BalanceListener = (accountId: string, balance: Money) => void;
+
+/**
+ * Monta o registro de idempotência de uma operação a partir do seu resultado.
+ * É chamada antes da gravação, e o registro é gravado na mesma operação
+ * atômica do repositório que as contas (ver IdempotencyService.record).
+ */
+export type IdempotencyHook<T> = (result: T) => IdempotencyRecord;
+
+/**
+ * Resultado de uma transferência.
+ *
+ * - balance: saldo atualizado da conta de origem.
+ * - credited: valor creditado na conta de destino, na moeda do destino.
+ * - currency: moeda da conta de destino.
+ * - rate: taxa de câmbio aplicada ("1.000000" entre contas na mesma moeda).
+ */
+export interface TransferReceipt {
+  balance: Money;
+  credited: Money;
+  currency: string;
+  rate: string;
+}
+
+/**
+ * Modo de execução de um lote: tudo ou nada (ATOMIC) ou melhor esforço
+ * (BEST_EFFORT).
+ */
+export type BatchMode = "ATOMIC" | "BEST_EFFORT";
+
+/**
+ * Operação de um lote. A conta de origem é a do lote; destination só é usado
+ * em TRANSFER.
+ */
+export interface BatchItem {
+  operation: "DEPOSIT" | "WITHDRAW" | "TRANSFER";
+  destination?: string;
+  amount: Money;
+}
+
+/**
+ * Resultado de uma operação de lote.
+ *
+ * - status: OK (executada), ERROR (falhou), ROLLED_BACK (executada, mas
+ *   desfeita pela falha de outra operação em um lote ATOMIC) ou SKIPPED (não
+ *   executada após a falha em um lote ATOMIC).
+ * - code / message: código e mensagem do erro (apenas em ERROR).
+ * - balance: saldo da conta do lote após a operação (apenas em OK).
+ */
+export interface BatchItemResult {
+  status: "OK" | "ERROR" | "ROLLED_BACK" | "SKIPPED";
+  code?: ErrorCode;
+  message?: string;
+  balance?: Money;
+}
+
+/**
+ * Resultado de um lote: se as alterações foram gravadas, o saldo final da
+ * conta do lote e o resultado de cada operação, na ordem recebida.
+ */
+export interface BatchResult {
+  committed: boolean;
+  balance: Money;
+  items: BatchItemResult[];
+}
+
+/**
+ * Limites de uma conta e quanto já foi movimentado no dia corrente (UTC).
  */
-import { Account } from "../models/account";
-import * as fs from "fs";
-import * as path from "path";
+export interface LimitsStatus {
+  limits: AccountLimits;
+  balance: Money;
+  withdrawnToday: Money;
+  transferredToday: Money;
+}
 
 export class BankService {
   private accounts: Map<string, Account> = new Map();
-  private readonly dbPath: string;
+  private balanceListeners: BalanceListener[] = [];
+  private locks = new LockManager();
   /**
    * Construtor:
-   * - Inicializa o caminho absoluto para o arquivo de persistência (accounts.json).
-   * - Se accounts.json existir, carrega seu conteúdo no Map de contas.
-   * - Caso contrário, cria um arquivo padrão com contas de exemplo e, em seguida, carrega-o.
-   *
-   * Fluxo:
-   * 1. Define `dbPath` apontando para "../../accounts.json" em relação ao __dirname.
-   * 2. Verifica se o arquivo existe:
-   *    • Se existir, chama `loadFromFile()` para popular o Map de contas.
-   *    • Senão, chama `createDefaultAccountsFile()` para criar o JSON inicial e, depois, chama `loadFromFile()`.
+   * - Recebe o repositório de persistência das contas (por padrão, o backend
+   *   json de createAccountRepository).
+   * - Carrega todas as contas do repositório no Map de contas.
+   * - Se o repositório estiver vazio, cria as contas iniciais (seed).
    *
    * Essa implementação garante que, a cada inicialização do serviço, as contas
-   * sejam carregadas de um arquivo persistente, preservando saldos entre reinícios.
+   * sejam carregadas de um armazenamento persistente, preservando saldos entre
+   * reinícios, e permite apontar o serviço para outro armazenamento (p. ex. um
+   * arquivo temporário em testes).
+   *
+   * @param repository    - Repositório de contas
+   * @param ledger        - Livro-razão de transações (por padrão, o do
+   *                        repositório)
+   * @param rates         - Tabela de câmbio usada nas transferências
+   * @param seed          - Contas criadas se o repositório estiver vazio
+   * @param defaultLimits - Limites das contas novas (seed e openAccount)
+   * @throws UnsupportedCurrencyError se uma conta inicial estiver em moeda fora
+   *         da tabela de câmbio
    */
-  constructor() {
-    this.dbPath = path.resolve(__dirname, "../../accounts.json");
-    if (fs.existsSync(this.dbPath)) {
-      this.loadFromFile();
-    } else {
-      this.createDefaultAccountsFile();
-      this.loadFromFile();
+  constructor(
+    private readonly repository: AccountRepository = createAccountRepository(),
+    private readonly ledger: LedgerService = new LedgerService(repository),
+    private readonly rates: ExchangeRateService = new ExchangeRateService(),
+    seed: SeedAccount[] = [],
+    private readonly defaultLimits: AccountLimits = AccountLimits.NONE
+  ) {
+    for (const account of repository.loadAll()) {
+      this.accounts.set(account.id, account);
+    }
+    if (this.accounts.size === 0 && seed.length > 0) {
+      this.createSeedAccounts(seed);
     }
   }
 
   /**
-   * Carrega o conteúdo de accounts.json para o Map<string, Account>.
+   * onBalanceChange
+   *
+   * Registra um ouvinte notificado a cada alteração de saldo de qualquer conta
+   * (inclusive a conta de destino de uma transferência).
+   *
+   * @param listener - Função chamada com o ID da conta e o novo saldo
    */
-  private loadFromFile() {
-    const raw = fs.readFileSync(this.dbPath, { encoding: "utf8" });
-    const obj = JSON.parse(raw) as Record<string, Account>;
-    this.accounts.clear();
-    for (const key of Object.keys(obj)) {
-      this.accounts.set(key, { id: obj[key].id, balance: obj[key].balance });
-    }
+  public onBalanceChange(listener: BalanceListener): void {
+    this.balanceListeners.push(listener);
   }
 
   /**
-   * Grava o Map<string, Account> atual em accounts.json.
-   * Deve ser chamado após qualquer alteração de saldo.
+   * Grava as contas alteradas e os registros relacionados (p. ex. os
+   * lançamentos) em uma única operação do repositório e, somente após a
+   * gravação bem-sucedida, atualiza o Map em memória e notifica os ouvintes.
+   * Deve ser chamado em qualquer alteração de saldo.
    */
-  private saveToFile() {
-    const obj: Record<string, Account> = {};
-    for (const [key, account] of this.accounts.entries()) {
-      obj[key] = { id: account.id, balance: account.balance };
+  private commit(accounts: Account[], related: RelatedRecords = {}) {
+    this.repository.save(accounts, related);
+    for (const account of accounts) {
+      this.accounts.set(account.id, account);
+    }
+    for (const account of accounts) {
+      for (const listener of this.balanceListeners) {
+        try {
+          listener(account.id, account.balance);
+        } catch (err) {
+          // Falha em um ouvinte não desfaz nem interrompe a operação
+          logger.error("Erro ao notificar alteração de saldo", {
+            accountId: account.id,
+            error: err,
+          });
+        }
+      }
     }
-    fs.writeFileSync(this.dbPath, JSON.stringify(obj, null, 2), {
-      encoding: "utf8",
-    });
   }
 
   /**
-   * Cria um novo arquivo accounts.json com as contas iniciais de exemplo.
+   * Cria e persiste as contas iniciais, com os limites padrão.
    */
-  private createDefaultAccountsFile() {
-    const defaultAccounts: Record<string, Account> = {
-      "1001": { id: "1001", balance: 500.0 },
-      "1002": { id: "1002", balance: 1000.0 },
-      "1003": { id: "1003", balance: 250.0 },
-    };
-    fs.writeFileSync(this.dbPath, JSON.stringify(defaultAccounts, null, 2), {
-      encoding: "utf8",
-    });
+  private createSeedAccounts(seed: SeedAccount[]) {
+    for (const { currency } of seed) {
+      if (!this.rates.supports(currency)) {
+        throw new UnsupportedCurrencyError(`Moeda não suportada: ${currency}`);
+      }
+    }
+    this.commit(
+      seed.map((entry) => {
+        const { salt, passwordHash } = AuthService.hashPassword(entry.password);
+        return new Account(
+          entry.id,
+          entry.balance,
+          salt,
+          passwordHash,
+          "ACTIVE",
+          entry.ownerName,
+          this.defaultLimits,
+          entry.currency
+        );
+      })
+    );
   }
+
   /**
    * getBalance
    *
    * Retorna o saldo atual da conta identificada por accountId.
    *
    * @param accountId - ID da conta de origem
-   * @returns saldo atual (number)
+   * @returns saldo atual (Money)
    * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
    */
-  public getBalance(accountId: string): number {
+  public getBalance(accountId: string): Money {
     // Busca a conta pelo ID; lança erro se não existir
     const acc = this.accounts.get(accountId);
     if (!acc) {
-      throw new Error("Conta de origem inexistente");
+      throw new AccountNotFoundError("Conta de origem inexistente");
     }
     // Retorna o saldo atual da conta
     return acc.balance;
   }
 
+  /**
+   * getCredentials
+   *
+   * Retorna as credenciais armazenadas da conta, usadas pelo AuthService.
+   *
+   * @param accountId - ID da conta
+   * @returns salt e hash da senha, ou undefined se a conta não existir ou não
+   *          possuir credenciais cadastradas
+   */
+  public getCredentials(accountId: string): Credentials | undefined {
+    const acc = this.accounts.get(accountId);
+    if (!acc || !acc.salt || !acc.passwordHash) {
+      return undefined;
+    }
+    return { salt: acc.salt, passwordHash: acc.passwordHash };
+  }
+
   /**
    * deposit
    *
    * Adiciona um valor positivo ao saldo da conta.
    *
    * @param accountId - ID da conta de origem
-   * @param amount    - Valor a ser depositado (number)
-   * @returns saldo atualizado (number)
+   * @param amount    - Valor a ser depositado (Money)
+   * @param idempotency - Registro de idempotência da operação (opcional)
+   * @returns saldo atualizado (Money), após a liberação da conta
    * @throws Error se:
    *
    *    • Conta não existir (mensagem: "Conta de origem inexistente")
    *
+   *    • Conta bloqueada ou encerrada (mensagens: "Conta de origem bloqueada",
+   *      "Conta de origem encerrada")
+   *
    *    • amount ≤ 0 (mensagem: "Valor inválido para depósito")
+   *
+   *    • Saldo resultante acima de Money.MAX (mensagem: "Saldo resultante
+   *      acima do máximo permitido")
    */
-  public deposit(accountId: string, amount: number): number {
-    // Busca a conta pelo ID; lança erro se não existir
-    const acc = this.accounts.get(accountId);
-    if (!acc) {
-      throw new Error("Conta de origem inexistente");
-    }
-    // Verifica se o valor é positivo
-    if (amount <= 0) {
-      throw new Error("Valor inválido para depósito");
-    }
-    // Realiza o depósito
-    acc.balance += amount;
-    // Persiste imediatamente após a alteração
-    this.saveToFile();
-    return acc.balance;
+  public deposit(
+    accountId: string,
+    amount: Money,
+    idempotency?: IdempotencyHook<Money>
+  ): Promise<Money> {
+    return this.locks.runExclusive([accountId], () => {
+      const draft = new Draft(this.accounts, this.ledger);
+      const balance = this.applyDeposit(draft, accountId, amount);
+      this.flush(draft, { idempotency: idempotency?.(balance) });
+      return balance;
+    });
   }
 
   /**
@@ -136,34 +348,35 @@ export class BankService {
    * Subtrai um valor positivo do saldo da conta.
    *
    * @param accountId - ID da conta de origem
-   * @param amount    - Valor a ser sacado (number)
-   * @returns saldo atualizado (number)
+   * @param amount    - Valor a ser sacado (Money)
+   * @param idempotency - Registro de idempotência da operação (opcional)
+   * @returns saldo atualizado (Money), após a liberação da conta
    * @throws Error se:
    *
    *    • Se a conta não existir (mensagem: "Conta de origem inexistente")
    *
+   *    • Conta bloqueada ou encerrada (mensagens: "Conta de origem bloqueada",
+   *      "Conta de origem encerrada")
+   *
    *    • amount ≤ 0 (mensagem: "Valor inválido para saque")
    *
-   *    • amount > saldo atual (mensagem: "Saldo insuficiente")
+   *    • amount acima do limite por saque ou do limite diário de saques
+   *      (mensagens: "Valor acima do limite por saque",
+   *      "Limite diário de saque excedido")
+   *
+   *    • amount > saldo disponível + cheque especial (mensagem: "Saldo insuficiente")
    */
-  public withdraw(accountId: string, amount: number): number {
-    // Busca a conta pelo ID; lança erro se não existir
-    const acc = this.accounts.get(accountId);
-    if (!acc) {
-      throw new Error("Conta de origem inexistente");
-    }
-    // Verifica se o valor é positivo
-    if (amount <= 0) {
-      throw new Error("Valor inválido para saque");
-    }
-    // Verifica se há saldo suficiente para o saque
-    if (amount > acc.balance) {
-      throw new Error("Saldo insuficiente");
-    }
-    // Realiza o saque
-    acc.balance -= amount;
-    this.saveToFile();
-    return acc.balance;
+  public withdraw(
+    accountId: string,
+    amount: Money,
+    idempotency?: IdempotencyHook<Money>
+  ): Promise<Money> {
+    return this.locks.runExclusive([accountId], () => {
+      const draft = new Draft(this.accounts, this.ledger);
+      const balance = this.applyWithdraw(draft, accountId, amount);
+      this.flush(draft, { idempotency: idempotency?.(balance) });
+      return balance;
+    });
   }
 
   /**
@@ -171,11 +384,20 @@ export class BankService {
    *
    * Transfere um valor positivo de uma conta de origem para uma conta de destino.
    * Verifica também se a conta de destino é diferente da conta de origem.
+   * Se as contas tiverem moedas diferentes, o valor creditado é convertido pela
+   * tabela de câmbio.
    *
    * @param sourceId - ID da conta de origem
    * @param destId   - ID da conta de destino
-   * @param amount   - Valor a ser transferido (number)
-   * @returns saldo atualizado da conta de origem (number)
+   * @param amount   - Valor a ser transferido, na moeda da origem (Money)
+   * @param idempotency - Registro de idempotência da operação (opcional)
+   * @param related  - Registros gravados junto com a transferência (p. ex. o
+   *                   agendamento executado pelo SchedulerService)
+   * @param guard    - Verificação feita com as duas contas bloqueadas, antes
+   *                   da transferência; se lançar um erro, nada é gravado (p.
+   *                   ex. agendamento cancelado enquanto aguardava a vez)
+   * @returns saldo atualizado da origem, valor creditado e taxa aplicada
+   *          (TransferReceipt), após a liberação das duas contas
    * @throws Error se:
    *
    *    • sourceId === destId (mensagem: "Conta de origem e destino não podem ser iguais")
@@ -184,43 +406,1141 @@ export class BankService {
    *
    *    • Se a conta de destino não existir (mensagem: "Conta de destino inexistente")
    *
+   *    • Se alguma das contas estiver bloqueada ou encerrada (mensagens:
+   *      "Conta de origem bloqueada", "Conta de origem encerrada",
+   *      "Conta de destino bloqueada", "Conta de destino encerrada")
+   *
    *    • amount ≤ 0 (mensagem: "Valor inválido para transferência")
    *
-   *    • amount > saldo da conta de origem (mensagem: "Saldo insuficiente para transferência")
+   *    • amount acima do limite por transferência ou do limite diário de
+   *      transferências da origem (mensagens: "Valor acima do limite por
+   *      transferência", "Limite diário de transferência excedido")
+   *
+   *    • amount > saldo disponível da conta de origem + cheque especial
+   *      (mensagem: "Saldo insuficiente para transferência")
+   *
+   *    • Moeda de alguma das contas fora da tabela de câmbio (mensagem:
+   *      "Moeda não suportada: <código>")
+   *
+   *    • Valor convertido inferior a um centavo (mensagem:
+   *      "Valor convertido insuficiente para transferência")
+   *
+   *    • Saldo resultante do destino acima de Money.MAX (mensagem: "Saldo
+   *      resultante acima do máximo permitido")
+   *
+   *    • amount exigir aprovação pela política da origem (mensagem:
+   *      "Transferência exige aprovação")
+   */
+  public transfer(
+    sourceId: string,
+    destId: string,
+    amount: Money,
+    idempotency?: IdempotencyHook<TransferReceipt>,
+    related: RelatedRecords = {},
+    guard?: () => void
+  ): Promise<TransferReceipt> {
+    return this.locks.runExclusive([sourceId, destId], () => {
+      guard?.();
+      ensureNoApproval(this.accounts.get(sourceId), amount);
+      const draft = new Draft(this.accounts, this.ledger);
+      const receipt = this.applyTransfer(draft, sourceId, destId, amount);
+      // Grava as duas contas em uma única operação atômica
+      this.flush(draft, {
+        ...related,
+        idempotency: idempotency?.(receipt),
+      });
+      return receipt;
+    });
+  }
+
+  /**
+   * executeBatch
+   *
+   * Executa um lote de operações (DEPOSIT, WITHDRAW, TRANSFER) da conta
+   * informada, na ordem recebida, com as mesmas regras das operações
+   * individuais. A conta e todos os destinos ficam bloqueados durante o lote.
+   *
+   * - ATOMIC: se alguma operação falhar, nenhuma é gravada; as anteriores são
+   *   desfeitas (ROLLED_BACK) e as seguintes não são executadas (SKIPPED).
+   * - BEST_EFFORT: as operações que falharem são ignoradas e as demais são
+   *   gravadas.
+   *
+   * As operações concluídas são gravadas em uma única operação atômica do
+   * repositório, ao final do lote.
+   *
+   * Transferências que exigem aprovação pela política da conta falham com
+   * "Transferência exige aprovação", como em transfer.
+   *
+   * @param accountId - ID da conta de origem do lote
+   * @param items     - Operações do lote
+   * @param mode      - ATOMIC (tudo ou nada) ou BEST_EFFORT
+   * @param idempotency - Registro de idempotência do lote gravado (não é
+   *                      usado em um lote ATOMIC desfeito)
+   * @returns resultado de cada operação e saldo final da conta
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
    */
-  public transfer(sourceId: string, destId: string, amount: number): number {
+  public executeBatch(
+    accountId: string,
+    items: BatchItem[],
+    mode: BatchMode,
+    idempotency?: IdempotencyHook<BatchResult>
+  ): Promise<BatchResult> {
+    const destinations = items.flatMap((item) =>
+      item.destination ? [item.destination] : []
+    );
+    return this.locks.runExclusive([accountId, ...destinations], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+
+      const draft = new Draft(this.accounts, this.ledger);
+      const results: BatchItemResult[] = [];
+      let failed = false;
+      for (const item of items) {
+        if (failed && mode === "ATOMIC") {
+          results.push({ status: "SKIPPED" });
+          continue;
+        }
+        try {
+          const balance = this.applyBatchItem(draft, accountId, item);
+          results.push({ status: "OK", balance });
+        } catch (err) {
+          // Falhas inesperadas interrompem o lote sem gravar nada
+          if (!(err instanceof GBTPError)) {
+            throw err;
+          }
+          results.push({
+            status: "ERROR",
+            code: err.code,
+            message: err.message,
+          });
+          failed = true;
+        }
+      }
+
+      if (failed && mode === "ATOMIC") {
+        // Descarta as alterações: nada foi gravado nem aplicado em memória
+        return {
+          committed: false,
+          balance: acc.balance,
+          items: results.map((result) =>
+            result.status === "OK" ? { status: "ROLLED_BACK" } : result
+          ),
+        };
+      }
+      const result: BatchResult = {
+        committed: true,
+        balance: draft.get(accountId)!.balance,
+        items: results,
+      };
+      this.flush(draft, { idempotency: idempotency?.(result) });
+      return result;
+    });
+  }
+
+  /**
+   * Valida e aplica um depósito no rascunho.
+   * @returns saldo resultante da conta
+   * @throws Error conforme descrito em deposit
+   */
+  private applyDeposit(draft: Draft, accountId: string, amount: Money): Money {
+    // Busca a conta pelo ID; lança erro se não existir
+    const acc = draft.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    ensureActive(acc, "origem");
+    // Verifica se o valor é positivo
+    if (!amount.isPositive()) {
+      throw new InvalidValueError("Valor inválido para depósito");
+    }
+    // Realiza o depósito
+    const updated = acc.withBalance(credit(acc.balance, amount));
+    draft.put(updated);
+    draft.record(accountId, "DEPOSIT", amount, "", updated.balance);
+    return updated.balance;
+  }
+
+  /**
+   * Valida e aplica um saque no rascunho.
+   * @returns saldo resultante da conta
+   * @throws Error conforme descrito em withdraw
+   */
+  private applyWithdraw(draft: Draft, accountId: string, amount: Money): Money {
+    // Busca a conta pelo ID; lança erro se não existir
+    const acc = draft.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    ensureActive(acc, "origem");
+    // Verifica se o valor é positivo
+    if (!amount.isPositive()) {
+      throw new InvalidValueError("Valor inválido para saque");
+    }
+    // Verifica os limites da conta e o saldo disponível (com cheque especial)
+    ensureWithinLimits(
+      amount,
+      acc.limits.withdrawPerTransaction,
+      acc.limits.withdrawDaily,
+      draft.dailyTotal(accountId, "WITHDRAW"),
+      "Valor acima do limite por saque",
+      "Limite diário de saque excedido"
+    );
+    if (amount.greaterThan(acc.available().plus(acc.limits.overdraft))) {
+      throw new InsufficientFundsError("Saldo insuficiente");
+    }
+    // Realiza o saque
+    const updated = acc.withBalance(acc.balance.minus(amount));
+    draft.put(updated);
+    draft.record(accountId, "WITHDRAW", amount, "", updated.balance);
+    return updated.balance;
+  }
+
+  /**
+   * Valida e aplica uma transferência no rascunho.
+   * @returns saldo resultante da origem, valor creditado e taxa aplicada
+   * @throws Error conforme descrito em transfer
+   */
+  private applyTransfer(
+    draft: Draft,
+    sourceId: string,
+    destId: string,
+    amount: Money
+  ): TransferReceipt {
+    const { srcAcc, dstAcc, credited, rate } = this.checkTransfer(
+      draft,
+      sourceId,
+      destId,
+      amount
+    );
+
+    // Realiza a transferência e registra um lançamento em cada conta envolvida
+    const updatedSrc = srcAcc.withBalance(srcAcc.balance.minus(amount));
+    const updatedDst = dstAcc.withBalance(credit(dstAcc.balance, credited));
+    draft.put(updatedSrc, updatedDst);
+    draft.record(sourceId, "TRANSFER_OUT", amount, destId, updatedSrc.balance);
+    draft.record(destId, "TRANSFER_IN", credited, sourceId, updatedDst.balance);
+    return {
+      balance: updatedSrc.balance,
+      credited,
+      currency: dstAcc.currency,
+      rate,
+    };
+  }
+
+  /**
+   * Valida uma transferência sobre o rascunho, sem aplicá-la.
+   * @returns contas de origem e destino, valor convertido e taxa aplicada
+   * @throws Error conforme descrito em transfer
+   */
+  private checkTransfer(
+    draft: Draft,
+    sourceId: string,
+    destId: string,
+    amount: Money
+  ): { srcAcc: Account; dstAcc: Account; credited: Money; rate: string } {
     // Verifica se origem e destino são iguais
     // Não permite transferências para a própria conta
     if (sourceId === destId) {
-      throw new Error("Conta de origem e destino não podem ser iguais");
+      throw new OperationNotAllowedError(
+        "Conta de origem e destino não podem ser iguais"
+      );
     }
 
     // Busca a conta de origem; lança erro se não existir
-    const srcAcc = this.accounts.get(sourceId);
+    const srcAcc = draft.get(sourceId);
     if (!srcAcc) {
-      throw new Error("Conta de origem inexistente");
+      throw new AccountNotFoundError("Conta de origem inexistente");
     }
 
     // Busca a conta de destino; lança erro se não existir
-    const dstAcc = this.accounts.get(destId);
+    const dstAcc = draft.get(destId);
     if (!dstAcc) {
-      throw new Error("Conta de destino inexistente");
+      throw new AccountNotFoundError("Conta de destino inexistente");
     }
 
+    ensureActive(srcAcc, "origem");
+    ensureActive(dstAcc, "destino");
+
     // Verifica se o valor é positivo
-    if (amount <= 0) {
-      throw new Error("Valor inválido para transferência");
+    if (!amount.isPositive()) {
+      throw new InvalidValueError("Valor inválido para transferência");
+    }
+    // Verifica os limites da origem e o saldo disponível (com cheque especial)
+    ensureWithinLimits(
+      amount,
+      srcAcc.limits.transferPerTransaction,
+      srcAcc.limits.transferDaily,
+      draft.dailyTotal(sourceId, "TRANSFER_OUT"),
+      "Valor acima do limite por transferência",
+      "Limite diário de transferência excedido"
+    );
+    if (amount.greaterThan(srcAcc.available().plus(srcAcc.limits.overdraft))) {
+      throw new InsufficientFundsError("Saldo insuficiente para transferência");
+    }
+
+    // Converte o valor para a moeda do destino
+    const conversion = this.rates.convert(
+      amount,
+      srcAcc.currency,
+      dstAcc.currency
+    );
+    if (!conversion.amount.isPositive()) {
+      throw new InvalidValueError(
+        "Valor convertido insuficiente para transferência"
+      );
+    }
+
+    return {
+      srcAcc,
+      dstAcc,
+      credited: conversion.amount,
+      rate: conversion.rate,
+    };
+  }
+
+  /**
+   * Valida e aplica uma operação de lote no rascunho.
+   * @returns saldo resultante da conta do lote
+   */
+  private applyBatchItem(
+    draft: Draft,
+    accountId: string,
+    item: BatchItem
+  ): Money {
+    switch (item.operation) {
+      case "DEPOSIT":
+        return this.applyDeposit(draft, accountId, item.amount);
+      case "WITHDRAW":
+        return this.applyWithdraw(draft, accountId, item.amount);
+      default:
+        ensureNoApproval(draft.get(accountId), item.amount);
+        return this.applyTransfer(
+          draft,
+          accountId,
+          item.destination ?? "",
+          item.amount
+        ).balance;
+    }
+  }
+
+  /**
+   * Grava as contas alteradas no rascunho, seus lançamentos no livro-razão e
+   * os demais registros relacionados (idempotência, agendamentos), se houver,
+   * em uma única operação atômica (commit).
+   */
+  private flush(draft: Draft, related: RelatedRecords = {}) {
+    if (
+      draft.accounts.size === 0 &&
+      !related.idempotency &&
+      !related.schedules
+    ) {
+      return;
+    }
+    this.commit([...draft.accounts.values()], {
+      ...related,
+      transactions: draft.entries.map((entry) =>
+        this.ledger.entry(
+          entry.accountId,
+          entry.type,
+          entry.amount,
+          entry.counterparty,
+          entry.balance
+        )
+      ),
+    });
+  }
+
+  /**
+   * getStatement
+   *
+   * Retorna o extrato da conta identificada por accountId.
+   *
+   * @param accountId - ID da conta de origem
+   * @param filter    - Período e paginação do extrato
+   * @returns página do extrato com os lançamentos encontrados
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
+   */
+  public getStatement(
+    accountId: string,
+    filter: StatementFilter
+  ): StatementPage {
+    if (!this.accounts.has(accountId)) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    return this.ledger.statement(accountId, filter);
+  }
+
+  /**
+   * listAccounts
+   *
+   * Retorna todas as contas cadastradas, ordenadas pelo ID.
+   *
+   * @returns contas no estado atual
+   */
+  public listAccounts(): Account[] {
+    return [...this.accounts.values()].sort((a, b) =>
+      a.id.localeCompare(b.id, undefined, { numeric: true })
+    );
+  }
+
+  /**
+   * getAccount
+   *
+   * Retorna a conta identificada por accountId.
+   *
+   * @param accountId - ID da conta
+   * @returns conta
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
+   */
+  public getAccount(accountId: string): Account {
+    const acc = this.accounts.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    return acc;
+  }
+
+  /**
+   * adjustBalance
+   *
+   * Credita ou debita manualmente um valor na conta, registrando o motivo no
+   * livro-razão. Os débitos respeitam o saldo disponível (descontadas as
+   * transferências pendentes e somado o cheque especial),
+   * mas não os limites de saque, que se aplicam apenas ao titular.
+   *
+   * @param accountId - ID da conta
+   * @param direction - "CREDIT" ou "DEBIT"
+   * @param amount    - Valor do ajuste (Money)
+   * @param reason    - Motivo do ajuste
+   * @returns saldo atualizado (Money), após a liberação da conta
+   * @throws Error se:
+   *
+   *    • Conta não existir (mensagem: "Conta de origem inexistente")
+   *
+   *    • Conta bloqueada ou encerrada (mensagens: "Conta de origem bloqueada",
+   *      "Conta de origem encerrada")
+   *
+   *    • amount ≤ 0 (mensagem: "Valor inválido para ajuste")
+   *
+   *    • Débito maior que saldo disponível + cheque especial (mensagem:
+   *      "Saldo insuficiente")
+   *
+   *    • Crédito que leve o saldo acima de Money.MAX (mensagem: "Saldo
+   *      resultante acima do máximo permitido")
+   */
+  public adjustBalance(
+    accountId: string,
+    direction: "CREDIT" | "DEBIT",
+    amount: Money,
+    reason: string
+  ): Promise<Money> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      ensureActive(acc, "origem");
+      if (!amount.isPositive()) {
+        throw new InvalidValueError("Valor inválido para ajuste");
+      }
+      if (
+        direction === "DEBIT" &&
+        amount.greaterThan(acc.available().plus(acc.limits.overdraft))
+      ) {
+        throw new InsufficientFundsError("Saldo insuficiente");
+      }
+      const updated = acc.withBalance(
+        direction === "CREDIT"
+          ? credit(acc.balance, amount)
+          : acc.balance.minus(amount)
+      );
+      this.commit([updated], {
+        transactions: [
+          this.ledger.entry(
+            accountId,
+            direction === "CREDIT" ? "ADJUSTMENT_CREDIT" : "ADJUSTMENT_DEBIT",
+            amount,
+            "",
+            updated.balance,
+            reason
+          ),
+        ],
+      });
+      return updated.balance;
+    });
+  }
+
+  /**
+   * hasAccount
+   *
+   * Indica se existe uma conta com o ID informado.
+   *
+   * @param accountId - ID da conta
+   * @returns true se a conta existir, false caso contrário
+   */
+  public hasAccount(accountId: string): boolean {
+    return this.accounts.has(accountId);
+  }
+
+  /**
+   * hasTransferredTo
+   *
+   * Indica se a conta já fez alguma transferência para o destino informado.
+   *
+   * @param accountId - ID da conta de origem
+   * @param destId    - ID da conta de destino
+   * @returns true se houver ao menos uma transferência no livro-razão
+   */
+  public hasTransferredTo(accountId: string, destId: string): boolean {
+    return this.ledger.hasCounterparty(accountId, "TRANSFER_OUT", destId);
+  }
+
+  /**
+   * getStatus
+   *
+   * Retorna a situação da conta identificada por accountId.
+   *
+   * @param accountId - ID da conta
+   * @returns situação da conta (AccountStatus)
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
+   */
+  public getStatus(accountId: string): AccountStatus {
+    const acc = this.accounts.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    return acc.status;
+  }
+
+  /**
+   * getCurrency
+   *
+   * Retorna a moeda da conta identificada por accountId.
+   *
+   * @param accountId - ID da conta
+   * @returns código ISO 4217 da moeda
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
+   */
+  public getCurrency(accountId: string): string {
+    const acc = this.accounts.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    return acc.currency;
+  }
+
+  /**
+   * getLimits
+   *
+   * Retorna os limites da conta, o saldo e o total já sacado e transferido no
+   * dia corrente (UTC).
+   *
+   * @param accountId - ID da conta
+   * @returns limites e utilização do dia (LimitsStatus)
+   * @throws Error se a conta não existir (mensagem: "Conta de origem inexistente")
+   */
+  public getLimits(accountId: string): LimitsStatus {
+    const acc = this.accounts.get(accountId);
+    if (!acc) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
     }
-    // Verifica se há saldo suficiente na conta de origem
-    if (amount > srcAcc.balance) {
-      throw new Error("Saldo insuficiente para transferência");
+    const day = today();
+    return {
+      limits: acc.limits,
+      balance: acc.balance,
+      withdrawnToday: this.ledger.dailyTotal(accountId, "WITHDRAW", day),
+      transferredToday: this.ledger.dailyTotal(accountId, "TRANSFER_OUT", day),
+    };
+  }
+
+  /**
+   * setLimits
+   *
+   * Substitui a política de limites da conta. Reduzir o cheque especial não
+   * altera um saldo já negativo, mas impede novos débitos até que o saldo
+   * volte a caber no limite.
+   *
+   * @param accountId - ID da conta
+   * @param limits    - Nova política de limites
+   * @throws Error se a conta não existir ("Conta de origem inexistente") ou se
+   *         algum limite for negativo ("Limite inválido")
+   */
+  public setLimits(accountId: string, limits: AccountLimits): Promise<void> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      const values = [
+        limits.overdraft,
+        limits.withdrawPerTransaction,
+        limits.withdrawDaily,
+        limits.transferPerTransaction,
+        limits.transferDaily,
+      ];
+      if (values.some((value) => value !== undefined && value.isNegative())) {
+        throw new InvalidValueError("Limite inválido");
+      }
+      this.commit([acc.withLimits(limits)]);
+    });
+  }
+
+  /**
+   * setApprovalPolicy
+   *
+   * Substitui (ou remove) a política de aprovação de transferências da conta.
+   * As transferências já pendentes não são afetadas.
+   *
+   * @param accountId - ID da conta
+   * @param policy    - Nova política (undefined: nenhuma transferência exige
+   *                    aprovação)
+   * @throws Error se:
+   *
+   *    • Conta ou alguma conta aprovadora não existir (mensagens: "Conta de
+   *      origem inexistente", "Conta aprovadora inexistente: <id>")
+   *
+   *    • Valor da política ≤ 0 (mensagem: "Valor inválido para aprovação")
+   *
+   *    • Nenhuma conta aprovadora ou a própria conta entre elas (mensagens:
+   *      "Informe ao menos uma conta aprovadora", "A conta não pode aprovar
+   *      as próprias transferências")
+   */
+  public setApprovalPolicy(
+    accountId: string,
+    policy: ApprovalPolicy | undefined
+  ): Promise<void> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      if (policy) {
+        if (!policy.threshold.isPositive()) {
+          throw new InvalidValueError("Valor inválido para aprovação");
+        }
+        if (policy.approvers.length === 0) {
+          throw new OperationNotAllowedError(
+            "Informe ao menos uma conta aprovadora"
+          );
+        }
+        if (policy.approvers.includes(accountId)) {
+          throw new OperationNotAllowedError(
+            "A conta não pode aprovar as próprias transferências"
+          );
+        }
+        const missing = policy.approvers.find((id) => !this.accounts.has(id));
+        if (missing !== undefined) {
+          throw new AccountNotFoundError(
+            `Conta aprovadora inexistente: ${missing}`
+          );
+        }
+      }
+      this.commit([acc.withApproval(policy)]);
+    });
+  }
+
+  /**
+   * requiresApproval
+   *
+   * Indica se uma transferência do valor informado a partir da conta exige
+   * aprovação pela política da conta.
+   *
+   * @param sourceId - ID da conta de origem
+   * @param amount   - Valor da transferência
+   * @returns true se a transferência deve ser reservada como pendente
+   */
+  public requiresApproval(sourceId: string, amount: Money): boolean {
+    return this.accounts.get(sourceId)?.approval?.requires(amount) ?? false;
+  }
+
+  /**
+   * reservePendingTransfer
+   *
+   * Valida uma transferência com as mesmas regras de transfer e, em vez de
+   * executá-la, grava-a como pendente na conta de origem, reservando o valor
+   * do saldo disponível.
+   *
+   * @param transfer    - Transferência pendente (ID, contas, valor e datas)
+   * @param idempotency - Registro de idempotência da reserva (opcional)
+   * @returns saldo disponível da origem após a reserva
+   * @throws Error conforme descrito em transfer
+   */
+  public reservePendingTransfer(
+    transfer: PendingTransfer,
+    idempotency?: IdempotencyHook<Money>
+  ): Promise<Money> {
+    const { sourceId, destId, amount } = transfer;
+    return this.locks.runExclusive([sourceId, destId], () => {
+      const draft = new Draft(this.accounts, this.ledger);
+      const { srcAcc } = this.checkTransfer(draft, sourceId, destId, amount);
+      const updated = srcAcc.withPendingTransfers([
+        ...srcAcc.pendingTransfers,
+        transfer,
+      ]);
+      const available = updated.available();
+      this.commit([updated], { idempotency: idempotency?.(available) });
+      return available;
+    });
+  }
+
+  /**
+   * settlePendingTransfer
+   *
+   * Libera a reserva de uma transferência pendente e a executa com as regras
+   * de transfer (saldo, limites e situação das contas no momento da
+   * liquidação). Se a execução falhar, nada é gravado e a transferência
+   * continua pendente.
+   *
+   * A aprovadora e o prazo são conferidos com as contas bloqueadas, pois a
+   * política, a situação da aprovadora e a verificação de expiração podem
+   * mudar enquanto a liquidação aguarda a vez. Uma transferência vencida é
+   * descartada em vez de liquidada.
+   *
+   * @param sourceId    - ID da conta de origem
+   * @param pendingId   - ID da transferência pendente
+   * @param approverId  - ID da conta aprovadora
+   * @param idempotency - Registro de idempotência da liquidação (opcional)
+   * @returns saldo atualizado da origem, valor creditado e taxa aplicada
+   * @throws Error se a transferência não existir ("Transferência pendente
+   *         inexistente") ou tiver vencido ("Transferência pendente
+   *         expirada"), se a conta não for aprovadora da origem ("Acesso
+   *         negado à conta"), se a aprovadora estiver bloqueada ou encerrada
+   *         ("Conta aprovadora bloqueada", "Conta aprovadora encerrada") ou
+   *         conforme descrito em transfer
+   */
+  public async settlePendingTransfer(
+    sourceId: string,
+    pendingId: string,
+    approverId: string,
+    idempotency?: IdempotencyHook<TransferReceipt>
+  ): Promise<TransferReceipt> {
+    const { destId } = this.findPendingTransfer(sourceId, pendingId);
+    return this.locks.runExclusive([sourceId, destId], () => {
+      const pending = this.findPendingTransfer(sourceId, pendingId);
+      ensureApprover(
+        this.accounts.get(sourceId)!,
+        this.accounts.get(approverId)
+      );
+      const draft = new Draft(this.accounts, this.ledger);
+      const srcAcc = draft.get(sourceId)!;
+      draft.put(
+        srcAcc.withPendingTransfers(
+          srcAcc.pendingTransfers.filter((item) => item.id !== pendingId)
+        )
+      );
+      if (new Date(pending.expiresAt) <= new Date()) {
+        // Vencida antes da próxima verificação: descarta em vez de liquidar
+        this.flush(draft);
+        throw new PendingTransferNotFoundError(
+          "Transferência pendente expirada"
+        );
+      }
+      const receipt = this.applyTransfer(
+        draft,
+        sourceId,
+        pending.destId,
+        pending.amount
+      );
+      this.flush(draft, { idempotency: idempotency?.(receipt) });
+      return receipt;
+    });
+  }
+
+  /**
+   * releasePendingTransfer
+   *
+   * Descarta uma transferência pendente (rejeitada ou expirada), devolvendo o
+   * valor reservado ao saldo disponível da origem.
+   *
+   * @param sourceId    - ID da conta de origem
+   * @param pendingId   - ID da transferência pendente
+   * @param idempotency - Registro de idempotência da rejeição (opcional)
+   * @returns transferência descartada
+   * @throws Error se a transferência não existir ("Transferência pendente
+   *         inexistente")
+   */
+  public releasePendingTransfer(
+    sourceId: string,
+    pendingId: string,
+    idempotency?: IdempotencyHook<PendingTransfer>
+  ): Promise<PendingTransfer> {
+    return this.locks.runExclusive([sourceId], () => {
+      const pending = this.findPendingTransfer(sourceId, pendingId);
+      const acc = this.accounts.get(sourceId)!;
+      this.commit(
+        [
+          acc.withPendingTransfers(
+            acc.pendingTransfers.filter((item) => item.id !== pendingId)
+          ),
+        ],
+        { idempotency: idempotency?.(pending) }
+      );
+      return pending;
+    });
+  }
+
+  /**
+   * Busca uma transferência pendente da conta de origem.
+   * @throws PendingTransferNotFoundError "Transferência pendente inexistente"
+   */
+  private findPendingTransfer(
+    sourceId: string,
+    pendingId: string
+  ): PendingTransfer {
+    const pending = this.accounts
+      .get(sourceId)
+      ?.pendingTransfers.find((item) => item.id === pendingId);
+    if (!pending) {
+      throw new PendingTransferNotFoundError(
+        "Transferência pendente inexistente"
+      );
     }
+    return pending;
+  }
 
-    // Realiza a transferência
-    srcAcc.balance -= amount;
-    dstAcc.balance += amount;
-    // Grava as duas contas no arquivo
-    this.saveToFile();
-    return srcAcc.balance;
+  /**
+   * openAccount
+   *
+   * Abre uma nova conta com ID gerado pelo servidor (maior ID numérico + 1).
+   *
+   * @param ownerName      - Nome do titular
+   * @param initialDeposit - Depósito inicial (pode ser zero)
+   * @param password       - Senha de acesso da nova conta
+   * @param currency       - Moeda da conta (padrão: DEFAULT_CURRENCY)
+   * @returns conta criada
+   * @throws Error se initialDeposit < 0 (mensagem: "Valor inválido para depósito inicial")
+   *         ou se a moeda estiver fora da tabela de câmbio (mensagem:
+   *         "Moeda não suportada: <código>")
+   */
+  public openAccount(
+    ownerName: string,
+    initialDeposit: Money,
+    password: string,
+    currency: string = DEFAULT_CURRENCY
+  ): Account {
+    if (initialDeposit.isNegative()) {
+      throw new InvalidValueError("Valor inválido para depósito inicial");
+    }
+    if (!this.rates.supports(currency)) {
+      throw new UnsupportedCurrencyError(`Moeda não suportada: ${currency}`);
+    }
+    const { salt, passwordHash } = AuthService.hashPassword(password);
+    const account = new Account(
+      this.nextAccountId(),
+      initialDeposit,
+      salt,
+      passwordHash,
+      "ACTIVE",
+      ownerName,
+      this.defaultLimits,
+      currency
+    );
+    this.commit([account], {
+      transactions: initialDeposit.isPositive()
+        ? [
+            this.ledger.entry(
+              account.id,
+              "DEPOSIT",
+              initialDeposit,
+              "",
+              account.balance
+            ),
+          ]
+        : [],
+    });
+    return account;
+  }
+
+  /**
+   * closeAccount
+   *
+   * Encerra definitivamente a conta, desde que seu saldo seja zero.
+   *
+   * @param accountId - ID da conta
+   * @throws Error se:
+   *
+   *    • Conta não existir (mensagem: "Conta de origem inexistente")
+   *
+   *    • Conta bloqueada ou já encerrada (mensagens: "Conta de origem bloqueada",
+   *      "Conta de origem encerrada")
+   *
+   *    • Saldo diferente de zero (mensagem: "Conta só pode ser encerrada com saldo zero")
+   *
+   *    • Transferências pendentes de aprovação (mensagem: "Conta possui
+   *      transferências pendentes")
+   */
+  public closeAccount(accountId: string): Promise<void> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      ensureActive(acc, "origem");
+      if (!acc.balance.isZero()) {
+        throw new OperationNotAllowedError(
+          "Conta só pode ser encerrada com saldo zero"
+        );
+      }
+      if (acc.pendingTransfers.length > 0) {
+        throw new OperationNotAllowedError(
+          "Conta possui transferências pendentes"
+        );
+      }
+      this.commit([acc.withStatus("CLOSED")]);
+    });
+  }
+
+  /**
+   * freezeAccount
+   *
+   * Bloqueia a conta: enquanto bloqueada, não aceita depósitos, saques nem
+   * transferências (como origem ou destino). O bloqueio registra quem o fez;
+   * a administração pode assumir um bloqueio feito pelo titular, para que ele
+   * não possa mais desfazê-lo.
+   *
+   * @param accountId - ID da conta
+   * @param by        - Quem bloqueia a conta (padrão: "OWNER")
+   * @throws Error se a conta não existir, já estiver bloqueada ("Conta já bloqueada")
+   *         ou estiver encerrada ("Conta de origem encerrada")
+   */
+  public freezeAccount(
+    accountId: string,
+    by: FreezeOrigin = "OWNER"
+  ): Promise<void> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      if (
+        acc.status === "FROZEN" &&
+        (acc.frozenBy === "ADMIN" || by === "OWNER")
+      ) {
+        throw new OperationNotAllowedError("Conta já bloqueada");
+      }
+      if (acc.status !== "FROZEN") {
+        ensureActive(acc, "origem");
+      }
+      this.commit([acc.withStatus("FROZEN", by)]);
+    });
+  }
+
+  /**
+   * unfreezeAccount
+   *
+   * Desbloqueia uma conta bloqueada. O titular só desfaz os bloqueios feitos
+   * por ele; a administração desfaz qualquer bloqueio.
+   *
+   * @param accountId - ID da conta
+   * @param by        - Quem desbloqueia a conta (padrão: "OWNER")
+   * @throws Error se a conta não existir, não estiver bloqueada
+   *         ("Conta não está bloqueada") ou, para o titular, tiver sido
+   *         bloqueada pela administração ("Conta bloqueada pela administração")
+   */
+  public unfreezeAccount(
+    accountId: string,
+    by: FreezeOrigin = "OWNER"
+  ): Promise<void> {
+    return this.locks.runExclusive([accountId], () => {
+      const acc = this.accounts.get(accountId);
+      if (!acc) {
+        throw new AccountNotFoundError("Conta de origem inexistente");
+      }
+      if (acc.status !== "FROZEN") {
+        throw new OperationNotAllowedError("Conta não está bloqueada");
+      }
+      if (acc.frozenBy === "ADMIN" && by === "OWNER") {
+        throw new OperationNotAllowedError(
+          "Conta bloqueada pela administração"
+        );
+      }
+      this.commit([acc.withStatus("ACTIVE")]);
+    });
+  }
+
+  /**
+   * Gera o próximo ID de conta: maior ID numérico existente + 1.
+   */
+  private nextAccountId(): string {
+    let max = 1000;
+    for (const id of this.accounts.keys()) {
+      const num = Number(id);
+      if (Number.isSafeInteger(num) && num > max) {
+        max = num;
+      }
+    }
+    return String(max + 1);
+  }
+}
+
+/**
+ * Garante que a conta esteja ativa.
+ * @param acc  - Conta verificada
+ * @param role - Papel da conta na operação ("origem" ou "destino"), usado na mensagem
+ * @throws Error "Conta de <papel> bloqueada" ou "Conta de <papel> encerrada"
+ */
+function ensureActive(acc: Account, role: "origem" | "destino"): void {
+  if (acc.status === "FROZEN") {
+    throw new AccountFrozenError(`Conta de ${role} bloqueada`);
+  }
+  if (acc.status === "CLOSED") {
+    throw new AccountClosedError(`Conta de ${role} encerrada`);
+  }
+}
+
+/**
+ * Garante que a conta seja aprovadora da política da origem e esteja ativa.
+ * @param source   - Conta de origem
+ * @param approver - Conta aprovadora (undefined se não existir)
+ * @throws ForbiddenError "Acesso negado à conta", AccountFrozenError "Conta
+ *         aprovadora bloqueada" ou AccountClosedError "Conta aprovadora
+ *         encerrada"
+ */
+function ensureApprover(source: Account, approver: Account | undefined): void {
+  if (!approver || !source.approval?.approvers.includes(approver.id)) {
+    throw new ForbiddenError("Acesso negado à conta");
+  }
+  if (approver.status === "FROZEN") {
+    throw new AccountFrozenError("Conta aprovadora bloqueada");
+  }
+  if (approver.status === "CLOSED") {
+    throw new AccountClosedError("Conta aprovadora encerrada");
+  }
+}
+
+/**
+ * Soma um crédito ao saldo, garantindo que o resultado não passe de
+ * Money.MAX (o maior saldo que o protocolo consegue enviar).
+ * @throws InvalidValueError "Saldo resultante acima do máximo permitido"
+ */
+function credit(balance: Money, amount: Money): Money {
+  const result = balance.plus(amount);
+  if (result.greaterThan(Money.MAX)) {
+    throw new InvalidValueError("Saldo resultante acima do máximo permitido");
+  }
+  return result;
+}
+
+/**
+ * Garante que a transferência não exija aprovação pela política da origem
+ * (transferências acima da política só são executadas via
+ * settlePendingTransfer).
+ * @param acc    - Conta de origem (undefined: a validação da transferência
+ *                 acusa a conta inexistente)
+ * @param amount - Valor da transferência
+ * @throws OperationNotAllowedError "Transferência exige aprovação"
+ */
+function ensureNoApproval(acc: Account | undefined, amount: Money): void {
+  if (acc?.approval?.requires(amount)) {
+    throw new OperationNotAllowedError("Transferência exige aprovação");
+  }
+}
+
+/**
+ * Garante que o valor respeite o limite por operação e o limite diário.
+ * @param amount                - Valor da operação
+ * @param perTransaction        - Limite por operação (undefined: sem limite)
+ * @param daily                 - Limite diário (undefined: sem limite)
+ * @param usedToday             - Total já movimentado no dia
+ * @param perTransactionMessage - Mensagem se o limite por operação for excedido
+ * @param dailyMessage          - Mensagem se o limite diário for excedido
+ * @throws LimitExceededError com a mensagem correspondente
+ */
+function ensureWithinLimits(
+  amount: Money,
+  perTransaction: Money | undefined,
+  daily: Money | undefined,
+  usedToday: Money,
+  perTransactionMessage: string,
+  dailyMessage: string
+): void {
+  if (perTransaction && amount.greaterThan(perTransaction)) {
+    throw new LimitExceededError(perTransactionMessage);
+  }
+  if (daily && usedToday.plus(amount).greaterThan(daily)) {
+    throw new LimitExceededError(dailyMessage);
+  }
+}
+
+/**
+ * Data atual em UTC (YYYY-MM-DD), usada nos limites diários.
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Lançamento pendente de um rascunho, gravado no livro-razão junto com as
+ * contas.
+ */
+interface DraftEntry {
+  accountId: string;
+  type: TransactionType;
+  amount: Money;
+  counterparty: string;
+  balance: Money;
+}
+
+/**
+ * Alterações ainda não gravadas de uma ou mais operações: contas alteradas e
+ * lançamentos a registrar. As leituras enxergam as alterações já aplicadas ao
+ * rascunho, de modo que operações seguintes de um lote usam os saldos e os
+ * totais diários atualizados. Descartar o rascunho desfaz todas as operações.
+ */
+class Draft {
+  readonly accounts = new Map<string, Account>();
+  readonly entries: DraftEntry[] = [];
+
+  /**
+   * @param base   - Contas gravadas (estado atual do BankService)
+   * @param ledger - Livro-razão, usado nos totais diários
+   */
+  constructor(
+    private readonly base: Map<string, Account>,
+    private readonly ledger: LedgerService
+  ) {}
+
+  /**
+   * Retorna a conta com as alterações do rascunho, se houver.
+   */
+  get(accountId: string): Account | undefined {
+    return this.accounts.get(accountId) ?? this.base.get(accountId);
+  }
+
+  /**
+   * Registra novas versões de contas no rascunho.
+   */
+  put(...accounts: Account[]): void {
+    for (const account of accounts) {
+      this.accounts.set(account.id, account);
+    }
+  }
+
+  /**
+   * Registra um lançamento pendente.
+   */
+  record(
+    accountId: string,
+    type: TransactionType,
+    amount: Money,
+    counterparty: string,
+    balance: Money
+  ): void {
+    this.entries.push({ accountId, type, amount, counterparty, balance });
+  }
+
+  /**
+   * Total movimentado no dia (UTC) pela conta no tipo de lançamento, somando
+   * o livro-razão e os lançamentos pendentes do rascunho.
+   */
+  dailyTotal(accountId: string, type: TransactionType): Money {
+    return this.entries
+      .filter((entry) => entry.accountId === accountId && entry.type === type)
+      .reduce(
+        (total, entry) => total.plus(entry.amount),
+        this.ledger.dailyTotal(accountId, type, today())
+      );
   }
 }
@@ -0,0 +1,136 @@
+/**
+ * ExchangeRateService
+ *
+ * Responsável pela tabela de câmbio local usada nas transferências entre contas
+ * de moedas diferentes.
+ *
+ * A tabela é lida de exchange-rates.json (ou do arquivo indicado na
+ * configuração, exchangeRates): um objeto que associa cada código ISO 4217 ao
+ * valor de uma unidade da moeda em uma moeda de referência comum, com até seis
+ * casas decimais (ex.: { "BRL": "1", "USD": "5.40" }). Se o arquivo não
+ * existir, apenas a moeda padrão (DEFAULT_CURRENCY) é suportada.
+ *
+ * As conversões são exatas (bigint) e arredondadas para o centavo mais
+ * próximo.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { Money } from "../models/money";
+import { DEFAULT_CURRENCY } from "../models/account";
+import { UnsupportedCurrencyError } from "../errors/gbtp-error";
+
+/**
+ * Escala das cotações: seis casas decimais.
+ */
+const RATE_SCALE = 1_000_000n;
+
+/**
+ * Formato aceito para as cotações da tabela.
+ */
+const RATE_PATTERN = /^(\d+)(?:\.(\d{1,6}))?$/;
+
+/**
+ * Resultado de uma conversão entre moedas.
+ *
+ * - amount: valor convertido na moeda de destino.
+ * - rate: unidades da moeda de destino por unidade da moeda de origem, com
+ *   seis casas decimais (ex.: "0.185185").
+ */
+export interface Conversion {
+  amount: Money;
+  rate: string;
+}
+
+export class ExchangeRateService {
+  private rates: Map<string, bigint> = new Map();
+
+  /**
+   * Construtor:
+   * - Define o caminho da tabela de câmbio (por padrão,
+   *   "../../exchange-rates.json" em relação ao __dirname).
+   * - Carrega e valida as cotações.
+   *
+   * @param ratesPath - Caminho da tabela de câmbio (opcional)
+   * @throws Error se alguma moeda ou cotação da tabela for inválida
+   */
+  constructor(
+    ratesPath: string = path.resolve(__dirname, "../../exchange-rates.json")
+  ) {
+    if (!fs.existsSync(ratesPath)) {
+      this.rates.set(DEFAULT_CURRENCY, RATE_SCALE);
+      return;
+    }
+    const raw = fs.readFileSync(ratesPath, { encoding: "utf8" });
+    const table = JSON.parse(raw) as Record<string, string>;
+    for (const [currency, rate] of Object.entries(table)) {
+      const match = RATE_PATTERN.exec(String(rate));
+      if (!/^[A-Z]{3}$/.test(currency) || !match) {
+        throw new Error(`Taxa de câmbio inválida para ${currency}: ${rate}`);
+      }
+      const [, units, decimals = ""] = match;
+      const scaled =
+        BigInt(units) * RATE_SCALE + BigInt(decimals.padEnd(6, "0"));
+      if (scaled === 0n) {
+        throw new Error(`Taxa de câmbio inválida para ${currency}: ${rate}`);
+      }
+      this.rates.set(currency, scaled);
+    }
+  }
+
+  /**
+   * Indica se a moeda está na tabela de câmbio.
+   * @param currency Código ISO 4217
+   */
+  public supports(currency: string): boolean {
+    return this.rates.has(currency);
+  }
+
+  /**
+   * convert
+   *
+   * Converte um valor entre duas moedas da tabela.
+   *
+   * @param amount - Valor na moeda de origem
+   * @param from   - Moeda de origem
+   * @param to     - Moeda de destino
+   * @returns valor convertido e taxa aplicada
+   * @throws UnsupportedCurrencyError se alguma das moedas não estiver na
+   *         tabela (mensagem: "Moeda não suportada: <código>")
+   */
+  public convert(amount: Money, from: string, to: string): Conversion {
+    const fromRate = this.rate(from);
+    const toRate = this.rate(to);
+    return {
+      amount: Money.fromCents(
+        divideRounded(amount.toCents() * fromRate, toRate)
+      ),
+      rate: formatRate(divideRounded(fromRate * RATE_SCALE, toRate)),
+    };
+  }
+
+  /**
+   * Retorna a cotação de uma moeda na escala RATE_SCALE.
+   */
+  private rate(currency: string): bigint {
+    const rate = this.rates.get(currency);
+    if (rate === undefined) {
+      throw new UnsupportedCurrencyError(`Moeda não suportada: ${currency}`);
+    }
+    return rate;
+  }
+}
+
+/**
+ * Divisão inteira arredondada para o inteiro mais próximo (metade para cima).
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  return (dividend * 2n + divisor) / (divisor * 2n);
+}
+
+/**
+ * Formata uma cotação na escala RATE_SCALE com seis casas decimais.
+ */
+function formatRate(scaled: bigint): string {
+  const decimals = (scaled % RATE_SCALE).toString().padStart(6, "0");
+  return `${scaled / RATE_SCALE}.${decimals}`;
+}
@@ -0,0 +1,953 @@
+/**
+ * FraudService
+ *
+ * Responsável pelas regras antifraude aplicadas às operações de saída
+ * (WITHDRAW, TRANSFER e os saques e transferências de um BATCH) antes da
+ * execução pelo BankService, e pela fila de transações retidas para análise
+ * manual. Um agendamento (SCHEDULE_TRANSFER) é avaliado como uma TRANSFER ao
+ * ser criado, e cada execução dele pelo SchedulerService é avaliada de novo.
+ *
+ * As regras são lidas de fraud-rules.json (ou do arquivo indicado na
+ * configuração, fraudRules): uma lista de objetos com os campos abaixo. Se o
+ * arquivo não existir, nenhuma regra é aplicada e todas as transações são
+ * liberadas.
+ *
+ * - name: nome da regra (registrado nas decisões)
+ * - type: "VELOCITY", "AMOUNT", "NEW_DESTINATION" ou "NIGHT_TIME"
+ * - action: "REJECT" (recusa) ou "HOLD" (retém para análise)
+ * - operations: operações avaliadas ("WITHDRAW" e/ou "TRANSFER"; padrão:
+ *   ambas)
+ * - minAmount: valor mínimo, na moeda da conta, para a regra se aplicar
+ *   (obrigatório em AMOUNT; padrão "0.00" nas demais)
+ * - VELOCITY: windowSeconds e ao menos um de maxCount (quantidade) e
+ *   maxAmount (soma dos valores) das operações liberadas na janela, incluindo
+ *   a atual; as liberadas cuja execução falhou são desfeitas por revert e
+ *   não contam
+ * - NEW_DESTINATION: aciona em transferências para contas que nunca
+ *   receberam transferência da conta de origem
+ * - NIGHT_TIME: start e end ("HH:MM", horário local do servidor); aciona entre
+ *   start (inclusive) e end (exclusive), mesmo que o intervalo passe da
+ *   meia-noite
+ *
+ * Se alguma regra acionada for "REJECT", a transação é recusada; senão, se
+ * alguma for "HOLD", ela é retida; caso contrário, é liberada.
+ *
+ * Cada avaliação e cada análise manual gera uma FraudDecision, acrescentada a
+ * fraud-decisions.jsonl (um JSON por linha, como o livro-razão). Retenções,
+ * recusas e análises são gravadas antes da resposta, pois a fila de análise
+ * depende delas; as liberações, que são a maior parte do tráfego, e as
+ * liberações desfeitas são gravadas em segundo plano. O registro é relido na
+ * inicialização, preservando entre reinícios a fila de análise e o histórico
+ * usado pelas regras de frequência.
+ *
+ * Em memória, o histórico de cada conta guarda apenas as saídas liberadas
+ * dentro da maior janela de VELOCITY; as mais antigas são descartadas.
+ *
+ * A aprovação de uma transação retida grava, na mesma operação atômica do
+ * AccountRepository que a execução, um registro da aprovação (com a chave
+ * "review:<REVIEW_ID>"). Se o servidor parar entre a execução e a gravação da
+ * decisão "APPROVED", a análise é concluída na inicialização a partir desse
+ * registro, e a transação nunca é executada duas vezes.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import {
+  FRAUD_VERDICTS,
+  FraudDecision,
+  FraudVerdict,
+  SCREENED_ITEM_OPERATIONS,
+  SCREENED_OPERATIONS,
+  ScreenedItem,
+  ScreenedOperation,
+} from "../models/fraud-decision";
+import { Money } from "../models/money";
+import { RECURRENCES, Recurrence } from "../models/scheduled-transfer";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { AccountRepository } from "../repositories/account-repository";
+import { BankService } from "./bank-service";
+import { logger } from "./logger";
+import {
+  OperationNotAllowedError,
+  ReviewNotFoundError,
+} from "../errors/gbtp-error";
+
+/**
+ * Tipos de regra suportados.
+ */
+const RULE_TYPES = [
+  "VELOCITY",
+  "AMOUNT",
+  "NEW_DESTINATION",
+  "NIGHT_TIME",
+] as const;
+
+/**
+ * Operações de saída avaliadas pelas regras.
+ */
+const OUTGOING_OPERATIONS = ["WITHDRAW", "TRANSFER"] as const;
+
+/**
+ * Retenção do registro de uma aprovação no repositório, em milissegundos (30
+ * dias).
+ */
+const APPROVAL_RECORD_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Formato dos horários de NIGHT_TIME.
+ */
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+type OutgoingOperation = (typeof OUTGOING_OPERATIONS)[number];
+
+/**
+ * Transação de saída submetida às regras.
+ *
+ * - accountId: conta de origem
+ * - operation: WITHDRAW, TRANSFER, BATCH ou SCHEDULE_TRANSFER
+ * - destination: conta de destino (apenas em TRANSFER e SCHEDULE_TRANSFER)
+ * - amount: valor da transação (zero em BATCH)
+ * - mode / items: modo de execução e operações (apenas em BATCH)
+ * - runDate / recurrence: data e recorrência (apenas em SCHEDULE_TRANSFER)
+ * - scheduleId: agendamento executado (apenas nas execuções do
+ *   SchedulerService)
+ */
+export interface ScreenedTransaction {
+  accountId: string;
+  operation: ScreenedOperation;
+  destination?: string;
+  amount: Money;
+  mode?: string;
+  items?: ScreenedItem[];
+  runDate?: string;
+  recurrence?: Recurrence;
+  scheduleId?: string;
+}
+
+/**
+ * Campos comuns a todas as regras carregadas de fraud-rules.json.
+ */
+interface BaseRule {
+  name: string;
+  action: "REJECT" | "HOLD";
+  operations: OutgoingOperation[];
+  minAmount: Money;
+}
+
+/**
+ * Regra VELOCITY, com a janela em milissegundos e ao menos um dos limites.
+ */
+interface VelocityRule extends BaseRule {
+  type: "VELOCITY";
+  windowMs: number;
+  maxCount?: number;
+  maxAmount?: Money;
+}
+
+/**
+ * Regra NIGHT_TIME, com os horários em minutos desde a meia-noite.
+ */
+interface NightTimeRule extends BaseRule {
+  type: "NIGHT_TIME";
+  start: number;
+  end: number;
+}
+
+/**
+ * Regras sem campos próprios (AMOUNT usa apenas minAmount).
+ */
+interface SimpleRule extends BaseRule {
+  type: "AMOUNT" | "NEW_DESTINATION";
+}
+
+/**
+ * Regra carregada de fraud-rules.json.
+ */
+type FraudRule = VelocityRule | NightTimeRule | SimpleRule;
+
+/**
+ * Operação de saída avaliada individualmente (a própria transação ou um item
+ * de BATCH).
+ */
+interface OutgoingCheck {
+  operation: OutgoingOperation;
+  destination?: string;
+  amount: Money;
+}
+
+/**
+ * Saídas liberadas de uma decisão, guardadas no histórico da conta para as
+ * regras de frequência.
+ */
+interface HistoryEntry {
+  id: string;
+  time: number;
+  checks: OutgoingCheck[];
+}
+
+export class FraudService {
+  private readonly rules: FraudRule[] = [];
+  private readonly history: Map<string, HistoryEntry[]> = new Map();
+  private readonly held: Map<string, FraudDecision> = new Map();
+  private readonly reviewing: Set<string> = new Set();
+  private readonly historyMs: number;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Construtor:
+   * - Carrega e valida as regras (por padrão, "../../fraud-rules.json" em
+   *   relação ao __dirname).
+   * - Carrega o registro de decisões (por padrão, "../../fraud-decisions.jsonl"
+   *   em relação ao __dirname) e reconstrói a fila de análise.
+   * - Conclui as aprovações cuja execução foi gravada sem a decisão.
+   *
+   * @param service    - Regras de negócio das contas (histórico de destinos)
+   * @param repository - Repositório onde as aprovações são gravadas junto com
+   *                     a execução
+   * @param rulesPath  - Caminho das regras (opcional)
+   * @param logPath    - Caminho do registro de decisões (opcional)
+   * @throws Error se alguma regra for inválida
+   */
+  constructor(
+    private readonly service: BankService,
+    private readonly repository: AccountRepository,
+    rulesPath: string = path.resolve(__dirname, "../../fraud-rules.json"),
+    private readonly logPath: string = path.resolve(
+      __dirname,
+      "../../fraud-decisions.jsonl"
+    )
+  ) {
+    if (fs.existsSync(rulesPath)) {
+      const raw = fs.readFileSync(rulesPath, { encoding: "utf8" });
+      const rules: unknown = JSON.parse(raw);
+      if (!Array.isArray(rules)) {
+        throw new Error("Regras antifraude devem ser uma lista");
+      }
+      this.rules = rules.map(parseRule);
+    }
+    this.historyMs = Math.max(
+      0,
+      ...this.rules.map((rule) =>
+        rule.type === "VELOCITY" ? rule.windowMs : 0
+      )
+    );
+    if (fs.existsSync(this.logPath)) {
+      this.loadDecisions();
+    }
+    this.recoverApprovals();
+  }
+
+  /**
+   * Carrega as decisões de fraud-decisions.jsonl, ignorando linhas vazias,
+   * mantém na fila de análise as retenções ainda não analisadas e, no
+   * histórico, apenas as liberações dentro da maior janela de VELOCITY.
+   */
+  private loadDecisions() {
+    const since = Date.now() - this.historyMs;
+    const raw = fs.readFileSync(this.logPath, { encoding: "utf8" });
+    raw.split("\n").forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+      let decision: FraudDecision;
+      try {
+        decision = parseStoredDecision(JSON.parse(line));
+      } catch (err) {
+        throw new Error(
+          `Registro de decisões inválido (${this.logPath}, linha ${
+            index + 1
+          }): ${(err as Error).message}`
+        );
+      }
+      if (decision.verdict === "HOLD") {
+        this.held.set(decision.id, decision);
+      } else if (decision.reviewOf) {
+        this.held.delete(decision.reviewOf);
+      }
+      if (Date.parse(decision.timestamp) > since) {
+        this.remember(decision);
+      }
+    });
+  }
+
+  /**
+   * Registra como aprovadas as retenções cuja execução já foi gravada (o
+   * servidor parou antes de gravar a decisão "APPROVED").
+   */
+  private recoverApprovals() {
+    for (const held of this.pendingReviews()) {
+      const approval = this.repository.findIdempotencyRecord(
+        approvalKey(held.id)
+      );
+      if (approval) {
+        this.resolve(held, "APPROVED", approval.response);
+      }
+    }
+  }
+
+  /**
+   * flush
+   *
+   * Aguarda a gravação das liberações ainda pendentes em
+   * fraud-decisions.jsonl.
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * screen
+   *
+   * Avalia uma transação de saída pelas regras e registra a decisão. Em BATCH,
+   * cada saque e transferência do lote é avaliado, e os anteriores contam nas
+   * regras de frequência dos seguintes.
+   *
+   * @param transaction - Transação a avaliar
+   * @param now         - Momento da avaliação (padrão: agora)
+   * @returns decisão registrada ("ALLOW", "REJECT" ou "HOLD"); em "HOLD", o
+   *          id da decisão identifica a transação na fila de análise
+   */
+  public screen(
+    transaction: ScreenedTransaction,
+    now: Date = new Date()
+  ): FraudDecision {
+    this.prune(transaction.accountId, now);
+    const checks = outgoingChecks(transaction);
+    const triggered = new Set<FraudRule>();
+    checks.forEach((check, index) => {
+      for (const rule of this.rules) {
+        if (
+          rule.operations.includes(check.operation) &&
+          check.amount.compare(rule.minAmount) >= 0 &&
+          this.triggers(
+            rule,
+            check,
+            transaction.accountId,
+            checks.slice(0, index),
+            now
+          )
+        ) {
+          triggered.add(rule);
+        }
+      }
+    });
+
+    const actions = [...triggered].map((rule) => rule.action);
+    const verdict: FraudVerdict = actions.includes("REJECT")
+      ? "REJECT"
+      : actions.includes("HOLD")
+        ? "HOLD"
+        : "ALLOW";
+    const decision = this.record(verdict, transaction, now, {
+      rules: [...triggered].map((rule) => rule.name),
+    });
+    if (verdict === "HOLD") {
+      this.held.set(decision.id, decision);
+    }
+    return decision;
+  }
+
+  /**
+   * revert
+   *
+   * Desfaz, nas regras de frequência, uma liberação cuja operação não foi
+   * executada (p. ex. saldo insuficiente ou lote ATOMIC desfeito): registra
+   * uma decisão "REVERTED" e retira as saídas do histórico da conta. Em um
+   * lote BEST_EFFORT, apenas as operações que falharam são informadas.
+   *
+   * @param decision - Decisão "ALLOW" da transação
+   * @param items    - Operações do lote não executadas (padrão: todas)
+   */
+  public revert(
+    decision: FraudDecision,
+    items: ScreenedItem[] = decision.items
+  ): void {
+    const reverted = { ...decision, items };
+    if (
+      decision.verdict !== "ALLOW" ||
+      decision.operation === "SCHEDULE_TRANSFER" ||
+      outgoingChecks(reverted).length === 0
+    ) {
+      return;
+    }
+    this.record("REVERTED", reverted, new Date(), {
+      rules: [],
+      reverts: decision.id,
+    });
+  }
+
+  /**
+   * pendingReviews
+   *
+   * Retorna as transações retidas aguardando análise, da mais antiga para a
+   * mais recente.
+   *
+   * @returns decisões "HOLD" ainda não analisadas
+   */
+  public pendingReviews(): FraudDecision[] {
+    return [...this.held.values()];
+  }
+
+  /**
+   * approve
+   *
+   * Aprova uma transação retida: executa-a e, somente se a execução for
+   * bem-sucedida, registra a aprovação e a retira da fila. Se a execução
+   * falhar (p. ex. saldo insuficiente), a transação continua na fila.
+   *
+   * A execução deve gravar o registro recebido (approval) na mesma operação
+   * atômica que a transação. Se ele já estiver gravado, a transação não é
+   * executada de novo: apenas a aprovação é registrada.
+   *
+   * @param reviewId - ID da decisão "HOLD"
+   * @param reason   - Motivo da aprovação
+   * @param execute  - Executa a transação retida
+   * @returns decisão "APPROVED" registrada
+   * @throws ReviewNotFoundError se a transação não estiver na fila ("Análise
+   *         inexistente"), OperationNotAllowedError se ela já estiver sendo
+   *         analisada ("Análise em andamento") ou o erro da execução
+   */
+  public async approve(
+    reviewId: string,
+    reason: string,
+    execute: (
+      held: FraudDecision,
+      approval: () => IdempotencyRecord
+    ) => Promise<void>
+  ): Promise<FraudDecision> {
+    const held = this.claim(reviewId);
+    try {
+      if (!this.repository.findIdempotencyRecord(approvalKey(held.id))) {
+        await execute(held, () => approvalRecord(held.id, reason));
+      }
+      return this.resolve(held, "APPROVED", reason);
+    } finally {
+      this.reviewing.delete(reviewId);
+    }
+  }
+
+  /**
+   * decline
+   *
+   * Recusa uma transação retida, registrando a recusa e retirando-a da fila.
+   *
+   * @param reviewId - ID da decisão "HOLD"
+   * @param reason   - Motivo da recusa
+   * @returns decisão "DECLINED" registrada
+   * @throws ReviewNotFoundError ou OperationNotAllowedError, como em approve
+   */
+  public decline(reviewId: string, reason: string): FraudDecision {
+    const held = this.claim(reviewId);
+    try {
+      return this.resolve(held, "DECLINED", reason);
+    } finally {
+      this.reviewing.delete(reviewId);
+    }
+  }
+
+  /**
+   * Reserva uma transação retida para análise, impedindo que duas análises
+   * simultâneas a executem duas vezes.
+   */
+  private claim(reviewId: string): FraudDecision {
+    const held = this.held.get(reviewId);
+    if (!held) {
+      throw new ReviewNotFoundError("Análise inexistente");
+    }
+    if (this.reviewing.has(reviewId)) {
+      throw new OperationNotAllowedError("Análise em andamento");
+    }
+    this.reviewing.add(reviewId);
+    return held;
+  }
+
+  /**
+   * Registra a análise de uma transação retida e a retira da fila.
+   */
+  private resolve(
+    held: FraudDecision,
+    verdict: "APPROVED" | "DECLINED",
+    reason: string
+  ): FraudDecision {
+    const decision = this.record(verdict, held, new Date(), {
+      rules: held.rules,
+      reviewOf: held.id,
+      reason,
+    });
+    this.held.delete(held.id);
+    return decision;
+  }
+
+  /**
+   * Cria uma decisão, acrescenta-a a fraud-decisions.jsonl e a inclui no
+   * histórico da conta. Liberações e liberações desfeitas são gravadas em
+   * segundo plano; recusas, retenções e análises, de forma síncrona, e também
+   * registradas no log.
+   */
+  private record(
+    verdict: FraudVerdict,
+    transaction: ScreenedTransaction,
+    now: Date,
+    options: {
+      rules: string[];
+      reviewOf?: string;
+      reverts?: string;
+      reason?: string;
+    }
+  ): FraudDecision {
+    const decision = new FraudDecision(
+      randomUUID(),
+      now.toISOString(),
+      verdict,
+      transaction.accountId,
+      transaction.operation,
+      transaction.amount,
+      {
+        destination: transaction.destination,
+        mode: transaction.mode,
+        items: transaction.items,
+        runDate: transaction.runDate,
+        recurrence: transaction.recurrence,
+        scheduleId: transaction.scheduleId,
+        ...options,
+      }
+    );
+    const line = JSON.stringify(decision) + "\n";
+    this.remember(decision);
+    if (verdict === "ALLOW" || verdict === "REVERTED") {
+      this.pendingWrite = this.pendingWrite
+        .then(() =>
+          fs.promises.appendFile(this.logPath, line, { encoding: "utf8" })
+        )
+        .catch((err) =>
+          logger.error("Erro ao gravar decisão antifraude", {
+            decisionId: decision.id,
+            error: err,
+          })
+        );
+    } else {
+      fs.appendFileSync(this.logPath, line, { encoding: "utf8" });
+      logger.info("Decisão antifraude", {
+        verdict,
+        decisionId: decision.id,
+        operation: decision.operation,
+        accountId: decision.accountId,
+        rules: decision.rules,
+      });
+    }
+    return decision;
+  }
+
+  /**
+   * Inclui as saídas liberadas da decisão no histórico da conta, ou retira as
+   * de uma liberação desfeita, se houver regras de frequência. Agendamentos
+   * criados não movimentam a conta: só suas execuções contam no histórico.
+   */
+  private remember(decision: FraudDecision) {
+    if (decision.verdict === "REVERTED") {
+      this.forget(decision);
+      return;
+    }
+    if (
+      this.historyMs === 0 ||
+      decision.operation === "SCHEDULE_TRANSFER" ||
+      (decision.verdict !== "ALLOW" && decision.verdict !== "APPROVED")
+    ) {
+      return;
+    }
+    const entries = this.history.get(decision.accountId) ?? [];
+    entries.push({
+      id: decision.id,
+      time: Date.parse(decision.timestamp),
+      checks: outgoingChecks(decision),
+    });
+    this.history.set(decision.accountId, entries);
+  }
+
+  /**
+   * Retira do histórico da conta as saídas de uma liberação desfeita (em um
+   * lote, apenas as operações não executadas).
+   */
+  private forget(reverted: FraudDecision) {
+    const entries = this.history.get(reverted.accountId) ?? [];
+    const entry = entries.find((item) => item.id === reverted.reverts);
+    if (!entry) {
+      return;
+    }
+    for (const check of outgoingChecks(reverted)) {
+      const index = entry.checks.findIndex(
+        (item) =>
+          item.operation === check.operation &&
+          item.destination === check.destination &&
+          item.amount.compare(check.amount) === 0
+      );
+      if (index >= 0) {
+        entry.checks.splice(index, 1);
+      }
+    }
+    if (entry.checks.length === 0) {
+      entries.splice(entries.indexOf(entry), 1);
+    }
+  }
+
+  /**
+   * Descarta do histórico da conta as saídas fora da maior janela de
+   * VELOCITY.
+   */
+  private prune(accountId: string, now: Date) {
+    const entries = this.history.get(accountId);
+    if (!entries) {
+      return;
+    }
+    const since = now.getTime() - this.historyMs;
+    const kept = entries.filter((entry) => entry.time > since);
+    if (kept.length === 0) {
+      this.history.delete(accountId);
+    } else {
+      this.history.set(accountId, kept);
+    }
+  }
+
+  /**
+   * Indica se a regra é acionada pela operação informada.
+   *
+   * @param rule      - Regra avaliada
+   * @param check     - Operação avaliada
+   * @param accountId - Conta de origem
+   * @param previous  - Operações anteriores da mesma transação (em BATCH)
+   * @param now       - Momento da avaliação
+   */
+  private triggers(
+    rule: FraudRule,
+    check: OutgoingCheck,
+    accountId: string,
+    previous: OutgoingCheck[],
+    now: Date
+  ): boolean {
+    switch (rule.type) {
+      case "AMOUNT":
+        return true;
+
+      case "NEW_DESTINATION":
+        return (
+          check.operation === "TRANSFER" &&
+          check.destination !== undefined &&
+          !this.service.hasTransferredTo(accountId, check.destination)
+        );
+
+      case "NIGHT_TIME": {
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        return rule.start <= rule.end
+          ? minutes >= rule.start && minutes < rule.end
+          : minutes >= rule.start || minutes < rule.end;
+      }
+
+      case "VELOCITY": {
+        const since = now.getTime() - rule.windowMs;
+        const recent = (this.history.get(accountId) ?? [])
+          .filter((entry) => entry.time > since)
+          .flatMap((entry) => entry.checks);
+        const counted = [...recent, ...previous, check].filter((item) =>
+          rule.operations.includes(item.operation)
+        );
+        const total = counted.reduce(
+          (sum, item) => sum.plus(item.amount),
+          Money.ZERO
+        );
+        return (
+          (rule.maxCount !== undefined && counted.length > rule.maxCount) ||
+          (rule.maxAmount !== undefined && total.greaterThan(rule.maxAmount))
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Chave do registro de aprovação de uma transação retida.
+ */
+function approvalKey(reviewId: string): string {
+  return `review:${reviewId}`;
+}
+
+/**
+ * Registro de aprovação de uma transação retida, gravado junto com a
+ * execução: a chave e a impressão identificam a retenção, e a resposta
+ * guarda o motivo da aprovação.
+ */
+function approvalRecord(reviewId: string, reason: string): IdempotencyRecord {
+  return new IdempotencyRecord(
+    approvalKey(reviewId),
+    reviewId,
+    reason,
+    new Date(Date.now() + APPROVAL_RECORD_TTL_MS).toISOString()
+  );
+}
+
+/**
+ * Operações de saída de uma transação: a própria transação (um agendamento é
+ * avaliado como TRANSFER) ou os saques e transferências do lote.
+ */
+function outgoingChecks(transaction: ScreenedTransaction): OutgoingCheck[] {
+  if (transaction.operation !== "BATCH") {
+    return [
+      {
+        operation:
+          transaction.operation === "SCHEDULE_TRANSFER"
+            ? "TRANSFER"
+            : transaction.operation,
+        destination: transaction.destination,
+        amount: transaction.amount,
+      },
+    ];
+  }
+  return (transaction.items ?? []).flatMap((item) =>
+    item.operation === "DEPOSIT"
+      ? []
+      : [
+          {
+            operation: item.operation,
+            destination: item.destination,
+            amount: item.amount,
+          },
+        ]
+  );
+}
+
+/**
+ * Valida uma regra de fraud-rules.json e a converte para FraudRule.
+ * @throws Error se algum campo for inválido
+ */
+function parseRule(raw: unknown, index: number): FraudRule {
+  const fields = isRecord(raw) ? raw : {};
+  const name =
+    typeof fields.name === "string" && fields.name.trim().length > 0
+      ? fields.name.trim()
+      : undefined;
+  const invalid = (detail: string) =>
+    new Error(`Regra antifraude ${name ?? index + 1} inválida: ${detail}`);
+
+  if (!isRecord(raw)) {
+    throw invalid("deve ser um objeto");
+  }
+  if (!name) {
+    throw invalid("name obrigatório");
+  }
+  const { type, action } = raw;
+  if (!isOneOf(RULE_TYPES, type)) {
+    throw invalid(`type deve ser ${RULE_TYPES.join(", ")}`);
+  }
+  if (action !== "REJECT" && action !== "HOLD") {
+    throw invalid("action deve ser REJECT ou HOLD");
+  }
+  const operations: unknown =
+    type === "NEW_DESTINATION"
+      ? ["TRANSFER"]
+      : (raw.operations ?? [...OUTGOING_OPERATIONS]);
+  if (
+    !Array.isArray(operations) ||
+    operations.length === 0 ||
+    !operations.every((op) => isOneOf(OUTGOING_OPERATIONS, op))
+  ) {
+    throw invalid("operations deve conter WITHDRAW e/ou TRANSFER");
+  }
+  if (type === "AMOUNT" && raw.minAmount === undefined) {
+    throw invalid("minAmount obrigatório");
+  }
+  const base: BaseRule = {
+    name,
+    action,
+    operations,
+    minAmount: parseAmount(raw.minAmount ?? "0.00", "minAmount", invalid),
+  };
+
+  switch (type) {
+    case "VELOCITY": {
+      const { windowSeconds, maxCount, maxAmount } = raw;
+      if (
+        typeof windowSeconds !== "number" ||
+        !Number.isInteger(windowSeconds) ||
+        windowSeconds <= 0
+      ) {
+        throw invalid("windowSeconds deve ser um inteiro positivo");
+      }
+      if (maxCount === undefined && maxAmount === undefined) {
+        throw invalid("informe maxCount e/ou maxAmount");
+      }
+      if (
+        maxCount !== undefined &&
+        (typeof maxCount !== "number" ||
+          !Number.isInteger(maxCount) ||
+          maxCount < 0)
+      ) {
+        throw invalid("maxCount deve ser um inteiro não negativo");
+      }
+      return {
+        ...base,
+        type,
+        windowMs: windowSeconds * 1000,
+        maxCount,
+        maxAmount:
+          maxAmount === undefined
+            ? undefined
+            : parseAmount(maxAmount, "maxAmount", invalid),
+      };
+    }
+
+    case "NIGHT_TIME": {
+      const start = parseTime(raw.start, "start", invalid);
+      const end = parseTime(raw.end, "end", invalid);
+      if (start === end) {
+        throw invalid("start e end devem ser diferentes");
+      }
+      return { ...base, type, start, end };
+    }
+
+    default:
+      return { ...base, type };
+  }
+}
+
+/**
+ * Converte uma linha de fraud-decisions.jsonl em FraudDecision.
+ * @throws Error se algum campo for inválido
+ */
+function parseStoredDecision(raw: unknown): FraudDecision {
+  if (!isRecord(raw)) {
+    throw new Error("a decisão deve ser um objeto");
+  }
+  const { id, timestamp, verdict, accountId, operation, items, rules } = raw;
+  if (
+    typeof id !== "string" ||
+    typeof timestamp !== "string" ||
+    typeof accountId !== "string"
+  ) {
+    throw new Error("id, timestamp e accountId devem ser textos");
+  }
+  if (!isOneOf(FRAUD_VERDICTS, verdict)) {
+    throw new Error(`verdict inválido: ${verdict}`);
+  }
+  if (!isOneOf(SCREENED_OPERATIONS, operation)) {
+    throw new Error(`operation inválida: ${operation}`);
+  }
+  if (raw.recurrence !== undefined && !isOneOf(RECURRENCES, raw.recurrence)) {
+    throw new Error(`recurrence inválida: ${raw.recurrence}`);
+  }
+  if (
+    rules !== undefined &&
+    (!Array.isArray(rules) || !rules.every((rule) => typeof rule === "string"))
+  ) {
+    throw new Error("rules deve ser uma lista de textos");
+  }
+  if (items !== undefined && !Array.isArray(items)) {
+    throw new Error("items deve ser uma lista");
+  }
+  return new FraudDecision(
+    id,
+    timestamp,
+    verdict,
+    accountId,
+    operation,
+    storedAmount(raw.amount),
+    {
+      destination: optionalText(raw.destination, "destination"),
+      mode: optionalText(raw.mode, "mode"),
+      items: (items ?? []).map(parseStoredItem),
+      runDate: optionalText(raw.runDate, "runDate"),
+      recurrence: raw.recurrence,
+      scheduleId: optionalText(raw.scheduleId, "scheduleId"),
+      rules,
+      reviewOf: optionalText(raw.reviewOf, "reviewOf"),
+      reverts: optionalText(raw.reverts, "reverts"),
+      reason: optionalText(raw.reason, "reason"),
+    }
+  );
+}
+
+/**
+ * Converte uma operação de lote gravada em uma decisão.
+ * @throws Error se algum campo for inválido
+ */
+function parseStoredItem(raw: unknown): ScreenedItem {
+  if (!isRecord(raw) || !isOneOf(SCREENED_ITEM_OPERATIONS, raw.operation)) {
+    throw new Error("operação de lote inválida");
+  }
+  return {
+    operation: raw.operation,
+    destination: optionalText(raw.destination, "destination"),
+    amount: storedAmount(raw.amount),
+  };
+}
+
+/**
+ * Converte um valor monetário gravado (texto ou, em registros antigos,
+ * número).
+ * @throws Error se o valor for inválido
+ */
+function storedAmount(value: unknown): Money {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`valor inválido: ${value}`);
+  }
+  return Money.fromJSON(value);
+}
+
+/**
+ * Valida um campo de texto opcional de uma decisão gravada.
+ * @throws Error se o campo existir e não for texto
+ */
+function optionalText(value: unknown, field: string): string | undefined {
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`${field} deve ser um texto`);
+  }
+  return value;
+}
+
+/**
+ * Indica se o valor é um objeto JSON (e não uma lista ou null).
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Indica se o valor é um dos valores permitidos.
+ */
+function isOneOf<T extends string>(
+  allowed: readonly T[],
+  value: unknown
+): value is T {
+  return allowed.some((item) => item === value);
+}
+
+/**
+ * Converte um valor monetário da configuração (texto, ex.: "100.00").
+ */
+function parseAmount(
+  value: unknown,
+  field: string,
+  invalid: (detail: string) => Error
+): Money {
+  if (typeof value !== "string" || !Money.isValid(value)) {
+    throw invalid(`${field} deve ser um valor em texto (ex.: "100.00")`);
+  }
+  const amount = Money.parse(value);
+  if (amount.isNegative()) {
+    throw invalid(`${field} não pode ser negativo`);
+  }
+  return amount;
+}
+
+/**
+ * Converte um horário "HH:MM" em minutos desde a meia-noite.
+ */
+function parseTime(
+  value: unknown,
+  field: string,
+  invalid: (detail: string) => Error
+): number {
+  const match = TIME_PATTERN.exec(typeof value === "string" ? value : "");
+  if (!match) {
+    throw invalid(`${field} deve estar no formato HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
@@ -0,0 +1,163 @@
+/**
+ * IdempotencyService
+ *
+ * Responsável por memorizar as respostas de operações que alteram contas ou
+ * agendamentos (DEPOSIT, WITHDRAW, TRANSFER, SCHEDULE_TRANSFER, BATCH,
+ * APPROVE e REJECT; ver IDEMPOTENT_OPERATIONS em BankController) enviadas com
+ * REQUEST_ID, para que um cliente possa reenviar uma requisição após uma queda
+ * de conexão sem risco de executá-la duas vezes. Retenções para análise
+ * antifraude também são memorizadas (remember).
+ *
+ * - As chaves são isoladas por conta da sessão: o mesmo REQUEST_ID usado por
+ *   clientes diferentes não colide.
+ * - Os registros expiram após a janela de retenção (idempotencyTtl na
+ *   configuração do servidor; padrão: 24 horas).
+ * - Os registros são persistidos pelo AccountRepository e sobrevivem a reinícios.
+ *   O registro de uma operação que altera contas (montado por record) é gravado
+ *   na mesma operação atômica do repositório que a alteração: nunca há
+ *   operação gravada sem sua resposta memorizada, nem o contrário.
+ */
+import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { AccountRepository } from "../repositories/account-repository";
+import { DuplicateRequestIdError } from "../errors/gbtp-error";
+
+/**
+ * Janela padrão de retenção dos registros, em segundos (24 horas).
+ */
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export class IdempotencyService {
+  private readonly ttlMs: number;
+
+  /**
+   * Construtor:
+   * - Define a janela de retenção.
+   * - Remove os registros persistidos já expirados.
+   *
+   * @param repository - Repositório onde os registros são persistidos
+   * @param ttlSeconds - Janela de retenção em segundos (opcional)
+   * @throws Error se a janela configurada não for um inteiro positivo
+   */
+  constructor(
+    private readonly repository: AccountRepository,
+    ttlSeconds: number = DEFAULT_TTL_SECONDS
+  ) {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new Error(`Janela de idempotência inválida: ${ttlSeconds}`);
+    }
+    this.ttlMs = ttlSeconds * 1000;
+    this.purgeExpired();
+  }
+
+  /**
+   * lookup
+   *
+   * Procura a resposta original de uma requisição repetida.
+   *
+   * @param scope   - Conta da sessão que enviou a requisição
+   * @param request - Requisição com REQUEST_ID
+   * @returns resposta original, ou undefined se a chave for nova ou expirada
+   * @throws DuplicateRequestIdError se a chave já tiver sido usada em uma
+   *         requisição diferente (mensagem: "REQUEST_ID já utilizado em outra
+   *         requisição")
+   */
+  public lookup(scope: string, request: GBTPRequest): GBTPResponse | undefined {
+    this.purgeExpired();
+    const record = this.repository.findIdempotencyRecord(
+      recordKey(scope, request)
+    );
+    if (!record || isExpired(record)) {
+      return undefined;
+    }
+    if (record.fingerprint !== fingerprint(request)) {
+      throw new DuplicateRequestIdError(
+        "REQUEST_ID já utilizado em outra requisição"
+      );
+    }
+    return GBTPResponse.fromString(record.response);
+  }
+
+  /**
+   * record
+   *
+   * Monta, sem gravar, o registro da resposta de uma requisição com
+   * REQUEST_ID, para ser gravado junto com a operação (RelatedRecords).
+   *
+   * @param scope    - Conta da sessão que enviou a requisição
+   * @param request  - Requisição com REQUEST_ID
+   * @param response - Resposta enviada ao cliente
+   * @returns registro com a janela de retenção a partir de agora
+   */
+  public record(
+    scope: string,
+    request: GBTPRequest,
+    response: GBTPResponse
+  ): IdempotencyRecord {
+    return new IdempotencyRecord(
+      recordKey(scope, request),
+      fingerprint(request),
+      response.toString(),
+      new Date(Date.now() + this.ttlMs).toISOString()
+    );
+  }
+
+  /**
+   * remember
+   *
+   * Memoriza e persiste a resposta de uma requisição com REQUEST_ID que não
+   * altera contas (p. ex. uma transação retida para análise).
+   *
+   * @param scope    - Conta da sessão que enviou a requisição
+   * @param request  - Requisição com REQUEST_ID
+   * @param response - Resposta enviada ao cliente
+   */
+  public remember(
+    scope: string,
+    request: GBTPRequest,
+    response: GBTPResponse
+  ): void {
+    this.repository.save([], {
+      idempotency: this.record(scope, request, response),
+    });
+  }
+
+  /**
+   * Remove do repositório os registros expirados.
+   */
+  private purgeExpired() {
+    this.repository.deleteExpiredIdempotencyRecords(new Date().toISOString());
+  }
+}
+
+/**
+ * Chave do registro: conta da sessão + REQUEST_ID.
+ */
+function recordKey(scope: string, request: GBTPRequest): string {
+  return `${scope}:${request.requestId!.key()}`;
+}
+
+/**
+ * Representação da requisição sem o REQUEST_ID, sem a VERSION e sem o
+ * CORRELATION_ID (um reenvio após atualizar o cliente ou em outra conexão
+ * continua sendo a mesma requisição).
+ */
+function fingerprint(request: GBTPRequest): string {
+  return request
+    .toString()
+    .split("\n")
+    .filter(
+      (line) =>
+        !line.startsWith("REQUEST_ID:") &&
+        !line.startsWith("VERSION:") &&
+        !line.startsWith("CORRELATION_ID:")
+    )
+    .join("\n");
+}
+
+/**
+ * Indica se o registro já passou da data de expiração.
+ */
+function isExpired(record: IdempotencyRecord): boolean {
+  return new Date(record.expiresAt).getTime() <= Date.now();
+}
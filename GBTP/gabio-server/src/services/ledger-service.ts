@@ -0,0 +1,146 @@
+/**
+ * LedgerService
+ *
+ * Responsável pelo livro-razão (ledger) de transações:
+ * - Criação dos lançamentos de cada alteração de saldo
+ * - Consulta de extrato filtrado por período e paginado
+ * - Soma dos lançamentos de um tipo em um dia (usada nos limites diários)
+ * - Consulta de contrapartidas anteriores (usada nas regras antifraude)
+ *
+ * Os lançamentos são gravados pelo AccountRepository na mesma operação
+ * atômica que os saldos (ver BankService), de modo que o extrato sempre
+ * explica o saldo gravado. Este serviço não grava nada: cria os lançamentos e
+ * consulta os já gravados.
+ */
+import { Transaction, TransactionType } from "../models/transaction";
+import { Money } from "../models/money";
+import { AccountRepository } from "../repositories/account-repository";
+import { randomUUID } from "crypto";
+
+/**
+ * Filtro de consulta de extrato.
+ *
+ * - from / to: limites do período (inclusivos), em formato YYYY-MM-DD.
+ * - page: página desejada (começando em 1).
+ * - pageSize: quantidade de lançamentos por página.
+ */
+export interface StatementFilter {
+  from?: string;
+  to?: string;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Página de extrato retornada por LedgerService.statement.
+ */
+export interface StatementPage {
+  entries: Transaction[];
+  page: number;
+  totalPages: number;
+  totalEntries: number;
+}
+
+export class LedgerService {
+  /**
+   * @param repository - Repositório onde os lançamentos são gravados
+   */
+  constructor(private readonly repository: AccountRepository) {}
+
+  /**
+   * entry
+   *
+   * Cria um novo lançamento, com ID e data e hora atuais. O lançamento só
+   * passa a constar do livro-razão quando gravado com as contas
+   * (AccountRepository.save).
+   *
+   * @param accountId    - ID da conta do lançamento
+   * @param type         - Tipo do lançamento
+   * @param amount       - Valor movimentado
+   * @param counterparty - Conta de contrapartida ("" se não houver)
+   * @param balance      - Saldo resultante da conta
+   * @param reason       - Motivo do ajuste manual (opcional)
+   * @returns lançamento criado
+   */
+  public entry(
+    accountId: string,
+    type: TransactionType,
+    amount: Money,
+    counterparty: string,
+    balance: Money,
+    reason?: string
+  ): Transaction {
+    return new Transaction(
+      randomUUID(),
+      accountId,
+      new Date().toISOString(),
+      type,
+      amount,
+      counterparty,
+      balance,
+      reason
+    );
+  }
+
+  /**
+   * statement
+   *
+   * Retorna os lançamentos de uma conta em ordem cronológica, filtrados pelo
+   * período informado e paginados.
+   *
+   * @param accountId - ID da conta
+   * @param filter    - Período e paginação desejados
+   * @returns página do extrato (uma página fora do intervalo retorna lista vazia)
+   */
+  public statement(accountId: string, filter: StatementFilter): StatementPage {
+    const { entries, total } = this.repository.loadTransactions(accountId, {
+      from: filter.from ? `${filter.from}T00:00:00.000Z` : undefined,
+      to: filter.to ? `${filter.to}T23:59:59.999Z` : undefined,
+      offset: (filter.page - 1) * filter.pageSize,
+      limit: filter.pageSize,
+    });
+    return {
+      entries,
+      page: filter.page,
+      totalPages: Math.max(1, Math.ceil(total / filter.pageSize)),
+      totalEntries: total,
+    };
+  }
+
+  /**
+   * dailyTotal
+   *
+   * Soma os valores dos lançamentos de um tipo registrados na conta em um dia.
+   *
+   * @param accountId - ID da conta
+   * @param type      - Tipo do lançamento
+   * @param day       - Dia de referência (YYYY-MM-DD, em UTC)
+   * @returns soma dos valores (zero se não houver lançamentos)
+   */
+  public dailyTotal(
+    accountId: string,
+    type: TransactionType,
+    day: string
+  ): Money {
+    return this.repository.dailyTotal(accountId, type, day);
+  }
+
+  /**
+   * hasCounterparty
+   *
+   * Indica se a conta já tem algum lançamento do tipo informado com a
+   * contrapartida informada (p. ex. uma transferência anterior ao destino).
+   *
+   * @param accountId    - ID da conta
+   * @param type         - Tipo do lançamento
+   * @param counterparty - Conta de contrapartida
+   * @returns true se houver ao menos um lançamento
+   */
+  public hasCounterparty(
+    accountId: string,
+    type: TransactionType,
+    counterparty: string
+  ): boolean {
+    return this.repository.hasCounterparty(accountId, type, counterparty);
+  }
+}
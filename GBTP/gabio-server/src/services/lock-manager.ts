@@ -0,0 +1,68 @@
+/**
+ * LockManager
+ *
+ * Serializa tarefas por chave (p. ex. ID de conta): tarefas sobre a mesma chave
+ * executam uma de cada vez, na ordem de chegada, enquanto tarefas sobre chaves
+ * diferentes seguem independentes.
+ *
+ * Uma tarefa que envolve várias chaves (p. ex. uma transferência) adquire os
+ * bloqueios sempre em ordem crescente de chave. Como todas as tarefas seguem a
+ * mesma ordem, duas transferências em sentidos opostos entre as mesmas contas
+ * não podem ficar esperando uma pela outra (deadlock).
+ */
+export class LockManager {
+  /**
+   * Último bloqueio enfileirado em cada chave. A chave é removida quando o
+   * último bloqueio da fila é liberado.
+   */
+  private tails: Map<string, Promise<void>> = new Map();
+
+  /**
+   * runExclusive
+   *
+   * Executa a tarefa com acesso exclusivo a todas as chaves informadas.
+   *
+   * @param keys - Chaves a bloquear (duplicatas são ignoradas)
+   * @param task - Tarefa a executar; pode ser síncrona ou assíncrona
+   * @returns resultado da tarefa
+   * @throws o mesmo erro lançado pela tarefa; os bloqueios são liberados em
+   *         qualquer caso
+   */
+  public async runExclusive<T>(
+    keys: string[],
+    task: () => T | Promise<T>
+  ): Promise<T> {
+    const ordered = [...new Set(keys)].sort();
+    const releases: Array<() => void> = [];
+    try {
+      for (const key of ordered) {
+        releases.push(await this.acquire(key));
+      }
+      return await task();
+    } finally {
+      for (const release of releases.reverse()) {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Enfileira um bloqueio na chave e aguarda a liberação do anterior.
+   * @param key Chave a bloquear
+   * @returns função que libera o bloqueio
+   */
+  private async acquire(key: string): Promise<() => void> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+    await previous;
+    return () => {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    };
+  }
+}
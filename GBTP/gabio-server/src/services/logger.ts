@@ -0,0 +1,215 @@
+/**
+ * Logger
+ *
+ * Log estruturado do servidor: cada registro é uma linha JSON com data e hora
+ * (time), nível (level), mensagem (message) e campos adicionais, p. ex.:
+ *
+ *   {"time":"2024-05-01T12:00:00.000Z","level":"info","message":"Requisição processada","operation":"DEPOSIT","accountId":"**01","amount":"***"}
+ *
+ * Níveis, do mais ao menos detalhado: debug, info, warn e error. Apenas os
+ * registros a partir do nível configurado (logLevel, padrão: info) são
+ * emitidos; warn e error vão para a saída de erro.
+ *
+ * Mascaramento de dados pessoais: os campos são mascarados pelo nome, em
+ * qualquer nível de aninhamento, antes de serem emitidos:
+ * - IDs de conta (accountId, sourceId, destId, approvers etc.) mantêm apenas
+ *   os dois últimos caracteres ("1001" → "**01").
+ * - Valores e saldos (amount, balance, value etc.) são substituídos por "***".
+ * - Senhas e tokens são substituídos por "[REDACTED]".
+ * Mensagens brutas do protocolo não devem ser registradas; registre os campos
+ * já interpretados, que passam pelo mascaramento.
+ */
+
+/**
+ * Níveis de log suportados, do mais ao menos detalhado.
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Campos adicionais de um registro.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Campos com IDs de conta (mascarados, exceto os dois últimos caracteres).
+ */
+const ACCOUNT_FIELDS = new Set([
+  "accountId",
+  "sourceId",
+  "destId",
+  "destination",
+  "approverId",
+  "approvers",
+]);
+
+/**
+ * Campos com valores monetários (mascarados por completo).
+ */
+const AMOUNT_FIELDS = new Set([
+  "amount",
+  "balance",
+  "availableBalance",
+  "value",
+  "credited",
+  "threshold",
+]);
+
+/**
+ * Campos com credenciais (omitidos).
+ */
+const SECRET_FIELDS = new Set(["password", "token", "authorization"]);
+
+export class Logger {
+  private minLevel = 0;
+
+  /**
+   * Cria um logger com o nível mínimo e os campos fixos informados.
+   * @param level  - Nível mínimo emitido (padrão: info)
+   * @param fields - Campos incluídos em todos os registros
+   * @param write  - Destino das linhas (padrão: stdout/stderr)
+   * @throws Error se o nível não for suportado
+   */
+  constructor(
+    private level: string = "info",
+    private readonly fields: LogFields = {},
+    private readonly write: (level: LogLevel, line: string) => void = writeLine
+  ) {
+    this.setLevel(level);
+  }
+
+  /**
+   * Altera o nível mínimo emitido. Loggers derivados já criados (child)
+   * mantêm o nível anterior.
+   * @param level - Novo nível mínimo
+   * @throws Error se o nível não for suportado
+   */
+  public setLevel(level: string): void {
+    const minLevel = LOG_LEVELS.indexOf(level as LogLevel);
+    if (minLevel < 0) {
+      throw new Error(
+        `Nível de log inválido: ${level} (use ${LOG_LEVELS.join(", ")})`
+      );
+    }
+    this.level = level;
+    this.minLevel = minLevel;
+  }
+
+  /**
+   * Cria um logger derivado que acrescenta os campos informados a todos os
+   * registros (p. ex. o identificador da conexão).
+   * @param fields - Campos adicionais
+   */
+  public child(fields: LogFields): Logger {
+    return new Logger(this.level, { ...this.fields, ...fields }, this.write);
+  }
+
+  /**
+   * Indica se registros do nível informado são emitidos.
+   */
+  public isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * Monta, mascara e emite um registro, se o nível estiver habilitado.
+   */
+  private log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...(mask({ ...this.fields, ...fields }) as LogFields),
+    };
+    this.write(level, JSON.stringify(entry, jsonReplacer));
+  }
+}
+
+/**
+ * Mascara o ID de uma conta, mantendo apenas os dois últimos caracteres.
+ * @param id - ID da conta
+ */
+export function maskAccountId(id: string): string {
+  return id.length <= 2 ? "*".repeat(id.length) : "**" + id.slice(-2);
+}
+
+/**
+ * Logger compartilhado pelo servidor (nível ajustado por setLevel na
+ * inicialização, conforme a configuração).
+ */
+export const logger = new Logger();
+
+/**
+ * Aplica as regras de mascaramento aos campos, recursivamente.
+ * @param value - Valor a mascarar
+ * @param key   - Nome do campo que contém o valor
+ */
+function mask(value: unknown, key?: string): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (key !== undefined && SECRET_FIELDS.has(key)) {
+    return "[REDACTED]";
+  }
+  if (key !== undefined && AMOUNT_FIELDS.has(key)) {
+    return "***";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mask(item, key));
+  }
+  if (key !== undefined && ACCOUNT_FIELDS.has(key)) {
+    return maskAccountId(String(value));
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      code: (value as { code?: unknown }).code,
+      stack: value.stack,
+    };
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, mask(item, name)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Serializa bigint como texto (JSON.stringify não os aceita).
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/**
+ * Emite a linha na saída padrão (debug e info) ou de erro (warn e error).
+ */
+function writeLine(level: LogLevel, line: string) {
+  if (level === "warn" || level === "error") {
+    process.stderr.write(line + "\n");
+  } else {
+    process.stdout.write(line + "\n");
+  }
+}
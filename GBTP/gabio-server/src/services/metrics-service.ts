@@ -0,0 +1,198 @@
+/**
+ * MetricsService
+ *
+ * Métricas do servidor GBTP, mantidas em memória e expostas no formato texto
+ * do Prometheus (GET /metrics do MonitoringServer):
+ * - gbtp_requests_total{operation,status}: requisições respondidas, por
+ *   operação e STATUS (OK ou ERROR).
+ * - gbtp_request_errors_total{operation,code}: respostas de erro, por
+ *   operação e CODE.
+ * - gbtp_request_duration_seconds{operation}: histograma da latência de
+ *   processamento (da requisição convertida até a resposta pronta).
+ * - gbtp_connections_active / gbtp_connections_total: conexões WebSocket
+ *   abertas no momento e aceitas desde o início.
+ *
+ * Mensagens que não puderam ser convertidas em requisição são contadas com a
+ * operação "UNKNOWN". As métricas são zeradas a cada reinício do servidor.
+ */
+
+/**
+ * Limites superiores (em segundos) dos intervalos do histograma de latência.
+ */
+export const DEFAULT_BUCKETS = [
+  0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+];
+
+/**
+ * Operação atribuída às mensagens que não puderam ser interpretadas.
+ */
+export const UNKNOWN_OPERATION = "UNKNOWN";
+
+/**
+ * Histograma de latência de uma operação.
+ */
+interface Histogram {
+  // Quantidade de observações em cada intervalo (não acumulada).
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class MetricsService {
+  private readonly requests = new Map<string, number>();
+  private readonly errors = new Map<string, number>();
+  private readonly durations = new Map<string, Histogram>();
+  private connections = 0;
+  private connectionsTotal = 0;
+
+  /**
+   * @param buckets - Limites dos intervalos do histograma, em segundos
+   *                  (padrão: DEFAULT_BUCKETS)
+   * @throws Error se os limites não forem positivos e crescentes
+   */
+  constructor(private readonly buckets: number[] = DEFAULT_BUCKETS) {
+    if (
+      buckets.some(
+        (bucket, i) => !(bucket > 0) || (i > 0 && bucket <= buckets[i - 1])
+      )
+    ) {
+      throw new Error(
+        "Intervalos do histograma devem ser positivos e crescentes"
+      );
+    }
+  }
+
+  /**
+   * Registra uma requisição respondida.
+   *
+   * @param operation - Operação (ou UNKNOWN_OPERATION)
+   * @param status    - STATUS da resposta
+   * @param seconds   - Tempo de processamento, em segundos
+   * @param code      - CODE da resposta de erro
+   */
+  public recordRequest(
+    operation: string,
+    status: string,
+    seconds: number,
+    code?: string
+  ): void {
+    increment(this.requests, labels({ operation, status }));
+    if (code !== undefined) {
+      increment(this.errors, labels({ operation, code }));
+    }
+
+    let histogram = this.durations.get(operation);
+    if (!histogram) {
+      histogram = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.durations.set(operation, histogram);
+    }
+    const index = this.buckets.findIndex((bucket) => seconds <= bucket);
+    if (index >= 0) {
+      histogram.counts[index]++;
+    }
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Registra a abertura de uma conexão WebSocket.
+   */
+  public connectionOpened(): void {
+    this.connections++;
+    this.connectionsTotal++;
+  }
+
+  /**
+   * Registra o encerramento de uma conexão WebSocket.
+   */
+  public connectionClosed(): void {
+    this.connections = Math.max(0, this.connections - 1);
+  }
+
+  /**
+   * Quantidade de conexões WebSocket abertas.
+   */
+  public activeConnections(): number {
+    return this.connections;
+  }
+
+  /**
+   * Gera as métricas no formato texto do Prometheus (versão 0.0.4).
+   */
+  public render(): string {
+    const lines: string[] = [];
+
+    lines.push(
+      "# HELP gbtp_requests_total Requisições GBTP respondidas, por operação e status.",
+      "# TYPE gbtp_requests_total counter"
+    );
+    for (const [key, value] of sorted(this.requests)) {
+      lines.push(`gbtp_requests_total{${key}} ${value}`);
+    }
+
+    lines.push(
+      "# HELP gbtp_request_errors_total Respostas de erro, por operação e código.",
+      "# TYPE gbtp_request_errors_total counter"
+    );
+    for (const [key, value] of sorted(this.errors)) {
+      lines.push(`gbtp_request_errors_total{${key}} ${value}`);
+    }
+
+    lines.push(
+      "# HELP gbtp_request_duration_seconds Latência de processamento das requisições, por operação.",
+      "# TYPE gbtp_request_duration_seconds histogram"
+    );
+    for (const [operation, histogram] of sorted(this.durations)) {
+      let cumulative = 0;
+      this.buckets.forEach((bucket, i) => {
+        cumulative += histogram.counts[i];
+        lines.push(
+          `gbtp_request_duration_seconds_bucket{${labels({ operation, le: String(bucket) })}} ${cumulative}`
+        );
+      });
+      const label = labels({ operation });
+      lines.push(
+        `gbtp_request_duration_seconds_bucket{${labels({ operation, le: "+Inf" })}} ${histogram.count}`,
+        `gbtp_request_duration_seconds_sum{${label}} ${histogram.sum}`,
+        `gbtp_request_duration_seconds_count{${label}} ${histogram.count}`
+      );
+    }
+
+    lines.push(
+      "# HELP gbtp_connections_active Conexões WebSocket abertas.",
+      "# TYPE gbtp_connections_active gauge",
+      `gbtp_connections_active ${this.connections}`,
+      "# HELP gbtp_connections_total Conexões WebSocket aceitas desde o início.",
+      "# TYPE gbtp_connections_total counter",
+      `gbtp_connections_total ${this.connectionsTotal}`
+    );
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Formata os rótulos de uma série, escapando os valores.
+ */
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(
+      ([name, value]) =>
+        `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+    )
+    .join(",");
+}
+
+/**
+ * Soma um ao contador da série informada.
+ */
+function increment(counters: Map<string, number>, key: string) {
+  counters.set(key, (counters.get(key) ?? 0) + 1);
+}
+
+/**
+ * Entradas do Map ordenadas pela chave, para uma saída estável.
+ */
+function sorted<T>(map: Map<string, T>): [string, T][] {
+  return [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
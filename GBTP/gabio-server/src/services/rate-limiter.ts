@@ -0,0 +1,163 @@
+/**
+ * Limites de vazão e de conexões do servidor.
+ *
+ * - TokenBucket: balde de fichas com capacidade "burst", reabastecido
+ *   continuamente a "rate" fichas por segundo. Cada mensagem consome uma
+ *   ficha e é recusada com o balde vazio: o cliente pode enviar rajadas de até
+ *   "burst" mensagens, mas a vazão média fica limitada a "rate" por segundo.
+ * - RateLimiter: um TokenBucket por chave (p. ex. por conta), compartilhado
+ *   por todas as conexões. Baldes cheios equivalem a baldes novos e são
+ *   descartados periodicamente, para que o Map não cresça sem limite.
+ * - ConnectionLimiter: contagem de conexões simultâneas por endereço IP.
+ */
+
+/**
+ * Intervalo mínimo entre limpezas dos baldes cheios, em milissegundos.
+ */
+const PRUNE_INTERVAL_MS = 60_000;
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * Cria um balde cheio.
+   * @param rate  - Fichas repostas por segundo
+   * @param burst - Capacidade do balde
+   * @param now   - Instante atual em milissegundos (padrão: Date.now())
+   * @throws Error se rate ou burst não forem positivos
+   */
+  constructor(
+    private readonly rate: number,
+    private readonly burst: number,
+    now: number = Date.now()
+  ) {
+    if (!(rate > 0) || !(burst > 0)) {
+      throw new Error(`Limite de vazão inválido: ${rate}/s, rajada ${burst}`);
+    }
+    this.tokens = burst;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Consome uma ficha, se houver.
+   * @param now - Instante atual em milissegundos
+   * @returns true se a ficha foi consumida; false se o balde estiver vazio
+   */
+  public take(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Indica se o balde está cheio (sem consumo recente).
+   * @param now - Instante atual em milissegundos
+   */
+  public isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.burst;
+  }
+
+  /**
+   * Repõe as fichas acumuladas desde a última atualização.
+   */
+  private refill(now: number) {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.rate);
+    this.updatedAt = now;
+  }
+}
+
+export class RateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private prunedAt = Date.now();
+
+  /**
+   * @param rate  - Fichas repostas por segundo, por chave
+   * @param burst - Capacidade do balde de cada chave
+   * @throws Error se rate ou burst não forem positivos
+   */
+  constructor(
+    private readonly rate: number,
+    private readonly burst: number
+  ) {
+    if (!(rate > 0) || !(burst > 0)) {
+      throw new Error(`Limite de vazão inválido: ${rate}/s, rajada ${burst}`);
+    }
+  }
+
+  /**
+   * Consome uma ficha do balde da chave informada.
+   * @param key - Chave limitada (p. ex. ID da conta)
+   * @returns true se a ficha foi consumida; false se o limite foi excedido
+   */
+  public take(key: string): boolean {
+    const now = Date.now();
+    if (now - this.prunedAt >= PRUNE_INTERVAL_MS) {
+      this.prune(now);
+    }
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.rate, this.burst, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take(now);
+  }
+
+  /**
+   * Descarta os baldes cheios.
+   */
+  private prune(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+    this.prunedAt = now;
+  }
+}
+
+export class ConnectionLimiter {
+  private readonly counts = new Map<string, number>();
+
+  /**
+   * @param maxPerAddress - Conexões simultâneas permitidas por endereço
+   */
+  constructor(private readonly maxPerAddress: number) {
+    if (!Number.isInteger(maxPerAddress) || maxPerAddress <= 0) {
+      throw new Error(`Limite de conexões inválido: ${maxPerAddress}`);
+    }
+  }
+
+  /**
+   * Reserva uma conexão para o endereço, se o limite permitir. Cada reserva
+   * bem-sucedida deve ser liberada com release ao fim da conexão.
+   * @param address - Endereço IP do cliente
+   * @returns true se a conexão foi reservada
+   */
+  public acquire(address: string): boolean {
+    const count = this.counts.get(address) ?? 0;
+    if (count >= this.maxPerAddress) {
+      return false;
+    }
+    this.counts.set(address, count + 1);
+    return true;
+  }
+
+  /**
+   * Libera uma conexão reservada do endereço.
+   * @param address - Endereço IP do cliente
+   */
+  public release(address: string): void {
+    const count = (this.counts.get(address) ?? 0) - 1;
+    if (count > 0) {
+      this.counts.set(address, count);
+    } else {
+      this.counts.delete(address);
+    }
+  }
+}
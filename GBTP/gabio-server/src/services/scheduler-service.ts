@@ -0,0 +1,511 @@
+/**
+ * SchedulerService
+ *
+ * Responsável pelas transferências agendadas (SCHEDULE_TRANSFER,
+ * LIST_SCHEDULED, CANCEL_SCHEDULED):
+ * - Cadastro de transferências únicas (data futura) ou recorrentes (diárias,
+ *   semanais ou mensais)
+ * - Execução periódica dos agendamentos vencidos via BankService.transfer,
+ *   depois das regras antifraude (FraudService.screen): uma execução recusada
+ *   falha, e uma retida entra na fila de análise como uma TRANSFER comum e só
+ *   é feita se for aprovada
+ * - Registro da última falha de cada agendamento (p. ex. saldo insuficiente)
+ *   para consulta posterior em LIST_SCHEDULED
+ *
+ * Os agendamentos são persistidos pelo AccountRepository e sobrevivem a
+ * reinícios. O resultado de uma execução bem-sucedida (próxima data ou
+ * situação) é gravado na mesma operação atômica que a transferência, de modo
+ * que uma queda nunca faz a mesma execução transferir duas vezes.
+ *
+ * Se o servidor ficar parado por vários dias, um agendamento recorrente é
+ * executado uma única vez ao voltar e passa para a próxima data futura (as
+ * execuções perdidas não são acumuladas).
+ *
+ * O intervalo entre verificações vem da configuração do servidor
+ * (schedulerInterval, em segundos; padrão: 60).
+ */
+import { randomUUID } from "crypto";
+import {
+  BankService,
+  IdempotencyHook,
+  TransferReceipt,
+} from "./bank-service";
+import { FraudService } from "./fraud-service";
+import { FraudDecision } from "../models/fraud-decision";
+import { AccountRepository } from "../repositories/account-repository";
+import {
+  Recurrence,
+  ScheduledTransfer,
+  ScheduledTransferStatus,
+} from "../models/scheduled-transfer";
+import { Money } from "../models/money";
+import { logger } from "./logger";
+import {
+  AccountNotFoundError,
+  InvalidValueError,
+  OperationNotAllowedError,
+  ScheduleNotFoundError,
+} from "../errors/gbtp-error";
+
+/**
+ * Intervalo padrão entre verificações de agendamentos vencidos, em segundos.
+ */
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+export class SchedulerService {
+  private transfers: Map<string, ScheduledTransfer> = new Map();
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Construtor:
+   * - Define o intervalo entre verificações.
+   * - Carrega os agendamentos persistidos.
+   *
+   * O agendador só começa a executar transferências após start().
+   *
+   * @param service         - Regras de negócio das contas
+   * @param repository      - Repositório onde os agendamentos são persistidos
+   * @param fraud           - Regras antifraude aplicadas a cada execução
+   * @param intervalSeconds - Intervalo entre verificações em segundos (opcional)
+   * @throws Error se o intervalo configurado não for um inteiro positivo
+   */
+  constructor(
+    private readonly service: BankService,
+    private readonly repository: AccountRepository,
+    private readonly fraud: FraudService,
+    intervalSeconds: number = DEFAULT_INTERVAL_SECONDS
+  ) {
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds <= 0) {
+      throw new Error(`Intervalo do agendador inválido: ${intervalSeconds}`);
+    }
+    this.intervalMs = intervalSeconds * 1000;
+    for (const transfer of repository.loadScheduledTransfers()) {
+      this.transfers.set(transfer.id, transfer);
+    }
+  }
+
+  /**
+   * schedule
+   *
+   * Cadastra uma transferência agendada.
+   *
+   * @param sourceId   - Conta de origem (titular do agendamento)
+   * @param destId     - Conta de destino
+   * @param amount     - Valor de cada transferência
+   * @param firstRun   - Data da primeira execução (YYYY-MM-DD, hoje ou futura)
+   * @param recurrence - Regra de recorrência
+   * @param idempotency - Registro de idempotência, gravado com o agendamento
+   *                      (opcional)
+   * @param allowPastRun - Aceita firstRun anterior a hoje; o agendamento é
+   *                       executado na próxima verificação (p. ex. um
+   *                       agendamento retido aprovado após a data)
+   * @returns agendamento criado
+   * @throws Error se:
+   *
+   *    • sourceId === destId (mensagem: "Conta de origem e destino não podem ser iguais")
+   *
+   *    • Alguma das contas não existir (mensagens: "Conta de origem inexistente",
+   *      "Conta de destino inexistente")
+   *
+   *    • amount ≤ 0 (mensagem: "Valor inválido para transferência")
+   *
+   *    • firstRun anterior a hoje, sem allowPastRun (mensagem: "Data de
+   *      execução não pode estar no passado")
+   */
+  public schedule(
+    sourceId: string,
+    destId: string,
+    amount: Money,
+    firstRun: string,
+    recurrence: Recurrence,
+    idempotency?: IdempotencyHook<ScheduledTransfer>,
+    allowPastRun: boolean = false
+  ): ScheduledTransfer {
+    if (sourceId === destId) {
+      throw new OperationNotAllowedError(
+        "Conta de origem e destino não podem ser iguais"
+      );
+    }
+    if (!this.service.hasAccount(sourceId)) {
+      throw new AccountNotFoundError("Conta de origem inexistente");
+    }
+    if (!this.service.hasAccount(destId)) {
+      throw new AccountNotFoundError("Conta de destino inexistente");
+    }
+    if (!amount.isPositive()) {
+      throw new InvalidValueError("Valor inválido para transferência");
+    }
+    if (firstRun < today() && !allowPastRun) {
+      throw new OperationNotAllowedError(
+        "Data de execução não pode estar no passado"
+      );
+    }
+
+    const transfer = new ScheduledTransfer(
+      randomUUID(),
+      sourceId,
+      destId,
+      amount,
+      recurrence,
+      firstRun
+    );
+    this.repository.save([], {
+      schedules: [transfer],
+      idempotency: idempotency?.(transfer),
+    });
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  /**
+   * list
+   *
+   * Retorna os agendamentos da conta de origem informada, em qualquer
+   * situação, ordenados pela próxima execução.
+   *
+   * @param accountId - Conta de origem
+   * @returns agendamentos da conta
+   */
+  public list(accountId: string): ScheduledTransfer[] {
+    return [...this.transfers.values()]
+      .filter((transfer) => transfer.sourceId === accountId)
+      .sort(
+        (a, b) => a.nextRun.localeCompare(b.nextRun) || a.id.localeCompare(b.id)
+      );
+  }
+
+  /**
+   * cancel
+   *
+   * Cancela um agendamento pendente ou retido da conta informada. A execução
+   * retida de um agendamento cancelado não é feita, mesmo que seja aprovada.
+   *
+   * @param accountId  - Conta de origem (titular do agendamento)
+   * @param scheduleId - ID do agendamento
+   * @returns agendamento cancelado
+   * @throws Error se o agendamento não existir ou pertencer a outra conta
+   *         ("Agendamento inexistente") ou não estiver pendente nem retido
+   *         ("Agendamento não está pendente")
+   */
+  public cancel(accountId: string, scheduleId: string): ScheduledTransfer {
+    const transfer = this.transfers.get(scheduleId);
+    if (!transfer || transfer.sourceId !== accountId) {
+      throw new ScheduleNotFoundError("Agendamento inexistente");
+    }
+    if (transfer.status !== "PENDING" && transfer.status !== "HELD") {
+      throw new OperationNotAllowedError("Agendamento não está pendente");
+    }
+    transfer.status = "CANCELLED";
+    this.repository.saveScheduledTransfer(transfer);
+    return transfer;
+  }
+
+  /**
+   * runHeld
+   *
+   * Faz a transferência de uma execução retida pelas regras antifraude e
+   * aprovada na análise. Um agendamento único retido passa para "COMPLETED"
+   * na mesma operação atômica que a transferência; um recorrente continua
+   * na próxima data já calculada.
+   *
+   * @param scheduleId  - ID do agendamento
+   * @param idempotency - Registro gravado junto com a transferência (opcional)
+   * @throws Error se o agendamento não existir ("Agendamento inexistente"),
+   *         tiver sido cancelado ("Agendamento cancelado") ou a transferência
+   *         falhar
+   */
+  public async runHeld(
+    scheduleId: string,
+    idempotency?: IdempotencyHook<TransferReceipt>
+  ): Promise<void> {
+    const transfer = this.transfers.get(scheduleId);
+    if (!transfer) {
+      throw new ScheduleNotFoundError("Agendamento inexistente");
+    }
+    const updated =
+      transfer.status === "HELD"
+        ? afterRun(transfer, transfer.nextRun)
+        : undefined;
+    await this.service.transfer(
+      transfer.sourceId,
+      transfer.destId,
+      transfer.amount,
+      idempotency,
+      { schedules: updated && [updated] },
+      () => {
+        if (isCancelled(transfer)) {
+          throw new OperationNotAllowedError("Agendamento cancelado");
+        }
+      }
+    );
+    if (updated) {
+      this.transfers.set(updated.id, updated);
+    }
+  }
+
+  /**
+   * declineHeld
+   *
+   * Registra a recusa, na análise, de uma execução retida: um agendamento
+   * único retido passa para "FAILED", com o motivo como último erro. Os
+   * demais agendamentos (recorrentes ou já cancelados) não mudam.
+   *
+   * @param scheduleId - ID do agendamento
+   */
+  public declineHeld(scheduleId: string): void {
+    const transfer = this.transfers.get(scheduleId);
+    if (transfer?.status !== "HELD") {
+      return;
+    }
+    const updated = afterRun(
+      transfer,
+      transfer.nextRun,
+      "Transação recusada na análise antifraude"
+    );
+    this.repository.saveScheduledTransfer(updated);
+    this.transfers.set(updated.id, updated);
+  }
+
+  /**
+   * Inicia a verificação periódica dos agendamentos vencidos (a primeira
+   * verificação é imediata).
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+    this.timer.unref();
+    this.check();
+  }
+
+  /**
+   * Executa uma verificação periódica; um erro inesperado é registrado e não
+   * interrompe as próximas verificações.
+   */
+  private check(): void {
+    this.runDue().catch((err) =>
+      logger.error("Erro na verificação de agendamentos", { error: err })
+    );
+  }
+
+  /**
+   * Interrompe a verificação periódica.
+   */
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * runDue
+   *
+   * Executa todos os agendamentos pendentes com próxima execução até a data
+   * informada. Verificações sobrepostas são ignoradas.
+   *
+   * @param date - Data de referência (YYYY-MM-DD; padrão: hoje, em UTC)
+   * @returns quantidade de agendamentos executados (com sucesso ou falha)
+   */
+  public async runDue(date: string = today()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    try {
+      const due = [...this.transfers.values()].filter(
+        (transfer) => transfer.status === "PENDING" && transfer.nextRun <= date
+      );
+      for (const transfer of due) {
+        await this.execute(transfer, date);
+      }
+      return due.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Avalia um agendamento pelas regras antifraude, executa-o e registra o
+   * resultado. Em caso de sucesso, o agendamento atualizado é gravado junto
+   * com a transferência; em caso de falha, recusa ou retenção, é gravado
+   * sozinho (uma execução retida é registrada como último erro, com o
+   * REVIEW_ID da análise, e um agendamento único passa para "HELD"). Um erro
+   * da própria avaliação é registrado como falha da execução.
+   *
+   * A situação do agendamento é conferida de novo com as contas bloqueadas,
+   * antes da transferência: um CANCEL_SCHEDULED recebido enquanto a execução
+   * aguardava a vez impede a transferência, e o agendamento continua
+   * cancelado.
+   * @param transfer Agendamento vencido
+   * @param date Data de referência da verificação
+   */
+  private async execute(transfer: ScheduledTransfer, date: string) {
+    if (isCancelled(transfer)) {
+      // Cancelado enquanto aguardava a vez nesta verificação
+      return;
+    }
+    let updated: ScheduledTransfer;
+    let decision: FraudDecision | undefined;
+    try {
+      decision = this.fraud.screen({
+        accountId: transfer.sourceId,
+        operation: "TRANSFER",
+        destination: transfer.destId,
+        amount: transfer.amount,
+        scheduleId: transfer.id,
+      });
+      if (decision.verdict === "REJECT") {
+        updated = this.failed(
+          transfer,
+          date,
+          "Transação recusada pelas regras antifraude"
+        );
+      } else if (decision.verdict === "HOLD") {
+        updated = this.failed(
+          transfer,
+          date,
+          `Transação retida para análise (REVIEW_ID ${decision.id})`,
+          "HELD"
+        );
+      } else {
+        updated = afterRun(transfer, date);
+        await this.service.transfer(
+          transfer.sourceId,
+          transfer.destId,
+          transfer.amount,
+          undefined,
+          { schedules: [updated] },
+          () => {
+            if (isCancelled(transfer)) {
+              throw new OperationNotAllowedError("Agendamento cancelado");
+            }
+          }
+        );
+      }
+    } catch (err: unknown) {
+      if (decision) {
+        // A transferência liberada não foi feita e não conta nas regras de
+        // frequência
+        this.fraud.revert(decision);
+      }
+      if (isCancelled(transfer)) {
+        // Cancelado enquanto aguardava o bloqueio das contas: nada foi
+        // transferido e o cancelamento já foi gravado
+        return;
+      }
+      // Falha na avaliação antifraude (p. ex. ao gravar a decisão) ou na
+      // transferência
+      updated = this.failed(
+        transfer,
+        date,
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+    this.transfers.set(updated.id, updated);
+  }
+
+  /**
+   * Registra uma execução que não transferiu e grava o agendamento atualizado.
+   * @param transfer Agendamento vencido
+   * @param date Data de referência da verificação
+   * @param error Motivo registrado como último erro
+   * @param status Situação de um agendamento único (padrão: "FAILED")
+   */
+  private failed(
+    transfer: ScheduledTransfer,
+    date: string,
+    error: string,
+    status: ScheduledTransferStatus = "FAILED"
+  ): ScheduledTransfer {
+    logger.warn("Falha na transferência agendada", {
+      scheduleId: transfer.id,
+      reason: error,
+    });
+    const updated = afterRun(transfer, date, error, status);
+    this.repository.saveScheduledTransfer(updated);
+    return updated;
+  }
+}
+
+/**
+ * Agendamento após uma execução: data e erro da execução e a próxima data
+ * (recorrentes) ou a situação final (ONCE; padrão: "COMPLETED" sem erro e
+ * "FAILED" com erro). O agendamento original não é alterado.
+ */
+function afterRun(
+  transfer: ScheduledTransfer,
+  date: string,
+  error?: string,
+  final: ScheduledTransferStatus = error === undefined ? "COMPLETED" : "FAILED"
+): ScheduledTransfer {
+  let { nextRun, status } = transfer;
+  if (transfer.recurrence === "ONCE") {
+    status = final;
+  } else {
+    while (nextRun <= date) {
+      nextRun = advance(nextRun, transfer.recurrence, transfer.firstRun);
+    }
+  }
+  return new ScheduledTransfer(
+    transfer.id,
+    transfer.sourceId,
+    transfer.destId,
+    transfer.amount,
+    transfer.recurrence,
+    transfer.firstRun,
+    nextRun,
+    status,
+    new Date().toISOString(),
+    error
+  );
+}
+
+/**
+ * Indica se o agendamento foi cancelado. A situação pode mudar durante uma
+ * execução (CANCEL_SCHEDULED), por isso é sempre lida de novo.
+ */
+function isCancelled(transfer: ScheduledTransfer): boolean {
+  return transfer.status === "CANCELLED";
+}
+
+/**
+ * Data atual em UTC (YYYY-MM-DD).
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Calcula a data de execução seguinte a date conforme a recorrência.
+ * Em MONTHLY, usa o dia do mês de firstRun, limitado ao último dia do mês.
+ */
+function advance(
+  date: string,
+  recurrence: Recurrence,
+  firstRun: string
+): string {
+  const [year, month, day] = date.split("-").map(Number);
+  switch (recurrence) {
+    case "DAILY":
+      return formatDate(new Date(Date.UTC(year, month - 1, day + 1)));
+    case "WEEKLY":
+      return formatDate(new Date(Date.UTC(year, month - 1, day + 7)));
+    default: {
+      // MONTHLY
+      const anchor = Number(firstRun.split("-")[2]);
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return formatDate(
+        new Date(Date.UTC(year, month, Math.min(anchor, lastDay)))
+      );
+    }
+  }
+}
+
+/**
+ * Formata uma data UTC como YYYY-MM-DD.
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,332 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import {
+  createAccountRepository,
+  STORAGE_BACKENDS,
+} from "../repositories/repository-factory";
+import { JsonAccountRepository } from "../repositories/json-account-repository";
+import { Account } from "../models/account";
+import { Money } from "../models/money";
+import { Transaction } from "../models/transaction";
+import { IdempotencyRecord } from "../models/idempotency-record";
+import { ScheduledTransfer } from "../models/scheduled-transfer";
+
+/**
+ * Motivo para pular os testes do backend sqlite quando o módulo nativo do
+ * better-sqlite3 não estiver compilado nesta máquina (undefined se estiver).
+ */
+const SQLITE_UNAVAILABLE = (() => {
+  try {
+    new Database(":memory:").close();
+    return undefined;
+  } catch (err: unknown) {
+    return `better-sqlite3 indisponível: ${
+      err instanceof Error ? err.message.split("\n")[0] : String(err)
+    }`;
+  }
+})();
+
+/**
+ * Consulta de todos os lançamentos de uma conta.
+ */
+const PAGE = { offset: 0, limit: 100 };
+
+/**
+ * Lançamento de depósito na conta (amount é também o saldo resultante).
+ */
+function deposit(id: string, accountId: string, amount: string): Transaction {
+  return new Transaction(
+    id,
+    accountId,
+    "2099-01-01T10:00:00.000Z",
+    "DEPOSIT",
+    Money.parse(amount),
+    "",
+    Money.parse(amount)
+  );
+}
+
+/**
+ * Lançamento de depósito no formato do livro-razão e do journal.
+ */
+function storedDeposit(
+  id: string,
+  accountId: string,
+  amount: string,
+  balance: string
+) {
+  return {
+    id,
+    accountId,
+    timestamp: "2099-01-01T10:00:00.000Z",
+    type: "DEPOSIT",
+    amount,
+    counterparty: "",
+    balance,
+  };
+}
+
+/**
+ * Saldos das contas gravadas, por ID.
+ */
+function balances(accounts: Account[]): Record<string, string> {
+  return Object.fromEntries(
+    accounts.map((account) => [account.id, account.balance.toString()])
+  );
+}
+
+/**
+ * Tamanho atual do arquivo (zero se não existir).
+ */
+function fileSize(filePath: string): number {
+  return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+}
+
+describe("JsonAccountRepository", () => {
+  let dir: string;
+  let accountsPath: string;
+  let ledgerPath: string;
+  const open = () => new JsonAccountRepository(accountsPath, ledgerPath);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbtp-test-"));
+    accountsPath = path.join(dir, "accounts.json");
+    ledgerPath = path.join(dir, "ledger.jsonl");
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reaplica uma gravação interrompida que ficou no journal", () => {
+    open().save([new Account("1001", Money.parse("10.00"))]);
+    // Queda depois do journal e antes da reescrita dos arquivos
+    const entry = {
+      accounts: [{ id: "1001", balance: "25.00" }],
+      transactions: [storedDeposit("t1", "1001", "15.00", "25.00")],
+      idempotency: new IdempotencyRecord("1001:r1", "f", "OK", "2099-12-31"),
+    };
+    fs.writeFileSync(
+      `${accountsPath}.journal`,
+      JSON.stringify(entry) + "\n" + '{"accounts":[{"id":"1001"'
+    );
+
+    const repository = open();
+    assert.deepEqual(balances(repository.loadAll()), { "1001": "25.00" });
+    assert.equal(repository.loadTransactions("1001", PAGE).total, 1);
+    assert.equal(repository.findIdempotencyRecord("1001:r1")?.response, "OK");
+    assert.equal(fs.existsSync(`${accountsPath}.journal`), false);
+
+    // Os arquivos foram regravados: a reabertura não depende do journal
+    const reopened = open();
+    assert.deepEqual(balances(reopened.loadAll()), { "1001": "25.00" });
+    assert.equal(reopened.loadTransactions("1001", PAGE).total, 1);
+  });
+
+  it("não repete no livro-razão os lançamentos já acrescentados", () => {
+    open().save([new Account("1001", Money.parse("0.00"))]);
+    const transaction = storedDeposit("t1", "1001", "15.00", "15.00");
+    // Queda depois de acrescentar o lançamento ao livro-razão
+    fs.writeFileSync(ledgerPath, JSON.stringify(transaction) + "\n");
+    fs.writeFileSync(
+      `${accountsPath}.journal`,
+      JSON.stringify({
+        accounts: [{ id: "1001", balance: "15.00" }],
+        transactions: [transaction],
+      }) + "\n"
+    );
+
+    const repository = open();
+    assert.equal(repository.loadTransactions("1001", PAGE).total, 1);
+    assert.equal(
+      repository.dailyTotal("1001", "DEPOSIT", "2099-01-01").toString(),
+      "15.00"
+    );
+  });
+
+  it("desfaz uma gravação que falhou ao reescrever os arquivos", () => {
+    const repository = open();
+    repository.save([new Account("1001", Money.parse("10.00"))]);
+    const ledgerSize = fileSize(ledgerPath);
+    // Um diretório no lugar do arquivo temporário faz a reescrita falhar
+    fs.mkdirSync(`${accountsPath}.tmp`);
+
+    assert.throws(() =>
+      repository.save([new Account("1001", Money.parse("25.00"))], {
+        transactions: [deposit("t1", "1001", "15.00")],
+        idempotency: new IdempotencyRecord("1001:r1", "f", "OK", "2099-12-31"),
+      })
+    );
+    assert.deepEqual(balances(repository.loadAll()), { "1001": "10.00" });
+    assert.equal(repository.loadTransactions("1001", PAGE).total, 0);
+    assert.equal(repository.findIdempotencyRecord("1001:r1"), undefined);
+    assert.equal(fileSize(ledgerPath), ledgerSize);
+
+    // A gravação rejeitada não é reaplicada na próxima recuperação
+    fs.rmdirSync(`${accountsPath}.tmp`);
+    const reopened = open();
+    assert.deepEqual(balances(reopened.loadAll()), { "1001": "10.00" });
+    assert.equal(reopened.loadTransactions("1001", PAGE).total, 0);
+    assert.equal(reopened.findIdempotencyRecord("1001:r1"), undefined);
+  });
+
+  it("descarta a última linha incompleta do livro-razão", () => {
+    const repository = open();
+    repository.save([new Account("1001", Money.parse("15.00"))], {
+      transactions: [deposit("t1", "1001", "15.00")],
+    });
+    fs.appendFileSync(ledgerPath, '{"id":"t2","accountId":"1001"');
+
+    assert.equal(open().loadTransactions("1001", PAGE).total, 1);
+    assert.ok(fs.readFileSync(ledgerPath, "utf8").endsWith("\n"));
+  });
+});
+
+for (const backend of STORAGE_BACKENDS) {
+  describe(`AccountRepository (${backend})`, () => {
+    const skip = backend === "sqlite" ? SQLITE_UNAVAILABLE : undefined;
+    let dir: string;
+    const open = () =>
+      createAccountRepository(
+        backend,
+        path.join(dir, backend === "json" ? "accounts.json" : "accounts.db"),
+        path.join(dir, "ledger.jsonl")
+      );
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbtp-test-"));
+    });
+    afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it("preserva contas, lançamentos e registros ao reabrir", { skip }, () => {
+      const source = new Account("1001", Money.parse("70.00"), "s", "h");
+      const dest = new Account(
+        "1002",
+        Money.parse("30.00"),
+        undefined,
+        undefined,
+        "FROZEN"
+      );
+      const schedule = new ScheduledTransfer(
+        "s1",
+        "1001",
+        "1002",
+        Money.parse("5.00"),
+        "DAILY",
+        "2099-01-02"
+      );
+      open().save([source, dest], {
+        transactions: [
+          new Transaction(
+            "t1",
+            "1001",
+            "2099-01-01T10:00:00.000Z",
+            "TRANSFER_OUT",
+            Money.parse("30.00"),
+            "1002",
+            Money.parse("70.00")
+          ),
+          new Transaction(
+            "t2",
+            "1002",
+            "2099-01-01T10:00:00.000Z",
+            "TRANSFER_IN",
+            Money.parse("30.00"),
+            "1001",
+            Money.parse("30.00")
+          ),
+        ],
+        idempotency: new IdempotencyRecord(
+          "1001:r1",
+          "f",
+          "OK",
+          "2099-01-01T00:00:00.000Z"
+        ),
+        schedules: [schedule],
+      });
+
+      const repository = open();
+      assert.deepEqual(balances(repository.loadAll()), {
+        "1001": "70.00",
+        "1002": "30.00",
+      });
+      const stored = repository.loadAll().find((a) => a.id === "1002");
+      assert.equal(stored?.status, "FROZEN");
+      assert.equal(stored?.frozenBy, "OWNER");
+
+      const page = repository.loadTransactions("1001", PAGE);
+      assert.equal(page.total, 1);
+      assert.equal(page.entries[0].type, "TRANSFER_OUT");
+      assert.equal(
+        repository.dailyTotal("1001", "TRANSFER_OUT", "2099-01-01").toString(),
+        "30.00"
+      );
+      assert.equal(
+        repository.dailyTotal("1001", "TRANSFER_OUT", "2099-01-02").toString(),
+        "0.00"
+      );
+      assert.equal(
+        repository.hasCounterparty("1002", "TRANSFER_IN", "1001"),
+        true
+      );
+      assert.equal(
+        repository.hasCounterparty("1001", "TRANSFER_IN", "1002"),
+        false
+      );
+
+      assert.equal(repository.findIdempotencyRecord("1001:r1")?.response, "OK");
+      repository.deleteExpiredIdempotencyRecords("2099-01-01T00:00:00.000Z");
+      assert.equal(repository.findIdempotencyRecord("1001:r1"), undefined);
+
+      repository.saveScheduledTransfer(
+        new ScheduledTransfer(
+          "s1",
+          "1001",
+          "1002",
+          Money.parse("5.00"),
+          "DAILY",
+          "2099-01-02",
+          "2099-01-02",
+          "CANCELLED"
+        )
+      );
+      assert.deepEqual(
+        open()
+          .loadScheduledTransfers()
+          .map((transfer) => [transfer.id, transfer.status]),
+        [["s1", "CANCELLED"]]
+      );
+    });
+
+    it("filtra e pagina o extrato em ordem cronológica", { skip }, () => {
+      const repository = open();
+      const transactions = ["01", "02", "03"].map(
+        (day, i) =>
+          new Transaction(
+            `t${i}`,
+            "1001",
+            `2099-01-${day}T10:00:00.000Z`,
+            "DEPOSIT",
+            Money.parse("1.00"),
+            "",
+            Money.parse(`${i + 1}.00`)
+          )
+      );
+      repository.save([new Account("1001", Money.parse("3.00"))], {
+        transactions,
+      });
+
+      const page = open().loadTransactions("1001", {
+        from: "2099-01-02T00:00:00.000Z",
+        offset: 1,
+        limit: 10,
+      });
+      assert.equal(page.total, 2);
+      assert.deepEqual(
+        page.entries.map((entry) => entry.id),
+        ["t2"]
+      );
+    });
+  });
+}
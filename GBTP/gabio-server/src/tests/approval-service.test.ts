@@ -0,0 +1,122 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { createFixture, Fixture } from "./fixtures";
+import { GBTPRequest } from "../protocol/gbtp";
+import { Session } from "../models/session";
+import { Money } from "../models/money";
+import { ApprovalPolicy } from "../models/approval-policy";
+import {
+  ForbiddenError,
+  PendingTransferNotFoundError,
+} from "../errors/gbtp-error";
+
+describe("ApprovalService", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  /**
+   * Abre a origem (transferências a partir de 100.00 exigem aprovação), o
+   * destino e a conta aprovadora.
+   */
+  async function accounts() {
+    fixture = createFixture();
+    const source = fixture.open("500.00");
+    const dest = fixture.open("0.00");
+    const approver = fixture.open("0.00");
+    await fixture.service.setApprovalPolicy(
+      source,
+      new ApprovalPolicy(Money.parse("100.00"), [approver])
+    );
+    return { source, dest, approver };
+  }
+
+  it("reserva a transferência até a aprovação", async () => {
+    const { source, dest, approver } = await accounts();
+    assert.equal(
+      fixture.service.requiresApproval(source, Money.parse("150.00")),
+      true
+    );
+
+    const { transfer, available } = await fixture.approvals.request(
+      source,
+      dest,
+      Money.parse("150.00")
+    );
+    assert.equal(available.toString(), "350.00");
+    assert.equal(fixture.service.getBalance(source).toString(), "500.00");
+    assert.deepEqual(
+      fixture.approvals.list(approver, source).map((pending) => pending.id),
+      [transfer.id]
+    );
+    assert.throws(() => fixture.approvals.list(dest, source), ForbiddenError);
+
+    await assert.rejects(
+      fixture.approvals.approve(dest, source, transfer.id),
+      ForbiddenError
+    );
+    const receipt = await fixture.approvals.approve(
+      approver,
+      source,
+      transfer.id
+    );
+    assert.equal(receipt.balance.toString(), "350.00");
+    assert.equal(fixture.service.getBalance(dest).toString(), "150.00");
+    assert.deepEqual(fixture.approvals.list(source, source), []);
+    await assert.rejects(
+      fixture.approvals.approve(approver, source, transfer.id),
+      PendingTransferNotFoundError
+    );
+  });
+
+  it("devolve o valor reservado na rejeição e na expiração", async () => {
+    const { source, dest, approver } = await accounts();
+    const rejected = await fixture.approvals.request(
+      source,
+      dest,
+      Money.parse("200.00")
+    );
+    await fixture.approvals.request(source, dest, Money.parse("100.00"));
+    const available = () =>
+      fixture.service.getAccount(source).available().toString();
+    assert.equal(available(), "200.00");
+
+    await fixture.approvals.reject(approver, source, rejected.transfer.id);
+    assert.equal(available(), "400.00");
+
+    // Prazo padrão de um dia
+    assert.equal(await fixture.approvals.expireDue(new Date()), 0);
+    const later = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    assert.equal(await fixture.approvals.expireDue(later), 1);
+    assert.equal(available(), "500.00");
+    assert.equal(fixture.service.getBalance(dest).toString(), "0.00");
+  });
+
+  it("aprova pelo protocolo com PENDING_ID", async () => {
+    const { source, dest, approver } = await accounts();
+    const session = (account: string) => {
+      const created = new Session();
+      created.login(account);
+      return created;
+    };
+
+    const pending = await fixture.controller.process(
+      new GBTPRequest("TRANSFER", source, dest, "150.00"),
+      session(source)
+    );
+    const pendingId = pending.pendingId?.pendingNumber();
+    assert.ok(pendingId);
+    assert.equal(fixture.service.getBalance(dest).toString(), "0.00");
+
+    const approval = new GBTPRequest("APPROVE", source, undefined, "0", {
+      pendingId,
+    });
+    const refused = await fixture.controller.process(approval, session(source));
+    assert.equal(refused.code?.errorCode(), "FORBIDDEN");
+    const approved = await fixture.controller.process(
+      approval,
+      session(approver)
+    );
+    assert.equal(approved.status.statusMessage(), "OK");
+    assert.equal(fixture.service.getBalance(dest).toString(), "150.00");
+  });
+});
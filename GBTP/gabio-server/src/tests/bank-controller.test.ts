@@ -0,0 +1,167 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { createFixture, Fixture } from "./fixtures";
+import { GBTPRequest } from "../protocol/gbtp";
+import { Session } from "../models/session";
+import { Money } from "../models/money";
+
+/**
+ * Saques de até duas operações por minuto; a terceira é recusada.
+ */
+const VELOCITY_RULE = {
+  name: "saques-por-minuto",
+  type: "VELOCITY",
+  action: "REJECT",
+  operations: ["WITHDRAW"],
+  windowSeconds: 60,
+  maxCount: 2,
+};
+
+/**
+ * Saques a partir de 500.00 ficam retidos para análise.
+ */
+const AMOUNT_RULE = {
+  name: "valor-alto",
+  type: "AMOUNT",
+  action: "HOLD",
+  operations: ["WITHDRAW"],
+  minAmount: "500.00",
+};
+
+describe("BankController idempotência", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("devolve a mesma retenção a um reenvio do REQUEST_ID", async () => {
+    fixture = createFixture([AMOUNT_RULE]);
+    const account = fixture.open("1000.00");
+    const session = new Session();
+    session.login(account);
+    const withdraw = (value: string) =>
+      fixture.controller.process(
+        new GBTPRequest("WITHDRAW", account, undefined, value, {
+          requestId: "saque-1",
+        }),
+        session
+      );
+
+    const first = await withdraw("600.00");
+    assert.equal(first.status.statusMessage(), "ERROR");
+    assert.equal(first.code?.errorCode(), "TRANSACTION_HELD");
+    const reviewId = first.reviewId?.reviewNumber();
+    assert.ok(reviewId);
+
+    const retry = await withdraw("600.00");
+    assert.equal(retry.code?.errorCode(), "TRANSACTION_HELD");
+    assert.equal(retry.reviewId?.reviewNumber(), reviewId);
+    assert.equal(fixture.fraud.pendingReviews().length, 1);
+
+    // Aprovada a retenção, o reenvio não executa o saque de novo
+    await fixture.admin.approveReview(reviewId, { reason: "Confirmado" });
+    const afterApproval = await withdraw("600.00");
+    assert.equal(afterApproval.reviewId?.reviewNumber(), reviewId);
+    assert.equal(fixture.service.getBalance(account).toString(), "400.00");
+
+    const other = await withdraw("700.00");
+    assert.equal(other.code?.errorCode(), "DUPLICATE_REQUEST_ID");
+  });
+});
+
+describe("BankController regras de frequência", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  /**
+   * Abre uma conta com sessão autenticada.
+   * @returns ID da conta e função que envia requisições dela e devolve o
+   *          CODE da resposta ("OK" em caso de sucesso)
+   */
+  function client(balance: string) {
+    const account = fixture.open(balance);
+    const session = new Session();
+    session.login(account);
+    const send = async (
+      operation: string,
+      value: string,
+      items?: string[]
+    ) => {
+      const response = await fixture.controller.process(
+        new GBTPRequest(operation, account, undefined, value, {
+          mode: items && "BEST_EFFORT",
+          items,
+        }),
+        session
+      );
+      return response.code?.errorCode() ?? response.status.statusMessage();
+    };
+    return { account, send };
+  }
+
+  it("não conta as saídas cuja execução falhou", async () => {
+    fixture = createFixture([VELOCITY_RULE]);
+    const { send } = client("100.00");
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      assert.equal(await send("WITHDRAW", "500.00"), "INSUFFICIENT_FUNDS");
+    }
+    assert.equal(await send("WITHDRAW", "10.00"), "OK");
+    assert.equal(await send("WITHDRAW", "10.00"), "OK");
+    assert.equal(await send("WITHDRAW", "10.00"), "TRANSACTION_REJECTED");
+  });
+
+  it("conta apenas as operações executadas de um lote", async () => {
+    fixture = createFixture([VELOCITY_RULE]);
+    const { send } = client("100.00");
+
+    const items = ["WITHDRAW;;10.00", "WITHDRAW;;500.00"];
+    assert.equal(await send("BATCH", "0", items), "OK");
+    assert.equal(await send("WITHDRAW", "10.00"), "OK");
+    assert.equal(await send("WITHDRAW", "10.00"), "TRANSACTION_REJECTED");
+  });
+
+  it("mantém as saídas desfeitas fora do histórico ao reiniciar", async () => {
+    fixture = createFixture([VELOCITY_RULE]);
+    const { account, send } = client("100.00");
+
+    await send("WITHDRAW", "500.00");
+    await send("WITHDRAW", "500.00");
+    await fixture.fraud.flush();
+    const restarted = fixture.restartFraud();
+    const withdrawal = () =>
+      restarted.screen({
+        accountId: account,
+        operation: "WITHDRAW",
+        amount: Money.parse("10.00"),
+      }).verdict;
+    assert.equal(withdrawal(), "ALLOW");
+    assert.equal(withdrawal(), "ALLOW");
+    assert.equal(withdrawal(), "REJECT");
+  });
+});
+
+describe("BankController encerramento de conta", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("desvincula as outras sessões da conta encerrada", async () => {
+    fixture = createFixture();
+    const account = fixture.open("0.00");
+    const closing = new Session();
+    const other = new Session();
+    closing.login(account);
+    other.login(account);
+    const send = async (operation: string, session: Session) => {
+      const response = await fixture.controller.process(
+        new GBTPRequest(operation, account, undefined, "0"),
+        session
+      );
+      return response.code?.errorCode() ?? response.status.statusMessage();
+    };
+
+    assert.equal(await send("CLOSE", closing), "OK");
+    assert.equal(await send("BALANCE", other), "UNAUTHORIZED");
+    assert.equal(other.isAuthenticated(), false);
+    assert.equal(await send("STATEMENT", other), "UNAUTHORIZED");
+    assert.equal(await send("SUBSCRIBE", other), "UNAUTHORIZED");
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createFixture, Fixture } from "./fixtures";
+import { ExchangeRateService } from "../services/exchange-rate-service";
+import { GBTPRequest } from "../protocol/gbtp";
+import { Session } from "../models/session";
+import { Money } from "../models/money";
+import { UnsupportedCurrencyError } from "../errors/gbtp-error";
+
+describe("ExchangeRateService", () => {
+  let dir: string;
+  /** Grava a tabela de câmbio e cria o serviço sobre ela. */
+  const rates = (table: object) => {
+    const ratesPath = path.join(dir, "exchange-rates.json");
+    fs.writeFileSync(ratesPath, JSON.stringify(table));
+    return new ExchangeRateService(ratesPath);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbtp-test-"));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("converte pela moeda de referência e informa a taxa", () => {
+    const service = rates({ BRL: "1", USD: "5.40" });
+
+    const toUsd = service.convert(Money.parse("100.00"), "BRL", "USD");
+    assert.equal(toUsd.amount.toString(), "18.52");
+    assert.equal(toUsd.rate, "0.185185");
+
+    const toBrl = service.convert(Money.parse("10.00"), "USD", "BRL");
+    assert.equal(toBrl.amount.toString(), "54.00");
+    assert.equal(toBrl.rate, "5.400000");
+
+    const same = service.convert(Money.parse("7.35"), "USD", "USD");
+    assert.equal(same.amount.toString(), "7.35");
+    assert.equal(same.rate, "1.000000");
+  });
+
+  it("arredonda meio centavo para cima", () => {
+    const service = rates({ BRL: "1", XTS: "2" });
+    assert.equal(
+      service.convert(Money.parse("0.01"), "BRL", "XTS").amount.toString(),
+      "0.01"
+    );
+    assert.equal(
+      service.convert(Money.parse("0.03"), "BRL", "XTS").amount.toString(),
+      "0.02"
+    );
+  });
+
+  it("recusa moedas fora da tabela", () => {
+    const service = rates({ BRL: "1" });
+    assert.equal(service.supports("USD"), false);
+    assert.throws(() => service.convert(Money.parse("1.00"), "BRL", "USD"), {
+      name: UnsupportedCurrencyError.name,
+      message: "Moeda não suportada: USD",
+    });
+  });
+
+  it("recusa tabelas com moeda ou cotação inválida", () => {
+    assert.throws(() => rates({ usd: "5.40" }), /Taxa de câmbio inválida/);
+    assert.throws(() => rates({ USD: "0" }), /Taxa de câmbio inválida/);
+    assert.throws(() => rates({ USD: "5.1234567" }), /Taxa de câmbio inválida/);
+  });
+
+  it("suporta apenas a moeda padrão sem tabela", () => {
+    const service = new ExchangeRateService(path.join(dir, "ausente.json"));
+    assert.equal(service.supports("BRL"), true);
+    assert.equal(service.supports("USD"), false);
+  });
+});
+
+describe("BankService transferências entre moedas", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("credita no destino o valor convertido para a sua moeda", async () => {
+    fixture = createFixture();
+    const source = fixture.open("100.00");
+    const dest = fixture.service.openAccount(
+      "Teste",
+      Money.ZERO,
+      "1234",
+      "USD"
+    ).id;
+
+    const receipt = await fixture.service.transfer(
+      source,
+      dest,
+      Money.parse("54.00")
+    );
+    assert.equal(receipt.balance.toString(), "46.00");
+    assert.equal(receipt.credited.toString(), "10.00");
+    assert.equal(receipt.currency, "USD");
+    assert.equal(receipt.rate, "0.185185");
+    assert.equal(fixture.service.getBalance(dest).toString(), "10.00");
+
+    // Cada lançamento da transferência fica na moeda da sua conta
+    const transferred = (accountId: string) =>
+      fixture.repository
+        .loadTransactions(accountId, { offset: 0, limit: 10 })
+        .entries.filter((entry) => entry.counterparty !== "")
+        .map((entry) => [entry.type, entry.amount.toString()]);
+    assert.deepEqual(transferred(source), [["TRANSFER_OUT", "54.00"]]);
+    assert.deepEqual(transferred(dest), [["TRANSFER_IN", "10.00"]]);
+  });
+
+  it("recusa um CURRENCY diferente da moeda da conta", async () => {
+    fixture = createFixture();
+    const account = fixture.open("100.00");
+    const session = new Session();
+    session.login(account);
+
+    const response = await fixture.controller.process(
+      new GBTPRequest("WITHDRAW", account, undefined, "10.00", {
+        currency: "USD",
+      }),
+      session
+    );
+    assert.equal(response.code?.errorCode(), "INVALID_VALUE");
+    assert.equal(fixture.service.getBalance(account).toString(), "100.00");
+  });
+});
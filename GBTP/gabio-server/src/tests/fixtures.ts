@@ -0,0 +1,244 @@
+/**
+ * Serviços dos testes, montados como no servidor (server.ts), com todos os
+ * arquivos gravados em um diretório temporário, e um servidor WebSocket em
+ * processo para os testes da conexão.
+ */
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { BankService } from "../services/bank-service";
+import { LedgerService } from "../services/ledger-service";
+import { ExchangeRateService } from "../services/exchange-rate-service";
+import { FraudService } from "../services/fraud-service";
+import { SchedulerService } from "../services/scheduler-service";
+import { ApprovalService } from "../services/approval-service";
+import { IdempotencyService } from "../services/idempotency-service";
+import { BankController } from "../controllers/bank-controller";
+import { AdminController } from "../controllers/admin-controller";
+import { createAccountRepository } from "../repositories/repository-factory";
+import { AccountRepository } from "../repositories/account-repository";
+import { logger } from "../services/logger";
+import { MetricsService } from "../services/metrics-service";
+import { RateLimiter } from "../services/rate-limiter";
+import { ConnectionLimits, WebSocketHandler } from "../ws/websocket-handler";
+import { SubscriptionRegistry } from "../ws/subscription-registry";
+import { selectSubprotocol } from "../protocol/json-codec";
+import { Money } from "../models/money";
+import { GBTPEvent } from "../protocol/gbtp";
+
+// Apenas erros inesperados aparecem na saída dos testes.
+logger.setLevel("error");
+
+/**
+ * Serviços compartilhados de um teste.
+ */
+export interface Fixture {
+  dir: string;
+  repository: AccountRepository;
+  service: BankService;
+  fraud: FraudService;
+  scheduler: SchedulerService;
+  approvals: ApprovalService;
+  controller: BankController;
+  admin: AdminController;
+  /** Abre uma conta com o saldo informado e retorna o ID. */
+  open(balance: string): string;
+  /** Recria o FraudService sobre os mesmos arquivos (reinício). */
+  restartFraud(): FraudService;
+  /** Aguarda as gravações pendentes e remove o diretório temporário. */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Cria os serviços em um diretório temporário.
+ * @param rules - Regras antifraude gravadas em fraud-rules.json (padrão:
+ *                nenhuma)
+ */
+export function createFixture(rules: object[] = []): Fixture {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbtp-test-"));
+  const rulesPath = path.join(dir, "fraud-rules.json");
+  const decisionsPath = path.join(dir, "fraud-decisions.jsonl");
+  fs.writeFileSync(rulesPath, JSON.stringify(rules), { encoding: "utf8" });
+
+  const repository = createAccountRepository(
+    "json",
+    path.join(dir, "accounts.json"),
+    path.join(dir, "ledger.jsonl")
+  );
+  const service = new BankService(
+    repository,
+    new LedgerService(repository),
+    new ExchangeRateService(),
+    []
+  );
+  const fraud = new FraudService(
+    service,
+    repository,
+    rulesPath,
+    decisionsPath
+  );
+  // Instâncias criadas no teste, cujas gravações são aguardadas em cleanup
+  const frauds = [fraud];
+  const scheduler = new SchedulerService(service, repository, fraud);
+  const approvals = new ApprovalService(service);
+  return {
+    dir,
+    repository,
+    service,
+    fraud,
+    scheduler,
+    approvals,
+    controller: new BankController(
+      service,
+      new IdempotencyService(repository),
+      scheduler,
+      fraud,
+      approvals
+    ),
+    admin: new AdminController(service, fraud, approvals, scheduler),
+    open: (balance) =>
+      service.openAccount("Teste", Money.parse(balance), "1234").id,
+    restartFraud: () => {
+      const restarted = new FraudService(
+        service,
+        repository,
+        rulesPath,
+        decisionsPath
+      );
+      frauds.push(restarted);
+      return restarted;
+    },
+    cleanup: async () => {
+      await Promise.all(frauds.map((instance) => instance.flush()));
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Servidor WebSocket de um teste, escutando em uma porta livre de 127.0.0.1.
+ */
+export interface TestServer {
+  url: string;
+  /** Encerra as conexões abertas e o servidor. */
+  close(): Promise<void>;
+}
+
+/**
+ * Inicia um servidor WebSocket sobre os serviços da fixture, montado como em
+ * server.ts (subprotocolos, WebSocketHandler e eventos de saldo).
+ * @param fixture - Serviços do teste
+ * @param limits  - Limites da conexão que substituem os padrões (sem limites
+ *                  de vazão efetivos)
+ */
+export async function startServer(
+  fixture: Fixture,
+  limits: Partial<ConnectionLimits> = {}
+): Promise<TestServer> {
+  const subscriptions = new SubscriptionRegistry();
+  const metrics = new MetricsService();
+  const connectionLimits: ConnectionLimits = {
+    maxMessageSize: 64 * 1024,
+    messageRate: 1000,
+    messageBurst: 1000,
+    accounts: new RateLimiter(1000, 1000),
+    addresses: new RateLimiter(1000, 1000),
+    heartbeatIntervalMs: 60_000,
+    idleTimeoutMs: 60_000,
+    ...limits,
+  };
+  fixture.service.onBalanceChange((accountId, balance) =>
+    subscriptions.publish(
+      accountId,
+      new GBTPEvent("BALANCE_CHANGED", accountId, balance.toString())
+    )
+  );
+
+  const server = http.createServer();
+  const wss = new WebSocketServer({
+    server,
+    handleProtocols: selectSubprotocol,
+  });
+  wss.on("connection", (ws, req) => {
+    new WebSocketHandler(
+      ws,
+      fixture.controller,
+      subscriptions,
+      metrics,
+      connectionLimits,
+      req.socket.remoteAddress ?? ""
+    );
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const client of wss.clients) {
+          client.terminate();
+        }
+        wss.close();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * Conexão de teste com o servidor, que guarda as mensagens recebidas.
+ */
+export interface TestConnection {
+  ws: WebSocket;
+  /** Envia uma mensagem sem aguardar a resposta. */
+  send(message: string): void;
+  /** Aguarda a próxima mensagem recebida (na ordem de chegada). */
+  receive(): Promise<string>;
+  /** Código de fechamento enviado pelo servidor. */
+  closed: Promise<number>;
+}
+
+/**
+ * Abre uma conexão com o servidor de teste.
+ * @param url       - Endereço do servidor
+ * @param protocols - Subprotocolos oferecidos (padrão: nenhum)
+ */
+export async function connect(
+  url: string,
+  protocols: string[] = []
+): Promise<TestConnection> {
+  const ws = new WebSocket(url, protocols);
+  const received: string[] = [];
+  const waiting: Array<(message: string) => void> = [];
+  ws.on("message", (data) => {
+    const message = data.toString();
+    const next = waiting.shift();
+    if (next) {
+      next(message);
+    } else {
+      received.push(message);
+    }
+  });
+  const closed = new Promise<number>((resolve) =>
+    ws.on("close", (code) => resolve(code))
+  );
+  await new Promise<void>((resolve, reject) => {
+    ws.once("open", () => resolve());
+    ws.once("error", reject);
+  });
+  return {
+    ws,
+    send: (message) => ws.send(message),
+    receive: () => {
+      const message = received.shift();
+      return message !== undefined
+        ? Promise.resolve(message)
+        : new Promise((resolve) => waiting.push(resolve));
+    },
+    closed,
+  };
+}
@@ -0,0 +1,180 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { createFixture, Fixture } from "./fixtures";
+import { Money } from "../models/money";
+import { ScreenedTransaction } from "../services/fraud-service";
+import {
+  InsufficientFundsError,
+  ReviewNotFoundError,
+} from "../errors/gbtp-error";
+
+/**
+ * Saques de até duas operações por minuto; a terceira é recusada.
+ */
+const VELOCITY_RULE = {
+  name: "saques-por-minuto",
+  type: "VELOCITY",
+  action: "REJECT",
+  operations: ["WITHDRAW"],
+  windowSeconds: 60,
+  maxCount: 2,
+};
+
+/**
+ * Saques a partir de 500.00 ficam retidos para análise.
+ */
+const AMOUNT_RULE = {
+  name: "valor-alto",
+  type: "AMOUNT",
+  action: "HOLD",
+  operations: ["WITHDRAW"],
+  minAmount: "500.00",
+};
+
+function withdrawal(accountId: string, amount: string): ScreenedTransaction {
+  return { accountId, operation: "WITHDRAW", amount: Money.parse(amount) };
+}
+
+describe("FraudService VELOCITY", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("conta apenas as saídas liberadas dentro da janela", () => {
+    fixture = createFixture([VELOCITY_RULE]);
+    const start = new Date("2025-01-01T12:00:00Z").getTime();
+    const verdict = (accountId: string, seconds: number) =>
+      fixture.fraud.screen(
+        withdrawal(accountId, "10"),
+        new Date(start + seconds * 1000)
+      ).verdict;
+
+    assert.equal(verdict("1", 0), "ALLOW");
+    assert.equal(verdict("1", 10), "ALLOW");
+    assert.equal(verdict("1", 20), "REJECT");
+    // Outra conta tem o próprio histórico
+    assert.equal(verdict("2", 20), "ALLOW");
+    // A primeira saída sai da janela; a recusa não conta
+    assert.equal(verdict("1", 61), "ALLOW");
+    assert.equal(verdict("1", 65), "REJECT");
+    // Todas fora da janela
+    assert.equal(verdict("1", 200), "ALLOW");
+  });
+
+  it("relê ao reiniciar apenas as saídas dentro da janela", async () => {
+    fixture = createFixture([VELOCITY_RULE]);
+    const now = Date.now();
+    fixture.fraud.screen(withdrawal("1", "10"), new Date(now - 120_000));
+    fixture.fraud.screen(withdrawal("1", "10"), new Date(now - 1_000));
+    fixture.fraud.screen(withdrawal("1", "10"), new Date(now - 500));
+    await fixture.fraud.flush();
+
+    const restarted = fixture.restartFraud();
+    // As duas saídas recentes continuam contando; a antiga não
+    assert.equal(restarted.screen(withdrawal("1", "10")).verdict, "REJECT");
+    assert.equal(
+      restarted.screen(withdrawal("1", "10"), new Date(now + 61_000)).verdict,
+      "ALLOW"
+    );
+  });
+});
+
+describe("FraudService HOLD", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("executa a transação retida somente quando aprovada", async () => {
+    fixture = createFixture([AMOUNT_RULE]);
+    const account = fixture.open("1000.00");
+    const held = fixture.fraud.screen(withdrawal(account, "600.00"));
+    assert.equal(held.verdict, "HOLD");
+    assert.deepEqual(
+      fixture.fraud.pendingReviews().map((review) => review.id),
+      [held.id]
+    );
+    assert.equal(fixture.service.getBalance(account).toString(), "1000.00");
+
+    await fixture.admin.approveReview(held.id, { reason: "Cliente confirmou" });
+    assert.equal(fixture.service.getBalance(account).toString(), "400.00");
+    assert.deepEqual(fixture.fraud.pendingReviews(), []);
+    await assert.rejects(
+      fixture.admin.approveReview(held.id, { reason: "De novo" }),
+      ReviewNotFoundError
+    );
+  });
+
+  it("mantém na fila a transação cuja execução falhou", async () => {
+    fixture = createFixture([AMOUNT_RULE]);
+    const account = fixture.open("100.00");
+    const held = fixture.fraud.screen(withdrawal(account, "600.00"));
+
+    await assert.rejects(
+      fixture.admin.approveReview(held.id, { reason: "Cliente confirmou" }),
+      InsufficientFundsError
+    );
+    assert.equal(fixture.fraud.pendingReviews().length, 1);
+    assert.equal(fixture.service.getBalance(account).toString(), "100.00");
+  });
+
+  it("não executa de novo uma aprovação já gravada", async () => {
+    fixture = createFixture([AMOUNT_RULE]);
+    const account = fixture.open("1000.00");
+    const held = fixture.fraud.screen(withdrawal(account, "600.00"));
+
+    // Queda logo após a execução, antes de gravar a decisão "APPROVED"
+    await assert.rejects(
+      fixture.fraud.approve(held.id, "Confirmado", async (_, approval) => {
+        await fixture.service.withdraw(account, held.amount, approval);
+        throw new Error("Queda");
+      }),
+      /Queda/
+    );
+    assert.equal(fixture.fraud.pendingReviews().length, 1);
+
+    // O reinício conclui a análise a partir do registro gravado
+    const restarted = fixture.restartFraud();
+    assert.deepEqual(restarted.pendingReviews(), []);
+    // Uma nova aprovação apenas registra a decisão
+    await fixture.admin.approveReview(held.id, { reason: "De novo" });
+    assert.equal(fixture.service.getBalance(account).toString(), "400.00");
+    assert.deepEqual(fixture.fraud.pendingReviews(), []);
+  });
+
+  it("descarta a transação recusada, também após um reinício", () => {
+    fixture = createFixture([AMOUNT_RULE]);
+    const account = fixture.open("1000.00");
+    const declined = fixture.fraud.screen(withdrawal(account, "600.00"));
+    const kept = fixture.fraud.screen(withdrawal(account, "700.00"));
+
+    fixture.admin.declineReview(declined.id, { reason: "Não reconhecida" });
+    assert.equal(fixture.service.getBalance(account).toString(), "1000.00");
+    assert.throws(
+      () => fixture.admin.declineReview(declined.id, { reason: "De novo" }),
+      ReviewNotFoundError
+    );
+    const restarted = fixture.restartFraud();
+    assert.deepEqual(
+      restarted.pendingReviews().map((review) => review.id),
+      [kept.id]
+    );
+  });
+
+  it("agenda para a próxima verificação após a data", async () => {
+    fixture = createFixture([{ ...AMOUNT_RULE, operations: ["TRANSFER"] }]);
+    const source = fixture.open("1000.00");
+    const dest = fixture.open("0.00");
+    const held = fixture.fraud.screen({
+      accountId: source,
+      operation: "SCHEDULE_TRANSFER",
+      destination: dest,
+      amount: Money.parse("600.00"),
+      runDate: "2020-01-01",
+      recurrence: "ONCE",
+    });
+    assert.equal(held.verdict, "HOLD");
+
+    await fixture.admin.approveReview(held.id, { reason: "Cliente confirmou" });
+    const [schedule] = fixture.scheduler.list(source);
+    assert.equal(schedule.nextRun, "2020-01-01");
+    assert.equal(schedule.status, "PENDING");
+  });
+});
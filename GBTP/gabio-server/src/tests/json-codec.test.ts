@@ -0,0 +1,182 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  connect,
+  createFixture,
+  Fixture,
+  startServer,
+  TestServer,
+} from "./fixtures";
+import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { TEXT_CODEC } from "../protocol/gbtp-codec";
+import {
+  codecByName,
+  detectCodec,
+  JSON_CODEC,
+  selectSubprotocol,
+} from "../protocol/json-codec";
+import { MalformedRequestError } from "../errors/gbtp-error";
+
+describe("JsonCodec", () => {
+  it("codifica e decodifica uma requisição com corpo", () => {
+    const request = new GBTPRequest("BATCH", "1001", undefined, "0", {
+      correlationId: "c-1",
+      mode: "ATOMIC",
+      items: ["DEPOSIT;;10.00", "WITHDRAW;;5.00"],
+    });
+    const raw = request.encode(JSON_CODEC);
+    const message = JSON.parse(raw);
+    assert.equal(message.OPERATION, "BATCH");
+    assert.deepEqual(message.BODY, ["DEPOSIT;;10.00", "WITHDRAW;;5.00"]);
+
+    const decoded = GBTPRequest.fromString(raw, JSON_CODEC);
+    assert.equal(decoded.encode(TEXT_CODEC), request.encode(TEXT_CODEC));
+  });
+
+  it("recusa mensagens fora do formato", () => {
+    const decode = (raw: string) => () =>
+      JSON_CODEC.decode(raw, GBTPRequest.SCHEMA);
+    const malformed = (message: RegExp) => ({
+      name: MalformedRequestError.name,
+      message,
+    });
+
+    assert.throws(decode("{"), malformed(/JSON inválido/));
+    assert.throws(decode('["OPERATION"]'), malformed(/objeto JSON/));
+    assert.throws(
+      decode('{"OPERATION":"DEPOSIT","VALUE":10}'),
+      malformed(/Valor da chave VALUE deve ser texto/)
+    );
+    assert.throws(
+      decode('{"OPERATION":"BATCH","BODY":"DEPOSIT;;1"}'),
+      malformed(/BODY deve ser uma lista de textos/)
+    );
+    assert.throws(
+      () =>
+        codecByName("gbtp-json", 16)!.decode(
+          '{"OPERATION":"DEPOSIT"}',
+          GBTPRequest.SCHEMA
+        ),
+      malformed(/tamanho máximo de 16 bytes/)
+    );
+  });
+});
+
+describe("Negociação da codificação", () => {
+  it("escolhe o primeiro subprotocolo suportado do cliente", () => {
+    assert.equal(
+      selectSubprotocol(["chat", "gbtp-json", "gbtp-text"]),
+      "gbtp-json"
+    );
+    assert.equal(selectSubprotocol(new Set(["gbtp-text"])), "gbtp-text");
+    assert.equal(selectSubprotocol(["chat"]), false);
+    assert.equal(codecByName("chat"), undefined);
+  });
+
+  it("detecta a codificação pela mensagem sem subprotocolo", () => {
+    assert.equal(detectCodec('  {"OPERATION":"BALANCE"}').name, "gbtp-json");
+    assert.equal(detectCodec("OPERATION:BALANCE").name, "gbtp-text");
+    assert.equal(detectCodec("{}", 10).maxMessageSize, 10);
+  });
+});
+
+describe("WebSocketHandler codificação", () => {
+  let fixture: Fixture;
+  let server: TestServer;
+  afterEach(async () => {
+    await server.close();
+    await fixture.cleanup();
+  });
+
+  /**
+   * Inicia o servidor e retorna uma requisição BALANCE sem LOGIN, respondida
+   * com UNAUTHORIZED.
+   */
+  async function start(): Promise<GBTPRequest> {
+    fixture = createFixture();
+    server = await startServer(fixture);
+    return new GBTPRequest("BALANCE", fixture.open("0.00"), undefined, "0");
+  }
+
+  it("responde no subprotocolo negociado", async () => {
+    const request = await start();
+    for (const codec of [JSON_CODEC, TEXT_CODEC]) {
+      const connection = await connect(server.url, ["x-gbtp", codec.name]);
+      assert.equal(connection.ws.protocol, codec.name);
+      connection.send(request.encode(codec));
+      const response = GBTPResponse.fromString(
+        await connection.receive(),
+        codec
+      );
+      assert.equal(response.code?.errorCode(), "UNAUTHORIZED");
+      connection.ws.close();
+    }
+  });
+
+  it("mantém a codificação detectada na primeira mensagem", async () => {
+    const request = await start();
+    const connection = await connect(server.url);
+    assert.equal(connection.ws.protocol, "");
+
+    connection.send(request.encode(JSON_CODEC));
+    const first = await connection.receive();
+    assert.equal(
+      GBTPResponse.fromString(first, JSON_CODEC).code?.errorCode(),
+      "UNAUTHORIZED"
+    );
+    // Uma mensagem em texto na mesma conexão é tratada como JSON inválido
+    connection.send(request.encode(TEXT_CODEC));
+    const second = GBTPResponse.fromString(
+      await connection.receive(),
+      JSON_CODEC
+    );
+    assert.equal(second.code?.errorCode(), "MALFORMED_REQUEST");
+  });
+});
+
+describe("Codecs com chaves repetidas", () => {
+  it("rejeitam a mesma chave duas vezes no codec de texto", () => {
+    assert.throws(
+      () =>
+        TEXT_CODEC.decode(
+          "OPERATION:DEPOSIT\nACCOUNT_ID:1001\nVALUE:1\nVALUE:1000",
+          GBTPRequest.SCHEMA
+        ),
+      { name: MalformedRequestError.name, message: /Chave VALUE repetida/ }
+    );
+  });
+
+  it("rejeitam a mesma chave duas vezes no codec JSON", () => {
+    const decode = (raw: string) => () =>
+      JSON_CODEC.decode(raw, GBTPRequest.SCHEMA);
+    const repeated = {
+      name: MalformedRequestError.name,
+      message: /Chave VALUE repetida/,
+    };
+
+    assert.throws(
+      decode(
+        '{"OPERATION":"DEPOSIT","ACCOUNT_ID":"1001","VALUE":"1","VALUE":"1000"}'
+      ),
+      repeated
+    );
+    // A mesma chave com escapes
+    assert.throws(
+      decode('{"OPERATION":"DEPOSIT","VALUE":"1","\\u0056ALUE":"1000"}'),
+      repeated
+    );
+    assert.throws(decode('{"BODY":["a"],"BODY":["b"]}'), {
+      name: MalformedRequestError.name,
+      message: /Chave BODY repetida/,
+    });
+  });
+
+  it("aceitam chaves repetidas dentro de outros valores no codec JSON", () => {
+    const frame = JSON_CODEC.decode(
+      '{"OPERATION":"BATCH","BODY":["{\\"VALUE\\":1,\\"VALUE\\":2}"]}',
+      GBTPRequest.SCHEMA
+    );
+    assert.equal(frame.required("OPERATION"), "BATCH");
+    assert.deepEqual(frame.body, ['{"VALUE":1,"VALUE":2}']);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { createFixture, Fixture } from "./fixtures";
+import { LockManager } from "../services/lock-manager";
+import { InsufficientFundsError } from "../errors/gbtp-error";
+import { Money } from "../models/money";
+
+/**
+ * Promise resolvida manualmente, para controlar quando uma tarefa termina.
+ */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe("LockManager", () => {
+  it("executa as tarefas da mesma chave uma de cada vez", async () => {
+    const locks = new LockManager();
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = locks.runExclusive(["1001"], async () => {
+      order.push("a:início");
+      await first.promise;
+      order.push("a:fim");
+    });
+    const b = locks.runExclusive(["1001"], () => {
+      order.push("b");
+    });
+    // Chave diferente: não espera a primeira tarefa
+    await locks.runExclusive(["1002"], () => {
+      order.push("c");
+    });
+    first.resolve();
+    await Promise.all([a, b]);
+
+    assert.deepEqual(order, ["a:início", "c", "a:fim", "b"]);
+  });
+
+  it("não trava com as mesmas chaves em ordens opostas", async () => {
+    const locks = new LockManager();
+    const done: string[] = [];
+    const tasks = [];
+    for (let i = 0; i < 50; i++) {
+      const keys = i % 2 === 0 ? ["1001", "1002"] : ["1002", "1001"];
+      tasks.push(
+        locks.runExclusive(keys, async () => {
+          await Promise.resolve();
+          done.push(keys[0]);
+        })
+      );
+    }
+    await Promise.all(tasks);
+    assert.equal(done.length, 50);
+  });
+
+  it("libera os bloqueios quando a tarefa falha", async () => {
+    const locks = new LockManager();
+    await assert.rejects(
+      locks.runExclusive(["1001", "1002"], () => {
+        throw new Error("falha");
+      }),
+      /falha/
+    );
+    assert.equal(await locks.runExclusive(["1002"], () => "livre"), "livre");
+  });
+});
+
+describe("BankService concorrência", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("não aceita saques simultâneos acima do saldo", async () => {
+    fixture = createFixture();
+    const account = fixture.open("100.00");
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () =>
+        fixture.service.withdraw(account, Money.parse("30.00"))
+      )
+    );
+    const rejected = results.filter((result) => result.status === "rejected");
+    assert.equal(rejected.length, 2);
+    for (const result of rejected) {
+      assert.ok(result.reason instanceof InsufficientFundsError);
+    }
+    assert.equal(fixture.service.getBalance(account).toString(), "10.00");
+  });
+
+  it("conserva o total em transferências simultâneas opostas", async () => {
+    fixture = createFixture();
+    const first = fixture.open("100.00");
+    const second = fixture.open("100.00");
+
+    await Promise.allSettled(
+      Array.from({ length: 40 }, (_, i) =>
+        i % 2 === 0
+          ? fixture.service.transfer(first, second, Money.parse("15.00"))
+          : fixture.service.transfer(second, first, Money.parse("10.00"))
+      )
+    );
+    const total = fixture.service
+      .getBalance(first)
+      .plus(fixture.service.getBalance(second));
+    assert.equal(total.toString(), "200.00");
+    // O repositório contém os mesmos saldos da memória
+    const stored = fixture.repository.loadAll();
+    for (const id of [first, second]) {
+      assert.equal(
+        stored.find((account) => account.id === id)?.balance.toString(),
+        fixture.service.getBalance(id).toString()
+      );
+    }
+  });
+});
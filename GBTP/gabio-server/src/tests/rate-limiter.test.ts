@@ -0,0 +1,174 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  connect,
+  createFixture,
+  Fixture,
+  startServer,
+  TestServer,
+} from "./fixtures";
+import {
+  ConnectionLimiter,
+  RateLimiter,
+  TokenBucket,
+} from "../services/rate-limiter";
+import { ConnectionLimits } from "../ws/websocket-handler";
+import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { TEXT_CODEC } from "../protocol/gbtp-codec";
+
+/**
+ * Vazão praticamente nula: o balde não é reabastecido durante o teste.
+ */
+const NO_REFILL = 0.001;
+
+describe("TokenBucket", () => {
+  it("aceita a rajada e repõe as fichas conforme a vazão", () => {
+    const bucket = new TokenBucket(2, 3, 0);
+    assert.equal(bucket.take(0), true);
+    assert.equal(bucket.take(0), true);
+    assert.equal(bucket.take(0), true);
+    assert.equal(bucket.take(0), false);
+
+    // Meio segundo a 2 fichas/s repõe uma ficha
+    assert.equal(bucket.take(500), true);
+    assert.equal(bucket.take(500), false);
+    // A reposição nunca passa da capacidade
+    assert.equal(bucket.isFull(60_000), true);
+    assert.equal(bucket.take(60_000), true);
+    assert.equal(bucket.take(60_000), true);
+    assert.equal(bucket.take(60_000), true);
+    assert.equal(bucket.take(60_000), false);
+  });
+
+  it("recusa vazão ou rajada inválidas", () => {
+    assert.throws(() => new TokenBucket(0, 1), /Limite de vazão inválido/);
+    assert.throws(() => new RateLimiter(1, -1), /Limite de vazão inválido/);
+  });
+});
+
+describe("RateLimiter e ConnectionLimiter", () => {
+  it("limita cada chave separadamente", () => {
+    const limiter = new RateLimiter(NO_REFILL, 2);
+    assert.equal(limiter.take("1001"), true);
+    assert.equal(limiter.take("1001"), true);
+    assert.equal(limiter.take("1001"), false);
+    assert.equal(limiter.take("1002"), true);
+  });
+
+  it("limita as conexões simultâneas por endereço", () => {
+    const connections = new ConnectionLimiter(2);
+    assert.equal(connections.acquire("10.0.0.1"), true);
+    assert.equal(connections.acquire("10.0.0.1"), true);
+    assert.equal(connections.acquire("10.0.0.1"), false);
+    assert.equal(connections.acquire("10.0.0.2"), true);
+
+    connections.release("10.0.0.1");
+    assert.equal(connections.acquire("10.0.0.1"), true);
+    assert.throws(() => new ConnectionLimiter(0), /Limite de conexões/);
+  });
+});
+
+describe("WebSocketHandler limites", () => {
+  let fixture: Fixture;
+  let server: TestServer;
+  afterEach(async () => {
+    await server.close();
+    await fixture.cleanup();
+  });
+
+  /**
+   * Inicia o servidor com os limites informados e retorna uma conta aberta.
+   */
+  async function start(limits: Partial<ConnectionLimits>): Promise<string> {
+    fixture = createFixture();
+    server = await startServer(fixture, limits);
+    return fixture.open("100.00");
+  }
+
+  /**
+   * Requisição BALANCE da conta, em texto.
+   */
+  function balance(account: string, correlationId?: string): string {
+    return new GBTPRequest("BALANCE", account, undefined, "0", {
+      correlationId,
+    }).encode(TEXT_CODEC);
+  }
+
+  /**
+   * CODE da resposta recebida ("OK" em caso de sucesso).
+   */
+  function code(raw: string): string {
+    const response = GBTPResponse.fromString(raw);
+    return response.code?.errorCode() ?? response.status.statusMessage();
+  }
+
+  it("limita por endereço as requisições antes do LOGIN", async () => {
+    const account = await start({
+      addresses: new RateLimiter(NO_REFILL, 2),
+    });
+    const first = await connect(server.url);
+    first.send(balance(account));
+    first.send(balance(account));
+    first.send(balance(account));
+    assert.equal(code(await first.receive()), "UNAUTHORIZED");
+    assert.equal(code(await first.receive()), "UNAUTHORIZED");
+    const refused = GBTPResponse.fromString(await first.receive());
+    assert.equal(refused.code?.errorCode(), "RATE_LIMITED");
+    assert.equal(
+      refused.message.content(),
+      "Limite de requisições do endereço excedido"
+    );
+    assert.equal(await first.closed, 1008);
+
+    // O limite é do endereço, compartilhado por uma nova conexão
+    const second = await connect(server.url);
+    second.send(balance(account));
+    assert.equal(code(await second.receive()), "RATE_LIMITED");
+  });
+
+  it("passa a limitar pela conta após o LOGIN", async () => {
+    const account = await start({
+      addresses: new RateLimiter(NO_REFILL, 1),
+      accounts: new RateLimiter(NO_REFILL, 2),
+    });
+    const connection = await connect(server.url);
+    connection.send(
+      new GBTPRequest("LOGIN", account, undefined, "0", {
+        password: "1234",
+      }).encode(TEXT_CODEC)
+    );
+    connection.send(balance(account));
+    connection.send(balance(account));
+    connection.send(balance(account));
+    assert.equal(code(await connection.receive()), "OK");
+    assert.equal(code(await connection.receive()), "OK");
+    assert.equal(code(await connection.receive()), "OK");
+    assert.equal(code(await connection.receive()), "RATE_LIMITED");
+  });
+
+  it("encerra a conexão acima da vazão de mensagens", async () => {
+    const account = await start({ messageRate: NO_REFILL, messageBurst: 1 });
+    const connection = await connect(server.url);
+    connection.send(balance(account, "m-1"));
+    assert.equal(code(await connection.receive()), "UNAUTHORIZED");
+
+    connection.send(balance(account, "m-2"));
+    const refused = GBTPResponse.fromString(await connection.receive());
+    assert.equal(refused.code?.errorCode(), "RATE_LIMITED");
+    assert.equal(
+      refused.message.content(),
+      "Limite de mensagens da conexão excedido"
+    );
+    assert.equal(refused.correlationId?.identifier(), "m-2");
+    assert.equal(await connection.closed, 1008);
+  });
+
+  it("encerra a conexão com uma mensagem acima do tamanho máximo", async () => {
+    const account = await start({ maxMessageSize: 64 });
+    const connection = await connect(server.url);
+    connection.send(balance(account) + "\n" + "A".repeat(64));
+
+    assert.equal(code(await connection.receive()), "MESSAGE_TOO_LARGE");
+    assert.equal(await connection.closed, 1009);
+  });
+});
@@ -0,0 +1,172 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { createFixture, Fixture } from "./fixtures";
+import { Money } from "../models/money";
+import { OperationNotAllowedError } from "../errors/gbtp-error";
+
+/**
+ * Data de referência das verificações (depois da primeira execução).
+ */
+const RUN_DATE = "2099-01-01";
+
+/**
+ * Transferências a partir de 500.00 ficam retidas para análise.
+ */
+const AMOUNT_RULE = {
+  name: "valor-alto",
+  type: "AMOUNT",
+  action: "HOLD",
+  operations: ["TRANSFER"],
+  minAmount: "500.00",
+};
+
+describe("SchedulerService", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  it("executa um agendamento vencido uma única vez", async () => {
+    fixture = createFixture();
+    const source = fixture.open("100.00");
+    const dest = fixture.open("0.00");
+    const schedule = fixture.scheduler.schedule(
+      source,
+      dest,
+      Money.parse("30.00"),
+      RUN_DATE,
+      "ONCE"
+    );
+
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 1);
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 0);
+    assert.equal(fixture.service.getBalance(source).toString(), "70.00");
+    assert.equal(fixture.service.getBalance(dest).toString(), "30.00");
+    const stored = fixture.repository
+      .loadScheduledTransfers()
+      .find((transfer) => transfer.id === schedule.id);
+    assert.equal(stored?.status, "COMPLETED");
+  });
+
+  it("não transfere quando cancelado durante a execução", async () => {
+    fixture = createFixture();
+    const source = fixture.open("100.00");
+    const dest = fixture.open("0.00");
+    const schedule = fixture.scheduler.schedule(
+      source,
+      dest,
+      Money.parse("30.00"),
+      RUN_DATE,
+      "DAILY"
+    );
+
+    // A execução aguarda o bloqueio das contas quando o cancelamento chega
+    const run = fixture.scheduler.runDue(RUN_DATE);
+    fixture.scheduler.cancel(source, schedule.id);
+    await run;
+
+    assert.equal(fixture.service.getBalance(source).toString(), "100.00");
+    assert.equal(fixture.service.getBalance(dest).toString(), "0.00");
+    const [listed] = fixture.scheduler.list(source);
+    assert.equal(listed.status, "CANCELLED");
+    assert.equal(listed.lastError, undefined);
+    const stored = fixture.repository
+      .loadScheduledTransfers()
+      .find((transfer) => transfer.id === schedule.id);
+    assert.equal(stored?.status, "CANCELLED");
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 0);
+  });
+
+  it("registra como falha um erro da avaliação antifraude", async () => {
+    fixture = createFixture();
+    const source = fixture.open("100.00");
+    const dest = fixture.open("0.00");
+    fixture.scheduler.schedule(
+      source,
+      dest,
+      Money.parse("30.00"),
+      RUN_DATE,
+      "ONCE"
+    );
+    fixture.fraud.screen = () => {
+      throw new Error("Disco cheio");
+    };
+
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 1);
+    const [listed] = fixture.scheduler.list(source);
+    assert.equal(listed.status, "FAILED");
+    assert.equal(listed.lastError, "Disco cheio");
+    assert.equal(fixture.service.getBalance(source).toString(), "100.00");
+  });
+});
+
+describe("SchedulerService execução retida", () => {
+  let fixture: Fixture;
+  afterEach(() => fixture.cleanup());
+
+  /**
+   * Agenda e executa uma transferência única de 600.00, retida pela regra.
+   * @returns conta de origem, ID do agendamento e REVIEW_ID da execução
+   *          retida
+   */
+  async function heldRun(): Promise<{
+    source: string;
+    scheduleId: string;
+    reviewId: string;
+  }> {
+    fixture = createFixture([AMOUNT_RULE]);
+    const source = fixture.open("1000.00");
+    const dest = fixture.open("0.00");
+    const schedule = fixture.scheduler.schedule(
+      source,
+      dest,
+      Money.parse("600.00"),
+      RUN_DATE,
+      "ONCE"
+    );
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 1);
+    const [review] = fixture.fraud.pendingReviews();
+    assert.equal(review.scheduleId, schedule.id);
+    assert.equal(fixture.scheduler.list(source)[0].status, "HELD");
+    return { source, scheduleId: schedule.id, reviewId: review.id };
+  }
+
+  /**
+   * Situação gravada do agendamento.
+   */
+  function storedStatus(scheduleId: string): string | undefined {
+    return fixture.repository
+      .loadScheduledTransfers()
+      .find((transfer) => transfer.id === scheduleId)?.status;
+  }
+
+  it("conclui o agendamento quando a análise aprova", async () => {
+    const { source, scheduleId, reviewId } = await heldRun();
+
+    await fixture.admin.approveReview(reviewId, { reason: "Confirmado" });
+    const [listed] = fixture.scheduler.list(source);
+    assert.equal(listed.status, "COMPLETED");
+    assert.equal(listed.lastError, undefined);
+    assert.equal(storedStatus(scheduleId), "COMPLETED");
+    assert.equal(fixture.service.getBalance(source).toString(), "400.00");
+    assert.equal(await fixture.scheduler.runDue(RUN_DATE), 0);
+  });
+
+  it("marca o agendamento como falho quando a análise recusa", async () => {
+    const { scheduleId, reviewId } = await heldRun();
+
+    fixture.admin.declineReview(reviewId, { reason: "Não reconhecida" });
+    assert.equal(storedStatus(scheduleId), "FAILED");
+    assert.deepEqual(fixture.fraud.pendingReviews(), []);
+  });
+
+  it("não transfere a execução retida de agendamento cancelado", async () => {
+    const { source, scheduleId, reviewId } = await heldRun();
+
+    fixture.scheduler.cancel(source, scheduleId);
+    await assert.rejects(
+      fixture.admin.approveReview(reviewId, { reason: "Confirmado" }),
+      OperationNotAllowedError
+    );
+    assert.equal(fixture.service.getBalance(source).toString(), "1000.00");
+    assert.equal(storedStatus(scheduleId), "CANCELLED");
+  });
+});
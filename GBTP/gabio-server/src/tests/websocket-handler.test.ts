@@ -0,0 +1,146 @@
+import { afterEach, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  connect,
+  createFixture,
+  Fixture,
+  startServer,
+  TestConnection,
+  TestServer,
+} from "./fixtures";
+import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { TEXT_CODEC } from "../protocol/gbtp-codec";
+
+/**
+ * Aguarda as mensagens já enviadas chegarem ao servidor.
+ */
+function pause(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 100));
+}
+
+describe("WebSocketHandler pipelining", () => {
+  let fixture: Fixture;
+  let server: TestServer;
+  afterEach(async () => {
+    await server.close();
+    await fixture.cleanup();
+  });
+
+  /**
+   * Inicia o servidor e abre uma conexão autenticada na conta informada.
+   */
+  async function login(account: string): Promise<TestConnection> {
+    server = await startServer(fixture);
+    const connection = await connect(server.url);
+    connection.send(
+      new GBTPRequest("LOGIN", account, undefined, "0", {
+        password: "1234",
+      }).encode(TEXT_CODEC)
+    );
+    assert.equal(await next(connection), "OK");
+    return connection;
+  }
+
+  /**
+   * Envia um depósito, com CORRELATION_ID se informado.
+   */
+  function deposit(
+    connection: TestConnection,
+    account: string,
+    value: string,
+    correlationId?: string
+  ): void {
+    connection.send(
+      new GBTPRequest("DEPOSIT", account, undefined, value, {
+        correlationId,
+      }).encode(TEXT_CODEC)
+    );
+  }
+
+  /**
+   * Aguarda a próxima resposta e a resume como "CORRELATION_ID:BALANCE" (ou
+   * o STATUS, se não houver CORRELATION_ID).
+   */
+  async function next(connection: TestConnection): Promise<string> {
+    const response = GBTPResponse.fromString(await connection.receive());
+    const correlationId = response.correlationId?.identifier();
+    return correlationId
+      ? `${correlationId}:${response.balance.quantity()}`
+      : response.status.statusMessage();
+  }
+
+  /**
+   * Retém no controlador a requisição com o CORRELATION_ID informado até a
+   * liberação pelo teste.
+   * @returns Promise resolvida quando a requisição chega ao controlador e
+   *          função que a libera
+   */
+  function hold(correlationId: string) {
+    let entered!: () => void;
+    let release!: () => void;
+    const arrived = new Promise<void>((resolve) => (entered = resolve));
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const process = fixture.controller.process.bind(fixture.controller);
+    fixture.controller.process = async (request, session) => {
+      if (request.correlationId?.identifier() === correlationId) {
+        entered();
+        await gate;
+      }
+      return process(request, session);
+    };
+    return { arrived, release };
+  }
+
+  it("ecoa o CORRELATION_ID, inclusive em mensagens inválidas", async () => {
+    fixture = createFixture();
+    const account = fixture.open("0.00");
+    const connection = await login(account);
+
+    deposit(connection, account, "10.00", "abc-1");
+    assert.equal(await next(connection), "abc-1:10.00");
+
+    connection.send("OPERATION:DEPOSIT\nCORRELATION_ID:abc-2\nVALUE:1");
+    const invalid = GBTPResponse.fromString(await connection.receive());
+    assert.equal(invalid.code?.errorCode(), "MALFORMED_REQUEST");
+    assert.equal(invalid.correlationId?.identifier(), "abc-2");
+  });
+
+  it("responde fora de ordem apenas entre contas diferentes", async () => {
+    fixture = createFixture();
+    const slow = fixture.open("0.00");
+    const fast = fixture.open("0.00");
+    const connection = await login(slow);
+
+    // Sem a ordem por conta, s-2 seria respondido antes de s-1
+    const held = hold("s-1");
+    deposit(connection, slow, "10.00", "s-1");
+    deposit(connection, fast, "5.00", "f-1");
+    deposit(connection, slow, "1.00", "s-2");
+    assert.equal(await next(connection), "f-1:0");
+    await pause();
+    held.release();
+    assert.equal(await next(connection), "s-1:10.00");
+    assert.equal(await next(connection), "s-2:11.00");
+  });
+
+  it("responde em ordem as requisições sem CORRELATION_ID", async () => {
+    fixture = createFixture();
+    const account = fixture.open("0.00");
+    const other = fixture.open("0.00");
+    const connection = await login(account);
+
+    const held = hold("a-1");
+    // A barreira sem CORRELATION_ID espera a requisição anterior, mesmo de
+    // outra conta, e é esperada pela seguinte
+    deposit(connection, account, "10.00", "a-1");
+    deposit(connection, other, "5.00");
+    deposit(connection, other, "1.00", "o-1");
+    await held.arrived;
+    await pause();
+    held.release();
+    assert.equal(await next(connection), "a-1:10.00");
+    assert.equal(await next(connection), "OK");
+    assert.equal(await next(connection), "o-1:0");
+    assert.equal(fixture.service.getBalance(other).toString(), "6.00");
+  });
+});
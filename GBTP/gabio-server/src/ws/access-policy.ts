@@ -0,0 +1,121 @@
+/**
+ * AccessPolicy
+ *
+ * Controle de acesso ao WebSocket, aplicado no upgrade da conexão (antes de
+ * qualquer mensagem GBTP):
+ * - Origens permitidas: se a lista não estiver vazia, o cabeçalho Origin
+ *   enviado pelo navegador deve ser uma das origens listadas
+ *   ("https://app.gabio.bank"). Clientes que não enviam Origin (CLI, cliente
+ *   TypeScript, outros servidores) não são afetados.
+ * - IPs negados: conexões de endereços em uma das faixas CIDR negadas são
+ *   recusadas (a lista de negados prevalece sobre a de permitidos).
+ * - IPs permitidos: se a lista não estiver vazia, apenas endereços em uma das
+ *   faixas CIDR listadas são aceitos.
+ *
+ * As faixas aceitam IPv4 e IPv6, com ou sem prefixo ("10.0.0.0/8",
+ * "2001:db8::/32", "127.0.0.1"). Endereços IPv4 mapeados em IPv6
+ * ("::ffff:10.0.0.1") são tratados como IPv4.
+ */
+import { BlockList, isIP } from "net";
+
+/**
+ * Faixa de endereços (CIDR).
+ */
+export interface Subnet {
+  address: string;
+  prefix: number;
+  type: "ipv4" | "ipv6";
+}
+
+/**
+ * Converte uma faixa CIDR ou um endereço IP isolado em Subnet.
+ * @param text - Faixa ("10.0.0.0/8") ou endereço ("10.0.0.1")
+ * @throws Error se o endereço ou o prefixo forem inválidos
+ */
+export function parseSubnet(text: string): Subnet {
+  const [address, prefixText, ...rest] = text.trim().split("/");
+  const version = isIP(address);
+  const max = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? max : Number(prefixText);
+  if (
+    version === 0 ||
+    rest.length > 0 ||
+    (prefixText !== undefined && !/^\d+$/.test(prefixText)) ||
+    prefix > max
+  ) {
+    throw new Error(`faixa de IP inválida: ${text}`);
+  }
+  return { address, prefix, type: version === 4 ? "ipv4" : "ipv6" };
+}
+
+/**
+ * Normaliza uma origem para comparação (minúsculas, sem "/" final).
+ * @param origin - Origem ("https://app.gabio.bank")
+ */
+export function normalizeOrigin(origin: string): string {
+  return origin.trim().toLowerCase().replace(/\/+$/, "");
+}
+
+export class AccessPolicy {
+  private readonly origins: Set<string>;
+  private readonly allowed?: BlockList;
+  private readonly denied?: BlockList;
+
+  /**
+   * @param allowedOrigins - Origens permitidas (vazia: qualquer origem)
+   * @param allowedIps     - Faixas CIDR permitidas (vazia: qualquer endereço)
+   * @param deniedIps      - Faixas CIDR negadas
+   * @throws Error se alguma faixa for inválida
+   */
+  constructor(
+    allowedOrigins: string[] = [],
+    allowedIps: string[] = [],
+    deniedIps: string[] = []
+  ) {
+    this.origins = new Set(allowedOrigins.map(normalizeOrigin));
+    this.allowed = allowedIps.length > 0 ? blockList(allowedIps) : undefined;
+    this.denied = deniedIps.length > 0 ? blockList(deniedIps) : undefined;
+  }
+
+  /**
+   * Indica se a origem informada no upgrade é aceita.
+   * @param origin - Cabeçalho Origin (ausente em clientes fora do navegador)
+   */
+  public isOriginAllowed(origin: string | undefined): boolean {
+    if (origin === undefined || this.origins.size === 0) {
+      return true;
+    }
+    return this.origins.has(normalizeOrigin(origin));
+  }
+
+  /**
+   * Indica se o endereço do cliente é aceito.
+   * @param address - Endereço remoto do socket (ausente se já desconectado)
+   */
+  public isAddressAllowed(address: string | undefined): boolean {
+    if (!this.allowed && !this.denied) {
+      return true;
+    }
+    if (address === undefined) {
+      return false;
+    }
+    const ip = address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "");
+    const type = isIP(ip) === 4 ? "ipv4" : "ipv6";
+    if (this.denied?.check(ip, type)) {
+      return false;
+    }
+    return !this.allowed || this.allowed.check(ip, type);
+  }
+}
+
+/**
+ * Monta um BlockList com as faixas informadas.
+ */
+function blockList(subnets: string[]): BlockList {
+  const list = new BlockList();
+  for (const text of subnets) {
+    const { address, prefix, type } = parseSubnet(text);
+    list.addSubnet(address, prefix, type);
+  }
+  return list;
+}
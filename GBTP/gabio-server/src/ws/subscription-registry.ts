@@ -0,0 +1,79 @@
+/**
+ * Registro de inscrições em eventos de saldo, compartilhado por todas as
+ * conexões do servidor.
+ *
+ * Cada conexão (Subscriber) pode se inscrever em uma ou mais contas e recebe
+ * um GBTPEvent sempre que o saldo de uma delas for alterado.
+ */
+
+import { GBTPEvent } from "../protocol/gbtp";
+
+/**
+ * Destinatário de eventos GBTP (normalmente um WebSocketHandler).
+ */
+export interface Subscriber {
+  /**
+   * Entrega um evento ao destinatário.
+   * @param {GBTPEvent} event Evento a ser entregue.
+   */
+  notify(event: GBTPEvent): void;
+}
+
+/**
+ * Classe que mantém as inscrições por conta e distribui os eventos.
+ */
+export class SubscriptionRegistry {
+  // Inscritos de cada conta.
+  private subscribers: Map<string, Set<Subscriber>> = new Map();
+
+  /**
+   * Inscreve o destinatário nos eventos da conta.
+   * @param accountId ID da conta.
+   * @param subscriber Destinatário dos eventos.
+   */
+  public subscribe(accountId: string, subscriber: Subscriber): void {
+    let set = this.subscribers.get(accountId);
+    if (!set) {
+      set = new Set();
+      this.subscribers.set(accountId, set);
+    }
+    set.add(subscriber);
+  }
+
+  /**
+   * Cancela a inscrição do destinatário nos eventos da conta.
+   * @param accountId ID da conta.
+   * @param subscriber Destinatário dos eventos.
+   */
+  public unsubscribe(accountId: string, subscriber: Subscriber): void {
+    const set = this.subscribers.get(accountId);
+    if (!set) {
+      return;
+    }
+    set.delete(subscriber);
+    if (set.size === 0) {
+      this.subscribers.delete(accountId);
+    }
+  }
+
+  /**
+   * Cancela todas as inscrições do destinatário (p. ex. ao desconectar).
+   * @param subscriber Destinatário dos eventos.
+   */
+  public unsubscribeAll(subscriber: Subscriber): void {
+    for (const accountId of [...this.subscribers.keys()]) {
+      this.unsubscribe(accountId, subscriber);
+    }
+  }
+
+  /**
+   * Entrega o evento a todos os inscritos na conta informada.
+   * @param accountId ID da conta afetada.
+   * @param event Evento a ser entregue.
+   */
+  public publish(accountId: string, event: GBTPEvent): void {
+    for (const subscriber of this.subscribers.get(accountId) ?? []) {
+      subscriber.notify(event);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Certificados TLS do servidor WebSocket (wss://).
+ *
+ * O certificado e a chave privada são lidos de arquivos locais, no formato
+ * PEM (o certificado pode incluir a cadeia intermediária). CertificateReloader
+ * verifica periodicamente os arquivos e, quando algum deles muda (p. ex. na
+ * renovação do certificado), aplica o novo par ao servidor sem reiniciá-lo:
+ * as conexões abertas mantêm a sessão TLS atual e as novas usam o novo
+ * certificado. Se o novo par for inválido (p. ex. apenas o certificado foi
+ * substituído até o momento), o par anterior continua em uso até a próxima
+ * alteração.
+ */
+import * as fs from "fs";
+import * as tls from "tls";
+import { ConfigError } from "../errors/config-error";
+import { logger } from "../services/logger";
+
+/**
+ * Intervalo padrão entre verificações dos arquivos, em segundos.
+ */
+const DEFAULT_RELOAD_INTERVAL_SECONDS = 30;
+
+/**
+ * Par certificado/chave lido dos arquivos.
+ */
+export interface TlsCredentials {
+  cert: Buffer;
+  key: Buffer;
+}
+
+/**
+ * Lê e valida o certificado e a chave.
+ *
+ * @param certPath - Arquivo do certificado (PEM)
+ * @param keyPath  - Arquivo da chave privada (PEM)
+ * @returns par lido
+ * @throws ConfigError se algum arquivo não puder ser lido ou se o par for
+ *         inválido (formato, ou chave que não corresponde ao certificado)
+ */
+export function readCertificates(
+  certPath: string,
+  keyPath: string
+): TlsCredentials {
+  let credentials: TlsCredentials;
+  try {
+    credentials = {
+      cert: fs.readFileSync(certPath),
+      key: fs.readFileSync(keyPath),
+    };
+    tls.createSecureContext(credentials);
+  } catch (err) {
+    throw new ConfigError([
+      `Certificado TLS inválido (${certPath}, ${keyPath}): ${(err as Error).message}`,
+    ]);
+  }
+  return credentials;
+}
+
+export class CertificateReloader {
+  private readonly intervalMs: number;
+  private watching = false;
+  private readonly onChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      this.reload();
+    }
+  };
+
+  /**
+   * O recarregamento só começa após start().
+   *
+   * @param server          - Servidor TLS que recebe o novo par
+   * @param certPath        - Arquivo do certificado
+   * @param keyPath         - Arquivo da chave privada
+   * @param intervalSeconds - Intervalo entre verificações em segundos (opcional)
+   * @throws Error se o intervalo não for um inteiro positivo
+   */
+  constructor(
+    private readonly server: tls.Server,
+    private readonly certPath: string,
+    private readonly keyPath: string,
+    intervalSeconds: number = DEFAULT_RELOAD_INTERVAL_SECONDS
+  ) {
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds <= 0) {
+      throw new Error(
+        `Intervalo de recarga do certificado inválido: ${intervalSeconds}`
+      );
+    }
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  /**
+   * Começa a verificar os arquivos. Chamadas repetidas não têm efeito.
+   */
+  public start(): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+    for (const file of [this.certPath, this.keyPath]) {
+      fs.watchFile(
+        file,
+        { interval: this.intervalMs, persistent: false },
+        this.onChange
+      );
+    }
+  }
+
+  /**
+   * Para de verificar os arquivos.
+   */
+  public stop(): void {
+    for (const file of [this.certPath, this.keyPath]) {
+      fs.unwatchFile(file, this.onChange);
+    }
+    this.watching = false;
+  }
+
+  /**
+   * Relê os arquivos e aplica o par ao servidor, se for válido.
+   * @returns true se o novo par foi aplicado
+   */
+  public reload(): boolean {
+    try {
+      this.server.setSecureContext(
+        readCertificates(this.certPath, this.keyPath)
+      );
+    } catch (err) {
+      const problems =
+        err instanceof ConfigError ? err.problems : [(err as Error).message];
+      logger.warn(
+        "Certificado TLS não recarregado; o anterior continua em uso",
+        { problems }
+      );
+      return false;
+    }
+    logger.info("Certificado TLS recarregado", { certPath: this.certPath });
+    return true;
+  }
+}
@@ -3,70 +3,559 @@
  * utilizando o protocolo GBTP.
  *
  * Esta classe escuta eventos de mensagem, fechamento e erro do WebSocket,
- * processando requisições recebidas e enviando respostas apropriadas.
+ * processando requisições recebidas e enviando respostas apropriadas, além de
+ * entregar os eventos de saldo das contas em que a conexão está inscrita.
+ *
+ * A codificação da conexão (texto ou JSON, ver GBTPCodec) é a do subprotocolo
+ * WebSocket negociado ("gbtp-text" ou "gbtp-json"). Sem subprotocolo, ela é
+ * detectada na primeira mensagem recebida e mantida até o fim da conexão.
+ * Respostas e eventos são enviados na mesma codificação.
+ *
+ * Ordem de processamento (pipelining): o cliente pode enviar várias
+ * requisições sem aguardar as respostas.
+ * - Requisições com CORRELATION_ID são processadas concorrentemente, exceto
+ *   as que envolvem uma mesma conta (principal, destino ou destino de uma
+ *   operação de BATCH), que seguem a ordem de chegada. A resposta ecoa o
+ *   CORRELATION_ID e pode chegar fora de ordem.
+ * - Requisições sem CORRELATION_ID, as que alteram a sessão (LOGIN, LOGOUT,
+ *   OPEN, CLOSE) e as mensagens inválidas são barreiras: aguardam todas as
+ *   anteriores e são aguardadas por todas as seguintes, de modo que clientes
+ *   que não usam CORRELATION_ID recebem as respostas na ordem das requisições.
+ *
+ * Cada requisição respondida é registrada no log estruturado (sem a mensagem
+ * bruta; contas e valores mascarados) e nas métricas (MetricsService), com a
+ * latência medida a partir do início do processamento.
+ *
+ * Proteção contra abuso (ConnectionLimits): mensagens acima do tamanho máximo
+ * (MESSAGE_TOO_LARGE), acima da vazão da conexão ou acima da vazão da conta
+ * autenticada na sessão (ou, sem autenticação, do endereço IP do cliente),
+ * compartilhada por todas as conexões (RATE_LIMITED), recebem uma resposta de
+ * erro e a conexão é encerrada (códigos 1009 e 1008); respostas ainda
+ * pendentes são descartadas. A conexão também é encerrada se ficar sem
+ * enviar mensagens por idleTimeoutMs ou se não responder a um ping do
+ * heartbeat até o ping seguinte.
  */
 
-import { WebSocket } from "ws";
-import { GBTPRequest, GBTPResponse } from "../protocol/gbtp";
+import { RawData, WebSocket } from "ws";
+import { randomUUID } from "crypto";
+import { GBTPEvent, GBTPRequest, GBTPResponse } from "../protocol/gbtp";
 import { BankController } from "../controllers/bank-controller";
+import { Session } from "../models/session";
+import { Subscriber, SubscriptionRegistry } from "./subscription-registry";
+import {
+  GBTPError,
+  MessageTooLargeError,
+  RateLimitedError,
+  UnsupportedVersionError,
+  errorCode,
+} from "../errors/gbtp-error";
+import { Version } from "../protocol/entities/version";
+import { GBTPCodec, TEXT_CODEC } from "../protocol/gbtp-codec";
+import { codecByName, detectCodec } from "../protocol/json-codec";
+import { MetricsService, UNKNOWN_OPERATION } from "../services/metrics-service";
+import { Logger, logger } from "../services/logger";
+import { RateLimiter, TokenBucket } from "../services/rate-limiter";
+
+/**
+ * Operações que alteram a sessão da conexão e, por isso, nunca são processadas
+ * concorrentemente com outras requisições.
+ */
+const SESSION_OPERATIONS = ["LOGIN", "LOGOUT", "OPEN", "CLOSE"];
+
+/**
+ * Códigos de fechamento do WebSocket usados ao exceder um limite.
+ */
+const CLOSE_POLICY_VIOLATION = 1008;
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+/**
+ * Limites de uma conexão.
+ *
+ * - maxMessageSize: tamanho máximo de uma mensagem, em bytes.
+ * - messageRate / messageBurst: vazão de mensagens da conexão (por segundo)
+ *   e rajada máxima.
+ * - accounts: vazão de requisições por conta autenticada, compartilhada pelas
+ *   conexões.
+ * - addresses: vazão de requisições sem autenticação por endereço IP,
+ *   compartilhada pelas conexões.
+ * - heartbeatIntervalMs: intervalo entre pings.
+ * - idleTimeoutMs: tempo máximo sem mensagens do cliente.
+ */
+export interface ConnectionLimits {
+  maxMessageSize: number;
+  messageRate: number;
+  messageBurst: number;
+  accounts: RateLimiter;
+  addresses: RateLimiter;
+  heartbeatIntervalMs: number;
+  idleTimeoutMs: number;
+}
 
 /**
  * Classe que gerencia a comunicação via WebSocket com o cliente,
- * processando requisições GBTP e enviando respostas.
+ * processando requisições GBTP e enviando respostas e eventos.
  */
-export class WebSocketHandler {
-  // Instância do controlador responsável pelo processamento das requisições.
-  private controller = new BankController();
+export class WebSocketHandler implements Subscriber {
+  // Sessão de autenticação vinculada a esta conexão.
+  private session = new Session();
+  // Última barreira (requisição processada em ordem total) desta conexão.
+  private barrier: Promise<void> = Promise.resolve();
+  // Requisições concorrentes em andamento desde a última barreira.
+  private inFlight = new Set<Promise<void>>();
+  // Última requisição concorrente em andamento de cada conta.
+  private tails = new Map<string, Promise<void>>();
+  // Codificação da conexão (indefinida até a primeira mensagem, se nenhum
+  // subprotocolo tiver sido negociado).
+  private codec?: GBTPCodec;
+  // Log com o identificador desta conexão em todos os registros.
+  private readonly log: Logger;
+  // Vazão de mensagens desta conexão.
+  private readonly bucket: TokenBucket;
+  // Encerra a conexão após idleTimeoutMs sem mensagens.
+  private readonly idleTimer: NodeJS.Timeout;
+  // Envia um ping a cada heartbeatIntervalMs.
+  private readonly heartbeat: NodeJS.Timeout;
+  // Indica se o último ping foi respondido.
+  private alive = true;
+  // Indica se a conexão já foi encerrada por um limite.
+  private refused = false;
 
   /**
    * Inicializa o handler e registra os eventos do WebSocket.
    * @param ws Instância do WebSocket conectada ao cliente.
+   * @param controller Controlador compartilhado que processa as requisições.
+   * @param subscriptions Registro compartilhado de inscrições em eventos.
+   * @param metrics Métricas compartilhadas do servidor.
+   * @param limits Limites de tamanho, vazão e inatividade da conexão.
+   * @param address Endereço IP do cliente.
    */
-  constructor(private ws: WebSocket) {
-    // Evento disparado ao receber uma mensagem do cliente.
-    ws.on("message", (data: any) => {
-      const raw = data.toString();
-      console.log("Mensagem recebida:\n", raw);
-
-      let request: GBTPRequest;
-      try {
-        // Tenta converter e validar a requisição recebida.
-        request = GBTPRequest.fromString(raw);
-        request.validate();
-      } catch (e: any) {
-        // Em caso de erro, envia resposta de erro ao cliente.
-        const errResp = new GBTPResponse("ERROR", e.message, "0");
-        ws.send(errResp.toString());
-        return;
-      }
+  constructor(
+    private ws: WebSocket,
+    private controller: BankController,
+    private subscriptions: SubscriptionRegistry,
+    private metrics: MetricsService,
+    private limits: ConnectionLimits,
+    private address: string
+  ) {
+    this.codec = codecByName(ws.protocol, limits.maxMessageSize);
+    this.log = logger.child({ connectionId: randomUUID() });
+    this.bucket = new TokenBucket(limits.messageRate, limits.messageBurst);
+    this.metrics.connectionOpened();
+    this.log.info("Cliente conectado", {
+      protocol: ws.protocol || undefined,
+    });
 
-      // Processa a requisição utilizando o controlador.
-      const response = this.controller.process(request);
+    // Inatividade: o prazo é reiniciado a cada mensagem recebida.
+    this.idleTimer = setTimeout(() => {
+      this.log.info("Conexão encerrada por inatividade");
+      this.ws.close(1000, "Conexão inativa");
+    }, limits.idleTimeoutMs);
 
-      try {
-        // Valida a resposta antes de enviar.
-        response.validate();
-      } catch (e: any) {
-        // Em caso de erro na resposta, envia resposta de erro ao cliente.
-        const errResp = new GBTPResponse("ERROR", e.message, "0");
-        ws.send(errResp.toString());
+    // Heartbeat: sem pong até o próximo ping, a conexão é considerada morta.
+    this.heartbeat = setInterval(() => {
+      if (this.ws.readyState !== WebSocket.OPEN) {
         return;
       }
+      if (!this.alive) {
+        this.log.warn("Conexão sem resposta ao ping");
+        this.ws.terminate();
+        return;
+      }
+      this.alive = false;
+      this.ws.ping();
+    }, limits.heartbeatIntervalMs);
+    ws.on("pong", () => {
+      this.alive = true;
+    });
 
-      // Serializa e envia a resposta ao cliente.
-      const serialized = response.toString();
-      ws.send(serialized);
-      console.log("Resposta enviada:\n", serialized);
+    // Evento disparado ao receber uma mensagem do cliente, que é conferida
+    // contra os limites e agendada conforme as regras de ordem da conexão.
+    ws.on("message", (data: RawData) => {
+      if (this.refused) {
+        return;
+      }
+      this.idleTimer.refresh();
+      const bytes = messageSize(data);
+      this.log.debug("Mensagem recebida", { bytes });
+      if (bytes > limits.maxMessageSize) {
+        this.refuse(
+          new MessageTooLargeError(
+            `Mensagem acima de ${limits.maxMessageSize} bytes`
+          ),
+          CLOSE_MESSAGE_TOO_BIG
+        );
+        return;
+      }
+      const raw = data.toString();
+      if (!this.bucket.take()) {
+        this.refuse(
+          new RateLimitedError("Limite de mensagens da conexão excedido"),
+          CLOSE_POLICY_VIOLATION,
+          GBTPRequest.correlationIdOf(
+            raw,
+            this.codec ?? detectCodec(raw, limits.maxMessageSize)
+          )
+        );
+        return;
+      }
+      this.enqueue(raw);
     });
 
     // Evento disparado quando o cliente desconecta.
     ws.on("close", () => {
-      console.log("Cliente desconectado.");
+      clearTimeout(this.idleTimer);
+      clearInterval(this.heartbeat);
+      this.subscriptions.unsubscribeAll(this);
+      this.session.logout();
+      this.metrics.connectionClosed();
+      this.log.info("Cliente desconectado");
     });
 
     // Evento disparado em caso de erro na conexão WebSocket.
-    ws.on("error", (err) => {
-      console.error("Erro no WebSocket:", err);
+    // Mensagens acima de maxPayload são descartadas pela biblioteca, que
+    // encerra a conexão (1009) sem resposta GBTP.
+    ws.on("error", (err: Error & { code?: string }) => {
+      if (err.code === "WS_ERR_UNSUPPORTED_MESSAGE_LENGTH") {
+        this.log.warn("Conexão encerrada por limite excedido", {
+          code: "MESSAGE_TOO_LARGE",
+        });
+        return;
+      }
+      this.log.error("Erro no WebSocket", { error: err });
+    });
+  }
+
+  /**
+   * Converte a mensagem recebida e agenda seu processamento: após a última
+   * barreira e, se concorrente, após as requisições em andamento das mesmas
+   * contas; se barreira, após todas as requisições em andamento.
+   * @param raw Texto da mensagem.
+   */
+  private enqueue(raw: string): void {
+    this.codec ??= detectCodec(raw, this.limits.maxMessageSize);
+    const codec = this.codec;
+    let request: GBTPRequest | undefined;
+    let failure: unknown;
+    try {
+      // Tenta converter e validar a requisição recebida.
+      request = GBTPRequest.fromString(raw, codec);
+      request.validate();
+    } catch (e) {
+      failure = e;
+    }
+
+    const run = () => {
+      if (this.refused) {
+        return;
+      }
+      if (request) {
+        return this.handleRequest(request, codec);
+      }
+      this.rejectMessage(raw, failure, codec);
+    };
+    const keys = request ? concurrencyKeys(request) : [];
+
+    if (keys.length === 0) {
+      const task = this.settle(
+        Promise.all([this.barrier, ...this.inFlight]).then(run)
+      );
+      this.barrier = task;
+      this.inFlight.clear();
+      this.tails.clear();
+      return;
+    }
+
+    const previous = keys
+      .map((key) => this.tails.get(key))
+      .filter((tail): tail is Promise<void> => tail !== undefined);
+    const task = this.settle(
+      Promise.all([this.barrier, ...previous]).then(run)
+    );
+    this.inFlight.add(task);
+    for (const key of keys) {
+      this.tails.set(key, task);
+    }
+    void task.then(() => {
+      this.inFlight.delete(task);
+      for (const key of keys) {
+        if (this.tails.get(key) === task) {
+          this.tails.delete(key);
+        }
+      }
     });
   }
+
+  /**
+   * Registra a falha de uma tarefa sem propagá-la, para que uma mensagem com
+   * erro inesperado não interrompa as seguintes.
+   */
+  private settle(task: Promise<void>): Promise<void> {
+    return task.catch((err) =>
+      this.log.error("Erro ao processar mensagem", { error: err })
+    );
+  }
+
+  /**
+   * Consome uma ficha da vazão da conta autenticada na sessão ou, sem
+   * autenticação, do endereço IP do cliente. A conta informada na requisição
+   * não é usada, para que um cliente não esgote a vazão de contas alheias.
+   * @returns false se o limite foi excedido
+   */
+  private withinRequestRate(): boolean {
+    const accountId = this.session.account();
+    return accountId
+      ? this.limits.accounts.take(accountId)
+      : this.limits.addresses.take(this.address);
+  }
+
+  /**
+   * Responde com o erro do limite excedido e encerra a conexão. As mensagens
+   * seguintes, já recebidas, são ignoradas.
+   * @param error Erro enviado ao cliente (RATE_LIMITED ou MESSAGE_TOO_LARGE).
+   * @param closeCode Código de fechamento do WebSocket.
+   * @param correlationId CORRELATION_ID da mensagem recusada, se conhecido.
+   * @param operation Operação da mensagem recusada, se conhecida.
+   */
+  private refuse(
+    error: GBTPError,
+    closeCode: number,
+    correlationId?: string,
+    operation: string = UNKNOWN_OPERATION
+  ): void {
+    this.refused = true;
+    const response = new GBTPResponse("ERROR", error.message, "0", {
+      code: error.code,
+      correlationId,
+    });
+    this.ws.send(response.encode(this.codec ?? TEXT_CODEC));
+    this.ws.close(closeCode, error.message);
+    this.metrics.recordRequest(operation, "ERROR", 0, error.code);
+    this.log.warn("Conexão encerrada por limite excedido", {
+      operation,
+      code: error.code,
+    });
+  }
+
+  /**
+   * Responde com erro uma mensagem que não pôde ser convertida em requisição.
+   * Se a versão do protocolo não for suportada, informa a versão mais recente
+   * do servidor.
+   * @param raw Texto da mensagem.
+   * @param failure Erro de conversão ou validação.
+   * @param codec Codificação da conexão.
+   */
+  private rejectMessage(
+    raw: string,
+    failure: unknown,
+    codec: GBTPCodec
+  ): void {
+    const started = process.hrtime.bigint();
+    const code = errorCode(failure, "MALFORMED_REQUEST");
+    const message =
+      failure instanceof Error ? failure.message : "Requisição inválida";
+    const errResp = new GBTPResponse("ERROR", message, "0", {
+      code,
+      version:
+        failure instanceof UnsupportedVersionError
+          ? Version.LATEST_VERSION
+          : undefined,
+      correlationId: GBTPRequest.correlationIdOf(raw, codec),
+    });
+    this.ws.send(errResp.encode(codec));
+    const seconds = elapsedSeconds(started);
+    this.metrics.recordRequest(UNKNOWN_OPERATION, "ERROR", seconds, code);
+    this.log.info("Mensagem inválida", {
+      code,
+      durationMs: seconds * 1000,
+    });
+  }
+
+  /**
+   * Processa e responde uma requisição válida.
+   * @param request Requisição recebida.
+   * @param codec Codificação da conexão.
+   */
+  private async handleRequest(
+    request: GBTPRequest,
+    codec: GBTPCodec
+  ): Promise<void> {
+    // A vazão é conferida no início do processamento, quando a sessão já
+    // reflete o LOGIN das requisições anteriores.
+    if (!this.withinRequestRate()) {
+      this.refuse(
+        new RateLimitedError(
+          this.session.account()
+            ? "Limite de requisições da conta excedido"
+            : "Limite de requisições do endereço excedido"
+        ),
+        CLOSE_POLICY_VIOLATION,
+        request.correlationId?.identifier(),
+        request.operation.operationType()
+      );
+      return;
+    }
+
+    // Processa a requisição utilizando o controlador e responde na mesma
+    // versão do protocolo e com o mesmo CORRELATION_ID informados pelo
+    // cliente.
+    const started = process.hrtime.bigint();
+    const account = this.session.account();
+    let response: GBTPResponse;
+    try {
+      response = await this.controller.process(request, this.session);
+      response.version = request.version;
+      response.correlationId = request.correlationId;
+      // Valida a resposta antes de enviar.
+      response.validate();
+    } catch (e: unknown) {
+      // Uma falha inesperada do controlador ou uma resposta inválida é
+      // respondida com INTERNAL_ERROR, para que o cliente não fique sem
+      // resposta para o CORRELATION_ID enviado.
+      this.log.error("Falha ao processar requisição", {
+        operation: request.operation.operationType(),
+        correlationId: request.correlationId?.identifier(),
+        error: e,
+      });
+      const message =
+        e instanceof Error && e.message.trim() ? e.message : "Erro interno";
+      response = new GBTPResponse("ERROR", message, "0", {
+        code: "INTERNAL_ERROR",
+        correlationId: request.correlationId?.identifier(),
+      });
+    }
+
+    // Atualiza as inscrições conforme a operação concluída. Se a sessão foi
+    // desvinculada sem LOGOUT (conta encerrada por outra conexão), as
+    // inscrições da conta também são canceladas.
+    const status = response.status.statusMessage();
+    if (status === "OK") {
+      this.updateSubscriptions(request);
+    } else if (account && !this.session.isAuthenticated()) {
+      this.subscriptions.unsubscribeAll(this);
+    }
+
+    // Serializa e envia a resposta ao cliente.
+    this.ws.send(response.encode(codec));
+    this.record(request, status, response.code?.errorCode(), started);
+  }
+
+  /**
+   * Registra a requisição respondida nas métricas e no log.
+   * @param request Requisição processada.
+   * @param status STATUS da resposta.
+   * @param code CODE da resposta de erro.
+   * @param started Início do processamento (process.hrtime.bigint()).
+   */
+  private record(
+    request: GBTPRequest,
+    status: string,
+    code: string | undefined,
+    started: bigint
+  ): void {
+    const operation = request.operation.operationType();
+    const seconds = elapsedSeconds(started);
+    this.metrics.recordRequest(operation, status, seconds, code);
+    this.log.info("Requisição processada", {
+      operation,
+      accountId: request.account.IDNumber(),
+      destination: request.destination?.IDNumber() || undefined,
+      amount: request.value.amount().toString(),
+      correlationId: request.correlationId?.identifier(),
+      status,
+      code,
+      durationMs: seconds * 1000,
+    });
+  }
+
+  /**
+   * Envia ao cliente um evento de uma conta em que a conexão está inscrita.
+   * @param event Evento a ser enviado.
+   */
+  public notify(event: GBTPEvent): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(event.encode(this.codec ?? TEXT_CODEC));
+    }
+  }
+
+  /**
+   * Registra ou cancela inscrições após uma operação bem-sucedida:
+   * - SUBSCRIBE / UNSUBSCRIBE: inscreve ou desinscreve a conta da requisição.
+   * - LOGIN / LOGOUT / CLOSE: cancela todas as inscrições, pois pertenciam à
+   *   conta anteriormente autenticada.
+   * @param request Requisição processada com sucesso.
+   */
+  private updateSubscriptions(request: GBTPRequest): void {
+    const accountId = request.account.IDNumber();
+    switch (request.operation.operationType()) {
+      case "SUBSCRIBE":
+        this.subscriptions.subscribe(accountId, this);
+        break;
+      case "UNSUBSCRIBE":
+        this.subscriptions.unsubscribe(accountId, this);
+        break;
+      case "LOGIN":
+      case "LOGOUT":
+      case "CLOSE":
+        this.subscriptions.unsubscribeAll(this);
+        break;
+    }
+  }
+}
+
+/**
+ * Recusa uma conexão recém-aberta, antes de criar o handler: envia a resposta
+ * de erro (na codificação do subprotocolo negociado, ou texto) e encerra a
+ * conexão com o código 1008.
+ * @param ws Conexão recusada.
+ * @param error Erro enviado ao cliente.
+ */
+export function refuseConnection(ws: WebSocket, error: GBTPError): void {
+  const response = new GBTPResponse("ERROR", error.message, "0", {
+    code: error.code,
+  });
+  ws.send(response.encode(codecByName(ws.protocol) ?? TEXT_CODEC));
+  ws.close(CLOSE_POLICY_VIOLATION, error.message);
+}
+
+/**
+ * Contas que ordenam uma requisição concorrente (principal, destino e
+ * destinos das operações de BATCH). Vazio
+ * se a requisição deve ser uma barreira (sem CORRELATION_ID ou alterando a
+ * sessão).
+ */
+function concurrencyKeys(request: GBTPRequest): string[] {
+  if (
+    !request.correlationId ||
+    SESSION_OPERATIONS.includes(request.operation.operationType())
+  ) {
+    return [];
+  }
+  const keys = [request.account.IDNumber()];
+  if (request.destination) {
+    keys.push(request.destination.IDNumber());
+  }
+  for (const item of request.items) {
+    if (item.destinationId()) {
+      keys.push(item.destinationId());
+    }
+  }
+  return keys;
+}
+
+/**
+ * Tamanho de uma mensagem recebida, em bytes.
+ */
+function messageSize(data: RawData): number {
+  if (Array.isArray(data)) {
+    return data.reduce((total, chunk) => total + chunk.length, 0);
+  }
+  return data.byteLength;
+}
+
+/**
+ * Tempo decorrido desde o instante informado (process.hrtime.bigint()), em
+ * segundos.
+ */
+function elapsedSeconds(started: bigint): number {
+  return Number(process.hrtime.bigint() - started) / 1e9;
 }